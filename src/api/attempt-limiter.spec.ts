@@ -0,0 +1,46 @@
+import { AttemptLimiter } from './attempt-limiter';
+
+describe('AttemptLimiter', () => {
+  const MINUTE = 60 * 1000;
+  const START = new Date('2025-03-01T12:00:00.000Z');
+  let limiter: AttemptLimiter;
+
+  function at(minutes: number): Date {
+    return new Date(START.getTime() + minutes * MINUTE);
+  }
+
+  beforeEach(() => {
+    limiter = new AttemptLimiter(3, 15 * MINUTE, 10 * MINUTE);
+  });
+
+  it('locks a key out for the cooldown once it reaches the limit', () => {
+    limiter.recordFailure('member@library.com', at(0));
+    limiter.recordFailure('member@library.com', at(1));
+    expect(limiter.retryAfterSeconds('member@library.com', at(1))).toBe(0);
+
+    limiter.recordFailure('member@library.com', at(2));
+    expect(limiter.retryAfterSeconds('member@library.com', at(2))).toBe(10 * 60);
+    expect(limiter.retryAfterSeconds('member@library.com', at(7))).toBe(5 * 60);
+    expect(limiter.retryAfterSeconds('member@library.com', at(12))).toBe(0);
+  });
+
+  it('keeps keys apart', () => {
+    [0, 1, 2].forEach(minute => limiter.recordFailure('member@library.com', at(minute)));
+    expect(limiter.retryAfterSeconds('admin@library.com', at(2))).toBe(0);
+  });
+
+  it('forgets failures once the window has passed', () => {
+    limiter.recordFailure('member@library.com', at(0));
+    limiter.recordFailure('member@library.com', at(1));
+    limiter.recordFailure('member@library.com', at(20));
+    expect(limiter.retryAfterSeconds('member@library.com', at(20))).toBe(0);
+  });
+
+  it('starts over when a key is cleared', () => {
+    limiter.recordFailure('member@library.com', at(0));
+    limiter.recordFailure('member@library.com', at(1));
+    limiter.clear('member@library.com');
+    limiter.recordFailure('member@library.com', at(2));
+    expect(limiter.retryAfterSeconds('member@library.com', at(2))).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+interface AttemptWindow {
+  failures: number;
+  startedAt: number;
+  lockedUntil?: number;
+}
+
+/**
+ * Counts failed attempts per key (an account, an IP address) in memory and locks a key out for a
+ * cooldown once it fails too often within the window. Counts reset when the server restarts.
+ */
+export class AttemptLimiter {
+  private readonly windows = new Map<string, AttemptWindow>();
+
+  constructor(
+    private readonly maxFailures: number,
+    private readonly windowMs: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  /**
+   * Seconds until the key may try again; 0 when it is not locked out.
+   */
+  retryAfterSeconds(key: string, now: Date = new Date()): number {
+    const lockedUntil = this.current(key, now.getTime())?.lockedUntil || 0;
+    return Math.max(0, Math.ceil((lockedUntil - now.getTime()) / 1000));
+  }
+
+  recordFailure(key: string, now: Date = new Date()): void {
+    const at = now.getTime();
+    this.prune(at);
+    const window = this.current(key, at) || { failures: 0, startedAt: at };
+    window.failures++;
+    if (window.failures >= this.maxFailures) {
+      window.lockedUntil = at + this.cooldownMs;
+    }
+    this.windows.set(key, window);
+  }
+
+  clear(key: string): void {
+    this.windows.delete(key);
+  }
+
+  // The key's window, unless both it and any lockout have run out
+  private current(key: string, at: number): AttemptWindow | undefined {
+    const window = this.windows.get(key);
+    if (!window || (at - window.startedAt > this.windowMs && (window.lockedUntil || 0) <= at)) {
+      return undefined;
+    }
+    return window;
+  }
+
+  private prune(at: number): void {
+    for (const key of Array.from(this.windows.keys())) {
+      if (!this.current(key, at)) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { NextFunction, Request, Response } from 'express';
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { HttpError } from './http';
+import { MemberRecord } from './store';
+
+export type TokenType = 'access' | 'refresh' | 'reset' | 'stream';
+
+export interface TokenClaims {
+  sub: string;
+  email: string;
+  role: MemberRecord['role'];
+  typ: TokenType;
+  // Fingerprint of the password hash, so changing the password revokes refresh and reset tokens
+  pwd?: string;
+  iat: number;
+  exp: number;
+}
+
+// Lifetimes in seconds
+export const ACCESS_TOKEN_TTL = 15 * 60;
+export const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60;
+export const RESET_TOKEN_TTL = 10 * 60;
+// Only needs to last until the browser opens the notification stream with it
+export const STREAM_TOKEN_TTL = 60;
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+export function passwordFingerprint(member: MemberRecord): string {
+  return createHash('sha256').update(member.passwordHash).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Signs and verifies HS256 JSON Web Tokens.
+ */
+export class TokenSigner {
+  constructor(private readonly secret: string) {}
+
+  sign(member: MemberRecord, typ: TokenType, ttlSeconds: number): string {
+    const now = Math.floor(Date.now() / 1000);
+    const claims: TokenClaims = {
+      sub: member.id,
+      email: member.email,
+      role: member.role,
+      typ,
+      pwd: typ === 'access' ? undefined : passwordFingerprint(member),
+      iat: now,
+      exp: now + ttlSeconds
+    };
+
+    const unsigned = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`;
+    return `${unsigned}.${this.signature(unsigned)}`;
+  }
+
+  /**
+   * Verify signature, expiry and token type. Throws a 401 HttpError when any check fails.
+   */
+  verify(token: string | undefined, typ: TokenType): TokenClaims {
+    const [header, payload, signature] = (token || '').split('.');
+    if (!header || !payload || !signature) {
+      throw new HttpError(401, 'Authentication required.');
+    }
+
+    const expected = Buffer.from(this.signature(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new HttpError(401, 'Invalid token.');
+    }
+
+    let claims: TokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    } catch {
+      throw new HttpError(401, 'Invalid token.');
+    }
+
+    if (claims.typ !== typ) {
+      throw new HttpError(401, 'Invalid token.');
+    }
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+      throw new HttpError(401, 'Token has expired.');
+    }
+    return claims;
+  }
+
+  issueSession(member: MemberRecord): { token: string; refreshToken: string } {
+    return {
+      token: this.sign(member, 'access', ACCESS_TOKEN_TTL),
+      refreshToken: this.sign(member, 'refresh', REFRESH_TOKEN_TTL)
+    };
+  }
+
+  private signature(unsigned: string): string {
+    return createHmac('sha256', this.secret).update(unsigned).digest('base64url');
+  }
+}
+
+export function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+}
+
+/**
+ * Middleware rejecting requests without a valid access token.
+ * The verified claims are available to later handlers through `authClaims(res)`.
+ */
+export function requireAuth(signer: TokenSigner) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    res.locals['auth'] = signer.verify(bearerToken(req), 'access');
+    next();
+  };
+}
+
+export function authClaims(res: Response): TokenClaims {
+  const claims = res.locals['auth'] as TokenClaims | undefined;
+  if (!claims) {
+    throw new HttpError(401, 'Authentication required.');
+  }
+  return claims;
+}
+
+/**
+ * Middleware allowing only the given roles, based on the role claim of the verified access token.
+ * Must run after `requireAuth`.
+ */
+export function requireRole(...roles: MemberRecord['role'][]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!roles.includes(authClaims(res).role)) {
+      throw new HttpError(403, 'You do not have permission to perform this action.');
+    }
+    next();
+  };
+}
+
+export function isAdmin(res: Response): boolean {
+  return authClaims(res).role === 'ADMIN';
+}
+
+// Members may only act on their own records; admins may act on anyone's
+export function assertMemberAccess(res: Response, memberId: string | undefined): void {
+  const claims = authClaims(res);
+  if (claims.role !== 'ADMIN' && claims.sub !== memberId) {
+    throw new HttpError(403, 'You can only access your own records.');
+  }
+}
+
+/**
+ * Member a list or search endpoint is limited to: members always get their own records,
+ * admins get the requested member or everyone.
+ */
+export function memberScope(res: Response, requested: string | undefined): string | undefined {
+  return isAdmin(res) ? requested : authClaims(res).sub;
+}
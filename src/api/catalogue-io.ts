@@ -0,0 +1,256 @@
+import { extname } from 'node:path';
+import { Book, CatalogueFormat, ImportPreview, ImportRow, ImportedBook } from '../app/models/book.model';
+import { cleanIsbn, isbnKey, normalizeIsbn } from '../app/utils/isbn';
+import { parseCsv, toCsv } from './csv';
+import { HttpError } from './http';
+import { MarcParseError, MarcRecord, parseIso2709, parseMarcXml, subfield, writeIso2709, writeMarcXml } from './marc';
+import { LibraryData } from './store';
+
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_COPIES_PER_TITLE = 500;
+
+const DEFAULT_CATEGORY = 'General';
+
+// Local holdings field carrying the number of copies, so exports round-trip
+const COPIES_TAG = '999';
+const COPIES_CODE = 'c';
+
+// Accepted CSV headers, compared lower-case without spaces or punctuation
+const CSV_COLUMNS: { [header: string]: keyof ImportedBook } = {
+  title: 'title',
+  author: 'author',
+  category: 'category',
+  genre: 'category',
+  isbn: 'isbn',
+  description: 'description',
+  totalcopies: 'totalCopies',
+  copies: 'totalCopies',
+  publishyear: 'publishYear',
+  year: 'publishYear'
+};
+
+const CSV_EXPORT_HEADER = ['id', 'title', 'author', 'category', 'isbn', 'description', 'totalCopies', 'availableCopies', 'publishYear'];
+
+export interface CatalogueExport {
+  body: string | Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export function isCatalogueFormat(value: string | undefined): value is CatalogueFormat {
+  return value === 'csv' || value === 'marc' || value === 'marcxml';
+}
+
+/**
+ * Pick the format from the file extension, falling back to sniffing the content.
+ */
+export function detectFormat(fileName: string, content: Buffer): CatalogueFormat {
+  const extension = extname(fileName).toLowerCase();
+  if (extension === '.csv') return 'csv';
+  if (extension === '.xml') return 'marcxml';
+  if (['.mrc', '.marc', '.iso', '.dat'].includes(extension)) return 'marc';
+
+  const head = content.toString('latin1', 0, 64).replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('<')) return 'marcxml';
+  if (/^\d{5}/.test(head) && head.slice(20, 24) === '4500') return 'marc';
+  return 'csv';
+}
+
+/**
+ * Read an uploaded catalogue file into unvalidated records numbered from 1.
+ */
+export function readCatalogueFile(format: CatalogueFormat, content: Buffer): ImportedBook[] {
+  let books: ImportedBook[];
+  try {
+    books = format === 'csv'
+      ? readCsv(content.toString('utf-8'))
+      : (format === 'marc' ? parseIso2709(content) : parseMarcXml(content.toString('utf-8'))).map(marcToBook);
+  } catch (error) {
+    if (error instanceof MarcParseError) {
+      throw new HttpError(400, `Could not read the MARC file: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (books.length === 0) {
+    throw new HttpError(400, 'The file does not contain any catalogue records.');
+  }
+  if (books.length > MAX_IMPORT_ROWS) {
+    throw new HttpError(413, `Imports are limited to ${MAX_IMPORT_ROWS} records per file.`);
+  }
+  return books;
+}
+
+function readCsv(text: string): ImportedBook[] {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map(name => CSV_COLUMNS[name.toLowerCase().replace(/[^a-z]/g, '')]);
+  if (!columns.includes('title') || !columns.includes('isbn')) {
+    throw new HttpError(400, 'The CSV header must include at least title and isbn columns.');
+  }
+
+  return rows.map(cells => {
+    const values: { [field: string]: string } = {};
+    columns.forEach((field, index) => {
+      if (field && values[field] === undefined) {
+        values[field] = (cells[index] || '').trim();
+      }
+    });
+
+    return {
+      title: values['title'] || '',
+      author: values['author'] || '',
+      category: values['category'] || '',
+      isbn: values['isbn'] || '',
+      description: values['description'] || '',
+      totalCopies: values['totalCopies'] ? Number(values['totalCopies']) : 1,
+      publishYear: values['publishYear'] ? Number(values['publishYear']) : undefined
+    };
+  });
+}
+
+// Strip the ISBD punctuation MARC cataloguers leave at the end of subfields
+function cleanMarc(value: string | undefined): string {
+  return (value || '').replace(/\s*[/:;,.=]\s*$/, '').trim();
+}
+
+function marcToBook(record: MarcRecord): ImportedBook {
+  const title = [subfield(record, '245', 'a'), subfield(record, '245', 'b')].map(cleanMarc).filter(Boolean).join(': ');
+  const isbn = (subfield(record, '020', 'a') || '').trim().split(/\s+/)[0];
+  const dateField = subfield(record, '264', 'c') || subfield(record, '260', 'c');
+  const fixedData = record.fields.find(field => field.tag === '008')?.value || '';
+  const year = /\d{4}/.exec(dateField || '')?.[0] || (/^\d{4}$/.test(fixedData.slice(7, 11)) ? fixedData.slice(7, 11) : undefined);
+  const copies = subfield(record, COPIES_TAG, COPIES_CODE);
+
+  return {
+    title,
+    author: cleanMarc(subfield(record, '100', 'a') || subfield(record, '110', 'a') || subfield(record, '700', 'a')),
+    category: cleanMarc(subfield(record, '650', 'a') || subfield(record, '655', 'a')),
+    isbn,
+    description: (subfield(record, '520', 'a') || '').trim(),
+    totalCopies: copies ? Number(copies) : 1,
+    publishYear: year ? Number(year) : undefined
+  };
+}
+
+function bookToMarc(book: Book): MarcRecord {
+  const created = (book.createdAt || new Date().toISOString()).slice(2, 10).replace(/-/g, '');
+  const year = book.publishYear ? book.publishYear.toString() : '    ';
+
+  const dataFields: [string, string, [string, string | undefined][]][] = [
+    ['020', '  ', [['a', book.isbn]]],
+    ['100', '1 ', [['a', book.author]]],
+    ['245', '10', [['a', book.title]]],
+    ['264', ' 1', [['c', book.publishYear?.toString()]]],
+    ['520', '  ', [['a', book.description]]],
+    ['650', ' 4', [['a', book.category]]],
+    [COPIES_TAG, '  ', [[COPIES_CODE, book.totalCopies.toString()]]]
+  ];
+
+  return {
+    leader: '00000nam a2200000   4500',
+    fields: [
+      { tag: '001', value: book.id },
+      { tag: '008', value: `${created}s${year}`.padEnd(40, ' ') },
+      ...dataFields
+        .map(([tag, indicators, subfields]) => ({
+          tag,
+          indicators,
+          subfields: subfields
+            .filter(([, value]) => !!value)
+            .map(([code, value]) => ({ code, value: value as string }))
+        }))
+        .filter(field => field.subfields.length > 0)
+    ]
+  };
+}
+
+// Records sent back for commit are plain JSON, so do not trust the field types
+function text(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+/**
+ * Validate records and flag duplicates by ISBN, both against the catalogue
+ * (including soft-deleted books, which should be restored instead) and within the file.
+ */
+export function validateImport(data: LibraryData, books: ImportedBook[]): ImportRow[] {
+  const catalogue = new Map(data.books.map(book => [isbnKey(book.isbn), book.id]));
+  const seen = new Map<string, number>();
+  const maxYear = new Date().getFullYear() + 1;
+
+  return books.map((raw, index): ImportRow => {
+    const rowNumber = index + 1;
+    const book: ImportedBook = {
+      title: text(raw.title),
+      author: text(raw.author),
+      category: text(raw.category) || DEFAULT_CATEGORY,
+      isbn: normalizeIsbn(text(raw.isbn)) || cleanIsbn(text(raw.isbn)),
+      description: text(raw.description),
+      totalCopies: Number(raw.totalCopies),
+      publishYear: raw.publishYear === undefined || raw.publishYear === null ? undefined : Number(raw.publishYear)
+    };
+
+    const errors: string[] = [];
+    if (!book.title) errors.push('Title is required.');
+    if (!book.author) errors.push('Author is required.');
+    if (!book.isbn) {
+      errors.push('ISBN is required.');
+    } else if (!normalizeIsbn(book.isbn)) {
+      errors.push(`"${text(raw.isbn)}" is not a valid ISBN-10 or ISBN-13.`);
+    }
+    if (!Number.isInteger(book.totalCopies) || book.totalCopies < 0 || book.totalCopies > MAX_COPIES_PER_TITLE) {
+      errors.push(`Total copies must be a whole number between 0 and ${MAX_COPIES_PER_TITLE}.`);
+    }
+    if (book.publishYear !== undefined && (!Number.isInteger(book.publishYear) || book.publishYear > maxYear)) {
+      errors.push('Publish year is invalid.');
+    }
+
+    const row: ImportRow = { rowNumber, book, errors };
+    if (book.isbn) {
+      row.duplicateBookId = catalogue.get(book.isbn);
+      row.duplicateRowNumber = seen.get(book.isbn);
+      if (!seen.has(book.isbn)) {
+        seen.set(book.isbn, rowNumber);
+      }
+    }
+    return row;
+  });
+}
+
+export function isImportable(row: ImportRow): boolean {
+  return row.errors.length === 0 && !row.duplicateBookId && !row.duplicateRowNumber;
+}
+
+export function buildPreview(format: CatalogueFormat, fileName: string, rows: ImportRow[]): ImportPreview {
+  return {
+    format,
+    fileName,
+    rows,
+    validCount: rows.filter(isImportable).length,
+    invalidCount: rows.filter(row => row.errors.length > 0).length,
+    duplicateCount: rows.filter(row => row.errors.length === 0 && (row.duplicateBookId || row.duplicateRowNumber)).length
+  };
+}
+
+export function exportCatalogue(books: Book[], format: CatalogueFormat): CatalogueExport {
+  if (format === 'csv') {
+    const rows = books.map(book => [
+      book.id,
+      book.title,
+      book.author,
+      book.category,
+      book.isbn,
+      book.description || '',
+      book.totalCopies,
+      book.availableCopies,
+      book.publishYear || ''
+    ]);
+    return { body: toCsv([CSV_EXPORT_HEADER, ...rows]), contentType: 'text/csv', extension: 'csv' };
+  }
+
+  const records = books.map(bookToMarc);
+  return format === 'marc'
+    ? { body: writeIso2709(records), contentType: 'application/marc', extension: 'mrc' }
+    : { body: writeMarcXml(records), contentType: 'application/marcxml+xml', extension: 'xml' };
+}
@@ -0,0 +1,173 @@
+import { Book } from '../app/models/book.model';
+import { FineRecord } from '../app/models/fine.model';
+import { MembershipType } from '../app/models/policy.model';
+import { evaluateBorrow, refreshOverdue } from './circulation';
+import { DEFAULT_POLICIES } from './policy';
+import { LibraryData, LoanRecord, MemberRecord, createEmptyData } from './store';
+
+describe('borrowing policy', () => {
+  const TODAY = new Date('2025-03-10T12:00:00.000Z');
+  let data: LibraryData;
+  let member: MemberRecord;
+  let book: Book;
+
+  function loan(id: string, overrides: Partial<LoanRecord> = {}): LoanRecord {
+    const record: LoanRecord = {
+      id,
+      borrowId: `BR${id}`,
+      memberId: member.id,
+      bookId: 'BK0002',
+      quantity: 1,
+      borrowDate: '2025-03-01T12:00:00.000Z',
+      dueDate: '2025-03-15T12:00:00.000Z',
+      status: 'Borrowed',
+      renewalCount: 0,
+      maxRenewalsAllowed: 2,
+      ...overrides
+    };
+    data.loans.push(record);
+    return record;
+  }
+
+  function fine(totalFine: number, status: FineRecord['status'] = 'PENDING'): void {
+    data.fines.push({
+      id: `FN000${data.fines.length + 1}`,
+      memberId: member.id,
+      memberName: member.memberName,
+      bookId: 'BK0002',
+      bookTitle: 'Returned Book',
+      author: '',
+      borrowId: 'BR0000',
+      dueDate: new Date('2025-02-01'),
+      daysOverdue: 1,
+      dailyFine: totalFine,
+      totalFine,
+      status,
+      calculatedDate: new Date('2025-02-02')
+    });
+  }
+
+  function membership(type: MembershipType): void {
+    member.membershipType = type;
+  }
+
+  function codes(quantity: number = 1): string[] {
+    return evaluateBorrow(data, member, [{ book, quantity }]).map(rejection => rejection.code);
+  }
+
+  beforeEach(() => {
+    data = createEmptyData();
+    member = { id: 'MEM0002', memberName: 'Test Member', membershipType: 'BASIC', role: 'MEMBER', isActive: true } as MemberRecord;
+    data.members.push(member);
+    book = { id: 'BK0001', title: 'Test Book', author: 'Test Author', category: 'Fiction' } as Book;
+  });
+
+  it('allows a borrow that breaks no rule', () => {
+    expect(evaluateBorrow(data, member, [{ book, quantity: 1 }])).toEqual([]);
+  });
+
+  it('refuses members whose membership is inactive', () => {
+    member.isActive = false;
+    expect(codes()).toEqual(['MEMBERSHIP_INACTIVE']);
+  });
+
+  describe('loan limit', () => {
+    it('counts copies already out and copies asked for', () => {
+      loan('LN0001', { quantity: 2 });
+      loan('LN0002', { quantity: 2 });
+      expect(codes(1)).toEqual([]);
+
+      const [rejection] = evaluateBorrow(data, member, [{ book, quantity: 2 }]);
+      expect(rejection.code).toBe('LOAN_LIMIT');
+      expect(rejection.message).toBe('BASIC members can have up to 5 books. You have 4 and asked for 2.');
+    });
+
+    it('ignores returned loans', () => {
+      loan('LN0001', { quantity: 5, status: 'Returned', returnedDate: '2025-03-05T12:00:00.000Z' });
+      expect(codes()).toEqual([]);
+    });
+
+    it('uses the limit for the member\'s membership type', () => {
+      loan('LN0001', { quantity: 5 });
+      expect(codes()).toEqual(['LOAN_LIMIT']);
+
+      membership('PREMIUM');
+      expect(codes()).toEqual([]);
+    });
+
+    it('uses a policy an administrator changed over the default', () => {
+      data.policies.push({ ...DEFAULT_POLICIES.BASIC, maxBooks: 1 });
+      loan('LN0001');
+      expect(codes()).toEqual(['LOAN_LIMIT']);
+    });
+  });
+
+  describe('overdue loans', () => {
+    it('blocks borrowing while a loan is overdue', () => {
+      loan('LN0001', { dueDate: '2025-03-08T12:00:00.000Z' });
+      refreshOverdue(data, TODAY, member.id);
+
+      const rejections = evaluateBorrow(data, member, [{ book, quantity: 1 }]);
+      expect(rejections.map(r => r.code)).toContain('OVERDUE_LOANS');
+      expect(rejections.find(r => r.code === 'OVERDUE_LOANS')!.message).toBe('You have 1 overdue book(s). Please return them first.');
+    });
+
+    it('does not block membership types that allow borrowing while overdue', () => {
+      membership('FACULTY');
+      loan('LN0001', { status: 'Overdue', dueDate: '2025-03-08T12:00:00.000Z' });
+      expect(codes()).toEqual([]);
+    });
+
+    it('stops blocking once the book is back', () => {
+      loan('LN0001', { status: 'Returned', dueDate: '2025-03-08T12:00:00.000Z', returnedDate: '2025-03-09T12:00:00.000Z' });
+      expect(codes()).not.toContain('OVERDUE_LOANS');
+    });
+  });
+
+  describe('unpaid fines', () => {
+    it('refuses any unpaid fine when the limit is zero', () => {
+      fine(5);
+      const [rejection] = evaluateBorrow(data, member, [{ book, quantity: 1 }]);
+      expect(rejection.code).toBe('OUTSTANDING_FINES');
+      expect(rejection.message).toBe('You have pending fines of ₹5. Please clear them before borrowing.');
+    });
+
+    it('allows fines up to the limit and refuses them above it', () => {
+      membership('PREMIUM');
+      fine(60);
+      fine(40);
+      expect(codes()).toEqual([]);
+
+      fine(1);
+      const [rejection] = evaluateBorrow(data, member, [{ book, quantity: 1 }]);
+      expect(rejection.code).toBe('OUTSTANDING_FINES');
+      expect(rejection.message).toBe('Your unpaid fines of ₹101 are over the ₹100 limit. Please pay them before borrowing.');
+    });
+
+    it('counts fines still growing but not paid or waived ones', () => {
+      fine(50, 'PAID');
+      fine(50, 'WAIVED');
+      expect(codes()).toEqual([]);
+
+      fine(10, 'OVERDUE');
+      expect(codes()).toEqual(['OUTSTANDING_FINES']);
+    });
+  });
+
+  it('refuses books in a category restricted for the membership type', () => {
+    data.policies.push({ ...DEFAULT_POLICIES.BASIC, restrictedCategories: ['fiction'] });
+    const [rejection] = evaluateBorrow(data, member, [{ book, quantity: 1 }]);
+    expect(rejection).toEqual({
+      code: 'CATEGORY_RESTRICTED',
+      message: '"Test Book" is in Fiction, which BASIC members cannot borrow.',
+      bookId: 'BK0001'
+    });
+  });
+
+  it('reports every rule that is broken at once', () => {
+    member.isActive = false;
+    loan('LN0001', { quantity: 5, status: 'Overdue', dueDate: '2025-03-08T12:00:00.000Z' });
+    fine(10, 'OVERDUE');
+    expect(codes().sort()).toEqual(['LOAN_LIMIT', 'MEMBERSHIP_INACTIVE', 'OUTSTANDING_FINES', 'OVERDUE_LOANS']);
+  });
+});
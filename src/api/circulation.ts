@@ -0,0 +1,483 @@
+import { AcquisitionSource, Book, BookCopy, CopyCondition, CopyStatus } from '../app/models/book.model';
+import { FineRecord } from '../app/models/fine.model';
+import { Hold } from '../app/models/hold.model';
+import { Member } from '../app/models/member.model';
+import { PolicyRejection } from '../app/models/policy.model';
+import { BorrowHistoryEntry } from '../app/models/user.model';
+import { HttpError, notFound } from './http';
+import { calculateFine } from './fine-rules';
+import { policyFor } from './policy';
+import { LibraryData, LoanRecord, MemberRecord, nextId } from './store';
+import { DAY_MS } from './util';
+
+// Days a member has to collect a copy set aside for their hold
+export const HOLD_PICKUP_DAYS = 3;
+export const MAX_ACTIVE_HOLDS = 5;
+
+export function findMember(data: LibraryData, memberId: string): MemberRecord {
+  const member = data.members.find(m => m.id === memberId);
+  if (!member) {
+    throw notFound('Member');
+  }
+  return member;
+}
+
+// Soft-deleted books are only visible to catalogue administration
+export function findBook(data: LibraryData, bookId: string, includeDeleted: boolean = false): Book {
+  const book = data.books.find(b => b.id === bookId);
+  if (!book || (book.isDeleted && !includeDeleted)) {
+    throw notFound('Book');
+  }
+  return book;
+}
+
+// Strip credentials before a member record leaves the server
+export function toPublicMember(member: MemberRecord): Member {
+  const { passwordHash, secretAnswerHash, secretQuestion, role, membershipType, preferences, ...publicFields } = member;
+  return publicFields;
+}
+
+export function setAvailability(book: Book): void {
+  book.isAvailable = book.availableCopies > 0;
+  book.updatedAt = new Date().toISOString();
+}
+
+// Lost and withdrawn copies stay on record for loan history but no longer count towards the collection
+const IN_COLLECTION: CopyStatus[] = ['AVAILABLE', 'ON_LOAN', 'ON_HOLD', 'IN_REPAIR'];
+
+export interface CopyDetails {
+  barcode?: string;
+  shelfLocation: string;
+  condition: CopyCondition;
+  acquisitionSource: AcquisitionSource;
+  notes?: string;
+}
+
+export function copiesOf(data: LibraryData, bookId: string): BookCopy[] {
+  return data.copies.filter(copy => copy.bookId === bookId);
+}
+
+export function findCopy(data: LibraryData, copyId: string): BookCopy {
+  const copy = data.copies.find(c => c.id === copyId);
+  if (!copy) {
+    throw notFound('Copy');
+  }
+  return copy;
+}
+
+// Barcodes are matched case-insensitively, as scanners and typed input differ
+export function findCopyByBarcode(data: LibraryData, barcode: string): BookCopy | undefined {
+  const key = barcode.trim().toUpperCase();
+  return data.copies.find(copy => copy.barcode.toUpperCase() === key);
+}
+
+// Sequential barcodes such as LIB0000012, skipping any that were entered by hand
+export function nextBarcode(data: LibraryData): string {
+  let barcode: string;
+  do {
+    const next = (data.counters['BARCODE'] || 0) + 1;
+    data.counters['BARCODE'] = next;
+    barcode = `LIB${next.toString().padStart(7, '0')}`;
+  } while (findCopyByBarcode(data, barcode));
+  return barcode;
+}
+
+/**
+ * Recount availableCopies/totalCopies from the book's copies.
+ * Copies back on the shelf go to waiting holds first, so this is the one place holds are filled.
+ */
+export function syncCopyCounts(data: LibraryData, book: Book): void {
+  fillHolds(data, book);
+  const copies = copiesOf(data, book.id);
+  book.totalCopies = copies.filter(copy => IN_COLLECTION.includes(copy.status)).length;
+  book.availableCopies = copies.filter(copy => copy.status === 'AVAILABLE').length;
+  setAvailability(book);
+}
+
+/**
+ * Shelve new copies of a book. A custom barcode can only be given for a single copy.
+ */
+export function addCopies(data: LibraryData, book: Book, count: number, details: CopyDetails, acquiredAt: string = new Date().toISOString()): BookCopy[] {
+  const barcode = details.barcode?.trim();
+  if (barcode && count !== 1) {
+    throw new HttpError(400, 'A barcode can only be given when adding one copy.');
+  }
+  if (barcode && findCopyByBarcode(data, barcode)) {
+    throw new HttpError(409, `Barcode ${barcode} is already in use.`);
+  }
+
+  const now = new Date().toISOString();
+  const copies = Array.from({ length: count }, (): BookCopy => ({
+    id: nextId(data, 'CP'),
+    bookId: book.id,
+    barcode: barcode || nextBarcode(data),
+    shelfLocation: details.shelfLocation,
+    condition: details.condition,
+    acquisitionSource: details.acquisitionSource,
+    acquiredAt,
+    status: 'AVAILABLE',
+    notes: details.notes,
+    updatedAt: now
+  }));
+  data.copies.push(...copies);
+  syncCopyCounts(data, book);
+  return copies;
+}
+
+/**
+ * Choose the copies to lend: the requested barcodes, or the longest-shelved copies otherwise.
+ * Copies set aside for the borrower's own holds are offered first.
+ * Throws before anything is changed, so the caller can validate a whole request first.
+ */
+export function pickCopies(data: LibraryData, book: Book, quantity: number, barcodes: string[] = [], memberId?: string): BookCopy[] {
+  const reserved = data.holds
+    .filter(hold => hold.status === 'READY' && hold.bookId === book.id && hold.memberId === memberId)
+    .map(hold => hold.copyId);
+  const canLend = (copy: BookCopy) => copy.status === 'AVAILABLE' || (copy.status === 'ON_HOLD' && reserved.includes(copy.id));
+
+  if (barcodes.length === 0) {
+    const copies = copiesOf(data, book.id);
+    const onShelf = [
+      ...copies.filter(copy => copy.status === 'ON_HOLD' && canLend(copy)),
+      ...copies.filter(copy => copy.status === 'AVAILABLE')
+    ];
+    if (onShelf.length < quantity) {
+      throw new HttpError(409, `Only ${onShelf.length} copies of "${book.title}" are available.`);
+    }
+    return onShelf.slice(0, quantity);
+  }
+
+  if (barcodes.length !== quantity) {
+    throw new HttpError(400, `Scan ${quantity} barcode(s) for "${book.title}".`);
+  }
+  return barcodes.map((barcode, index) => {
+    const copy = findCopyByBarcode(data, barcode);
+    if (!copy || copy.bookId !== book.id) {
+      throw new HttpError(400, `Copy ${barcode} is not a copy of "${book.title}".`);
+    }
+    if (barcodes.findIndex(other => findCopyByBarcode(data, other) === copy) !== index) {
+      throw new HttpError(400, `Copy ${copy.barcode} was scanned twice.`);
+    }
+    if (!canLend(copy)) {
+      throw new HttpError(409, `Copy ${copy.barcode} is not on the shelf (${copy.status.replace('_', ' ').toLowerCase()}).`);
+    }
+    return copy;
+  });
+}
+
+export function setCopyStatus(copy: BookCopy, status: CopyStatus): void {
+  copy.status = status;
+  copy.updatedAt = new Date().toISOString();
+}
+
+export function isActiveHold(hold: Hold): boolean {
+  return hold.status === 'WAITING' || hold.status === 'READY';
+}
+
+// Place in the book's queue (1 = next) for waiting holds; holds are kept in the order they were placed
+export function withQueuePosition(data: LibraryData, hold: Hold): Hold {
+  if (hold.status !== 'WAITING') {
+    return hold;
+  }
+  const queue = data.holds.filter(h => h.bookId === hold.bookId && h.status === 'WAITING');
+  return { ...hold, position: queue.indexOf(hold) + 1, queueLength: queue.length };
+}
+
+/**
+ * Set copies on the shelf aside for the longest-waiting holds on a book.
+ * Returns the holds that became ready for pickup.
+ */
+export function fillHolds(data: LibraryData, book: Book, asOf: Date = new Date()): Hold[] {
+  if (book.isDeleted) {
+    return [];
+  }
+  const onShelf = copiesOf(data, book.id).filter(copy => copy.status === 'AVAILABLE');
+  const waiting = data.holds.filter(hold => hold.bookId === book.id && hold.status === 'WAITING');
+
+  return waiting.slice(0, onShelf.length).map((hold, index) => {
+    const copy = onShelf[index];
+    setCopyStatus(copy, 'ON_HOLD');
+    hold.status = 'READY';
+    hold.copyId = copy.id;
+    hold.copyBarcode = copy.barcode;
+    hold.readyAt = asOf.toISOString();
+    hold.expiresAt = new Date(asOf.getTime() + HOLD_PICKUP_DAYS * DAY_MS).toISOString();
+    return hold;
+  });
+}
+
+/**
+ * Close a hold and put any copy it was keeping back on the shelf for the next member in line.
+ */
+export function closeHold(data: LibraryData, hold: Hold, status: 'FULFILLED' | 'EXPIRED' | 'CANCELLED', asOf: Date = new Date()): void {
+  const copy = hold.copyId ? data.copies.find(c => c.id === hold.copyId) : undefined;
+  hold.status = status;
+  hold.closedAt = asOf.toISOString();
+  if (copy?.status === 'ON_HOLD') {
+    setCopyStatus(copy, 'AVAILABLE');
+  }
+
+  const book = data.books.find(b => b.id === hold.bookId);
+  if (book) {
+    syncCopyCounts(data, book);
+  }
+}
+
+/**
+ * Expire ready holds whose pickup window has passed. Returns the number of holds expired.
+ */
+export function expireHolds(data: LibraryData, asOf: Date = new Date()): number {
+  const expired = data.holds.filter(hold =>
+    hold.status === 'READY' && hold.expiresAt && new Date(hold.expiresAt).getTime() < asOf.getTime()
+  );
+  expired.forEach(hold => closeHold(data, hold, 'EXPIRED', asOf));
+  return expired.length;
+}
+
+export function copyBarcodes(data: LibraryData, loan: LoanRecord): string[] {
+  return (loan.copyIds || [])
+    .map(copyId => data.copies.find(copy => copy.id === copyId)?.barcode)
+    .filter((barcode): barcode is string => !!barcode);
+}
+
+/**
+ * Create copies for books that predate copy tracking and attach them to active loans.
+ * Used as the store's upgrade step; returns true when anything was added.
+ */
+export function backfillCopies(data: LibraryData): boolean {
+  let changed = false;
+
+  for (const book of data.books) {
+    if (data.copies.some(copy => copy.bookId === book.id)) continue;
+
+    const availableBefore = book.availableCopies;
+    const copies = addCopies(data, book, book.totalCopies, {
+      shelfLocation: '',
+      condition: 'GOOD',
+      acquisitionSource: 'MIGRATED'
+    }, book.createdAt);
+
+    for (const loan of data.loans) {
+      if (loan.bookId !== book.id || !isActiveLoan(loan) || loan.copyIds) continue;
+      const lent = copies.filter(copy => copy.status === 'AVAILABLE').slice(0, loan.quantity);
+      lent.forEach(copy => setCopyStatus(copy, 'ON_LOAN'));
+      loan.copyIds = lent.map(copy => copy.id);
+    }
+    // Copies held back with the old availability switch were neither on loan nor on the shelf
+    copies
+      .filter(copy => copy.status === 'AVAILABLE')
+      .slice(Math.max(availableBefore, 0))
+      .forEach(copy => setCopyStatus(copy, 'IN_REPAIR'));
+
+    syncCopyCounts(data, book);
+    if (book.isDeleted) {
+      book.isAvailable = false;
+    }
+    changed = true;
+  }
+
+  return changed;
+}
+
+// Whole days between the due date and `asOf`, never negative
+export function daysOverdue(dueDate: Date | string, asOf: Date | string): number {
+  const late = new Date(asOf).getTime() - new Date(dueDate).getTime();
+  return late > 0 ? Math.floor(late / DAY_MS) : 0;
+}
+
+export function isActiveLoan(loan: LoanRecord): boolean {
+  return !loan.returnedDate && (loan.status === 'Borrowed' || loan.status === 'Overdue');
+}
+
+export function activeLoansFor(data: LibraryData, memberId: string): LoanRecord[] {
+  return data.loans.filter(loan => loan.memberId === memberId && isActiveLoan(loan));
+}
+
+export function outstandingFineTotal(data: LibraryData, memberId: string): number {
+  return data.fines
+    .filter(fine => fine.memberId === memberId && (fine.status === 'PENDING' || fine.status === 'OVERDUE'))
+    .reduce((sum, fine) => sum + fine.totalFine, 0);
+}
+
+/**
+ * Create or update the fine attached to a loan. Paid and waived fines are never touched, and a fine
+ * being paid keeps the amount the payment was made for until the payment settles or lapses.
+ * Returns the fine when it was created or its amount/status changed, otherwise null.
+ */
+export function upsertFineForLoan(data: LibraryData, loan: LoanRecord, asOf: Date = new Date()): FineRecord | null {
+  const days = daysOverdue(loan.dueDate, loan.returnedDate || asOf);
+  const existing = data.fines.find(fine => fine.borrowId === loan.id);
+
+  if (existing && (existing.status === 'PAID' || existing.status === 'WAIVED' || existing.paymentId)) {
+    return null;
+  }
+  if (days === 0 && !existing) {
+    return null;
+  }
+
+  const book = data.books.find(b => b.id === loan.bookId);
+  const member = data.members.find(m => m.id === loan.memberId);
+  const { chargedDays, dailyFine, totalFine, ruleIds } = calculateFine(data, loan, days);
+  const status = loan.returnedDate ? 'PENDING' : 'OVERDUE';
+
+  if (existing) {
+    if (existing.totalFine === totalFine && existing.status === status && existing.daysOverdue === days) {
+      return null;
+    }
+    existing.daysOverdue = days;
+    existing.chargedDays = chargedDays;
+    existing.dailyFine = dailyFine;
+    existing.totalFine = totalFine;
+    existing.ruleIds = ruleIds;
+    existing.status = status;
+    existing.returnDate = loan.returnedDate ? new Date(loan.returnedDate) : undefined;
+    existing.calculatedDate = asOf;
+    return existing;
+  }
+
+  const fine: FineRecord = {
+    id: nextId(data, 'FN'),
+    memberId: loan.memberId,
+    memberName: member?.memberName || 'Unknown member',
+    bookId: loan.bookId,
+    bookTitle: book?.title || 'Unknown book',
+    author: book?.author || '',
+    borrowId: loan.id,
+    dueDate: new Date(loan.dueDate),
+    returnDate: loan.returnedDate ? new Date(loan.returnedDate) : undefined,
+    daysOverdue: days,
+    chargedDays,
+    dailyFine,
+    totalFine,
+    status,
+    ruleIds,
+    calculatedDate: asOf
+  };
+  data.fines.push(fine);
+  return fine;
+}
+
+/**
+ * Flag loans that have passed their due date and bring their fines up to date.
+ * Returns the number of fine records that changed.
+ */
+export function refreshOverdue(data: LibraryData, asOf: Date = new Date(), memberId?: string): number {
+  let changed = 0;
+
+  for (const loan of data.loans) {
+    if (memberId && loan.memberId !== memberId) continue;
+
+    if (isActiveLoan(loan) && new Date(loan.dueDate).getTime() < asOf.getTime()) {
+      loan.status = 'Overdue';
+    }
+    if (loan.status === 'Overdue' || loan.returnedDate) {
+      if (upsertFineForLoan(data, loan, asOf)) {
+        changed++;
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Check a borrow request against the member's policy. Every rule is checked, so the
+ * member sees all the reasons at once; an empty list means the request is allowed.
+ * Call refreshOverdue for the member first so overdue loans and fines are current.
+ */
+export function evaluateBorrow(data: LibraryData, member: MemberRecord, items: { book: Book; quantity: number }[]): PolicyRejection[] {
+  const policy = policyFor(data, member.membershipType);
+  const active = activeLoansFor(data, member.id);
+  const rejections: PolicyRejection[] = [];
+
+  if (member.isActive === false) {
+    rejections.push({ code: 'MEMBERSHIP_INACTIVE', message: 'Your membership is inactive. Please contact the library.' });
+  }
+
+  const overdue = active.filter(loan => loan.status === 'Overdue').length;
+  if (policy.blockWhenOverdue && overdue > 0) {
+    rejections.push({ code: 'OVERDUE_LOANS', message: `You have ${overdue} overdue book(s). Please return them first.` });
+  }
+
+  const fines = outstandingFineTotal(data, member.id);
+  if (fines > policy.maxOutstandingFines) {
+    rejections.push({
+      code: 'OUTSTANDING_FINES',
+      message: policy.maxOutstandingFines > 0
+        ? `Your unpaid fines of ₹${fines} are over the ₹${policy.maxOutstandingFines} limit. Please pay them before borrowing.`
+        : `You have pending fines of ₹${fines}. Please clear them before borrowing.`
+    });
+  }
+
+  const current = active.reduce((sum, loan) => sum + loan.quantity, 0);
+  const requested = items.reduce((sum, item) => sum + item.quantity, 0);
+  if (current + requested > policy.maxBooks) {
+    rejections.push({
+      code: 'LOAN_LIMIT',
+      message: `${member.membershipType} members can have up to ${policy.maxBooks} books. You have ${current} and asked for ${requested}.`
+    });
+  }
+
+  const restricted = policy.restrictedCategories.map(category => category.toLowerCase());
+  for (const { book } of items) {
+    if (restricted.includes((book.category || '').toLowerCase())) {
+      rejections.push({
+        code: 'CATEGORY_RESTRICTED',
+        message: `"${book.title}" is in ${book.category}, which ${member.membershipType} members cannot borrow.`,
+        bookId: book.id
+      });
+    }
+  }
+
+  return rejections;
+}
+
+/**
+ * Check a loan back in, put its copies back on the shelf and settle its fine.
+ */
+export function returnLoan(data: LibraryData, loan: LoanRecord, returnDate: Date = new Date(), notes?: string): FineRecord | null {
+  loan.returnedDate = returnDate.toISOString();
+  loan.status = 'Returned';
+  if (notes) {
+    loan.notes = notes;
+  }
+
+  for (const copyId of loan.copyIds || []) {
+    const copy = data.copies.find(c => c.id === copyId);
+    if (copy?.status === 'ON_LOAN') {
+      setCopyStatus(copy, 'AVAILABLE');
+    }
+  }
+  const book = data.books.find(b => b.id === loan.bookId);
+  if (book) {
+    syncCopyCounts(data, book);
+  }
+
+  upsertFineForLoan(data, loan, returnDate);
+  return data.fines.find(fine => fine.borrowId === loan.id) || null;
+}
+
+export function toHistoryEntry(data: LibraryData, loan: LoanRecord): BorrowHistoryEntry {
+  const book = data.books.find(b => b.id === loan.bookId);
+  const fine = data.fines.find(f => f.borrowId === loan.id);
+
+  return {
+    id: loan.id,
+    bookId: loan.bookId,
+    title: book?.title || 'Unknown book',
+    author: book?.author || '',
+    category: book?.category || '',
+    isbn: book?.isbn || '',
+    copyBarcodes: copyBarcodes(data, loan),
+    borrowDate: new Date(loan.borrowDate),
+    dueDate: new Date(loan.dueDate),
+    returnedDate: loan.returnedDate ? new Date(loan.returnedDate) : undefined,
+    fineAmount: fine?.totalFine || 0,
+    finePaid: fine ? fine.status === 'PAID' || fine.status === 'WAIVED' : false,
+    status: loan.status,
+    notes: loan.notes,
+    renewalCount: loan.renewalCount,
+    maxRenewalsAllowed: loan.maxRenewalsAllowed,
+    borrowedBy: loan.memberId
+  };
+}
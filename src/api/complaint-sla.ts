@@ -0,0 +1,128 @@
+import { Complaint, ComplaintEscalation, ComplaintSlaTargets, ComplaintStatistics } from '../app/models/complaint.model';
+import { NotificationHub } from './notification-hub';
+import { scheduleEvery } from './scheduler';
+import { LibraryData, LibraryStore, nextId } from './store';
+
+// Hours from submission to resolution before a complaint breaches its SLA
+export const COMPLAINT_SLA_HOURS: ComplaintSlaTargets = {
+  Critical: 4,
+  High: 24,
+  Medium: 72,
+  Low: 168
+};
+// How often open complaints are checked against their targets
+export const SLA_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+// Complaints inside the last quarter of their target count as at risk
+export const SLA_AT_RISK_SHARE = 0.25;
+export const ESCALATION_TEAM = 'Library Manager';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Measured from submission, or from the last reopen so a reopened complaint gets a fresh target
+export function slaDeadline(complaint: Pick<Complaint, 'submissionDate' | 'priority' | 'reopenedDate'>): Date {
+  const start = complaint.reopenedDate ?? complaint.submissionDate;
+  return new Date(new Date(start).getTime() + COMPLAINT_SLA_HOURS[complaint.priority] * HOUR_MS);
+}
+
+// Still waiting on the library; escalated complaints stay on the clock
+export function isUnresolved(complaint: Complaint): boolean {
+  return complaint.status === 'Open' || complaint.status === 'In Progress' || complaint.status === 'Escalated';
+}
+
+export function isSlaBreached(complaint: Complaint, asOf: Date = new Date()): boolean {
+  const deadline = slaDeadline(complaint).getTime();
+  if (complaint.actualResolutionDate && !isUnresolved(complaint)) {
+    return new Date(complaint.actualResolutionDate).getTime() > deadline;
+  }
+  return asOf.getTime() > deadline;
+}
+
+/**
+ * Mark a complaint as escalated and record who escalated it and why.
+ */
+export function escalateComplaint(data: LibraryData, complaint: Complaint, escalatedBy: string, reason: string, asOf: Date = new Date()): ComplaintEscalation {
+  const escalation: ComplaintEscalation = {
+    id: nextId(data, 'ESC'),
+    complaintId: complaint.id,
+    reason,
+    escalatedBy,
+    escalatedTo: ESCALATION_TEAM,
+    escalationDate: asOf
+  };
+  data.complaintEscalations.push(escalation);
+
+  complaint.status = 'Escalated';
+  complaint.isEscalated = true;
+  complaint.escalationReason = reason;
+  complaint.lastUpdated = asOf;
+  return escalation;
+}
+
+/**
+ * Put a resolved or closed complaint back in the queue and restart its SLA clock.
+ */
+export function reopenComplaint(complaint: Complaint, asOf: Date = new Date()): void {
+  complaint.status = 'Open';
+  complaint.actualResolutionDate = undefined;
+  complaint.reopenedDate = asOf;
+  complaint.estimatedResolutionDate = slaDeadline(complaint);
+  complaint.lastUpdated = asOf;
+}
+
+// A complaint escalates at most once, even if it is reopened later
+function dueForEscalation(data: LibraryData, asOf: Date): Complaint[] {
+  return data.complaints.filter(c => (c.status === 'Open' || c.status === 'In Progress') && !c.isEscalated && isSlaBreached(c, asOf));
+}
+
+/**
+ * Escalate every open or in-progress complaint past its SLA target and tell the member.
+ */
+export function escalateBreachedComplaints(data: LibraryData, hub: NotificationHub, asOf: Date = new Date()): ComplaintEscalation[] {
+  return dueForEscalation(data, asOf)
+    .map(complaint => {
+      const hours = COMPLAINT_SLA_HOURS[complaint.priority];
+      const escalation = escalateComplaint(data, complaint, 'SYSTEM',
+        `SLA breached: ${complaint.priority} priority complaints are due within ${hours} hours.`, asOf);
+      hub.notify(data, {
+        memberId: complaint.memberId,
+        category: 'COMPLAINT',
+        title: 'Complaint escalated',
+        message: `"${complaint.title}" has taken longer than it should and was passed to the ${ESCALATION_TEAM}.`,
+        link: '/complaints'
+      });
+      return escalation;
+    });
+}
+
+export function slaFigures(complaints: Complaint[], asOf: Date = new Date()): Pick<ComplaintStatistics,
+  'slaComplianceRate' | 'resolvedWithinSla' | 'resolvedAfterSla' | 'breachedComplaints' | 'atRiskComplaints' | 'slaTargets'> {
+  const resolved = complaints.filter(c => c.actualResolutionDate && !isUnresolved(c));
+  const resolvedWithinSla = resolved.filter(c => !isSlaBreached(c)).length;
+  const unresolved = complaints.filter(isUnresolved);
+  const atRisk = unresolved.filter(c => {
+    const remaining = slaDeadline(c).getTime() - asOf.getTime();
+    return remaining >= 0 && remaining <= COMPLAINT_SLA_HOURS[c.priority] * HOUR_MS * SLA_AT_RISK_SHARE;
+  });
+
+  return {
+    slaComplianceRate: resolved.length ? Math.round(resolvedWithinSla / resolved.length * 100) : 100,
+    resolvedWithinSla,
+    resolvedAfterSla: resolved.length - resolvedWithinSla,
+    breachedComplaints: unresolved.filter(c => isSlaBreached(c, asOf)).length,
+    atRiskComplaints: atRisk.length,
+    slaTargets: COMPLAINT_SLA_HOURS
+  };
+}
+
+export function scheduleComplaintEscalation(store: LibraryStore, hub: NotificationHub): () => void {
+  return scheduleEvery('complaint SLA check', SLA_CHECK_INTERVAL_MS, () => {
+    // Most checks find nothing to do, so only write when something breached
+    if (store.read(data => dueForEscalation(data, new Date()).length === 0)) {
+      return;
+    }
+    const escalated = store.update(data => escalateBreachedComplaints(data, hub));
+    if (escalated.length > 0) {
+      console.log(`⏫ Escalated ${escalated.length} complaint(s) past their SLA.`);
+    }
+  });
+}
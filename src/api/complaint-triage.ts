@@ -0,0 +1,65 @@
+import { Complaint, ComplaintAssignee, ComplaintQueue } from '../app/models/complaint.model';
+import { isSlaBreached, isUnresolved, slaDeadline } from './complaint-sla';
+import { LibraryData } from './store';
+
+export const COMPLAINT_QUEUES: ComplaintQueue[] = ['OPEN', 'UNASSIGNED', 'MINE', 'ESCALATED', 'BREACHED', 'RESOLVED', 'ALL'];
+
+/**
+ * Whether a complaint belongs in a staff queue. MINE is relative to the staff member viewing it.
+ */
+export function isInQueue(complaint: Complaint, queue: ComplaintQueue, staffId: string, asOf: Date = new Date()): boolean {
+  switch (queue) {
+    case 'OPEN':
+      return isUnresolved(complaint);
+    case 'UNASSIGNED':
+      return isUnresolved(complaint) && !complaint.assignedTo;
+    case 'MINE':
+      return isUnresolved(complaint) && complaint.assignedTo === staffId;
+    case 'ESCALATED':
+      return complaint.status === 'Escalated';
+    case 'BREACHED':
+      return isUnresolved(complaint) && isSlaBreached(complaint, asOf);
+    case 'RESOLVED':
+      return !isUnresolved(complaint);
+    case 'ALL':
+      return true;
+  }
+}
+
+export function queueCounts(complaints: Complaint[], staffId: string, asOf: Date = new Date()): { [key in ComplaintQueue]: number } {
+  return COMPLAINT_QUEUES.reduce((counts, queue) => ({
+    ...counts,
+    [queue]: complaints.filter(c => isInQueue(c, queue, staffId, asOf)).length
+  }), {} as { [key in ComplaintQueue]: number });
+}
+
+// Unresolved complaints come first, the one closest to (or furthest past) its SLA deadline on top; the rest newest first
+export function sortByUrgency(complaints: Complaint[]): Complaint[] {
+  return [...complaints].sort((a, b) =>
+    Number(isUnresolved(b)) - Number(isUnresolved(a)) ||
+    (isUnresolved(a)
+      ? slaDeadline(a).getTime() - slaDeadline(b).getTime()
+      : new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime())
+  );
+}
+
+export function complaintAssignees(data: LibraryData): ComplaintAssignee[] {
+  return data.members
+    .filter(member => member.role === 'ADMIN')
+    .map(member => ({
+      memberId: member.id,
+      memberName: member.memberName,
+      openComplaints: data.complaints.filter(c => c.assignedTo === member.id && isUnresolved(c)).length
+    }))
+    .sort((a, b) => a.memberName.localeCompare(b.memberName));
+}
+
+/**
+ * The complaint as a member may see it: the same record without staff-only notes.
+ */
+export function withoutInternalNotes(complaint: Complaint): Complaint {
+  if (!complaint.responses?.some(r => r.isInternal)) {
+    return complaint;
+  }
+  return { ...complaint, responses: complaint.responses.filter(r => !r.isInternal) };
+}
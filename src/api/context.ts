@@ -0,0 +1,97 @@
+import multer from 'multer';
+import { mkdirSync } from 'node:fs';
+import { extname } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { TokenSigner } from './auth';
+import { HttpError } from './http';
+import { NotificationHub } from './notification-hub';
+import { NotificationTransports } from './notification-transport';
+import { PaymentGateway } from './payment-gateway';
+import { LibraryStore } from './store';
+
+/**
+ * Shared dependencies handed to every API router.
+ */
+export interface ApiContext {
+  store: LibraryStore;
+  tokens: TokenSigner;
+  // Public images (covers), served from /api/uploads
+  upload: multer.Multer;
+  uploadUrl(file: Express.Multer.File): string;
+  // Private supporting documents; only handed out by routes that check access
+  attachments: multer.Multer;
+  attachmentDir: string;
+  gateway: PaymentGateway;
+  // Shared with the gateway; signs its webhook calls
+  webhookSecret: string;
+  // Scheme and host members and the gateway reach the server on, e.g. https://library.example.org.
+  // Unset in development, where each request's own host is used instead
+  publicOrigin: string | undefined;
+  // Email and SMS carriers for member notifications
+  transports: NotificationTransports;
+  // In-app notifications and the live streams they are pushed to
+  hub: NotificationHub;
+}
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 3;
+const ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+function diskStorage(dir: string): multer.StorageEngine {
+  return multer.diskStorage({
+    destination: (req, file, callback) => {
+      mkdirSync(dir, { recursive: true });
+      callback(null, dir);
+    },
+    filename: (req, file, callback) => callback(null, `${randomUUID()}${extname(file.originalname).toLowerCase()}`)
+  });
+}
+
+export function createApiContext(
+  store: LibraryStore,
+  tokens: TokenSigner,
+  uploadDir: string,
+  attachmentDir: string,
+  gateway: PaymentGateway,
+  webhookSecret: string,
+  publicOrigin: string | undefined,
+  transports: NotificationTransports
+): ApiContext {
+  const upload = multer({
+    storage: diskStorage(uploadDir),
+    limits: { fileSize: MAX_UPLOAD_BYTES },
+    fileFilter: (req, file, callback) => {
+      if (file.mimetype.startsWith('image/')) {
+        callback(null, true);
+      } else {
+        callback(new HttpError(400, 'Only image uploads are allowed.'));
+      }
+    }
+  });
+
+  const attachments = multer({
+    storage: diskStorage(attachmentDir),
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_ATTACHMENTS },
+    fileFilter: (req, file, callback) => {
+      if (ATTACHMENT_TYPES.includes(file.mimetype)) {
+        callback(null, true);
+      } else {
+        callback(new HttpError(400, 'Attachments must be PDF, JPEG, PNG or WebP files.'));
+      }
+    }
+  });
+
+  return {
+    store,
+    tokens,
+    upload,
+    uploadUrl: (file) => `/api/uploads/${file.filename}`,
+    attachments,
+    attachmentDir,
+    gateway,
+    webhookSecret,
+    publicOrigin,
+    transports,
+    hub: new NotificationHub(store)
+  };
+}
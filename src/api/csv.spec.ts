@@ -0,0 +1,37 @@
+import { readCatalogueFile } from './catalogue-io';
+import { parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  it('quotes every cell and doubles quotes inside them', () => {
+    expect(toCsv([['Title', 'Copies'], ['The "Best" Book, Vol. 1', 3]])).toBe('"Title","Copies"\n"The ""Best"" Book, Vol. 1","3"');
+  });
+
+  it('keeps text a spreadsheet would run as a formula from being evaluated', () => {
+    const cells = ['=HYPERLINK("http://x")', '+1+1', '-2+3', '@SUM(A1)', '\t=1', '\r=1'];
+    expect(toCsv([cells]).split(',').map(cell => cell.slice(1, 2))).toEqual(Array(cells.length).fill('\''));
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    expect(toCsv([[-12.5, 'A-Z of Cooking', 'Email: a@b.c']])).toBe('"-12.5","A-Z of Cooking","Email: a@b.c"');
+  });
+
+  it('reads back what it wrote', () => {
+    const rows = [['=cmd|\' /C calc\'!A0', '+91 98765 43210', 'Plain, "quoted"\ntext', '\'kept as is']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('keeps a leading apostrophe that is part of the text', () => {
+    const rows = [['\'Tis the Season', '\'=not a formula', '\'\'+1']];
+    expect(toCsv(rows)).toBe('"\'Tis the Season","\'\'=not a formula","\'\'\'+1"');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('keeps a leading apostrophe in an imported catalogue title', () => {
+    const file = Buffer.from('title,isbn\n\'Tis the Season,9780306406157\n"\'=1 Way",9780306406164\n');
+    expect(readCatalogueFile('csv', file).map(book => book.title)).toEqual(['\'Tis the Season', '=1 Way']);
+  });
+
+  it('parses unquoted fields, CRLF line breaks and a byte order mark, dropping blank lines', () => {
+    expect(parseCsv('\uFEFFid,title\r\n\r\nBK0001,Dune\r\n')).toEqual([['id', 'title'], ['BK0001', 'Dune']]);
+  });
+});
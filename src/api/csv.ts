@@ -0,0 +1,67 @@
+// Spreadsheets run text starting with these as a formula, so exported text gets a leading ' to stay text.
+// Text that already has apostrophes before one gets another too, so parseCsv can take exactly one off.
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+function escapeCell(cell: string | number): string {
+  const text = typeof cell === 'string' && FORMULA_START.test(cell) ? `'${cell}` : String(cell);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Write rows as CSV, quoting every cell. Numbers are written as they are; text that a spreadsheet
+ * would evaluate as a formula is prefixed with ' (parseCsv takes it off again).
+ */
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\n');
+}
+
+// Only a ' in front of formula-like text came from toCsv; any other leading apostrophe is part of the value
+function unescapeCell(field: string): string {
+  return field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks.
+ * Blank lines are dropped, and the ' toCsv puts before formula-like text is removed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(unescapeCell(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(unescapeCell(field));
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(unescapeCell(field));
+  rows.push(row);
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
@@ -0,0 +1,68 @@
+import { FineBatchReport, FineChange, FineStatus } from '../app/models/fine.model';
+import { isActiveLoan, refreshOverdue } from './circulation';
+import { LibraryData, LibraryStore, nextId } from './store';
+import { scheduleDaily } from './scheduler';
+
+// Local hour the nightly recalculation runs at
+export const NIGHTLY_FINE_HOUR = 2;
+// Reports kept on file; older runs are dropped
+export const MAX_FINE_RUNS = 60;
+
+/**
+ * Bring every fine up to date with the current rules and closures, and report what changed.
+ */
+export function runFineBatch(
+  data: LibraryData,
+  trigger: FineBatchReport['trigger'],
+  triggeredBy?: string,
+  asOf: Date = new Date()
+): FineBatchReport {
+  const before = new Map(data.fines.map(fine => [fine.id, { amount: fine.totalFine, status: fine.status as FineStatus }]));
+  const loansChecked = data.loans.filter(loan => isActiveLoan(loan) || loan.returnedDate).length;
+
+  refreshOverdue(data, asOf);
+
+  const changes: FineChange[] = data.fines
+    .filter(fine => {
+      const previous = before.get(fine.id);
+      return !previous || previous.amount !== fine.totalFine || previous.status !== fine.status;
+    })
+    .map(fine => {
+      const previous = before.get(fine.id);
+      return {
+        fineId: fine.id,
+        memberId: fine.memberId,
+        memberName: fine.memberName,
+        bookTitle: fine.bookTitle,
+        previousAmount: previous?.amount || 0,
+        newAmount: fine.totalFine,
+        previousStatus: previous?.status,
+        newStatus: fine.status,
+        daysOverdue: fine.daysOverdue,
+        chargedDays: fine.chargedDays ?? fine.daysOverdue
+      };
+    });
+
+  const report: FineBatchReport = {
+    id: nextId(data, 'FR'),
+    trigger,
+    triggeredBy,
+    runAt: asOf,
+    loansChecked,
+    finesCreated: changes.filter(change => !change.previousStatus).length,
+    finesUpdated: changes.filter(change => change.previousStatus).length,
+    totalChange: changes.reduce((sum, change) => sum + change.newAmount - change.previousAmount, 0),
+    changes
+  };
+
+  data.fineRuns.push(report);
+  data.fineRuns.splice(0, Math.max(0, data.fineRuns.length - MAX_FINE_RUNS));
+  return report;
+}
+
+export function scheduleNightlyFineRun(store: LibraryStore): () => void {
+  return scheduleDaily('fine recalculation', NIGHTLY_FINE_HOUR, () => {
+    const report = store.update(data => runFineBatch(data, 'NIGHTLY'));
+    console.log(`🌙 Nightly fine run ${report.id}: ${report.changes.length} fine(s) changed, ₹${report.totalChange} net.`);
+  });
+}
@@ -0,0 +1,180 @@
+import { FineRecord, FineReport, FineReportPeriod, FineReportType, MemberFineStatistics } from '../app/models/fine.model';
+import { toCsv } from './csv';
+import { dayKey } from './fine-rules';
+import { HttpError } from './http';
+import { LibraryData, nextId } from './store';
+import { DAY_MS, readDay, roundAmount } from './util';
+
+// Reports kept on file; older ones are dropped
+export const MAX_FINE_REPORTS = 50;
+
+const REPORT_TYPES: FineReportType[] = ['MONTHLY', 'YEARLY', 'CUSTOM'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface ReportRange {
+  reportType: FineReportType;
+  from: Date;
+  to: Date;
+}
+
+function readYear(value: unknown): number {
+  const year = Number(value);
+  if (!Number.isInteger(year) || year < 2000 || year > 9999) {
+    throw new HttpError(400, 'Year must be a four-digit year from 2000.');
+  }
+  return year;
+}
+
+function readStartOfDay(value: unknown, label: string): Date {
+  return new Date(`${readDay(value, label)}T00:00:00.000Z`);
+}
+
+/**
+ * Read the report type and period from a request body. All days are UTC, like the rest of the API.
+ */
+export function readReportRange(body: any): ReportRange {
+  const reportType = body?.reportType as FineReportType;
+  if (!REPORT_TYPES.includes(reportType)) {
+    throw new HttpError(400, `Report type must be one of ${REPORT_TYPES.join(', ')}.`);
+  }
+
+  let from: Date;
+  let to: Date;
+  if (reportType === 'MONTHLY') {
+    const year = readYear(body.year);
+    const month = Number(body.month);
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new HttpError(400, 'Month must be between 1 and 12.');
+    }
+    from = new Date(Date.UTC(year, month - 1, 1));
+    to = new Date(Date.UTC(year, month, 1) - 1);
+  } else if (reportType === 'YEARLY') {
+    const year = readYear(body.year);
+    from = new Date(Date.UTC(year, 0, 1));
+    to = new Date(Date.UTC(year + 1, 0, 1) - 1);
+  } else {
+    from = readStartOfDay(body.from, 'From date');
+    to = new Date(readStartOfDay(body.to, 'To date').getTime() + DAY_MS - 1);
+    if (to < from) {
+      throw new HttpError(400, 'From date must be on or before the to date.');
+    }
+  }
+
+  if (dayKey(from) > dayKey(new Date())) {
+    throw new HttpError(400, 'The report period has not started yet.');
+  }
+  return { reportType, from, to };
+}
+
+function totalsOf(fines: FineRecord[]) {
+  const sum = (list: FineRecord[]) => roundAmount(list.reduce((total, fine) => total + fine.totalFine, 0));
+  return {
+    totalFines: sum(fines),
+    totalCollected: sum(fines.filter(fine => fine.status === 'PAID')),
+    totalWaived: sum(fines.filter(fine => fine.status === 'WAIVED')),
+    outstandingAmount: sum(fines.filter(fine => fine.status === 'PENDING' || fine.status === 'OVERDUE'))
+  };
+}
+
+// Daily buckets for a range of up to 31 days, calendar months (clipped to the range) for anything longer
+function buildPeriods(fines: FineRecord[], from: Date, to: Date): FineReportPeriod[] {
+  const daily = to.getTime() - from.getTime() < 31 * DAY_MS;
+  const periods: FineReportPeriod[] = [];
+
+  let start = from;
+  while (start <= to) {
+    const next = daily
+      ? new Date(start.getTime() + DAY_MS)
+      : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    const end = new Date(Math.min(next.getTime() - 1, to.getTime()));
+    const label = daily
+      ? `${start.getUTCDate()} ${MONTHS[start.getUTCMonth()]}`
+      : `${MONTHS[start.getUTCMonth()]} ${start.getUTCFullYear()}`;
+    const periodFines = fines.filter(fine => {
+      const due = new Date(fine.dueDate).getTime();
+      return due >= start.getTime() && due <= end.getTime();
+    });
+
+    periods.push({ label, from: start, to: end, ...totalsOf(periodFines) });
+    start = next;
+  }
+  return periods;
+}
+
+function buildMemberStatistics(fines: FineRecord[]): MemberFineStatistics[] {
+  const byMember = new Map<string, FineRecord[]>();
+  fines.forEach(fine => byMember.set(fine.memberId, [...(byMember.get(fine.memberId) || []), fine]));
+
+  return Array.from(byMember.entries())
+    .map(([memberId, memberFines]) => {
+      const totals = totalsOf(memberFines);
+      return {
+        memberId,
+        memberName: memberFines[0].memberName,
+        totalFines: totals.totalFines,
+        totalPaid: totals.totalCollected,
+        totalWaived: totals.totalWaived,
+        outstandingAmount: totals.outstandingAmount,
+        overdueBooks: memberFines.length,
+        averageDaysOverdue: Math.round(memberFines.reduce((total, fine) => total + fine.daysOverdue, 0) / memberFines.length)
+      };
+    })
+    .sort((a, b) => b.totalFines - a.totalFines || a.memberName.localeCompare(b.memberName));
+}
+
+/**
+ * Total the fines for loans that fell due in the range and keep the report on file.
+ * Paid fines count as collected, so a refunded fine moves back to outstanding or waived.
+ */
+export function generateFineReport(data: LibraryData, { reportType, from, to }: ReportRange, generatedBy: string): FineReport {
+  const fines = data.fines.filter(fine => {
+    const due = new Date(fine.dueDate).getTime();
+    return due >= from.getTime() && due <= to.getTime();
+  });
+
+  const report: FineReport = {
+    reportId: nextId(data, 'RPT'),
+    generatedBy,
+    generatedByName: data.members.find(member => member.id === generatedBy)?.memberName,
+    generatedDate: new Date(),
+    reportType,
+    dateRange: { from, to },
+    ...totalsOf(fines),
+    periods: buildPeriods(fines, from, to),
+    memberStatistics: buildMemberStatistics(fines)
+  };
+
+  data.fineReports.push(report);
+  data.fineReports.splice(0, Math.max(0, data.fineReports.length - MAX_FINE_REPORTS));
+  return report;
+}
+
+/**
+ * Spreadsheet export: a summary block, then the period and member tables separated by blank rows.
+ */
+export function fineReportCsv(report: FineReport): string {
+  return toCsv([
+    ['Report', report.reportId],
+    ['Type', report.reportType],
+    ['From', dayKey(report.dateRange.from)],
+    ['To', dayKey(report.dateRange.to)],
+    ['Generated', new Date(report.generatedDate).toISOString()],
+    ['Generated By', report.generatedByName || report.generatedBy],
+    ['Total Fines', report.totalFines],
+    ['Collected', report.totalCollected],
+    ['Waived', report.totalWaived],
+    ['Outstanding', report.outstandingAmount],
+    [],
+    ['Period', 'From', 'To', 'Total Fines', 'Collected', 'Waived', 'Outstanding'],
+    ...report.periods.map(period => [
+      period.label, dayKey(period.from), dayKey(period.to),
+      period.totalFines, period.totalCollected, period.totalWaived, period.outstandingAmount
+    ]),
+    [],
+    ['Member ID', 'Member', 'Overdue Books', 'Average Days Overdue', 'Total Fines', 'Paid', 'Waived', 'Outstanding'],
+    ...report.memberStatistics.map(member => [
+      member.memberId, member.memberName, member.overdueBooks, member.averageDaysOverdue,
+      member.totalFines, member.totalPaid, member.totalWaived, member.outstandingAmount
+    ])
+  ]);
+}
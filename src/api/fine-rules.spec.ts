@@ -0,0 +1,154 @@
+import { FineCalculationRule } from '../app/models/fine.model';
+import { upsertFineForLoan } from './circulation';
+import { calculateFine, dayKey } from './fine-rules';
+import { LibraryData, LoanRecord, MemberRecord, createEmptyData } from './store';
+
+describe('fine rules', () => {
+  // Due at noon UTC, so day N late is 2025-03-(1 + N)
+  const DUE = '2025-03-01T12:00:00.000Z';
+  let data: LibraryData;
+  let loan: LoanRecord;
+
+  function rule(overrides: Partial<FineCalculationRule>): FineCalculationRule {
+    return {
+      id: `FRL000${data.fineRules.length + 1}`,
+      name: 'Rule',
+      description: '',
+      dailyFineAmount: 10,
+      gracePeriodDays: 0,
+      isActive: true,
+      applicableFrom: new Date('2025-01-01'),
+      membershipTypes: [],
+      ...overrides
+    };
+  }
+
+  function daysAfterDue(days: number): Date {
+    return new Date(new Date(DUE).getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  beforeEach(() => {
+    data = createEmptyData();
+    data.members.push({ id: 'MEM0002', memberName: 'Test Member', membershipType: 'BASIC', role: 'MEMBER' } as MemberRecord);
+    loan = {
+      id: 'LN0001',
+      borrowId: 'BR0001',
+      memberId: 'MEM0002',
+      bookId: 'BK0001',
+      quantity: 1,
+      borrowDate: '2025-02-15T12:00:00.000Z',
+      dueDate: DUE,
+      status: 'Overdue',
+      renewalCount: 0,
+      maxRenewalsAllowed: 2
+    };
+    data.loans.push(loan);
+  });
+
+  describe('calculateFine', () => {
+    it('charges the policy rate per day when no rule applies', () => {
+      const fine = calculateFine(data, loan, 4);
+      expect(fine).toEqual({ chargedDays: 4, dailyFine: 5, totalFine: 20, ruleIds: [] });
+    });
+
+    it('uses the fine terms recorded on the loan over the current policy', () => {
+      loan.finePerDay = 3;
+      loan.maxFine = 10;
+      expect(calculateFine(data, loan, 4).totalFine).toBe(10);
+    });
+
+    it('skips the grace period before charging', () => {
+      data.fineRules.push(rule({ id: 'FRL0001', dailyFineAmount: 10, gracePeriodDays: 2 }));
+      const fine = calculateFine(data, loan, 4);
+      expect(fine.chargedDays).toBe(2);
+      expect(fine.totalFine).toBe(20);
+      expect(fine.ruleIds).toEqual(['FRL0001']);
+    });
+
+    it('does not charge or count grace for days the library is closed', () => {
+      data.closures.push({ id: 'CL0001', startDate: '2025-03-02', endDate: '2025-03-03', reason: 'Holiday', createdBy: 'MEM0001' });
+      data.fineRules.push(rule({ dailyFineAmount: 10, gracePeriodDays: 1 }));
+      // Open late days are 03-04 and 03-05; the first is grace
+      expect(calculateFine(data, loan, 4)).toEqual(jasmine.objectContaining({ chargedDays: 1, totalFine: 10 }));
+    });
+
+    it('charges each day at the rate in force that day', () => {
+      data.fineRules.push(rule({ id: 'FRL0001', dailyFineAmount: 5 }));
+      data.fineRules.push(rule({ id: 'FRL0002', dailyFineAmount: 10, applicableFrom: new Date('2025-03-03') }));
+      const fine = calculateFine(data, loan, 4);
+      expect(fine.totalFine).toBe(5 + 10 + 10 + 10);
+      expect(fine.dailyFine).toBe(10);
+      expect(fine.ruleIds.sort()).toEqual(['FRL0001', 'FRL0002']);
+    });
+
+    it('prefers a rule for the member\'s membership type over a library-wide one', () => {
+      data.fineRules.push(rule({ dailyFineAmount: 10, applicableFrom: new Date('2025-02-01') }));
+      data.fineRules.push(rule({ dailyFineAmount: 1, membershipTypes: ['BASIC'] }));
+      data.fineRules.push(rule({ dailyFineAmount: 50, membershipTypes: ['PREMIUM'] }));
+      expect(calculateFine(data, loan, 3).totalFine).toBe(3);
+    });
+
+    it('ignores inactive rules and rules that have ended', () => {
+      data.fineRules.push(rule({ dailyFineAmount: 50, isActive: false }));
+      data.fineRules.push(rule({ dailyFineAmount: 50, applicableTo: new Date('2025-02-28') }));
+      expect(calculateFine(data, loan, 2).totalFine).toBe(10);
+    });
+
+    it('caps the fine at the lowest of the policy and rule limits, per copy', () => {
+      expect(calculateFine(data, loan, 200).totalFine).toBe(500);
+
+      data.fineRules.push(rule({ dailyFineAmount: 10, maxFineAmount: 30 }));
+      loan.quantity = 2;
+      expect(calculateFine(data, loan, 10).totalFine).toBe(60);
+    });
+  });
+
+  describe('upsertFineForLoan', () => {
+    it('creates nothing for a loan that is not late', () => {
+      expect(upsertFineForLoan(data, loan, new Date(DUE))).toBeNull();
+      expect(data.fines.length).toBe(0);
+    });
+
+    it('keeps an overdue fine growing until the book is returned', () => {
+      const fine = upsertFineForLoan(data, loan, daysAfterDue(2))!;
+      expect(fine.status).toBe('OVERDUE');
+      expect(fine.totalFine).toBe(10);
+
+      upsertFineForLoan(data, loan, daysAfterDue(5));
+      expect(fine.totalFine).toBe(25);
+      expect(data.fines.length).toBe(1);
+
+      loan.returnedDate = daysAfterDue(6).toISOString();
+      upsertFineForLoan(data, loan, daysAfterDue(30));
+      expect(fine.status).toBe('PENDING');
+      expect(fine.totalFine).toBe(30);
+      expect(dayKey(fine.returnDate!)).toBe('2025-03-07');
+    });
+
+    it('reports no change when the fine is already current', () => {
+      upsertFineForLoan(data, loan, daysAfterDue(2));
+      expect(upsertFineForLoan(data, loan, daysAfterDue(2))).toBeNull();
+    });
+
+    it('never touches paid or waived fines', () => {
+      const fine = upsertFineForLoan(data, loan, daysAfterDue(2))!;
+      fine.status = 'PAID';
+      expect(upsertFineForLoan(data, loan, daysAfterDue(10))).toBeNull();
+      expect(fine.totalFine).toBe(10);
+
+      fine.status = 'WAIVED';
+      expect(upsertFineForLoan(data, loan, daysAfterDue(10))).toBeNull();
+    });
+
+    it('holds the amount while a payment for the fine is pending', () => {
+      const fine = upsertFineForLoan(data, loan, daysAfterDue(2))!;
+      fine.paymentId = 'PAY0001';
+      expect(upsertFineForLoan(data, loan, daysAfterDue(6))).toBeNull();
+      expect(fine.totalFine).toBe(10);
+
+      fine.paymentId = undefined;
+      upsertFineForLoan(data, loan, daysAfterDue(6));
+      expect(fine.totalFine).toBe(30);
+    });
+  });
+});
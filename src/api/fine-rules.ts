@@ -0,0 +1,184 @@
+import { FineCalculationRule, LibraryClosure } from '../app/models/fine.model';
+import { MembershipType } from '../app/models/policy.model';
+import { HttpError, requireField } from './http';
+import { isMembershipType, policyFor } from './policy';
+import { LibraryData, LoanRecord } from './store';
+import { readDay } from './util';
+
+/**
+ * Fine calculation. Each overdue day is charged at the rate of the calculation rule in
+ * force on that day; days the library is closed are free, and so are the first
+ * `gracePeriodDays` open days. Without a rule the loan's borrowing policy rate applies.
+ */
+
+export interface FineCalculation {
+  chargedDays: number;
+  // Rate in force on the last charged day, i.e. what the member is paying now
+  dailyFine: number;
+  totalFine: number;
+  ruleIds: string[];
+}
+
+// Calendar day in UTC, e.g. "2025-03-14"; rules and closures are compared by these keys
+export function dayKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function addDays(date: Date | string, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+export function isClosedDay(closures: LibraryClosure[], key: string): boolean {
+  return closures.some(closure => closure.startDate <= key && key <= closure.endDate);
+}
+
+function appliesTo(rule: FineCalculationRule, key: string, membershipType: MembershipType): boolean {
+  return rule.isActive
+    && dayKey(rule.applicableFrom) <= key
+    && (!rule.applicableTo || key <= dayKey(rule.applicableTo))
+    && (!rule.membershipTypes?.length || rule.membershipTypes.includes(membershipType));
+}
+
+/**
+ * The rule in force on a day. Rules limited to the member's type win over library-wide
+ * ones; between equals the one that started most recently wins.
+ */
+export function ruleFor(rules: FineCalculationRule[], key: string, membershipType: MembershipType): FineCalculationRule | undefined {
+  return rules
+    .filter(rule => appliesTo(rule, key, membershipType))
+    .sort((a, b) =>
+      Number(!!b.membershipTypes?.length) - Number(!!a.membershipTypes?.length) ||
+      dayKey(b.applicableFrom).localeCompare(dayKey(a.applicableFrom))
+    )[0];
+}
+
+// Daily rate and per-copy limit from the policy the loan was made under; older loans use the current policy
+export function fineTerms(data: LibraryData, loan: LoanRecord): { finePerDay: number; maxFine: number } {
+  if (loan.finePerDay !== undefined) {
+    return { finePerDay: loan.finePerDay, maxFine: loan.maxFine || 0 };
+  }
+  const member = data.members.find(m => m.id === loan.memberId);
+  const policy = policyFor(data, member?.membershipType || 'BASIC');
+  return { finePerDay: policy.finePerDay, maxFine: policy.maxFinePerLoan };
+}
+
+/**
+ * Fine for a loan that is `daysLate` whole days past its due date.
+ * The policy's per-copy limit and the limits of every rule used all apply; the lowest wins.
+ */
+export function calculateFine(data: LibraryData, loan: LoanRecord, daysLate: number): FineCalculation {
+  const member = data.members.find(m => m.id === loan.memberId);
+  const membershipType = member?.membershipType || 'BASIC';
+  const terms = fineTerms(data, loan);
+  const gracePeriodDays = daysLate > 0
+    ? ruleFor(data.fineRules, dayKey(addDays(loan.dueDate, 1)), membershipType)?.gracePeriodDays || 0
+    : 0;
+
+  const used = new Map<string, FineCalculationRule>();
+  let openDays = 0;
+  let chargedDays = 0;
+  let perCopy = 0;
+  let dailyFine = terms.finePerDay;
+
+  for (let day = 1; day <= daysLate; day++) {
+    const key = dayKey(addDays(loan.dueDate, day));
+    if (isClosedDay(data.closures, key)) continue;
+
+    openDays++;
+    const rule = ruleFor(data.fineRules, key, membershipType);
+    dailyFine = rule ? rule.dailyFineAmount : terms.finePerDay;
+    if (openDays <= gracePeriodDays) continue;
+
+    if (rule) {
+      used.set(rule.id, rule);
+    }
+    chargedDays++;
+    perCopy += dailyFine;
+  }
+
+  const limits = [terms.maxFine, ...Array.from(used.values()).map(rule => rule.maxFineAmount || 0)].filter(limit => limit > 0);
+  if (limits.length > 0) {
+    perCopy = Math.min(perCopy, ...limits);
+  }
+
+  return {
+    chargedDays,
+    dailyFine,
+    totalFine: perCopy * loan.quantity,
+    ruleIds: Array.from(used.keys())
+  };
+}
+
+function readAmount(body: any, name: string, label: string, fallback: number | undefined): number | undefined {
+  const raw = body?.[name];
+  if (raw === undefined || raw === null || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > 100000) {
+    throw new HttpError(400, `${label} must be a whole number between 0 and 100000.`);
+  }
+  return value;
+}
+
+// Dates may arrive as full timestamps; only the day is kept
+function readDate(value: unknown, label: string): string {
+  return readDay(typeof value === 'string' ? value.trim().slice(0, 10) : value, label);
+}
+
+/**
+ * Validate a new rule, or an update when `current` is given (missing fields keep their value).
+ */
+export function readFineRule(body: any, current?: FineCalculationRule): Omit<FineCalculationRule, 'id' | 'createdBy' | 'updatedAt'> {
+  const name = body?.name !== undefined || !current ? requireField(body, 'name', 'Rule name') : current.name;
+  const dailyFineAmount = readAmount(body, 'dailyFineAmount', 'Daily fine', current?.dailyFineAmount);
+  if (dailyFineAmount === undefined) {
+    throw new HttpError(400, 'Daily fine is required.');
+  }
+  const gracePeriodDays = readAmount(body, 'gracePeriodDays', 'Grace period', current?.gracePeriodDays ?? 0)!;
+  if (gracePeriodDays > 90) {
+    throw new HttpError(400, 'Grace period cannot be more than 90 days.');
+  }
+
+  const applicableFrom = body?.applicableFrom !== undefined || !current
+    ? readDate(body?.applicableFrom, 'Applicable from')
+    : dayKey(current.applicableFrom);
+  const applicableTo = body?.applicableTo === undefined
+    ? (current?.applicableTo ? dayKey(current.applicableTo) : undefined)
+    : (body.applicableTo ? readDate(body.applicableTo, 'Applicable to') : undefined);
+  if (applicableTo && applicableTo < applicableFrom) {
+    throw new HttpError(400, 'Applicable to cannot be before applicable from.');
+  }
+
+  const membershipTypes = body?.membershipTypes ?? current?.membershipTypes ?? [];
+  if (!Array.isArray(membershipTypes) || !membershipTypes.every(isMembershipType)) {
+    throw new HttpError(400, 'Membership types must be BASIC, STUDENT, PREMIUM or FACULTY.');
+  }
+  const isActive = body?.isActive ?? current?.isActive ?? true;
+  if (typeof isActive !== 'boolean') {
+    throw new HttpError(400, 'Active must be true or false.');
+  }
+
+  return {
+    name,
+    description: typeof body?.description === 'string' ? body.description.trim() : current?.description || '',
+    dailyFineAmount,
+    gracePeriodDays,
+    maxFineAmount: readAmount(body, 'maxFineAmount', 'Fine limit', current?.maxFineAmount) || undefined,
+    isActive,
+    applicableFrom: new Date(applicableFrom),
+    applicableTo: applicableTo ? new Date(applicableTo) : undefined,
+    membershipTypes: Array.from(new Set(membershipTypes))
+  };
+}
+
+export function readClosure(body: any): Omit<LibraryClosure, 'id' | 'createdBy'> {
+  const startDate = readDate(body?.startDate, 'Start date');
+  const endDate = body?.endDate ? readDate(body.endDate, 'End date') : startDate;
+  if (endDate < startDate) {
+    throw new HttpError(400, 'End date cannot be before the start date.');
+  }
+  return { startDate, endDate, reason: requireField(body, 'reason', 'Reason') };
+}
@@ -0,0 +1,217 @@
+import { Router } from 'express';
+import { randomBytes } from 'node:crypto';
+import { IncomingHttpHeaders } from 'node:http';
+import { CheckoutRequest, CheckoutSession, GatewayEvent, PaymentGateway } from './payment-gateway';
+import { HttpError } from './http';
+import { buildUpiUri } from './upi';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhook } from './webhook-signature';
+
+export type SimulatorScenario = 'success' | 'failure' | 'pending' | 'timeout';
+
+// How long a "pending" transaction waits before the simulator approves it
+export const SIMULATOR_PENDING_DELAY_MS = 10 * 1000;
+// Test merchant account UPI intents are addressed to; no real UPI app can pay it
+const SIMULATOR_UPI_PAYEE = { payeeVpa: 'library.fines@simulator', payeeName: 'Library Fines (Test)' };
+// Waits between webhook retries; like a real gateway it tries again until the API answers 2xx
+const WEBHOOK_RETRY_DELAYS_MS = [2 * 1000, 10 * 1000, 60 * 1000];
+
+interface SimulatorSession {
+  gatewayTransactionId: string;
+  paymentId: string;
+  amount: number;
+  memberName: string;
+  returnUrl: string;
+  webhookUrl: string;
+  // Set once the transaction has ended
+  outcome?: GatewayEvent;
+  scenario?: SimulatorScenario;
+}
+
+const SCENARIOS: { scenario: SimulatorScenario; label: string; hint: string }[] = [
+  { scenario: 'success', label: 'Approve', hint: 'Payment succeeds straight away.' },
+  { scenario: 'failure', label: 'Decline', hint: 'The bank declines the payment.' },
+  { scenario: 'pending', label: 'Approve later', hint: `Confirmation arrives after ${SIMULATOR_PENDING_DELAY_MS / 1000} seconds.` },
+  { scenario: 'timeout', label: 'Never respond', hint: 'No confirmation is sent; the payment times out.' }
+];
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function checkoutPage(session: SimulatorSession): string {
+  const buttons = SCENARIOS.map(({ scenario, label, hint }) => `
+      <button name="scenario" value="${scenario}">${label}<small>${escapeHtml(hint)}</small></button>`).join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Payment Simulator</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f4f6fb; display: flex; justify-content: center; padding: 40px 16px; color: #2c3e50; }
+    main { background: white; border-radius: 12px; box-shadow: 0 6px 20px rgba(0,0,0,.1); padding: 28px; max-width: 420px; width: 100%; }
+    h1 { font-size: 1.3rem; margin: 0 0 4px; }
+    .amount { font-size: 2rem; font-weight: 700; margin: 16px 0; }
+    .muted { color: #7f8c8d; font-size: .85rem; }
+    form { display: grid; gap: 10px; margin-top: 20px; }
+    button { padding: 12px; border: 2px solid #e1e8ed; border-radius: 8px; background: #fff; font-weight: 600; cursor: pointer; text-align: left; }
+    button:hover { border-color: #3498db; }
+    button small { display: block; font-weight: 400; color: #7f8c8d; margin-top: 2px; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>🧪 Payment Simulator</h1>
+    <p class="muted">Test gateway. No money moves and no card details are collected.</p>
+    <div class="amount">₹${session.amount}</div>
+    <p>Library fines for ${escapeHtml(session.memberName)}<br>
+      <span class="muted">Payment ${escapeHtml(session.paymentId)} · Ref ${session.gatewayTransactionId}</span></p>
+    <form method="post">${buttons}
+    </form>
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * Local stand-in for a real payment provider. It hosts its own checkout page where the tester
+ * picks the outcome, then reports it to the API's webhook like a real gateway would: signed,
+ * and retried until it is acknowledged.
+ * Sessions live in memory, so open checkouts are lost when the server restarts.
+ */
+export class SimulatorGateway implements PaymentGateway {
+  readonly name = 'simulator';
+  private readonly sessions = new Map<string, SimulatorSession>();
+
+  constructor(private readonly webhookSecret: string) {}
+
+  createCheckout({ payment, returnUrl, webhookUrl }: CheckoutRequest): CheckoutSession {
+    const gatewayTransactionId = `SIM${randomBytes(6).toString('hex').toUpperCase()}`;
+    this.sessions.set(gatewayTransactionId, {
+      gatewayTransactionId,
+      paymentId: payment.paymentId,
+      amount: payment.amount,
+      memberName: payment.memberName,
+      returnUrl,
+      webhookUrl
+    });
+
+    return {
+      gatewayTransactionId,
+      redirectUrl: `/api/gateway/${this.name}/checkout/${gatewayTransactionId}`,
+      upiDeepLink: payment.paymentMethod === 'upi'
+        ? buildUpiUri({ ...SIMULATOR_UPI_PAYEE, amount: payment.amount, transactionRef: gatewayTransactionId, note: `Library fines ${payment.paymentId}` })
+        : undefined
+    };
+  }
+
+  parseWebhook(headers: IncomingHttpHeaders, body: any): GatewayEvent {
+    const processedAt = new Date(body?.processedAt);
+    if (typeof body?.gatewayTransactionId !== 'string'
+      || (body.status !== 'COMPLETED' && body.status !== 'FAILED')
+      || typeof body.responseCode !== 'string'
+      || Number.isNaN(processedAt.getTime())) {
+      throw new HttpError(400, 'Malformed simulator webhook.');
+    }
+
+    return {
+      eventId: typeof body.eventId === 'string' ? body.eventId : undefined,
+      gatewayTransactionId: body.gatewayTransactionId,
+      status: body.status,
+      responseCode: body.responseCode,
+      responseMessage: String(body.responseMessage || ''),
+      processedAt,
+      fees: typeof body.fees === 'number' ? body.fees : undefined
+    };
+  }
+
+  router(): Router {
+    const router = Router();
+
+    router.get('/checkout/:id', (req, res) => {
+      const session = this.findSession(req.params['id']);
+      if (session.scenario) {
+        res.redirect(303, this.returnLocation(session));
+        return;
+      }
+      res.type('html').send(checkoutPage(session));
+    });
+
+    router.post('/checkout/:id', (req, res) => {
+      const session = this.findSession(req.params['id']);
+      const scenario = req.body?.scenario as SimulatorScenario;
+      if (!SCENARIOS.some(option => option.scenario === scenario)) {
+        throw new HttpError(400, 'Unknown scenario.');
+      }
+      if (session.scenario) {
+        res.redirect(303, this.returnLocation(session));
+        return;
+      }
+      session.scenario = scenario;
+
+      switch (scenario) {
+        case 'success':
+        case 'failure':
+          this.settle(session, scenario === 'success').finally(() => res.redirect(303, this.returnLocation(session)));
+          return;
+        case 'pending':
+          setTimeout(() => this.settle(session, true), SIMULATOR_PENDING_DELAY_MS).unref?.();
+          break;
+        case 'timeout':
+          break;
+      }
+      res.redirect(303, this.returnLocation(session));
+    });
+
+    return router;
+  }
+
+  private findSession(gatewayTransactionId: string): SimulatorSession {
+    const session = this.sessions.get(gatewayTransactionId);
+    if (!session) {
+      throw new HttpError(404, 'This checkout has expired or does not exist.');
+    }
+    return session;
+  }
+
+  private returnLocation(session: SimulatorSession): string {
+    const separator = session.returnUrl.includes('?') ? '&' : '?';
+    return `${session.returnUrl}${separator}paymentId=${encodeURIComponent(session.paymentId)}`;
+  }
+
+  // Resolves after the first delivery attempt; later retries carry on in the background
+  private settle(session: SimulatorSession, approved: boolean): Promise<void> {
+    session.outcome = {
+      eventId: `EVT${randomBytes(6).toString('hex').toUpperCase()}`,
+      gatewayTransactionId: session.gatewayTransactionId,
+      status: approved ? 'COMPLETED' : 'FAILED',
+      responseCode: approved ? '00' : '05',
+      responseMessage: approved ? 'Approved' : 'Declined by issuer',
+      processedAt: new Date()
+    };
+    return this.deliver(session, 0);
+  }
+
+  private async deliver(session: SimulatorSession, attempt: number): Promise<void> {
+    const body = JSON.stringify(session.outcome);
+    try {
+      const response = await fetch(session.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [WEBHOOK_SIGNATURE_HEADER]: signWebhook(this.webhookSecret, body) },
+        body
+      });
+      if (response.ok) {
+        return;
+      }
+      console.error(`Simulator webhook for ${session.gatewayTransactionId} returned ${response.status}.`);
+    } catch (error) {
+      console.error(`Simulator webhook for ${session.gatewayTransactionId} failed:`, error);
+    }
+
+    const delay = WEBHOOK_RETRY_DELAYS_MS[attempt];
+    if (delay !== undefined) {
+      setTimeout(() => this.deliver(session, attempt + 1), delay).unref?.();
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { PaginatedResponse } from '../app/models/book.model';
+
+/**
+ * Error carrying an HTTP status. Thrown from route handlers and turned into
+ * a `{ success: false, message }` body by `apiErrorHandler`; `details` are added to that body.
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function notFound(entity: string): HttpError {
+  return new HttpError(404, `${entity} not found.`);
+}
+
+/**
+ * Express error middleware for the API router.
+ */
+export function apiErrorHandler(error: unknown, req: Request, res: Response, next: NextFunction): void {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ ...error.details, success: false, message: error.message });
+    return;
+  }
+
+  if (error instanceof multer.MulterError) {
+    const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+    res.status(status).json({ success: false, message: error.message });
+    return;
+  }
+
+  console.error('API error:', error);
+  res.status(500).json({ success: false, message: 'Internal server error.' });
+}
+
+// Read a single string query parameter
+export function queryString(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.trim();
+  }
+  return undefined;
+}
+
+export function queryNumber(req: Request, name: string, fallback: number): number {
+  const value = Number(queryString(req, name));
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// Read a required string field from a JSON or multipart body
+export function requireField(body: any, name: string, label: string = name): string {
+  const value = body?.[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new HttpError(400, `${label} is required.`);
+  }
+  return value.trim();
+}
+
+/**
+ * Slice a list into the Spring-style page shape the Angular services expect.
+ */
+export function paginate<T>(items: T[], page: number, size: number): PaginatedResponse<T> {
+  const safeSize = Math.max(1, Math.min(size, 100));
+  const safePage = Math.max(0, page);
+  const totalPages = Math.ceil(items.length / safeSize);
+  const content = items.slice(safePage * safeSize, (safePage + 1) * safeSize);
+
+  return {
+    content,
+    totalElements: items.length,
+    totalPages,
+    size: safeSize,
+    number: safePage,
+    first: safePage === 0,
+    last: safePage >= totalPages - 1,
+    empty: content.length === 0
+  };
+}
+
+export function pageFromQuery<T>(req: Request, items: T[], defaultSize: number = 10): PaginatedResponse<T> {
+  return paginate(items, queryNumber(req, 'page', 0), queryNumber(req, 'size', defaultSize));
+}
+
+// Case-insensitive "contains" match used by the search endpoints
+export function matchesText(value: string | undefined, query: string | undefined): boolean {
+  if (!query) return true;
+  return (value || '').toLowerCase().includes(query.toLowerCase());
+}
+
+export function isWithinRange(value: Date | string, from?: string, to?: string): boolean {
+  const time = new Date(value).getTime();
+  if (from && time < new Date(from).getTime()) return false;
+  if (to) {
+    const end = new Date(to);
+    end.setHours(23, 59, 59, 999);
+    if (time > end.getTime()) return false;
+  }
+  return true;
+}
@@ -0,0 +1,144 @@
+import express, { Router } from 'express';
+import { randomBytes } from 'node:crypto';
+import { join, resolve } from 'node:path';
+import { TokenSigner, requireAuth } from './auth';
+import { backfillCopies } from './circulation';
+import { scheduleComplaintEscalation } from './complaint-sla';
+import { createApiContext } from './context';
+import { scheduleNightlyFineRun } from './fine-batch';
+import { apiErrorHandler } from './http';
+import { NotificationTransports, createNotificationTransport } from './notification-transport';
+import { PaymentGateway, createPaymentGateway } from './payment-gateway';
+import { scheduleReminders } from './reminders';
+import { LibraryStore } from './store';
+import { authRouter } from './routes/auth.routes';
+import { booksRouter } from './routes/books.routes';
+import { borrowsRouter } from './routes/borrows.routes';
+import { cashDeskRouter } from './routes/cash-desk.routes';
+import { complaintsRouter } from './routes/complaints.routes';
+import { donationsRouter } from './routes/donations.routes';
+import { finesRouter } from './routes/fines.routes';
+import { gatewayRouter } from './routes/gateway.routes';
+import { holdsRouter } from './routes/holds.routes';
+import { membersRouter } from './routes/members.routes';
+import { notificationsRouter } from './routes/notifications.routes';
+import { paymentsRouter } from './routes/payments.routes';
+import { policiesRouter } from './routes/policies.routes';
+import { receiptsRouter } from './routes/receipts.routes';
+import { usersRouter } from './routes/users.routes';
+import { waiversRouter } from './routes/waivers.routes';
+
+export interface ApiOptions {
+  // Directory holding library-db.json, uploaded images and private attachments
+  dataDir?: string;
+  // HMAC key for access, refresh and reset tokens
+  jwtSecret?: string;
+  // Start the nightly jobs; only the listening server does, not the build or the dev-server
+  scheduleJobs?: boolean;
+  // Defaults to the gateway named by PAYMENT_GATEWAY, or the local simulator
+  paymentGateway?: PaymentGateway;
+  // Defaults to PAYMENT_WEBHOOK_SECRET
+  webhookSecret?: string;
+  // Defaults to PUBLIC_ORIGIN
+  publicOrigin?: string;
+  // Default to the transports named by EMAIL_TRANSPORT and SMS_TRANSPORT, or the outbox under dataDir
+  notificationTransports?: NotificationTransports;
+}
+
+function resolveJwtSecret(options: ApiOptions): string {
+  const secret = options.jwtSecret || process.env['JWT_SECRET'];
+  if (secret) {
+    return secret;
+  }
+  console.warn('⚠️ JWT_SECRET is not set; using a random key, so sessions end when the server restarts.');
+  return randomBytes(32).toString('hex');
+}
+
+function resolveWebhookSecret(options: ApiOptions): string {
+  const secret = options.webhookSecret || process.env['PAYMENT_WEBHOOK_SECRET'];
+  if (secret) {
+    return secret;
+  }
+  console.warn('⚠️ PAYMENT_WEBHOOK_SECRET is not set; using a random key, which only the built-in simulator can sign with.');
+  return randomBytes(32).toString('hex');
+}
+
+// Request Host headers are client-controlled, so links handed to the gateway use this fixed origin instead
+function resolvePublicOrigin(options: ApiOptions): string | undefined {
+  const configured = options.publicOrigin || process.env['PUBLIC_ORIGIN'];
+  if (!configured) {
+    console.warn('⚠️ PUBLIC_ORIGIN is not set; payment gateways will be sent back to whatever host each request came in on.');
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(configured);
+  } catch {
+    throw new Error(`PUBLIC_ORIGIN must be an absolute URL such as https://library.example.org, not "${configured}".`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`PUBLIC_ORIGIN must be an http or https URL, not "${configured}".`);
+  }
+  return url.origin;
+}
+
+/**
+ * Build the /api router served by server.ts.
+ */
+export function createApiRouter(options: ApiOptions = {}): Router {
+  const dataDir = resolve(options.dataDir || process.env['LIBRARY_DATA_DIR'] || 'data');
+  const uploadDir = join(dataDir, 'uploads');
+  const webhookSecret = resolveWebhookSecret(options);
+  const ctx = createApiContext(
+    new LibraryStore(join(dataDir, 'library-db.json'), backfillCopies),
+    new TokenSigner(resolveJwtSecret(options)),
+    uploadDir,
+    join(dataDir, 'attachments'),
+    options.paymentGateway || createPaymentGateway(process.env['PAYMENT_GATEWAY'], webhookSecret),
+    webhookSecret,
+    resolvePublicOrigin(options),
+    options.notificationTransports || {
+      EMAIL: createNotificationTransport('EMAIL', process.env['EMAIL_TRANSPORT'], join(dataDir, 'outbox')),
+      SMS: createNotificationTransport('SMS', process.env['SMS_TRANSPORT'], join(dataDir, 'outbox'))
+    }
+  );
+  if (options.scheduleJobs) {
+    scheduleNightlyFineRun(ctx.store);
+    scheduleReminders(ctx.store, ctx.transports);
+    scheduleComplaintEscalation(ctx.store, ctx.hub);
+  }
+
+  const api = Router();
+  api.use('/gateway', gatewayRouter(ctx));
+  api.use(express.json());
+  api.use(express.urlencoded({ extended: true }));
+  api.use('/uploads', express.static(uploadDir, { index: false, redirect: false }));
+
+  api.use('/auth', authRouter(ctx));
+  // Registration and password reset live under /members, so that router applies requireAuth itself
+  api.use('/members', membersRouter(ctx));
+  // The live notification stream authenticates with its own token, so that router applies requireAuth itself
+  api.use('/notifications', notificationsRouter(ctx));
+  api.use('/receipts', receiptsRouter(ctx));
+
+  const authenticated = requireAuth(ctx.tokens);
+  api.use('/books', authenticated, booksRouter(ctx));
+  api.use('/borrows', authenticated, borrowsRouter(ctx));
+  api.use('/cash-desk', authenticated, cashDeskRouter(ctx));
+  api.use('/complaints', authenticated, complaintsRouter(ctx));
+  api.use('/donations', authenticated, donationsRouter(ctx));
+  api.use('/fines', authenticated, finesRouter(ctx));
+  api.use('/holds', authenticated, holdsRouter(ctx));
+  api.use('/payments', authenticated, paymentsRouter(ctx));
+  api.use('/policies', authenticated, policiesRouter(ctx));
+  api.use('/users', authenticated, usersRouter(ctx));
+  api.use('/waivers', authenticated, waiversRouter(ctx));
+
+  api.use((req, res) => {
+    res.status(404).json({ success: false, message: `No API route for ${req.method} ${req.originalUrl}` });
+  });
+  api.use(apiErrorHandler);
+
+  return api;
+}
@@ -0,0 +1,260 @@
+// ISO 2709 structural characters
+const SUBFIELD_DELIMITER = 0x1f;
+const FIELD_TERMINATOR = 0x1e;
+const RECORD_TERMINATOR = 0x1d;
+
+const LEADER_LENGTH = 24;
+const DIRECTORY_ENTRY_LENGTH = 12;
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+export interface MarcField {
+  tag: string;
+  // Control fields (001-009) carry a value, data fields carry indicators and subfields
+  value?: string;
+  indicators?: string;
+  subfields?: MarcSubfield[];
+}
+
+export interface MarcRecord {
+  leader: string;
+  fields: MarcField[];
+}
+
+export class MarcParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarcParseError';
+  }
+}
+
+export function isControlTag(tag: string): boolean {
+  return tag < '010';
+}
+
+// First value of a subfield in the first matching field, e.g. subfield(record, '245', 'a')
+export function subfield(record: MarcRecord, tag: string, code: string): string | undefined {
+  for (const field of record.fields) {
+    if (field.tag !== tag) continue;
+    const match = field.subfields?.find(sub => sub.code === code);
+    if (match) return match.value;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a file of binary MARC21 (ISO 2709) records. Lengths and offsets in the
+ * leader and directory count bytes, so the file is walked as a Buffer.
+ */
+export function parseIso2709(buffer: Buffer): MarcRecord[] {
+  const records: MarcRecord[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    // Tolerate line breaks some tools put between records
+    if (buffer[offset] === 0x0a || buffer[offset] === 0x0d) {
+      offset++;
+      continue;
+    }
+
+    const recordLength = Number(buffer.toString('latin1', offset, offset + 5));
+    if (!Number.isInteger(recordLength) || recordLength < LEADER_LENGTH || offset + recordLength > buffer.length) {
+      throw new MarcParseError(`Invalid record length at byte ${offset}.`);
+    }
+
+    records.push(parseIsoRecord(buffer.subarray(offset, offset + recordLength)));
+    offset += recordLength;
+  }
+
+  return records;
+}
+
+function parseIsoRecord(record: Buffer): MarcRecord {
+  const leader = record.toString('latin1', 0, LEADER_LENGTH);
+  const baseAddress = Number(leader.slice(12, 17));
+  if (!Number.isInteger(baseAddress) || baseAddress <= LEADER_LENGTH || baseAddress > record.length) {
+    throw new MarcParseError('Invalid base address of data in record leader.');
+  }
+
+  const fields: MarcField[] = [];
+  for (let entry = LEADER_LENGTH; entry + DIRECTORY_ENTRY_LENGTH <= baseAddress - 1; entry += DIRECTORY_ENTRY_LENGTH) {
+    const directory = record.toString('latin1', entry, entry + DIRECTORY_ENTRY_LENGTH);
+    const tag = directory.slice(0, 3);
+    const length = Number(directory.slice(3, 7));
+    const start = baseAddress + Number(directory.slice(7, 12));
+    if (!Number.isInteger(length) || start + length > record.length) {
+      throw new MarcParseError(`Invalid directory entry for field ${tag}.`);
+    }
+
+    // Drop the field terminator
+    let data = record.subarray(start, start + length);
+    if (data[data.length - 1] === FIELD_TERMINATOR) {
+      data = data.subarray(0, data.length - 1);
+    }
+
+    if (isControlTag(tag)) {
+      fields.push({ tag, value: data.toString('utf-8') });
+      continue;
+    }
+
+    const subfields: MarcSubfield[] = [];
+    let position = data.indexOf(SUBFIELD_DELIMITER);
+    while (position !== -1) {
+      const next = data.indexOf(SUBFIELD_DELIMITER, position + 1);
+      const chunk = data.subarray(position + 1, next === -1 ? data.length : next).toString('utf-8');
+      if (chunk.length > 0) {
+        subfields.push({ code: chunk[0], value: chunk.slice(1) });
+      }
+      position = next;
+    }
+    fields.push({ tag, indicators: data.toString('latin1', 0, 2).padEnd(2, ' '), subfields });
+  }
+
+  return { leader, fields };
+}
+
+export function writeIso2709(records: MarcRecord[]): Buffer {
+  return Buffer.concat(records.map(writeIsoRecord));
+}
+
+function writeIsoRecord(record: MarcRecord): Buffer {
+  const data: Buffer[] = [];
+  let directory = '';
+  let position = 0;
+
+  for (const field of record.fields) {
+    const content = isControlTag(field.tag)
+      ? Buffer.from(field.value || '', 'utf-8')
+      : Buffer.concat([
+          Buffer.from((field.indicators || '  ').slice(0, 2), 'latin1'),
+          ...(field.subfields || []).map(sub => Buffer.concat([
+            Buffer.from([SUBFIELD_DELIMITER]),
+            Buffer.from(sub.code + sub.value, 'utf-8')
+          ]))
+        ]);
+    const bytes = Buffer.concat([content, Buffer.from([FIELD_TERMINATOR])]);
+
+    directory += field.tag + pad(bytes.length, 4) + pad(position, 5);
+    data.push(bytes);
+    position += bytes.length;
+  }
+
+  const directoryBytes = Buffer.from(directory + String.fromCharCode(FIELD_TERMINATOR), 'latin1');
+  const baseAddress = LEADER_LENGTH + directoryBytes.length;
+  const recordLength = baseAddress + position + 1;
+
+  // Leader positions 9 ('a' = UTF-8) and 10-11/20-23 are fixed for MARC21
+  const leader = pad(recordLength, 5) + record.leader.slice(5, 9).padEnd(4, ' ') + 'a22' + pad(baseAddress, 5) +
+    record.leader.slice(17, 20).padEnd(3, ' ') + '4500';
+
+  return Buffer.concat([
+    Buffer.from(leader, 'latin1'),
+    directoryBytes,
+    ...data,
+    Buffer.from([RECORD_TERMINATOR])
+  ]);
+}
+
+function pad(value: number, width: number): string {
+  const text = value.toString().padStart(width, '0');
+  if (text.length > width) {
+    throw new MarcParseError('Record is too large for ISO 2709.');
+  }
+  return text;
+}
+
+/**
+ * Parse MARCXML (http://www.loc.gov/MARC21/slim). Only the record structure is read,
+ * so namespace prefixes are ignored and unknown elements are skipped.
+ */
+export function parseMarcXml(xml: string): MarcRecord[] {
+  const records: MarcRecord[] = [];
+  const recordPattern = /<(?:\w+:)?record(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?record>/g;
+
+  for (const [, body] of xml.matchAll(recordPattern)) {
+    const leader = /<(?:\w+:)?leader>([\s\S]*?)<\/(?:\w+:)?leader>/.exec(body)?.[1] || '';
+    const fields: MarcField[] = [];
+    const fieldPattern = /<(?:\w+:)?(controlfield|datafield)([^>]*)>([\s\S]*?)<\/(?:\w+:)?\1>/g;
+
+    for (const [, kind, attributes, content] of body.matchAll(fieldPattern)) {
+      const tag = attribute(attributes, 'tag');
+      if (!tag) {
+        throw new MarcParseError('MARCXML field is missing its tag attribute.');
+      }
+
+      if (kind === 'controlfield') {
+        fields.push({ tag, value: decodeXml(content) });
+        continue;
+      }
+
+      const subfields: MarcSubfield[] = [];
+      for (const [, subAttributes, value] of content.matchAll(/<(?:\w+:)?subfield([^>]*)>([\s\S]*?)<\/(?:\w+:)?subfield>/g)) {
+        subfields.push({ code: attribute(subAttributes, 'code') || '', value: decodeXml(value) });
+      }
+      fields.push({
+        tag,
+        indicators: (attribute(attributes, 'ind1') || ' ') + (attribute(attributes, 'ind2') || ' '),
+        subfields
+      });
+    }
+
+    records.push({ leader: decodeXml(leader), fields });
+  }
+
+  if (records.length === 0 && !/<(?:\w+:)?collection[\s>]/.test(xml)) {
+    throw new MarcParseError('No MARCXML records found.');
+  }
+  return records;
+}
+
+export function writeMarcXml(records: MarcRecord[]): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<collection xmlns="http://www.loc.gov/MARC21/slim">'];
+
+  for (const record of records) {
+    lines.push('  <record>', `    <leader>${encodeXml(record.leader)}</leader>`);
+    for (const field of record.fields) {
+      if (isControlTag(field.tag)) {
+        lines.push(`    <controlfield tag="${field.tag}">${encodeXml(field.value || '')}</controlfield>`);
+        continue;
+      }
+      const [ind1, ind2] = (field.indicators || '  ').split('');
+      lines.push(`    <datafield tag="${field.tag}" ind1="${encodeXml(ind1)}" ind2="${encodeXml(ind2)}">`);
+      for (const sub of field.subfields || []) {
+        lines.push(`      <subfield code="${encodeXml(sub.code)}">${encodeXml(sub.value)}</subfield>`);
+      }
+      lines.push('    </datafield>');
+    }
+    lines.push('  </record>');
+  }
+
+  lines.push('</collection>');
+  return lines.join('\n');
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(attributes);
+  return match ? decodeXml(match[2] ?? match[3]) : undefined;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NotificationHub } from './notification-hub';
+import { LibraryStore, createEmptyData } from './store';
+
+describe('NotificationHub', () => {
+  let dir: string;
+  let store: LibraryStore;
+  let hub: NotificationHub;
+  let written: string[];
+
+  function stream(): Response {
+    return {
+      writeHead: () => undefined,
+      write: (chunk: string) => written.push(chunk),
+      on: () => undefined
+    } as unknown as Response;
+  }
+
+  function pushed(): string[] {
+    return written.filter(chunk => chunk.startsWith('event: notification'));
+  }
+
+  function notify(memberId: string = 'MEM0002'): void {
+    store.update(data => hub.notify(data, { memberId, category: 'PAYMENT', title: 'Payment received', message: 'Thanks' }));
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'notification-hub-'));
+    const file = join(dir, 'library.json');
+    writeFileSync(file, JSON.stringify(createEmptyData()));
+    store = new LibraryStore(file);
+    hub = new NotificationHub(store);
+    written = [];
+    hub.open('MEM0002', stream(), 0);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pushes a notification only once the update has been saved', () => {
+    store.update(data => {
+      hub.notify(data, { memberId: 'MEM0002', category: 'PAYMENT', title: 'Payment received', message: 'Thanks' });
+      expect(pushed().length).toBe(0);
+    });
+
+    expect(pushed().length).toBe(1);
+    expect(pushed()[0]).toContain('"title":"Payment received"');
+  });
+
+  it('drops the push when the update fails', () => {
+    expect(() => store.update(data => {
+      hub.notify(data, { memberId: 'MEM0002', category: 'PAYMENT', title: 'Payment received', message: 'Thanks' });
+      throw new Error('validation failed');
+    })).toThrowError('validation failed');
+    expect(pushed().length).toBe(0);
+
+    notify();
+    expect(pushed().length).toBe(1);
+  });
+
+  it('only pushes to the member the notification is for', () => {
+    notify('MEM0003');
+    expect(pushed().length).toBe(0);
+    expect(store.read(data => data.appNotifications.length)).toBe(1);
+  });
+});
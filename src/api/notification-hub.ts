@@ -0,0 +1,79 @@
+import { Response } from 'express';
+import { AppNotification } from '../app/models/notification.model';
+import { LibraryData, LibraryStore, nextId } from './store';
+
+// Comment lines keep idle connections open through proxies that drop silent ones
+export const STREAM_HEARTBEAT_MS = 25 * 1000;
+// In-app notifications kept per member; older ones are dropped
+export const MAX_APP_NOTIFICATIONS = 100;
+
+export type AppNotificationInput = Omit<AppNotification, 'id' | 'createdAt' | 'readAt'>;
+
+/**
+ * Records in-app notifications and pushes them to each member's open Server-Sent Events streams.
+ * A member may have several tabs open; each gets its own stream.
+ */
+export class NotificationHub {
+  private readonly streams = new Map<string, Set<Response>>();
+
+  constructor(private readonly store: LibraryStore) {}
+
+  /**
+   * Add a notification for a member inside a store update. It is pushed to their open streams once
+   * the update has been saved, so clients never hear about a change that did not stick.
+   */
+  notify(data: LibraryData, input: AppNotificationInput): AppNotification {
+    const notification: AppNotification = { id: nextId(data, 'AN'), ...input, createdAt: new Date() };
+    data.appNotifications.push(notification);
+
+    const forMember = data.appNotifications.filter(n => n.memberId === input.memberId);
+    if (forMember.length > MAX_APP_NOTIFICATIONS) {
+      const dropped = new Set(forMember.slice(0, forMember.length - MAX_APP_NOTIFICATIONS));
+      data.appNotifications = data.appNotifications.filter(n => !dropped.has(n));
+    }
+
+    this.store.afterSave(() => this.send(input.memberId, 'notification', notification));
+    return notification;
+  }
+
+  /**
+   * Turn a response into an event stream for a member. The stream stays open until the client goes away.
+   */
+  open(memberId: string, res: Response, unreadCount: number): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+    this.write(res, 'unread', { unreadCount });
+
+    const streams = this.streams.get(memberId) || new Set<Response>();
+    streams.add(res);
+    this.streams.set(memberId, streams);
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+    heartbeat.unref?.();
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      streams.delete(res);
+      if (streams.size === 0) {
+        this.streams.delete(memberId);
+      }
+    });
+  }
+
+  // Tell a member's other tabs that notifications were read
+  sendUnreadCount(memberId: string, unreadCount: number): void {
+    this.send(memberId, 'unread', { unreadCount });
+  }
+
+  private send(memberId: string, event: string, payload: unknown): void {
+    this.streams.get(memberId)?.forEach(res => this.write(res, event, payload));
+  }
+
+  private write(res: Response, event: string, payload: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+  }
+}
@@ -0,0 +1,50 @@
+import { Server, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { HttpRelayTransport, OutgoingMessage, createNotificationTransport } from './notification-transport';
+
+describe('HttpRelayTransport', () => {
+  const message: OutgoingMessage = { channel: 'EMAIL', to: 'member@library.com', subject: 'Due tomorrow', body: 'Dune is due tomorrow.' };
+  let server: Server;
+  let url: string;
+
+  async function relay(answer: boolean): Promise<void> {
+    server = createServer((req, res) => {
+      if (answer) {
+        res.writeHead(202, { 'Content-Type': 'application/json' }).end(JSON.stringify({ id: 'MSG-1' }));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/send`;
+  }
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('returns the reference the relay gives back', async () => {
+    await relay(true);
+    expect(await new HttpRelayTransport(url, 'token', 1000).send(message)).toBe('MSG-1');
+  });
+
+  it('gives up on a relay that does not answer in time', async () => {
+    await relay(false);
+    const started = Date.now();
+    await expectAsync(new HttpRelayTransport(url, undefined, 50).send(message))
+      .toBeRejectedWithError('Relay did not answer within 50 ms.');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('refuses a timeout that is not a whole number of milliseconds', async () => {
+    await relay(true);
+    process.env['SMS_TRANSPORT_URL'] = url;
+    process.env['SMS_TRANSPORT_TIMEOUT_MS'] = 'soon';
+    try {
+      expect(() => createNotificationTransport('SMS', 'http', 'outbox'))
+        .toThrowError('SMS_TRANSPORT_TIMEOUT_MS must be a whole number of milliseconds.');
+    } finally {
+      delete process.env['SMS_TRANSPORT_URL'];
+      delete process.env['SMS_TRANSPORT_TIMEOUT_MS'];
+    }
+  });
+});
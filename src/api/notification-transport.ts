@@ -0,0 +1,110 @@
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { NotificationChannel } from '../app/models/notification.model';
+
+export interface OutgoingMessage {
+  channel: NotificationChannel;
+  // Email address, or phone number with country code
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Carries email or SMS messages to members. Resolves with the provider's reference for the
+ * message, if it gives one, and rejects when the message was not accepted.
+ */
+export interface NotificationTransport {
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<string | undefined>;
+}
+
+export type NotificationTransports = Record<NotificationChannel, NotificationTransport>;
+
+/**
+ * Development transport: appends each message to <dir>/<channel>.log as a JSON line and echoes it to the console.
+ */
+export class OutboxTransport implements NotificationTransport {
+  readonly name = 'outbox';
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: OutgoingMessage): Promise<string | undefined> {
+    const reference = randomUUID();
+    mkdirSync(this.dir, { recursive: true });
+    appendFileSync(
+      join(this.dir, `${message.channel.toLowerCase()}.log`),
+      `${JSON.stringify({ reference, sentAt: new Date().toISOString(), ...message })}\n`
+    );
+    console.log(`📨 ${message.channel} to ${message.to}: ${message.subject}`);
+    return reference;
+  }
+}
+
+// How long a relay has to answer before the message counts as failed and is left for the next run
+export const RELAY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Hands messages to an email or SMS relay over HTTP: POSTs the message as JSON, with an optional
+ * bearer token, and reads the relay's reference from an `id` field in the reply.
+ */
+export class HttpRelayTransport implements NotificationTransport {
+  readonly name = 'http';
+
+  constructor(
+    private readonly url: string,
+    private readonly token?: string,
+    private readonly timeoutMs: number = RELAY_TIMEOUT_MS
+  ) {}
+
+  async send(message: OutgoingMessage): Promise<string | undefined> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+        },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      if (!response.ok) {
+        throw new Error(`Relay returned ${response.status}.`);
+      }
+      const reply = await response.json().catch(() => ({}));
+      return typeof reply?.id === 'string' ? reply.id : undefined;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Relay did not answer within ${this.timeoutMs} ms.`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Transport for a channel, named by EMAIL_TRANSPORT or SMS_TRANSPORT; the outbox is the default.
+ * The http relay reads its address and token from <CHANNEL>_TRANSPORT_URL and <CHANNEL>_TRANSPORT_TOKEN,
+ * and how long to wait for it from <CHANNEL>_TRANSPORT_TIMEOUT_MS.
+ */
+export function createNotificationTransport(channel: NotificationChannel, name: string | undefined, outboxDir: string): NotificationTransport {
+  switch (name || 'outbox') {
+    case 'outbox':
+      return new OutboxTransport(outboxDir);
+    case 'http': {
+      const url = process.env[`${channel}_TRANSPORT_URL`];
+      if (!url) {
+        throw new Error(`${channel}_TRANSPORT_URL must be set to use the http ${channel.toLowerCase()} transport.`);
+      }
+      const timeout = process.env[`${channel}_TRANSPORT_TIMEOUT_MS`];
+      const timeoutMs = timeout ? Number(timeout) : RELAY_TIMEOUT_MS;
+      if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+        throw new Error(`${channel}_TRANSPORT_TIMEOUT_MS must be a whole number of milliseconds.`);
+      }
+      return new HttpRelayTransport(url, process.env[`${channel}_TRANSPORT_TOKEN`], timeoutMs);
+    }
+    default:
+      throw new Error(`Unknown ${channel.toLowerCase()} transport "${name}".`);
+  }
+}
@@ -0,0 +1,42 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { HttpError } from './http';
+
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Hash a password (or secret answer) with a random salt using scrypt.
+ * The result is stored as `scrypt$<salt>$<hash>`.
+ */
+export function hashSecret(secret: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(secret, salt, KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+/**
+ * Check a plain secret against a hash produced by `hashSecret`.
+ */
+export function verifySecret(secret: string, storedHash: string): boolean {
+  const [scheme, salt, hash] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(secret, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Secret answers are compared case- and whitespace-insensitively
+export function normalizeSecretAnswer(answer: string): string {
+  return answer.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function assertPasswordStrength(password: unknown): string {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(422, `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+  }
+  return password;
+}
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { IncomingHttpHeaders } from 'node:http';
+import { PaymentRecord } from '../app/models/fine.model';
+import { SimulatorGateway } from './gateway-simulator';
+
+export interface CheckoutRequest {
+  payment: PaymentRecord;
+  // Absolute URLs on this server
+  returnUrl: string;
+  webhookUrl: string;
+}
+
+export interface CheckoutSession {
+  gatewayTransactionId: string;
+  // Hosted page the member finishes the payment on
+  redirectUrl: string;
+  // UPI payments: the intent to pay, and optionally the gateway's own QR image for it
+  upiDeepLink?: string;
+  qrCode?: string;
+}
+
+// Final outcome a gateway reports for one of its transactions
+export interface GatewayEvent {
+  // The gateway's own ID for this delivery, kept for tracing retries
+  eventId?: string;
+  gatewayTransactionId: string;
+  status: 'COMPLETED' | 'FAILED';
+  responseCode: string;
+  responseMessage: string;
+  processedAt: Date;
+  fees?: number;
+}
+
+/**
+ * A payment provider. The API never sees card or bank details: members enter them on the
+ * gateway's hosted page, and the gateway reports the outcome to /api/gateway/<name>/webhook,
+ * signed with the shared webhook secret (see webhook-signature.ts).
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): CheckoutSession;
+  // Turn a webhook body into an event once its signature has been checked; throws an HttpError when it is malformed
+  parseWebhook(headers: IncomingHttpHeaders, body: unknown): GatewayEvent;
+  // Pages the gateway hosts itself, mounted under /api/gateway/<name>
+  router?(): Router;
+}
+
+/**
+ * Gateway named by PAYMENT_GATEWAY; the local simulator is the default.
+ * @param webhookSecret shared with the gateway to sign its webhook calls
+ */
+export function createPaymentGateway(name: string | undefined, webhookSecret: string): PaymentGateway {
+  switch (name || 'simulator') {
+    case 'simulator':
+      return new SimulatorGateway(webhookSecret);
+    default:
+      throw new Error(`Unknown payment gateway "${name}".`);
+  }
+}
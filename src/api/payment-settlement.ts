@@ -0,0 +1,118 @@
+import { FineRecord, PaymentGatewayResponse, PaymentRecord } from '../app/models/fine.model';
+import { GatewayEvent } from './payment-gateway';
+import { HttpError } from './http';
+import { GatewayWebhookRecord, LibraryData } from './store';
+
+// Minutes a pending payment may wait for the gateway before it is failed
+export const PAYMENT_TIMEOUT_MINUTES = 15;
+
+function reservedFines(data: LibraryData, payment: PaymentRecord): FineRecord[] {
+  return data.fines.filter(fine => fine.paymentId === payment.paymentId && fine.status !== 'PAID' && fine.status !== 'WAIVED');
+}
+
+/**
+ * Mark a payment and the fines it covers as paid.
+ */
+export function completePayment(data: LibraryData, payment: PaymentRecord, processedAt: Date, gatewayResponse?: PaymentGatewayResponse): void {
+  const fines = reservedFines(data, payment);
+  fines.forEach(fine => {
+    fine.status = 'PAID';
+    fine.paidDate = processedAt;
+  });
+
+  payment.status = 'COMPLETED';
+  payment.paymentDate = processedAt;
+  payment.gatewayResponse = gatewayResponse;
+  payment.expiresAt = undefined;
+  payment.fineRecords = payment.fineRecords.map(paid => ({ ...(fines.find(fine => fine.id === paid.id) || paid) }));
+}
+
+/**
+ * Mark a payment as failed and release its fines so they can be paid again.
+ */
+export function failPayment(data: LibraryData, payment: PaymentRecord, gatewayResponse: PaymentGatewayResponse): void {
+  reservedFines(data, payment).forEach(fine => fine.paymentId = undefined);
+  payment.status = 'FAILED';
+  payment.gatewayResponse = gatewayResponse;
+  payment.expiresAt = undefined;
+}
+
+export interface GatewayEventResult {
+  payment: PaymentRecord;
+  webhook: GatewayWebhookRecord;
+  // True when this transaction's outcome had already been received
+  duplicate: boolean;
+}
+
+/**
+ * Apply a gateway's final outcome to the payment it belongs to, at most once per transaction.
+ * Retried deliveries are recorded but change nothing, and payments that are no longer pending are left as they are.
+ */
+export function applyGatewayEvent(data: LibraryData, gatewayName: string, event: GatewayEvent, receivedAt: Date = new Date()): GatewayEventResult {
+  const payment = data.payments.find(p => p.gatewayName === gatewayName && p.gatewayTransactionId === event.gatewayTransactionId);
+  if (!payment) {
+    throw new HttpError(404, 'No payment for this gateway transaction.');
+  }
+
+  // A redelivery carries the same event ID; a second outcome for the same transaction is a duplicate too
+  const received = data.gatewayWebhooks.find(w => w.gatewayName === gatewayName &&
+    (w.gatewayTransactionId === event.gatewayTransactionId || (!!event.eventId && w.eventId === event.eventId)));
+  if (received) {
+    received.deliveries++;
+    received.lastReceivedAt = receivedAt;
+    if (received.status !== event.status) {
+      console.warn(`⚠️ ${gatewayName} reported ${event.status} for ${event.gatewayTransactionId} after ${received.status}; keeping the first outcome.`);
+    }
+    return { payment, webhook: received, duplicate: true };
+  }
+
+  const webhook: GatewayWebhookRecord = {
+    gatewayName,
+    gatewayTransactionId: event.gatewayTransactionId,
+    eventId: event.eventId,
+    paymentId: payment.paymentId,
+    status: event.status,
+    result: payment.status === 'PENDING' ? 'APPLIED' : 'IGNORED',
+    deliveries: 1,
+    firstReceivedAt: receivedAt,
+    lastReceivedAt: receivedAt
+  };
+  data.gatewayWebhooks.push(webhook);
+
+  if (webhook.result === 'IGNORED') {
+    if (event.status === 'COMPLETED') {
+      console.warn(`⚠️ ${gatewayName} confirmed ${event.gatewayTransactionId} after payment ${payment.paymentId} was ${payment.status}; it needs a manual refund.`);
+    }
+    return { payment, webhook, duplicate: false };
+  }
+
+  const gatewayResponse: PaymentGatewayResponse = {
+    gatewayTransactionId: event.gatewayTransactionId,
+    gatewayName,
+    responseCode: event.responseCode,
+    responseMessage: event.responseMessage,
+    processedAt: event.processedAt,
+    fees: event.fees
+  };
+  if (event.status === 'COMPLETED') {
+    completePayment(data, payment, event.processedAt, gatewayResponse);
+  } else {
+    failPayment(data, payment, gatewayResponse);
+  }
+  return { payment, webhook, duplicate: false };
+}
+
+/**
+ * Fail pending payments the gateway never confirmed, e.g. when the member closed the payment page.
+ */
+export function expireStalePayments(data: LibraryData, now: Date = new Date()): void {
+  data.payments
+    .filter(payment => payment.status === 'PENDING' && payment.expiresAt && new Date(payment.expiresAt).getTime() <= now.getTime())
+    .forEach(payment => failPayment(data, payment, {
+      gatewayTransactionId: payment.gatewayTransactionId || '',
+      gatewayName: payment.gatewayName || '',
+      responseCode: 'TIMEOUT',
+      responseMessage: `No confirmation from the gateway within ${PAYMENT_TIMEOUT_MINUTES} minutes.`,
+      processedAt: now
+    }));
+}
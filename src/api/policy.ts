@@ -0,0 +1,99 @@
+import { BorrowingPolicy, MembershipType } from '../app/models/policy.model';
+import { HttpError } from './http';
+import { LibraryData } from './store';
+import { readWholeNumber } from './util';
+
+export const MEMBERSHIP_TYPES: MembershipType[] = ['BASIC', 'STUDENT', 'PREMIUM', 'FACULTY'];
+
+// Rules for membership types an administrator has not changed
+export const DEFAULT_POLICIES: { [type in MembershipType]: BorrowingPolicy } = {
+  BASIC: {
+    membershipType: 'BASIC',
+    loanPeriodDays: 14,
+    maxBooks: 5,
+    maxRenewals: 2,
+    maxExtensionDays: 14,
+    finePerDay: 5,
+    maxFinePerLoan: 500,
+    maxOutstandingFines: 0,
+    blockWhenOverdue: true,
+    restrictedCategories: []
+  },
+  STUDENT: {
+    membershipType: 'STUDENT',
+    loanPeriodDays: 14,
+    maxBooks: 3,
+    maxRenewals: 1,
+    maxExtensionDays: 7,
+    finePerDay: 2,
+    maxFinePerLoan: 200,
+    maxOutstandingFines: 0,
+    blockWhenOverdue: true,
+    restrictedCategories: []
+  },
+  PREMIUM: {
+    membershipType: 'PREMIUM',
+    loanPeriodDays: 21,
+    maxBooks: 10,
+    maxRenewals: 3,
+    maxExtensionDays: 14,
+    finePerDay: 5,
+    maxFinePerLoan: 500,
+    maxOutstandingFines: 100,
+    blockWhenOverdue: true,
+    restrictedCategories: []
+  },
+  FACULTY: {
+    membershipType: 'FACULTY',
+    loanPeriodDays: 30,
+    maxBooks: 10,
+    maxRenewals: 3,
+    maxExtensionDays: 30,
+    finePerDay: 5,
+    maxFinePerLoan: 500,
+    maxOutstandingFines: 100,
+    blockWhenOverdue: false,
+    restrictedCategories: []
+  }
+};
+
+export function isMembershipType(value: unknown): value is MembershipType {
+  return MEMBERSHIP_TYPES.includes(value as MembershipType);
+}
+
+export function policyFor(data: LibraryData, membershipType: MembershipType): BorrowingPolicy {
+  return data.policies.find(policy => policy.membershipType === membershipType)
+    || DEFAULT_POLICIES[membershipType]
+    || DEFAULT_POLICIES.BASIC;
+}
+
+export function allPolicies(data: LibraryData): BorrowingPolicy[] {
+  return MEMBERSHIP_TYPES.map(type => policyFor(data, type));
+}
+
+/**
+ * Validate a policy update. Fields left out keep their current value.
+ */
+export function readPolicy(body: any, current: BorrowingPolicy): Omit<BorrowingPolicy, 'updatedAt' | 'updatedBy'> {
+  const categories = body?.restrictedCategories ?? current.restrictedCategories;
+  if (!Array.isArray(categories) || categories.some(category => typeof category !== 'string')) {
+    throw new HttpError(400, 'Restricted categories must be a list of category names.');
+  }
+  const blockWhenOverdue = body?.blockWhenOverdue ?? current.blockWhenOverdue;
+  if (typeof blockWhenOverdue !== 'boolean') {
+    throw new HttpError(400, 'Block when overdue must be true or false.');
+  }
+
+  return {
+    membershipType: current.membershipType,
+    loanPeriodDays: readWholeNumber(body, 'loanPeriodDays', 'Loan period', 1, 365, current.loanPeriodDays),
+    maxBooks: readWholeNumber(body, 'maxBooks', 'Maximum books', 0, 100, current.maxBooks),
+    maxRenewals: readWholeNumber(body, 'maxRenewals', 'Maximum renewals', 0, 10, current.maxRenewals),
+    maxExtensionDays: readWholeNumber(body, 'maxExtensionDays', 'Maximum extension', 1, 90, current.maxExtensionDays),
+    finePerDay: readWholeNumber(body, 'finePerDay', 'Fine per day', 0, 1000, current.finePerDay),
+    maxFinePerLoan: readWholeNumber(body, 'maxFinePerLoan', 'Fine limit per book', 0, 100000, current.maxFinePerLoan),
+    maxOutstandingFines: readWholeNumber(body, 'maxOutstandingFines', 'Outstanding fine limit', 0, 100000, current.maxOutstandingFines),
+    blockWhenOverdue,
+    restrictedCategories: Array.from(new Set(categories.map((category: string) => category.trim()).filter(Boolean)))
+  };
+}
@@ -0,0 +1,97 @@
+import { readingStreak } from './preferences';
+import { LibraryData, MemberRecord, createEmptyData } from './store';
+
+describe('readingStreak', () => {
+  const TODAY = new Date(Date.UTC(2025, 5, 15));
+  let data: LibraryData;
+  let member: MemberRecord;
+
+  // Months are 0-based, as for Date.UTC
+  function returned(year: number, month: number, count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      data.loans.push({
+        id: `LN${String(data.loans.length + 1).padStart(4, '0')}`,
+        borrowId: 'BR0001',
+        memberId: member.id,
+        bookId: 'BK0001',
+        quantity: 1,
+        borrowDate: new Date(Date.UTC(year, month, 1)).toISOString(),
+        dueDate: new Date(Date.UTC(year, month, 14)).toISOString(),
+        returnedDate: new Date(Date.UTC(year, month, 10)).toISOString(),
+        status: 'Returned',
+        renewalCount: 0,
+        maxRenewalsAllowed: 2
+      });
+    }
+  }
+
+  function goal(monthlyGoal: number): void {
+    member.preferences = { ...member.preferences!, readingGoals: { monthlyGoal, yearlyGoal: 100 } };
+  }
+
+  beforeEach(() => {
+    data = createEmptyData();
+    member = { id: 'MEM0002', memberName: 'Test Member', membershipType: 'BASIC', role: 'MEMBER' } as MemberRecord;
+    data.members.push(member);
+    goal(2);
+  });
+
+  it('is zero without any returned books', () => {
+    expect(readingStreak(data, member, TODAY)).toBe(0);
+  });
+
+  it('counts months in a row that met the goal', () => {
+    returned(2025, 3, 2);
+    returned(2025, 4, 3);
+    returned(2025, 5, 2);
+    expect(readingStreak(data, member, TODAY)).toBe(3);
+  });
+
+  it('does not break the streak before the month in progress meets its goal', () => {
+    returned(2025, 3, 2);
+    returned(2025, 4, 2);
+    returned(2025, 5, 1);
+    expect(readingStreak(data, member, TODAY)).toBe(2);
+  });
+
+  it('stops at the first month that fell short', () => {
+    returned(2025, 1, 2);
+    returned(2025, 2, 1);
+    returned(2025, 3, 2);
+    returned(2025, 4, 2);
+    expect(readingStreak(data, member, TODAY)).toBe(2);
+  });
+
+  it('ends once a whole month has passed without meeting the goal', () => {
+    returned(2025, 3, 2);
+    expect(readingStreak(data, member, TODAY)).toBe(0);
+  });
+
+  it('runs across the turn of the year', () => {
+    returned(2024, 11, 2);
+    returned(2025, 0, 2);
+    expect(readingStreak(data, member, new Date(Date.UTC(2025, 1, 3)))).toBe(2);
+  });
+
+  it('counts a return in the UTC month it was made in', () => {
+    returned(2025, 4, 2);
+    // 00:30 UTC on 1 June is still 31 May west of Greenwich
+    data.loans.push({ ...data.loans[0], id: 'LN0003', returnedDate: '2025-06-01T00:30:00.000Z' });
+    data.loans.push({ ...data.loans[0], id: 'LN0004', returnedDate: '2025-06-01T00:30:00.000Z' });
+    expect(readingStreak(data, member, new Date('2025-06-01T00:45:00.000Z'))).toBe(2);
+  });
+
+  it('needs one book a month when the member has no goal', () => {
+    goal(0);
+    returned(2025, 4);
+    returned(2025, 5);
+    expect(readingStreak(data, member, TODAY)).toBe(2);
+  });
+
+  it('ignores books still on loan', () => {
+    returned(2025, 4, 2);
+    data.loans[1].returnedDate = undefined;
+    data.loans[1].status = 'Borrowed';
+    expect(readingStreak(data, member, TODAY)).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+import { UserPreferences } from '../app/models/user.model';
+import { isActiveLoan } from './circulation';
+import { HttpError } from './http';
+import { LibraryData, LoanRecord, MemberRecord } from './store';
+import { readWholeNumber } from './util';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  favoriteGenres: [],
+  notificationSettings: {
+    emailNotifications: true,
+    smsNotifications: false,
+    reminderDaysBeforeDue: 2,
+    overdueNotifications: true
+  },
+  privacySettings: {
+    showReadingHistory: true,
+    showFavoriteBooks: true,
+    allowRecommendations: true
+  },
+  readingGoals: {
+    monthlyGoal: 2,
+    yearlyGoal: 24
+  }
+};
+
+const MAX_FAVORITE_GENRES = 10;
+
+// Stored preferences may predate a setting, so fill the gaps from the defaults
+export function preferencesFor(member: MemberRecord): Required<UserPreferences> {
+  const stored = member.preferences;
+  return {
+    favoriteGenres: stored?.favoriteGenres || DEFAULT_PREFERENCES.favoriteGenres,
+    notificationSettings: { ...DEFAULT_PREFERENCES.notificationSettings, ...stored?.notificationSettings },
+    privacySettings: { ...DEFAULT_PREFERENCES.privacySettings, ...stored?.privacySettings },
+    readingGoals: { ...DEFAULT_PREFERENCES.readingGoals!, ...stored?.readingGoals }
+  };
+}
+
+export function notificationSettingsFor(member: MemberRecord): UserPreferences['notificationSettings'] {
+  return preferencesFor(member).notificationSettings;
+}
+
+function readSwitch(group: any, name: string, label: string, fallback: boolean): boolean {
+  const value = group?.[name] ?? fallback;
+  if (typeof value !== 'boolean') {
+    throw new HttpError(400, `${label} must be true or false.`);
+  }
+  return value;
+}
+
+/**
+ * Validate a preferences update. Settings left out keep their current value; the reading streak is
+ * never stored, since readingStreak works it out from loan history whenever it is shown.
+ */
+export function readPreferences(body: any, current: Required<UserPreferences>): Required<UserPreferences> {
+  const genres = body?.favoriteGenres ?? current.favoriteGenres;
+  if (!Array.isArray(genres) || genres.some(genre => typeof genre !== 'string')) {
+    throw new HttpError(400, 'Favourite genres must be a list of genre names.');
+  }
+  const favoriteGenres = Array.from(new Set(genres.map((genre: string) => genre.trim()).filter(Boolean)));
+  if (favoriteGenres.length > MAX_FAVORITE_GENRES) {
+    throw new HttpError(400, `Choose at most ${MAX_FAVORITE_GENRES} favourite genres.`);
+  }
+
+  const notifications = body?.notificationSettings;
+  const privacy = body?.privacySettings;
+  const goals = body?.readingGoals;
+  const notificationSettings = {
+    emailNotifications: readSwitch(notifications, 'emailNotifications', 'Email notifications', current.notificationSettings.emailNotifications),
+    smsNotifications: readSwitch(notifications, 'smsNotifications', 'SMS notifications', current.notificationSettings.smsNotifications),
+    reminderDaysBeforeDue: readWholeNumber(notifications, 'reminderDaysBeforeDue', 'Reminder days before due', 0, 14, current.notificationSettings.reminderDaysBeforeDue),
+    overdueNotifications: readSwitch(notifications, 'overdueNotifications', 'Overdue notifications', current.notificationSettings.overdueNotifications)
+  };
+  const privacySettings = {
+    showReadingHistory: readSwitch(privacy, 'showReadingHistory', 'Show reading history', current.privacySettings.showReadingHistory),
+    showFavoriteBooks: readSwitch(privacy, 'showFavoriteBooks', 'Show favourite books', current.privacySettings.showFavoriteBooks),
+    allowRecommendations: readSwitch(privacy, 'allowRecommendations', 'Allow recommendations', current.privacySettings.allowRecommendations)
+  };
+  const readingGoals = {
+    monthlyGoal: readWholeNumber(goals, 'monthlyGoal', 'Monthly reading goal', 0, 100, current.readingGoals.monthlyGoal),
+    yearlyGoal: readWholeNumber(goals, 'yearlyGoal', 'Yearly reading goal', 0, 1000, current.readingGoals.yearlyGoal)
+  };
+  if (readingGoals.yearlyGoal > 0 && readingGoals.monthlyGoal > readingGoals.yearlyGoal) {
+    throw new HttpError(400, 'Monthly reading goal cannot be more than the yearly goal.');
+  }
+
+  return { favoriteGenres, notificationSettings, privacySettings, readingGoals };
+}
+
+// Months are UTC months, so the server's time zone cannot move a return into the next one
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${date.getUTCMonth()}`;
+}
+
+/**
+ * Months in a row, counting back from now, in which the member returned at least their monthly goal of
+ * books (at least one without a goal). The month in progress only counts once its goal is met.
+ */
+export function readingStreak(data: LibraryData, member: MemberRecord, asOf: Date = new Date()): number {
+  const goal = Math.max(1, preferencesFor(member).readingGoals.monthlyGoal);
+  const returnedPerMonth = new Map<string, number>();
+  data.loans
+    .filter(loan => loan.memberId === member.id && loan.returnedDate)
+    .forEach(loan => {
+      const key = monthKey(new Date(loan.returnedDate!));
+      returnedPerMonth.set(key, (returnedPerMonth.get(key) || 0) + 1);
+    });
+  const metGoal = (month: Date) => (returnedPerMonth.get(monthKey(month)) || 0) >= goal;
+
+  const month = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), 1));
+  if (!metGoal(month)) {
+    month.setUTCMonth(month.getUTCMonth() - 1);
+  }
+  let streak = 0;
+  while (metGoal(month)) {
+    streak++;
+    month.setUTCMonth(month.getUTCMonth() - 1);
+  }
+  return streak;
+}
+
+/**
+ * Whether someone other than the member may see the books they have returned. Loans still out stay
+ * visible to staff either way, since the library needs them back.
+ */
+export function sharesReadingHistory(member: MemberRecord | undefined): boolean {
+  return !member || preferencesFor(member).privacySettings.showReadingHistory;
+}
+
+export function isLoanVisibleTo(data: LibraryData, loan: LoanRecord, viewerId: string): boolean {
+  return loan.memberId === viewerId
+    || isActiveLoan(loan)
+    || sharesReadingHistory(data.members.find(m => m.id === loan.memberId));
+}
@@ -0,0 +1,40 @@
+import { createHash } from 'node:crypto';
+import { PaymentRecord, PaymentStatus } from '../app/models/fine.model';
+import { LibraryData } from './store';
+
+// Payments that have a receipt; refunds change the status but not what was printed
+export const RECEIPT_STATUSES: PaymentStatus[] = ['COMPLETED', 'REFUNDED'];
+
+/**
+ * Verification code printed on a payment receipt: the first 64 bits of a SHA-256 over
+ * everything the receipt states, so a changed amount or book no longer matches the code.
+ * Only fields that never change after the payment completes are covered.
+ */
+export function receiptVerificationCode(payment: PaymentRecord): string {
+  const printed = [
+    payment.paymentId,
+    payment.transactionId,
+    payment.memberId,
+    payment.amount.toFixed(2),
+    (payment.processingFee || 0).toFixed(2),
+    new Date(payment.paymentDate).toISOString(),
+    ...payment.fineRecords.map(fine => `${fine.id}:${fine.totalFine.toFixed(2)}`)
+  ].join('|');
+
+  const hex = createHash('sha256').update(printed).digest('hex').slice(0, 16).toUpperCase();
+  return hex.match(/.{4}/g)!.join('-');
+}
+
+export function normalizeVerificationCode(code: string): string {
+  const hex = code.replace(/[^0-9a-f]/gi, '').toUpperCase();
+  return hex.length === 16 ? hex.match(/.{4}/g)!.join('-') : '';
+}
+
+export function findPaymentByReceiptCode(data: LibraryData, code: string): PaymentRecord | undefined {
+  return data.payments.find(payment => RECEIPT_STATUSES.includes(payment.status) && receiptVerificationCode(payment) === code);
+}
+
+// "Library Member" -> "L. M."; a verification check should not reveal who paid
+export function maskName(name: string): string {
+  return name.split(/\s+/).filter(Boolean).map(part => `${part[0].toUpperCase()}.`).join(' ');
+}
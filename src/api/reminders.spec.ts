@@ -0,0 +1,94 @@
+import { NotificationTransports } from './notification-transport';
+import { queueReminders } from './reminders';
+import { LibraryData, LoanRecord, MemberRecord, createEmptyData } from './store';
+
+describe('queueReminders', () => {
+  const HOUR = 60 * 60 * 1000;
+  // The scheduled run, a day before the loan falls due
+  const RUN = new Date('2025-03-09T09:00:00.000Z');
+  const transports: NotificationTransports = {
+    EMAIL: { name: 'test', send: async () => 'REF' },
+    SMS: { name: 'test', send: async () => 'REF' }
+  };
+  let data: LibraryData;
+  let loan: LoanRecord;
+
+  function later(hours: number): Date {
+    return new Date(RUN.getTime() + hours * HOUR);
+  }
+
+  beforeEach(() => {
+    data = createEmptyData();
+    data.members.push({ id: 'MEM0002', memberName: 'Test Member', email: 'member@library.com', membershipType: 'BASIC', role: 'MEMBER' } as MemberRecord);
+    loan = {
+      id: 'LN0001',
+      borrowId: 'BR0001',
+      memberId: 'MEM0002',
+      bookId: 'BK0001',
+      quantity: 1,
+      borrowDate: '2025-02-24T12:00:00.000Z',
+      dueDate: '2025-03-10T12:00:00.000Z',
+      status: 'Borrowed',
+      renewalCount: 0,
+      maxRenewalsAllowed: 2
+    };
+    data.loans.push(loan);
+  });
+
+  it('queues a reminder once per due date', () => {
+    const { queued } = queueReminders(data, transports, RUN);
+    expect(queued.map(n => [n.type, n.channel, n.status])).toEqual([['DUE_REMINDER', 'EMAIL', 'QUEUED']]);
+
+    queued[0].status = 'SENT';
+    expect(queueReminders(data, transports, later(2)).queued).toEqual([]);
+  });
+
+  it('tries a reminder again after a failed send', () => {
+    const [failed] = queueReminders(data, transports, RUN).queued;
+    failed.status = 'FAILED';
+    failed.error = 'Relay did not answer within 10000 ms.';
+
+    const { queued } = queueReminders(data, transports, later(24));
+    expect(queued.map(n => [n.type, n.status])).toEqual([['DUE_REMINDER', 'QUEUED']]);
+    expect(queued[0]).not.toBe(failed);
+  });
+
+  it('leaves a record another run may still be sending', () => {
+    queueReminders(data, transports, RUN);
+    expect(queueReminders(data, transports, later(2)).queued).toEqual([]);
+  });
+
+  it('retries a record an earlier run left queued', () => {
+    const [stranded] = queueReminders(data, transports, RUN).queued;
+
+    const { queued } = queueReminders(data, transports, later(24));
+    expect(queued).toEqual([stranded]);
+    expect(data.notifications.length).toBe(1);
+  });
+
+  it('drops a stranded record for a loan that has come back', () => {
+    const [stranded] = queueReminders(data, transports, RUN).queued;
+    loan.status = 'Returned';
+    loan.returnedDate = later(3).toISOString();
+
+    expect(queueReminders(data, transports, later(24)).queued).toEqual([]);
+    expect(stranded.status).toBe('FAILED');
+  });
+
+  it('replaces a stranded reminder that is out of date with an overdue notice', () => {
+    const [stranded] = queueReminders(data, transports, RUN).queued;
+    loan.status = 'Overdue';
+
+    const { queued } = queueReminders(data, transports, later(48));
+    expect(stranded.status).toBe('FAILED');
+    expect(queued.map(n => n.type)).toEqual(['OVERDUE']);
+  });
+
+  it('drops a stranded reminder for a loan that was renewed', () => {
+    const [stranded] = queueReminders(data, transports, RUN).queued;
+    loan.dueDate = '2025-03-24T12:00:00.000Z';
+
+    expect(queueReminders(data, transports, later(24)).queued).toEqual([]);
+    expect(stranded.status).toBe('FAILED');
+  });
+});
@@ -0,0 +1,199 @@
+import { NotificationChannel, NotificationRecord, NotificationType, ReminderRunReport } from '../app/models/notification.model';
+import { isActiveLoan, refreshOverdue } from './circulation';
+import { dayKey } from './fine-rules';
+import { NotificationTransports } from './notification-transport';
+import { policyFor } from './policy';
+import { notificationSettingsFor } from './preferences';
+import { scheduleDaily } from './scheduler';
+import { LibraryData, LibraryStore, LoanRecord, MemberRecord, nextId } from './store';
+import { DAY_MS } from './util';
+
+// Local hour the daily reminder scan runs at
+export const REMINDER_HOUR = 9;
+// Overdue notices repeat this often until the book comes back
+export const OVERDUE_REPEAT_DAYS = 7;
+
+// A run takes minutes, so anything still QUEUED a day later (less an hour for timer drift and DST)
+// was stranded by a crash or restart mid-run
+const STRANDED_AFTER_MS = DAY_MS - 60 * 60 * 1000;
+
+// Calendar days (UTC) from `asOf` to the due date; negative once the loan is overdue
+function daysUntilDue(dueDate: string, asOf: Date): number {
+  return Math.round((new Date(dayKey(dueDate)).getTime() - new Date(dayKey(asOf)).getTime()) / DAY_MS);
+}
+
+function recipientFor(member: MemberRecord, channel: NotificationChannel): string | undefined {
+  if (channel === 'EMAIL') {
+    return member.email || undefined;
+  }
+  return member.mobileNumber ? `${member.countryCode || ''}${member.mobileNumber}` : undefined;
+}
+
+function composeMessage(data: LibraryData, loan: LoanRecord, member: MemberRecord, type: NotificationType, daysLeft: number, bookTitle: string) {
+  const dueDay = dayKey(loan.dueDate);
+  if (type === 'DUE_REMINDER') {
+    const finePerDay = loan.finePerDay ?? policyFor(data, member.membershipType).finePerDay;
+    const when = daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+    return {
+      subject: `"${bookTitle}" is due ${when}`,
+      message: `Hi ${member.memberName}, "${bookTitle}" is due back on ${dueDay}. Return or renew it by then to avoid a fine of ₹${finePerDay} a day.`
+    };
+  }
+
+  const late = -daysLeft;
+  const fine = data.fines.find(f => f.borrowId === loan.id);
+  return {
+    subject: `"${bookTitle}" is ${late} day${late === 1 ? '' : 's'} overdue`,
+    message: `Hi ${member.memberName}, "${bookTitle}" was due back on ${dueDay}.`
+      + (fine ? ` Your fine so far is ₹${fine.totalFine}.` : '')
+      + ' Please return it as soon as you can.'
+  };
+}
+
+// A reminder goes once per due date; an overdue notice once every OVERDUE_REPEAT_DAYS. Failed sends are tried again.
+function alreadyNotified(data: LibraryData, loan: LoanRecord, type: NotificationType, channel: NotificationChannel, asOf: Date): boolean {
+  const earlier = data.notifications.filter(n => n.loanId === loan.id
+    && n.type === type
+    && n.channel === channel
+    && n.dueDate === loan.dueDate
+    && n.status !== 'FAILED');
+  if (type === 'DUE_REMINDER') {
+    return earlier.length > 0;
+  }
+  return earlier.some(n => daysUntilDue(dayKey(n.createdAt), asOf) > -OVERDUE_REPEAT_DAYS);
+}
+
+// Whether a stranded record still says something true: the loan is out with the same due date, and a reminder is not yet late
+function isStillDue(data: LibraryData, notification: NotificationRecord, asOf: Date): boolean {
+  const loan = data.loans.find(l => l.id === notification.loanId);
+  const member = data.members.find(m => m.id === notification.memberId);
+  return !!loan && isActiveLoan(loan) && member?.isActive !== false
+    && loan.dueDate === notification.dueDate
+    && (notification.type === 'OVERDUE' || daysUntilDue(loan.dueDate, asOf) >= 0);
+}
+
+/**
+ * Pick up QUEUED records an earlier run never sent. Those that no longer apply are marked FAILED,
+ * which lets queueReminders write a fresh one if the loan still needs it.
+ */
+function strandedReminders(data: LibraryData, asOf: Date): NotificationRecord[] {
+  const stranded = data.notifications.filter(n =>
+    n.status === 'QUEUED' && asOf.getTime() - new Date(n.createdAt).getTime() >= STRANDED_AFTER_MS);
+  stranded
+    .filter(n => !isStillDue(data, n, asOf))
+    .forEach(n => {
+      n.status = 'FAILED';
+      n.error = 'Not sent before the loan changed; no longer applies.';
+    });
+  return stranded.filter(n => n.status === 'QUEUED');
+}
+
+/**
+ * Work out which reminders and overdue notices are due and add them to the log as QUEUED, along with
+ * any an earlier run left QUEUED. Nothing is sent here; see runReminders.
+ */
+export function queueReminders(data: LibraryData, transports: NotificationTransports, asOf: Date = new Date()): { loansChecked: number; queued: NotificationRecord[] } {
+  const queued = strandedReminders(data, asOf);
+  const loans = data.loans.filter(isActiveLoan);
+
+  loans.forEach(loan => {
+    const member = data.members.find(m => m.id === loan.memberId);
+    if (!member || member.isActive === false) return;
+
+    const settings = notificationSettingsFor(member);
+    const daysLeft = daysUntilDue(loan.dueDate, asOf);
+    let type: NotificationType;
+    if (daysLeft < 0 && settings.overdueNotifications) {
+      type = 'OVERDUE';
+    } else if (daysLeft >= 0 && daysLeft <= settings.reminderDaysBeforeDue) {
+      type = 'DUE_REMINDER';
+    } else {
+      return;
+    }
+
+    const channels: NotificationChannel[] = [];
+    if (settings.emailNotifications) channels.push('EMAIL');
+    if (settings.smsNotifications) channels.push('SMS');
+
+    const bookTitle = data.books.find(b => b.id === loan.bookId)?.title || loan.bookId;
+    channels.forEach(channel => {
+      const recipient = recipientFor(member, channel);
+      if (!recipient || alreadyNotified(data, loan, type, channel, asOf)) return;
+
+      const notification: NotificationRecord = {
+        id: nextId(data, 'NT'),
+        memberId: member.id,
+        memberName: member.memberName,
+        type,
+        channel,
+        recipient,
+        ...composeMessage(data, loan, member, type, daysLeft, bookTitle),
+        loanId: loan.id,
+        bookId: loan.bookId,
+        bookTitle,
+        dueDate: loan.dueDate,
+        status: 'QUEUED',
+        transport: transports[channel].name,
+        createdAt: asOf
+      };
+      data.notifications.push(notification);
+      queued.push(notification);
+    });
+  });
+
+  return { loansChecked: loans.length, queued };
+}
+
+/**
+ * Scan active loans, send what is due through the channel's transport and record each outcome.
+ * Sends one at a time, so a slow relay never has more than one message in flight.
+ */
+export async function runReminders(
+  store: LibraryStore,
+  transports: NotificationTransports,
+  trigger: ReminderRunReport['trigger'],
+  asOf: Date = new Date()
+): Promise<ReminderRunReport> {
+  const { loansChecked, queued } = store.update(data => {
+    refreshOverdue(data, asOf);
+    return queueReminders(data, transports, asOf);
+  });
+
+  const notifications: NotificationRecord[] = [];
+  for (const notification of queued) {
+    let outcome: Partial<NotificationRecord>;
+    try {
+      const reference = await transports[notification.channel].send({
+        channel: notification.channel,
+        to: notification.recipient,
+        subject: notification.subject,
+        body: notification.message
+      });
+      outcome = { status: 'SENT', transportReference: reference, sentAt: new Date() };
+    } catch (error) {
+      outcome = { status: 'FAILED', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    notifications.push(store.update(data => {
+      const record = data.notifications.find(n => n.id === notification.id)!;
+      return Object.assign(record, outcome);
+    }));
+  }
+
+  return {
+    trigger,
+    ranAt: asOf,
+    loansChecked,
+    sent: notifications.filter(n => n.status === 'SENT').length,
+    failed: notifications.filter(n => n.status === 'FAILED').length,
+    notifications
+  };
+}
+
+export function scheduleReminders(store: LibraryStore, transports: NotificationTransports): () => void {
+  return scheduleDaily('due-date reminders', REMINDER_HOUR, () => {
+    runReminders(store, transports, 'SCHEDULED')
+      .then(report => console.log(`📬 Reminder run: ${report.sent} sent, ${report.failed} failed across ${report.loansChecked} loan(s).`))
+      .catch(error => console.error('Reminder run failed:', error));
+  });
+}
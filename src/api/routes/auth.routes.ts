@@ -0,0 +1,165 @@
+import { Router } from 'express';
+import { AuthUser, LoginResponse, ResetPasswordRequest, TokenRefreshResponse } from '../../app/models/auth.model';
+import { AttemptLimiter } from '../attempt-limiter';
+import { RESET_TOKEN_TTL, TokenSigner, authClaims, passwordFingerprint, requireAuth } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError, requireField } from '../http';
+import { assertPasswordStrength, hashSecret, normalizeSecretAnswer, verifySecret } from '../password';
+import { LibraryData, LibraryStore, MemberRecord } from '../store';
+import { findMember } from '../circulation';
+
+export function toAuthUser(member: MemberRecord): AuthUser {
+  return {
+    memberId: member.id,
+    memberName: member.memberName,
+    email: member.email,
+    role: member.role,
+    membershipDate: member.membershipDate,
+    phone: `${member.countryCode} ${member.mobileNumber}`,
+    address: member.address
+  };
+}
+
+// Secret answers are short and guessable, so failed checks lock out the account, and the address they come from
+const SECRET_ATTEMPTS_PER_ACCOUNT = 5;
+const SECRET_ATTEMPTS_PER_IP = 20;
+const SECRET_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const SECRET_COOLDOWN_MS = 15 * 60 * 1000;
+
+function findByEmail(data: LibraryData, email: string): MemberRecord | undefined {
+  return data.members.find(m => m.email.toLowerCase() === email.toLowerCase());
+}
+
+/**
+ * Set a new password using the reset token handed out by /auth/verify-secret.
+ * The token is bound to the old password hash, so it stops working once used.
+ */
+export function resetPasswordWithToken(store: LibraryStore, tokens: TokenSigner, request: ResetPasswordRequest): void {
+  const email = requireField(request, 'email', 'Email');
+  const newPassword = assertPasswordStrength(request?.newPassword);
+  if (!request.resetToken) {
+    throw new HttpError(400, 'Please verify your secret answer first.');
+  }
+  const claims = tokens.verify(request.resetToken, 'reset');
+
+  store.update(data => {
+    const member = findByEmail(data, email);
+    if (!member || member.id !== claims.sub || claims.pwd !== passwordFingerprint(member)) {
+      throw new HttpError(401, 'This reset link is no longer valid. Please start again.');
+    }
+    member.passwordHash = hashSecret(newPassword);
+    member.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * /api/auth - login, token refresh and the secret-question password reset flow.
+ */
+export function authRouter({ store, tokens }: ApiContext): Router {
+  const router = Router();
+  const accountAttempts = new AttemptLimiter(SECRET_ATTEMPTS_PER_ACCOUNT, SECRET_ATTEMPT_WINDOW_MS, SECRET_COOLDOWN_MS);
+  const ipAttempts = new AttemptLimiter(SECRET_ATTEMPTS_PER_IP, SECRET_ATTEMPT_WINDOW_MS, SECRET_COOLDOWN_MS);
+
+  router.post('/login', (req, res) => {
+    const email = requireField(req.body, 'email', 'Email');
+    const password = requireField(req.body, 'password', 'Password');
+
+    const member = store.read(data => findByEmail(data, email));
+    // Same message for unknown email and wrong password
+    if (!member || !verifySecret(password, member.passwordHash)) {
+      throw new HttpError(401, 'Invalid email or password.');
+    }
+    if (member.isActive === false) {
+      throw new HttpError(403, 'This account has been deactivated. Please contact the library.');
+    }
+
+    store.update(() => {
+      member.lastLoginDate = new Date().toISOString();
+    });
+
+    const response: LoginResponse = {
+      success: true,
+      message: 'Login successful',
+      ...tokens.issueSession(member),
+      user: toAuthUser(member)
+    };
+    res.json(response);
+  });
+
+  router.post('/refresh', (req, res) => {
+    const claims = tokens.verify(req.body?.refreshToken, 'refresh');
+
+    const member = store.read(data => data.members.find(m => m.id === claims.sub));
+    if (!member || member.isActive === false || claims.pwd !== passwordFingerprint(member)) {
+      throw new HttpError(401, 'Session has ended. Please log in again.');
+    }
+
+    const response: TokenRefreshResponse = tokens.issueSession(member);
+    res.json(response);
+  });
+
+  router.post('/forgot-password', (req, res) => {
+    const email = requireField(req.body, 'email', 'Email');
+    const member = store.read(data => findByEmail(data, email));
+    if (!member) {
+      throw new HttpError(404, 'Email not found in our records.');
+    }
+
+    res.json({ success: true, message: 'Please answer your security question.', secretQuestion: member.secretQuestion });
+  });
+
+  router.post('/verify-secret', (req, res) => {
+    const email = requireField(req.body, 'email', 'Email');
+    const answer = requireField(req.body, 'answer', 'Answer');
+
+    const account = email.toLowerCase();
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    const retryAfter = Math.max(accountAttempts.retryAfterSeconds(account), ipAttempts.retryAfterSeconds(ip));
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      throw new HttpError(429, `Too many incorrect answers. Please try again in ${Math.ceil(retryAfter / 60)} minute(s).`);
+    }
+
+    const member = store.read(data => findByEmail(data, email));
+    if (!member || !verifySecret(normalizeSecretAnswer(answer), member.secretAnswerHash)) {
+      // Unknown emails count too, so the response does not reveal which accounts exist
+      accountAttempts.recordFailure(account);
+      ipAttempts.recordFailure(ip);
+      throw new HttpError(400, 'Incorrect answer. Please try again.');
+    }
+    accountAttempts.clear(account);
+
+    res.json({
+      success: true,
+      message: 'Answer verified successfully.',
+      resetToken: tokens.sign(member, 'reset', RESET_TOKEN_TTL)
+    });
+  });
+
+  router.post('/reset-password', (req, res) => {
+    resetPasswordWithToken(store, tokens, req.body);
+    res.json({ success: true, message: 'Password reset successfully.' });
+  });
+
+  router.get('/profile', requireAuth(tokens), (req, res) => {
+    const { sub } = authClaims(res);
+    res.json(store.read(data => toAuthUser(findMember(data, sub))));
+  });
+
+  router.put('/profile', requireAuth(tokens), (req, res) => {
+    const { sub } = authClaims(res);
+    const update = req.body as Partial<AuthUser>;
+
+    const user = store.update(data => {
+      const member = findMember(data, sub);
+      member.memberName = update.memberName?.trim() || member.memberName;
+      member.address = update.address?.trim() || member.address;
+      member.updatedAt = new Date().toISOString();
+      return toAuthUser(member);
+    });
+
+    res.json(user);
+  });
+
+  return router;
+}
@@ -0,0 +1,82 @@
+import express from 'express';
+import multer from 'multer';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Book } from '../../app/models/book.model';
+import { TokenClaims } from '../auth';
+import { ApiContext } from '../context';
+import { apiErrorHandler } from '../http';
+import { LibraryStore, MemberRecord, createEmptyData } from '../store';
+import { booksRouter } from './books.routes';
+
+describe('borrowing', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  let dir: string;
+  let file: string;
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'books-routes-'));
+    file = join(dir, 'library.json');
+    const data = createEmptyData();
+    data.members.push({ id: 'MEM0002', memberName: 'Test Member', membershipType: 'BASIC', role: 'MEMBER', isActive: true } as MemberRecord);
+    data.books.push({ id: 'BK0001', title: 'Test Book', author: 'Test Author', category: 'Fiction' } as Book);
+    // Fell due two days ago, but nothing has marked it overdue yet
+    data.loans.push({
+      id: 'LN0001',
+      borrowId: 'BR0001',
+      memberId: 'MEM0002',
+      bookId: 'BK0002',
+      quantity: 1,
+      borrowDate: new Date(Date.now() - 16 * DAY).toISOString(),
+      dueDate: new Date(Date.now() - 2 * DAY).toISOString(),
+      status: 'Borrowed',
+      renewalCount: 0,
+      maxRenewalsAllowed: 2
+    });
+    writeFileSync(file, JSON.stringify(data));
+    const store = new LibraryStore(file);
+
+    // Borrowing only needs these parts of the context
+    const context: Pick<ApiContext, 'store' | 'upload' | 'uploadUrl'> = {
+      store,
+      upload: multer({ dest: join(dir, 'uploads') }),
+      uploadUrl: upload => `/api/uploads/${upload.filename}`
+    };
+    const claims = { sub: 'MEM0002', email: 'member@library.com', role: 'MEMBER', typ: 'access' } as TokenClaims;
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      res.locals['auth'] = claims;
+      next();
+    });
+    app.use('/api/books', booksRouter(context as ApiContext));
+    app.use(apiErrorHandler);
+    await new Promise<void>(resolve => server = app.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/books`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves the overdue refresh even when the borrow is refused', async () => {
+    const response = await fetch(`${url}/borrow`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ memberId: 'MEM0002', borrowItems: [{ bookId: 'BK0001', quantity: 1 }] })
+    });
+    expect(response.status).toBe(422);
+    expect((await response.json()).rejectionReasons.map((r: { code: string }) => r.code)).toContain('OVERDUE_LOANS');
+
+    // A fresh store reads what reached the disk
+    const saved = new LibraryStore(file).read(data => ({ loan: data.loans[0], fines: data.fines }));
+    expect(saved.loan.status).toBe('Overdue');
+    expect(saved.fines.map(fine => [fine.borrowId, fine.status])).toEqual([['LN0001', 'OVERDUE']]);
+  });
+});
@@ -0,0 +1,816 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import {
+  Book,
+  BookAuditAction,
+  BookBorrower,
+  BookCategory,
+  BookCopy,
+  BookFieldChange,
+  BookRecommendations,
+  BorrowItem,
+  BorrowRequest,
+  BorrowResponse,
+  CopyCondition,
+  CopyLookup,
+  CopyStatus,
+  ImportResult,
+  ImportedBook,
+  SearchResult
+} from '../../app/models/book.model';
+import { isbnKey, normalizeIsbn } from '../../app/utils/isbn';
+import { assertMemberAccess, authClaims, isAdmin, requireRole } from '../auth';
+import {
+  MAX_COPIES_PER_TITLE,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  buildPreview,
+  detectFormat,
+  exportCatalogue,
+  isCatalogueFormat,
+  isImportable,
+  readCatalogueFile,
+  validateImport
+} from '../catalogue-io';
+import { ApiContext } from '../context';
+import { HttpError, matchesText, notFound, pageFromQuery, queryString, requireField } from '../http';
+import { LibraryData, LoanRecord, nextId } from '../store';
+import { calculateFine } from '../fine-rules';
+import { policyFor } from '../policy';
+import { preferencesFor } from '../preferences';
+import { DAY_MS } from '../util';
+import {
+  addCopies,
+  closeHold,
+  copiesOf,
+  copyBarcodes,
+  daysOverdue,
+  evaluateBorrow,
+  expireHolds,
+  findBook,
+  findCopy,
+  findCopyByBarcode,
+  findMember,
+  isActiveHold,
+  isActiveLoan,
+  pickCopies,
+  refreshOverdue,
+  returnLoan,
+  setAvailability,
+  setCopyStatus,
+  syncCopyCounts
+} from '../circulation';
+
+// Parse the multipart BookFormData sent by BookService.addBook/updateBook
+function readBookForm(req: Request): Pick<Book, 'title' | 'author' | 'category' | 'isbn' | 'description' | 'totalCopies' | 'publishYear'> {
+  const totalCopies = parseInt(req.body.totalCopies, 10);
+  if (!Number.isInteger(totalCopies) || totalCopies < 0) {
+    throw new HttpError(400, 'Total copies must be a non-negative whole number.');
+  }
+  if (totalCopies > MAX_COPIES_PER_TITLE) {
+    throw new HttpError(400, `Total copies cannot exceed ${MAX_COPIES_PER_TITLE}.`);
+  }
+
+  const publishYear = req.body.publishYear ? parseInt(req.body.publishYear, 10) : undefined;
+  if (publishYear !== undefined && (!Number.isInteger(publishYear) || publishYear > new Date().getFullYear() + 1)) {
+    throw new HttpError(400, 'Publish year is invalid.');
+  }
+
+  const isbn = normalizeIsbn(requireField(req.body, 'isbn', 'ISBN'));
+  if (!isbn) {
+    throw new HttpError(400, 'ISBN is not a valid ISBN-10 or ISBN-13.');
+  }
+
+  return {
+    title: requireField(req.body, 'title', 'Title'),
+    author: requireField(req.body, 'author', 'Author'),
+    category: requireField(req.body, 'category', 'Category'),
+    isbn,
+    description: req.body.description || '',
+    totalCopies,
+    publishYear
+  };
+}
+
+// A book already catalogued under the same edition, whichever ISBN form either side uses
+function findByIsbn(data: LibraryData, isbn: string, exceptId?: string): Book | undefined {
+  const key = isbnKey(isbn);
+  return data.books.find(book => book.id !== exceptId && isbnKey(book.isbn) === key);
+}
+
+function assertUniqueIsbn(data: LibraryData, isbn: string, exceptId?: string): void {
+  const existing = findByIsbn(data, isbn, exceptId);
+  if (existing) {
+    throw new HttpError(409, `"${existing.title}" (${existing.id}) already has this ISBN${existing.isDeleted ? ' and can be restored' : ''}.`);
+  }
+}
+
+function filterBooks(books: Book[], query?: string, category?: string, availability?: string): Book[] {
+  const queryIsbn = query ? normalizeIsbn(query) : null;
+  return books.filter(book => {
+    const matchesQuery = !query ||
+      matchesText(book.title, query) ||
+      matchesText(book.author, query) ||
+      matchesText(book.category, query) ||
+      matchesText(book.isbn, query) ||
+      (queryIsbn !== null && isbnKey(book.isbn) === queryIsbn) ||
+      book.id.toLowerCase() === query.toLowerCase();
+    const matchesCategory = !category || category === 'all' || book.category.toLowerCase() === category.toLowerCase();
+    const matchesAvailability = !availability || availability === 'all' ||
+      (availability === 'available' ? book.availableCopies > 0 : book.availableCopies === 0);
+    return matchesQuery && matchesCategory && matchesAvailability;
+  });
+}
+
+// Books shown in the catalogue; admins can ask for soft-deleted ones with ?includeDeleted=true
+function catalogue(data: LibraryData, req: Request, res: Response): Book[] {
+  const includeDeleted = queryString(req, 'includeDeleted') === 'true' && isAdmin(res);
+  return data.books.filter(book => includeDeleted || !book.isDeleted);
+}
+
+const AUDITED_FIELDS = [
+  'title', 'author', 'category', 'isbn', 'description', 'publishYear', 'totalCopies', 'availableCopies', 'imageUrl'
+] as const;
+
+const COPY_FIELDS: string[] = ['totalCopies', 'availableCopies'];
+
+// Missing and empty values both count as "no value"
+function auditValue(value: string | number | undefined): string | number | null {
+  return value === undefined || value === '' ? null : value;
+}
+
+function diffBook(before: Partial<Book>, after: Book): BookFieldChange[] {
+  return AUDITED_FIELDS
+    .filter(field => auditValue(before[field]) !== auditValue(after[field]))
+    .map(field => ({ field, from: auditValue(before[field]), to: auditValue(after[field]) }));
+}
+
+function recordAudit(data: LibraryData, res: Response, book: Book, action: BookAuditAction, changes: BookFieldChange[] = []): void {
+  const actorId = authClaims(res).sub;
+  data.bookAudit.push({
+    id: nextId(data, 'AUD'),
+    bookId: book.id,
+    bookTitle: book.title,
+    action,
+    changes,
+    changedBy: actorId,
+    changedByName: data.members.find(m => m.id === actorId)?.memberName || actorId,
+    changedAt: new Date().toISOString()
+  });
+}
+
+function addToCatalogue(data: LibraryData, res: Response, form: ImportedBook, imageUrl: string, action: BookAuditAction): Book {
+  const now = new Date().toISOString();
+  const book: Book = {
+    id: nextId(data, 'BK'),
+    ...form,
+    imageUrl,
+    availableCopies: 0,
+    totalCopies: 0,
+    isAvailable: false,
+    rating: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+  data.books.push(book);
+  addCopies(data, book, form.totalCopies, {
+    shelfLocation: '',
+    condition: 'NEW',
+    acquisitionSource: action === 'IMPORTED' ? 'IMPORT' : 'PURCHASE'
+  }, now);
+  recordAudit(data, res, book, action, diffBook({}, book));
+  return book;
+}
+
+const COPY_CONDITIONS: CopyCondition[] = ['NEW', 'GOOD', 'FAIR', 'POOR', 'DAMAGED'];
+
+// ON_LOAN is only ever set by borrowing
+const SHELF_STATUSES: CopyStatus[] = ['AVAILABLE', 'IN_REPAIR', 'LOST', 'WITHDRAWN'];
+
+const MAX_COPIES_PER_REQUEST = 100;
+
+function readCondition(value: unknown): CopyCondition {
+  const condition = typeof value === 'string' ? value.toUpperCase() as CopyCondition : 'NEW';
+  if (!COPY_CONDITIONS.includes(condition)) {
+    throw new HttpError(400, `Condition must be one of ${COPY_CONDITIONS.join(', ')}.`);
+  }
+  return condition;
+}
+
+// Where a new copy goes when no location is given: next to the book's newest copy
+function defaultShelf(data: LibraryData, bookId: string): string {
+  return copiesOf(data, bookId).slice(-1)[0]?.shelfLocation || '';
+}
+
+// Notes are for library staff only
+function toPublicCopy(copy: BookCopy, showNotes: boolean): BookCopy {
+  const { notes, ...rest } = copy;
+  return showNotes ? copy : rest;
+}
+
+function borrowCount(data: LibraryData, bookId: string): number {
+  return data.loans.filter(loan => loan.bookId === bookId).length;
+}
+
+const MAX_RECOMMENDATIONS = 8;
+
+/**
+ * Books the member has not borrowed yet from their favourite genres and the categories they borrow most,
+ * favourites first. Members who turned recommendations off get the most borrowed books instead.
+ */
+function recommendBooks(data: LibraryData, memberId: string): BookRecommendations {
+  const member = findMember(data, memberId);
+  const shelf = data.books.filter(book => !book.isDeleted);
+  const byPopularity = (a: Book, b: Book) => borrowCount(data, b.id) - borrowCount(data, a.id) || (b.rating || 0) - (a.rating || 0);
+  const preferences = preferencesFor(member);
+  if (!preferences.privacySettings.allowRecommendations) {
+    return { personalized: false, books: shelf.sort(byPopularity).slice(0, MAX_RECOMMENDATIONS) };
+  }
+
+  const loans = data.loans.filter(loan => loan.memberId === member.id);
+  const borrowed = new Set(loans.map(loan => loan.bookId));
+  const weights = new Map<string, number>();
+  preferences.favoriteGenres.forEach(genre => weights.set(genre.toLowerCase(), 3));
+  loans.forEach(loan => {
+    const category = data.books.find(book => book.id === loan.bookId)?.category.toLowerCase();
+    if (category) {
+      weights.set(category, (weights.get(category) || 0) + 1);
+    }
+  });
+
+  const weightOf = (book: Book) => weights.get(book.category.toLowerCase()) || 0;
+  const books = shelf
+    .filter(book => !borrowed.has(book.id) && weightOf(book) > 0)
+    .sort((a, b) => weightOf(b) - weightOf(a) || Number(b.availableCopies > 0) - Number(a.availableCopies > 0) || byPopularity(a, b))
+    .slice(0, MAX_RECOMMENDATIONS);
+  return { personalized: true, books };
+}
+
+/**
+ * /api/books - catalogue, search, borrowing and returns.
+ */
+export function booksRouter({ store, upload, uploadUrl }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+  // Import files are parsed in memory and never written to the uploads folder
+  const importUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_IMPORT_BYTES } });
+
+  router.get('/', (req, res) => {
+    const books = store.read(data => filterBooks(
+      catalogue(data, req, res),
+      queryString(req, 'search'),
+      queryString(req, 'category'),
+      queryString(req, 'availability')
+    ));
+    res.json(pageFromQuery(req, books));
+  });
+
+  router.get('/search', (req, res) => {
+    const title = queryString(req, 'title');
+    const author = queryString(req, 'author');
+    const category = queryString(req, 'category');
+    const bookId = queryString(req, 'bookId');
+    const isbn = queryString(req, 'isbn');
+
+    const books = store.read(data => catalogue(data, req, res).filter(book =>
+      matchesText(book.title, title) &&
+      matchesText(book.author, author) &&
+      matchesText(book.category, category) &&
+      (!bookId || book.id === bookId) &&
+      (!isbn || isbnKey(book.isbn) === isbnKey(isbn))
+    ));
+
+    const result: SearchResult = {
+      books,
+      totalCount: books.length,
+      searchTerm: [title, author, category, bookId, isbn].filter(Boolean).join(', ') || 'All Books'
+    };
+    res.json(result);
+  });
+
+  router.get('/search/advanced', (req, res) => {
+    const books = store.read(data => filterBooks(
+      catalogue(data, req, res),
+      queryString(req, 'query'),
+      queryString(req, 'category'),
+      queryString(req, 'availability')
+    ));
+    res.json(pageFromQuery(req, books));
+  });
+
+  router.get('/categories', (req, res) => {
+    const categories = store.read(data => {
+      const counts = new Map<string, number>();
+      catalogue(data, req, res).forEach(book => counts.set(book.category, (counts.get(book.category) || 0) + 1));
+      return Array.from(counts.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, count]): BookCategory => ({
+          id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+          name,
+          count
+        }));
+    });
+    res.json(categories);
+  });
+
+  router.get('/popular', (req, res) => {
+    const books = store.read(data => catalogue(data, req, res)
+      .sort((a, b) => borrowCount(data, b.id) - borrowCount(data, a.id) || (b.rating || 0) - (a.rating || 0))
+      .slice(0, 10));
+    res.json(books);
+  });
+
+  router.get('/recommended', (req, res) => {
+    res.json(store.read(data => recommendBooks(data, authClaims(res).sub)));
+  });
+
+  router.get('/statistics', (req, res) => {
+    res.json(store.read(data => {
+      const books = catalogue(data, req, res);
+      return {
+        totalBooks: books.reduce((sum, book) => sum + book.totalCopies, 0),
+        availableBooks: books.reduce((sum, book) => sum + book.availableCopies, 0),
+        borrowedBooks: data.loans.filter(isActiveLoan).reduce((sum, loan) => sum + loan.quantity, 0),
+        categories: new Set(books.map(book => book.category)).size
+      };
+    }));
+  });
+
+  router.post('/borrow', (req, res) => {
+    const request = req.body as BorrowRequest;
+    if (!request?.memberId || !Array.isArray(request.borrowItems) || request.borrowItems.length === 0) {
+      throw new HttpError(400, 'Member ID and at least one book are required.');
+    }
+    assertMemberAccess(res, request.memberId);
+
+    // The store cannot roll back, so loans and holds are brought up to date in a write of their own;
+    // a borrow refused below then leaves no unsaved changes behind in memory
+    store.update(data => {
+      refreshOverdue(data, new Date(), findMember(data, request.memberId).id);
+      expireHolds(data);
+    });
+
+    const response = store.update((data): BorrowResponse => {
+      const member = findMember(data, request.memberId);
+      const requested = request.borrowItems.map((item: BorrowItem) => {
+        const quantity = Number(item.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1) {
+          throw new HttpError(400, 'Each borrowed book needs a quantity of at least 1.');
+        }
+        return { item, quantity, book: findBook(data, item.bookId) };
+      });
+
+      const rejectionReasons = evaluateBorrow(data, member, requested);
+      if (rejectionReasons.length > 0) {
+        throw new HttpError(422, rejectionReasons.length === 1
+          ? rejectionReasons[0].message
+          : 'This borrow request does not meet your borrowing policy.', { rejectionReasons });
+      }
+
+      // Validate every item and pick its copies before touching stock
+      const picked = new Set<string>();
+      const items = requested.map(({ item, quantity, book }) => {
+        const barcodes = Array.isArray(item.copyBarcodes) ? item.copyBarcodes.map(String) : [];
+        const copies = pickCopies(data, book, quantity, barcodes, member.id);
+        if (copies.some(copy => picked.has(copy.id))) {
+          throw new HttpError(400, `"${book.title}" appears more than once in this request.`);
+        }
+        copies.forEach(copy => picked.add(copy.id));
+        return { book, quantity, copies };
+      });
+
+      // The policy sets the loan period; a member may ask for an earlier due date but not a later one
+      const policy = policyFor(data, member.membershipType);
+      const borrowDate = new Date();
+      const latestDue = new Date(borrowDate.getTime() + policy.loanPeriodDays * DAY_MS);
+      const requestedDue = request.dueDate ? new Date(request.dueDate) : null;
+      const dueDate = requestedDue && requestedDue.getTime() > borrowDate.getTime() && requestedDue.getTime() < latestDue.getTime()
+        ? requestedDue
+        : latestDue;
+      const borrowId = nextId(data, 'BR');
+
+      // One loan per copy, so each copy can come back on its own
+      const borrowedBooks = items.map(({ book, quantity, copies }): BorrowItem => {
+        for (const copy of copies) {
+          const loan: LoanRecord = {
+            id: nextId(data, 'LN'),
+            borrowId,
+            memberId: member.id,
+            bookId: book.id,
+            copyIds: [copy.id],
+            quantity: 1,
+            borrowDate: borrowDate.toISOString(),
+            dueDate: dueDate.toISOString(),
+            status: 'Borrowed',
+            renewalCount: 0,
+            maxRenewalsAllowed: policy.maxRenewals,
+            finePerDay: policy.finePerDay,
+            maxFine: policy.maxFinePerLoan,
+            notes: request.notes
+          };
+          data.loans.push(loan);
+          setCopyStatus(copy, 'ON_LOAN');
+        }
+
+        // Borrowing the book settles the member's own hold on it
+        data.holds
+          .filter(hold => hold.memberId === member.id && hold.bookId === book.id && isActiveHold(hold))
+          .forEach(hold => closeHold(data, hold, 'FULFILLED', borrowDate));
+        syncCopyCounts(data, book);
+        return { bookId: book.id, quantity, copyBarcodes: copies.map(copy => copy.barcode), book };
+      });
+
+      return {
+        success: true,
+        message: `Borrowed ${borrowedBooks.length} book(s) successfully.`,
+        borrowId,
+        dueDate: dueDate.toISOString(),
+        borrowedBooks
+      };
+    });
+
+    res.status(201).json(response);
+  });
+
+  // Return by borrow ID (optionally narrowed to some books) or by scanning copy barcodes
+  router.post('/return', (req, res) => {
+    const borrowId: string | undefined = req.body?.borrowId;
+    const bookIds: string[] = Array.isArray(req.body?.bookIds) ? req.body.bookIds : [];
+    const barcodes: string[] = Array.isArray(req.body?.barcodes) ? req.body.barcodes.map(String) : [];
+    if (!borrowId && barcodes.length === 0) {
+      throw new HttpError(400, 'Borrow ID or copy barcodes are required.');
+    }
+
+    const response = store.update(data => {
+      const copyIds = barcodes.map(barcode => {
+        const copy = findCopyByBarcode(data, barcode);
+        if (!copy) {
+          throw notFound(`Copy ${barcode}`);
+        }
+        return copy.id;
+      });
+      const loans = data.loans.filter(loan =>
+        (!borrowId || loan.borrowId === borrowId) &&
+        isActiveLoan(loan) &&
+        (bookIds.length === 0 || bookIds.includes(loan.bookId)) &&
+        (copyIds.length === 0 || (loan.copyIds || []).some(copyId => copyIds.includes(copyId)))
+      );
+      if (loans.length === 0) {
+        throw notFound('Active borrow record');
+      }
+      loans.forEach(loan => assertMemberAccess(res, loan.memberId));
+
+      const returnDate = new Date();
+      const fineAmount = loans
+        .map(loan => returnLoan(data, loan, returnDate))
+        .reduce((sum, fine) => sum + (fine && fine.status === 'PENDING' ? fine.totalFine : 0), 0);
+
+      return {
+        success: true,
+        message: fineAmount > 0
+          ? `Returned ${loans.length} book(s). Outstanding fine: ₹${fineAmount}.`
+          : `Returned ${loans.length} book(s).`,
+        fineAmount
+      };
+    });
+
+    res.json(response);
+  });
+
+  // Parse and validate an import file without changing the catalogue
+  router.post('/import/preview', adminOnly, importUpload.single('file'), (req, res) => {
+    if (!req.file) {
+      throw new HttpError(400, 'Choose a CSV or MARC21 file to import.');
+    }
+    const file = req.file;
+    const requested = queryString(req, 'format');
+    const format = isCatalogueFormat(requested) ? requested : detectFormat(file.originalname, file.buffer);
+    const books = readCatalogueFile(format, file.buffer);
+
+    res.json(store.read(data => buildPreview(format, file.originalname, validateImport(data, books))));
+  });
+
+  // Commit previewed records; anything invalid or duplicated by now is skipped and reported back
+  router.post('/import', adminOnly, (req, res) => {
+    const books: ImportedBook[] = Array.isArray(req.body?.books) ? req.body.books : [];
+    if (books.length === 0) {
+      throw new HttpError(400, 'There are no books to import.');
+    }
+    if (books.length > MAX_IMPORT_ROWS) {
+      throw new HttpError(413, `Imports are limited to ${MAX_IMPORT_ROWS} records at a time.`);
+    }
+
+    const result = store.update((data): ImportResult => {
+      const rows = validateImport(data, books);
+      const imported = rows.filter(isImportable).map(row => addToCatalogue(data, res, row.book, '', 'IMPORTED'));
+      const skipped = rows.filter(row => !isImportable(row));
+      return {
+        success: imported.length > 0,
+        message: `Imported ${imported.length} book(s)` + (skipped.length > 0 ? `, skipped ${skipped.length}.` : '.'),
+        imported,
+        skipped
+      };
+    });
+
+    res.status(result.imported.length > 0 ? 201 : 200).json(result);
+  });
+
+  router.get('/export', adminOnly, (req, res) => {
+    const format = queryString(req, 'format') || 'csv';
+    if (!isCatalogueFormat(format)) {
+      throw new HttpError(400, 'Supported export formats are csv, marc and marcxml.');
+    }
+
+    const books = store.read(data => catalogue(data, req, res));
+    const file = exportCatalogue(books, format);
+    const stamp = new Date().toISOString().split('T')[0];
+    res.attachment(`catalogue-${stamp}.${file.extension}`).type(file.contentType).send(file.body);
+  });
+
+  // Newest first; ?bookId= narrows the trail to one book
+  router.get('/audit', adminOnly, (req, res) => {
+    const bookId = queryString(req, 'bookId');
+    const entries = store.read(data => data.bookAudit
+      .filter(entry => !bookId || entry.bookId === bookId)
+      .slice()
+      .reverse());
+    res.json(pageFromQuery(req, entries, 20));
+  });
+
+  // Circulation desk lookup for a scanned barcode
+  router.get('/copies/:barcode', adminOnly, (req, res) => {
+    const lookup = store.read((data): CopyLookup => {
+      const copy = findCopyByBarcode(data, req.params['barcode']);
+      if (!copy) {
+        throw notFound('Copy');
+      }
+      const loan = data.loans.find(l => isActiveLoan(l) && (l.copyIds || []).includes(copy.id));
+      return {
+        copy,
+        book: findBook(data, copy.bookId, true),
+        borrowId: loan?.borrowId,
+        memberId: loan?.memberId,
+        dueDate: loan?.dueDate
+      };
+    });
+    res.json(lookup);
+  });
+
+  router.patch('/copies/:copyId', adminOnly, (req, res) => {
+    const body = req.body || {};
+
+    const copy = store.update(data => {
+      const existing = findCopy(data, req.params['copyId']);
+      const book = findBook(data, existing.bookId, true);
+      if (book.isDeleted) {
+        throw new HttpError(409, 'Restore this book before editing its copies.');
+      }
+
+      const status = body.status === undefined ? existing.status : String(body.status).toUpperCase() as CopyStatus;
+      if (status !== existing.status) {
+        if (existing.status === 'ON_LOAN') {
+          throw new HttpError(409, `Copy ${existing.barcode} is on loan; check it in before changing its status.`);
+        }
+        if (existing.status === 'ON_HOLD') {
+          throw new HttpError(409, `Copy ${existing.barcode} is set aside for a hold; cancel the hold before changing its status.`);
+        }
+        if (!SHELF_STATUSES.includes(status)) {
+          throw new HttpError(400, `Status must be one of ${SHELF_STATUSES.join(', ')}.`);
+        }
+      }
+      const updates: Partial<BookCopy> = {
+        status,
+        condition: body.condition === undefined ? existing.condition : readCondition(body.condition),
+        shelfLocation: body.shelfLocation === undefined ? existing.shelfLocation : String(body.shelfLocation).trim(),
+        notes: body.notes === undefined ? existing.notes : String(body.notes).trim() || undefined
+      };
+
+      const changes = (['status', 'condition', 'shelfLocation', 'notes'] as const)
+        .filter(field => auditValue(existing[field]) !== auditValue(updates[field]))
+        .map(field => ({ field: `${existing.barcode} ${field}`, from: auditValue(existing[field]), to: auditValue(updates[field]) }));
+      if (changes.length === 0) {
+        return existing;
+      }
+
+      Object.assign(existing, updates, { updatedAt: new Date().toISOString() });
+      const before = { ...book };
+      syncCopyCounts(data, book);
+      recordAudit(data, res, book, 'COPY_UPDATED', [...changes, ...diffBook(before, book)]);
+      return existing;
+    });
+
+    res.json(copy);
+  });
+
+  router.get('/:id', (req, res) => {
+    res.json(store.read(data => findBook(data, req.params['id'], isAdmin(res))));
+  });
+
+  router.post('/', adminOnly, upload.single('image'), (req, res) => {
+    const form = readBookForm(req);
+
+    const book = store.update(data => {
+      assertUniqueIsbn(data, form.isbn);
+      return addToCatalogue(data, res, form, req.file ? uploadUrl(req.file) : '', 'CREATED');
+    });
+
+    res.status(201).json(book);
+  });
+
+  router.put('/:id', adminOnly, upload.single('image'), (req, res) => {
+    const form = readBookForm(req);
+
+    const book = store.update(data => {
+      const existing = findBook(data, req.params['id'], true);
+      if (existing.isDeleted) {
+        throw new HttpError(409, 'Restore this book before editing it.');
+      }
+      assertUniqueIsbn(data, form.isbn, existing.id);
+      const copies = copiesOf(data, existing.id);
+      const onLoan = copies.filter(copy => copy.status === 'ON_LOAN' || copy.status === 'ON_HOLD').length;
+      if (form.totalCopies < onLoan) {
+        throw new HttpError(409, `${onLoan} copies are currently on loan or held for members; total copies cannot be lower than that.`);
+      }
+
+      const before = { ...existing };
+      const delta = form.totalCopies - existing.totalCopies;
+      Object.assign(existing, form, {
+        imageUrl: req.file ? uploadUrl(req.file) : existing.imageUrl
+      });
+      if (delta > 0) {
+        addCopies(data, existing, delta, {
+          shelfLocation: defaultShelf(data, existing.id),
+          condition: 'NEW',
+          acquisitionSource: 'PURCHASE'
+        });
+      } else if (delta < 0) {
+        // Withdraw copies waiting for repair first, then the newest copies on the shelf
+        const inRepair = copies.filter(copy => copy.status === 'IN_REPAIR');
+        const onShelf = copies.filter(copy => copy.status === 'AVAILABLE').reverse();
+        [...inRepair, ...onShelf].slice(0, -delta).forEach(copy => setCopyStatus(copy, 'WITHDRAWN'));
+      }
+      syncCopyCounts(data, existing);
+
+      const changes = diffBook(before, existing);
+      if (changes.length > 0) {
+        const copiesOnly = changes.every(change => COPY_FIELDS.includes(change.field));
+        recordAudit(data, res, existing, copiesOnly ? 'COPIES_ADJUSTED' : 'UPDATED', changes);
+      }
+      return existing;
+    });
+
+    res.json(book);
+  });
+
+  // Soft delete: the record stays for loan history and the audit trail
+  router.delete('/:id', adminOnly, (req, res) => {
+    store.update(data => {
+      const book = findBook(data, req.params['id']);
+      const borrowers = data.loans.filter(loan => loan.bookId === book.id && isActiveLoan(loan)).length;
+      if (borrowers > 0) {
+        throw new HttpError(409, `This book is still on loan to ${borrowers} borrower(s) and cannot be deleted.`);
+      }
+
+      book.isDeleted = true;
+      book.deletedAt = new Date().toISOString();
+      data.holds
+        .filter(hold => hold.bookId === book.id && isActiveHold(hold))
+        .forEach(hold => closeHold(data, hold, 'CANCELLED'));
+      book.isAvailable = false;
+      book.updatedAt = book.deletedAt;
+      recordAudit(data, res, book, 'DELETED');
+    });
+
+    res.status(204).end();
+  });
+
+  router.post('/:id/restore', adminOnly, (req, res) => {
+    const book = store.update(data => {
+      const existing = findBook(data, req.params['id'], true);
+      if (!existing.isDeleted) {
+        throw new HttpError(409, 'This book is not deleted.');
+      }
+
+      delete existing.isDeleted;
+      delete existing.deletedAt;
+      setAvailability(existing);
+      recordAudit(data, res, existing, 'RESTORED');
+      return existing;
+    });
+
+    res.json(book);
+  });
+
+  router.get('/:id/audit', adminOnly, (req, res) => {
+    const entries = store.read(data => {
+      const book = findBook(data, req.params['id'], true);
+      return data.bookAudit.filter(entry => entry.bookId === book.id).slice().reverse();
+    });
+    res.json(entries);
+  });
+
+  // Members can see where copies are shelved; staff notes stay with admins
+  router.get('/:id/copies', (req, res) => {
+    const showNotes = isAdmin(res);
+    const copies = store.read(data => {
+      const book = findBook(data, req.params['id'], showNotes);
+      return copiesOf(data, book.id).map(copy => toPublicCopy(copy, showNotes));
+    });
+    res.json(copies);
+  });
+
+  router.post('/:id/copies', adminOnly, (req, res) => {
+    const body = req.body || {};
+    const count = body.count === undefined ? 1 : Number(body.count);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_COPIES_PER_REQUEST) {
+      throw new HttpError(400, `Add between 1 and ${MAX_COPIES_PER_REQUEST} copies at a time.`);
+    }
+    const source = body.acquisitionSource === undefined ? 'PURCHASE' : String(body.acquisitionSource).toUpperCase();
+    if (source !== 'PURCHASE' && source !== 'DONATION') {
+      throw new HttpError(400, 'Acquisition source must be PURCHASE or DONATION.');
+    }
+
+    const copies = store.update(data => {
+      const book = findBook(data, req.params['id']);
+      if (book.totalCopies + count > MAX_COPIES_PER_TITLE) {
+        throw new HttpError(400, `A title can have at most ${MAX_COPIES_PER_TITLE} copies.`);
+      }
+
+      const before = { ...book };
+      const added = addCopies(data, book, count, {
+        barcode: body.barcode ? String(body.barcode) : undefined,
+        shelfLocation: body.shelfLocation ? String(body.shelfLocation).trim() : defaultShelf(data, book.id),
+        condition: readCondition(body.condition),
+        acquisitionSource: source,
+        notes: body.notes ? String(body.notes).trim() : undefined
+      });
+      recordAudit(data, res, book, 'COPIES_ADJUSTED', diffBook(before, book));
+      return added;
+    });
+
+    res.status(201).json(copies);
+  });
+
+  // Members see when copies come back; only admins see who has them
+  router.get('/:id/borrowers', (req, res) => {
+    const showMembers = isAdmin(res);
+
+    const borrowers = store.update(data => {
+      const book = findBook(data, req.params['id']);
+      refreshOverdue(data);
+      expireHolds(data);
+
+      return data.loans
+        .filter(loan => loan.bookId === book.id && isActiveLoan(loan))
+        .map((loan): BookBorrower => {
+          const member = data.members.find(m => m.id === loan.memberId);
+          const overdueDays = daysOverdue(loan.dueDate, new Date());
+          return {
+            memberId: showMembers ? loan.memberId : '',
+            memberName: showMembers ? member?.memberName || 'Unknown member' : 'Library member',
+            borrowDate: loan.borrowDate,
+            dueDate: loan.dueDate,
+            returnDate: loan.returnedDate,
+            quantity: loan.quantity,
+            copyBarcodes: copyBarcodes(data, loan),
+            isOverdue: overdueDays > 0,
+            fineAmount: calculateFine(data, loan, overdueDays).totalFine
+          };
+        });
+    });
+
+    res.json(borrowers);
+  });
+
+  // Copies taken off the shelf this way are marked as in repair, and put back from there
+  router.patch('/:id/availability', adminOnly, (req, res) => {
+    const availableCopies = Number(req.body?.availableCopies);
+
+    const book = store.update(data => {
+      const existing = findBook(data, req.params['id']);
+      const copies = copiesOf(data, existing.id);
+      const onShelf = copies.filter(copy => copy.status === 'AVAILABLE');
+      const inRepair = copies.filter(copy => copy.status === 'IN_REPAIR');
+      const limit = onShelf.length + inRepair.length;
+      if (!Number.isInteger(availableCopies) || availableCopies < 0 || availableCopies > limit) {
+        throw new HttpError(400, `Available copies must be between 0 and ${limit}.`);
+      }
+      const before = { ...existing };
+      if (availableCopies < onShelf.length) {
+        onShelf.slice(availableCopies).forEach(copy => setCopyStatus(copy, 'IN_REPAIR'));
+      } else {
+        inRepair.slice(0, availableCopies - onShelf.length).forEach(copy => setCopyStatus(copy, 'AVAILABLE'));
+      }
+      syncCopyCounts(data, existing);
+      const changes = diffBook(before, existing);
+      if (changes.length > 0) {
+        recordAudit(data, res, existing, 'COPIES_ADJUSTED', changes);
+      }
+      return existing;
+    });
+
+    res.json(book);
+  });
+
+  return router;
+}
@@ -0,0 +1,135 @@
+import { Router } from 'express';
+import { BorrowHistoryEntry, BorrowStatus } from '../../app/models/user.model';
+import { assertMemberAccess, authClaims, memberScope } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError, isWithinRange, matchesText, notFound, pageFromQuery, queryString } from '../http';
+import { LibraryData, LoanRecord } from '../store';
+import { policyFor } from '../policy';
+import { isLoanVisibleTo } from '../preferences';
+import { DAY_MS } from '../util';
+import { findMember, isActiveLoan, refreshOverdue, returnLoan, toHistoryEntry } from '../circulation';
+
+function findLoan(data: LibraryData, loanId: string): LoanRecord {
+  const loan = data.loans.find(l => l.id === loanId || l.borrowId === loanId);
+  if (!loan) {
+    throw notFound('Borrow record');
+  }
+  return loan;
+}
+
+// Staff only see returned loans of members who share their reading history
+function historyFor(data: LibraryData, loans: LoanRecord[], viewerId: string): BorrowHistoryEntry[] {
+  return loans
+    .filter(loan => isLoanVisibleTo(data, loan, viewerId))
+    .map(loan => toHistoryEntry(data, loan))
+    .sort((a, b) => b.borrowDate.getTime() - a.borrowDate.getTime());
+}
+
+/**
+ * /api/borrows - a member's loans: history, renewals and early returns.
+ */
+export function borrowsRouter({ store }: ApiContext): Router {
+  const router = Router();
+
+  router.get('/history', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+
+    const history = store.update(data => {
+      refreshOverdue(data, new Date(), memberId);
+      return historyFor(data, data.loans.filter(loan => loan.memberId === memberId), authClaims(res).sub);
+    });
+    res.json(pageFromQuery(req, history, 20));
+  });
+
+  router.get('/search', (req, res) => {
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+    const status = queryString(req, 'status') as BorrowStatus | undefined;
+
+    const history = store.update(data => {
+      refreshOverdue(data, new Date(), memberId);
+      return historyFor(data, data.loans.filter(loan =>
+        (!memberId || loan.memberId === memberId) &&
+        (!status || loan.status === status) &&
+        isWithinRange(loan.borrowDate, queryString(req, 'borrowDateFrom'), queryString(req, 'borrowDateTo')) &&
+        isWithinRange(loan.dueDate, queryString(req, 'dueDateFrom'), queryString(req, 'dueDateTo'))
+      ), authClaims(res).sub).filter(entry =>
+        matchesText(entry.title, queryString(req, 'bookTitle')) &&
+        matchesText(entry.author, queryString(req, 'author')) &&
+        (!queryString(req, 'category') || entry.category === queryString(req, 'category'))
+      );
+    });
+    res.json(pageFromQuery(req, history, 20));
+  });
+
+  router.get('/overdue', (req, res) => {
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+
+    res.json(store.update(data => {
+      refreshOverdue(data, new Date(), memberId);
+      return historyFor(data, data.loans.filter(loan =>
+        (!memberId || loan.memberId === memberId) && isActiveLoan(loan) && loan.status === 'Overdue'
+      ), authClaims(res).sub);
+    }));
+  });
+
+  router.patch('/:id/extend', (req, res) => {
+    const extensionDays = Number(req.body?.extensionDays ?? 7);
+
+    const loan = store.update(data => {
+      const existing = findLoan(data, req.params['id']);
+      assertMemberAccess(res, existing.memberId);
+      const { maxExtensionDays } = policyFor(data, findMember(data, existing.memberId).membershipType);
+      if (!Number.isInteger(extensionDays) || extensionDays < 1 || extensionDays > maxExtensionDays) {
+        throw new HttpError(400, `Extensions must be between 1 and ${maxExtensionDays} days.`);
+      }
+      refreshOverdue(data, new Date(), existing.memberId);
+      if (!isActiveLoan(existing)) {
+        throw new HttpError(400, 'Only borrowed books can be extended.');
+      }
+      if (existing.status === 'Overdue') {
+        throw new HttpError(409, 'Overdue books cannot be extended.');
+      }
+      if (existing.renewalCount >= existing.maxRenewalsAllowed) {
+        throw new HttpError(409, 'This book has already been extended the maximum number of times.');
+      }
+
+      existing.dueDate = new Date(new Date(existing.dueDate).getTime() + extensionDays * DAY_MS).toISOString();
+      existing.renewalCount++;
+      return existing;
+    });
+
+    res.json({
+      success: true,
+      newDueDate: loan.dueDate,
+      message: `Due date extended by ${extensionDays} days.`
+    });
+  });
+
+  router.patch('/:id/return', (req, res) => {
+    const notes: string | undefined = req.body?.notes;
+
+    const result = store.update(data => {
+      const loan = findLoan(data, req.params['id']);
+      assertMemberAccess(res, loan.memberId);
+      if (!isActiveLoan(loan)) {
+        throw new HttpError(400, 'This book has already been returned.');
+      }
+      const fine = returnLoan(data, loan, new Date(), notes);
+      return { loan, fine };
+    });
+
+    res.json({
+      success: true,
+      message: result.fine && result.fine.status === 'PENDING'
+        ? `Book returned. A fine of ₹${result.fine.totalFine} is due.`
+        : 'Book returned successfully.',
+      returnDate: result.loan.returnedDate
+    });
+  });
+
+  return router;
+}
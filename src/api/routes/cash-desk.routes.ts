@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { CashDaySummary, CashReconciliation, CashStaffTotal } from '../../app/models/fine.model';
+import { authClaims, requireRole } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError, isWithinRange, pageFromQuery, queryString, requireField } from '../http';
+import { dayKey } from '../fine-rules';
+import { LibraryData, nextId } from '../store';
+import { readDay, roundAmount } from '../util';
+
+function staffName(data: LibraryData, staffId: string): string {
+  return data.members.find(m => m.id === staffId)?.memberName || staffId;
+}
+
+/**
+ * Cash each staff member should hold for a day: desk payments they took, less cash refunds they paid out.
+ */
+function summarizeDay(data: LibraryData, date: string): CashDaySummary {
+  const payments = data.payments.filter(payment => payment.paymentMethod === 'cash'
+    && payment.collectedBy
+    && (payment.status === 'COMPLETED' || payment.status === 'REFUNDED')
+    && dayKey(payment.paymentDate) === date);
+  const refunds = data.refunds.filter(refund => refund.paymentMethod === 'cash' && dayKey(refund.refundDate) === date);
+
+  const totals = new Map<string, CashStaffTotal>();
+  const totalFor = (staffId: string): CashStaffTotal => {
+    let total = totals.get(staffId);
+    if (!total) {
+      total = { staffId, staffName: staffName(data, staffId), paymentCount: 0, collected: 0, refunded: 0, expected: 0 };
+      totals.set(staffId, total);
+    }
+    return total;
+  };
+
+  payments.forEach(payment => {
+    const total = totalFor(payment.collectedBy!);
+    total.paymentCount++;
+    total.collected = roundAmount(total.collected + payment.amount);
+  });
+  refunds.forEach(refund => {
+    const total = totalFor(refund.processedBy);
+    total.refunded = roundAmount(total.refunded + refund.amount);
+  });
+  data.cashReconciliations
+    .filter(reconciliation => reconciliation.date === date)
+    .forEach(reconciliation => totalFor(reconciliation.staffId).reconciliation = reconciliation);
+
+  const staff = Array.from(totals.values())
+    .map(total => ({ ...total, expected: roundAmount(total.collected - total.refunded) }))
+    .sort((a, b) => a.staffName.localeCompare(b.staffName));
+
+  return {
+    date,
+    staff,
+    totalCollected: roundAmount(staff.reduce((sum, total) => sum + total.collected, 0)),
+    totalRefunded: roundAmount(staff.reduce((sum, total) => sum + total.refunded, 0)),
+    totalExpected: roundAmount(staff.reduce((sum, total) => sum + total.expected, 0)),
+    payments: [...payments].reverse()
+  };
+}
+
+/**
+ * /api/cash-desk - daily cash totals per member of staff and end-of-day drawer counts.
+ * Cash itself is taken through POST /api/payments/process with paymentMethod "cash".
+ */
+export function cashDeskRouter({ store }: ApiContext): Router {
+  const router = Router();
+  router.use(requireRole('ADMIN'));
+
+  router.get('/summary', (req, res) => {
+    const date = readDay(queryString(req, 'date') || dayKey(new Date()));
+    res.json(store.read(data => summarizeDay(data, date)));
+  });
+
+  router.get('/reconciliations', (req, res) => {
+    const from = queryString(req, 'from');
+    const to = queryString(req, 'to');
+    const staffId = queryString(req, 'staffId');
+
+    const reconciliations = store.read(data => data.cashReconciliations
+      .filter(reconciliation => isWithinRange(reconciliation.date, from, to))
+      .filter(reconciliation => !staffId || reconciliation.staffId === staffId)
+      .reverse());
+    res.json(pageFromQuery(req, reconciliations));
+  });
+
+  // A recount replaces nothing: the summary shows the latest count, the history keeps them all
+  router.post('/reconciliations', (req, res) => {
+    const date = readDay(req.body?.date);
+    const staffId = requireField(req.body, 'staffId', 'Staff ID');
+    const countedAmount = Number(req.body?.countedAmount);
+    if (req.body?.countedAmount === undefined || req.body?.countedAmount === '' || !Number.isFinite(countedAmount) || countedAmount < 0) {
+      throw new HttpError(400, 'Counted amount must be zero or more.');
+    }
+    const notes = typeof req.body?.notes === 'string' ? req.body.notes.trim() : '';
+    if (date > dayKey(new Date())) {
+      throw new HttpError(400, 'Cannot reconcile a day that has not happened yet.');
+    }
+
+    const reconciliation = store.update(data => {
+      const total = summarizeDay(data, date).staff.find(t => t.staffId === staffId);
+      if (!total) {
+        throw new HttpError(404, `${staffName(data, staffId)} took no cash on ${date}.`);
+      }
+      const variance = roundAmount(countedAmount - total.expected);
+      if (variance !== 0 && !notes) {
+        throw new HttpError(400, `The drawer is ₹${Math.abs(variance)} ${variance < 0 ? 'short' : 'over'}; add a note explaining the difference.`);
+      }
+
+      const reconciledBy = authClaims(res).sub;
+      const created: CashReconciliation = {
+        id: nextId(data, 'CR'),
+        date,
+        staffId,
+        staffName: total.staffName,
+        expectedAmount: total.expected,
+        countedAmount: roundAmount(countedAmount),
+        variance,
+        notes: notes || undefined,
+        reconciledBy,
+        reconciledByName: staffName(data, reconciledBy),
+        reconciledAt: new Date()
+      };
+      data.cashReconciliations.push(created);
+      return created;
+    });
+
+    const message = reconciliation.variance === 0
+      ? `${reconciliation.staffName}'s cash for ${date} balances.`
+      : `${reconciliation.staffName}'s cash for ${date} recorded ₹${Math.abs(reconciliation.variance)} ${reconciliation.variance < 0 ? 'short' : 'over'}.`;
+    res.status(201).json({ success: true, message, reconciliation });
+  });
+
+  return router;
+}
@@ -0,0 +1,168 @@
+import express from 'express';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Complaint } from '../../app/models/complaint.model';
+import { TokenClaims } from '../auth';
+import { escalateBreachedComplaints } from '../complaint-sla';
+import { ApiContext } from '../context';
+import { apiErrorHandler } from '../http';
+import { NotificationHub } from '../notification-hub';
+import { LibraryStore, MemberRecord, createEmptyData } from '../store';
+import { complaintsRouter } from './complaints.routes';
+
+describe('complaints routes', () => {
+  const HOUR = 60 * 60 * 1000;
+  const MEMBER = { sub: 'MEM0002', email: 'member@library.com', role: 'MEMBER', typ: 'access' } as TokenClaims;
+  const STAFF = { sub: 'MEM0001', email: 'admin@library.com', role: 'ADMIN', typ: 'access' } as TokenClaims;
+  let dir: string;
+  let store: LibraryStore;
+  let hub: NotificationHub;
+  let server: Server;
+  let url: string;
+
+  function complaint(overrides: Partial<Complaint> = {}): Complaint {
+    // Submitted well past its 72-hour target
+    const submitted = new Date(Date.now() - 10 * 24 * HOUR);
+    return {
+      id: 'CMP0001',
+      memberId: 'MEM0002',
+      memberName: 'Test Member',
+      category: 'Library Service',
+      title: 'Noisy reading room',
+      description: 'The reading room is too noisy to study in.',
+      contactPreference: 'Email',
+      submissionDate: submitted,
+      status: 'Open',
+      lastUpdated: submitted,
+      priority: 'Medium',
+      ...overrides
+    };
+  }
+
+  function act(action: string, notes?: string): Promise<Response> {
+    return fetch(`${url}/CMP0001/action`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, notes })
+    });
+  }
+
+  function stored(): Complaint {
+    return store.read(data => data.complaints[0]);
+  }
+
+  async function start(seed: Complaint, claims: TokenClaims = MEMBER): Promise<void> {
+    const file = join(dir, 'library.json');
+    const data = createEmptyData();
+    data.members.push({ id: 'MEM0001', memberName: 'Library Admin', membershipType: 'PREMIUM', role: 'ADMIN' } as MemberRecord);
+    data.complaints.push(seed);
+    writeFileSync(file, JSON.stringify(data));
+    store = new LibraryStore(file);
+    hub = new NotificationHub(store);
+
+    // The complaint routes only need these parts of the context
+    const context: Pick<ApiContext, 'store' | 'hub'> = { store, hub };
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      res.locals['auth'] = claims;
+      next();
+    });
+    app.use('/api/complaints', complaintsRouter(context as ApiContext));
+    app.use(apiErrorHandler);
+    await new Promise<void>(resolve => server = app.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/complaints`;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'complaints-routes-'));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('escalate', () => {
+    it('escalates a complaint only once', async () => {
+      await start(complaint());
+      expect((await act('escalate', 'Nobody has replied.')).status).toBe(200);
+
+      const response = await act('escalate', 'Still nobody.');
+      expect(response.status).toBe(409);
+      expect((await response.json()).message).toBe('This complaint has already been escalated.');
+      expect(stored().escalationReason).toBe('Nobody has replied.');
+      expect(store.read(data => data.complaintEscalations.length)).toBe(1);
+    });
+
+    it('refuses to escalate a closed complaint', async () => {
+      await start(complaint({ status: 'Closed' }));
+      expect((await act('escalate')).status).toBe(409);
+      expect(store.read(data => data.complaintEscalations.length)).toBe(0);
+    });
+  });
+
+  describe('close', () => {
+    it('refuses to close a complaint twice', async () => {
+      await start(complaint());
+      expect((await act('close')).status).toBe(200);
+
+      const response = await act('close');
+      expect(response.status).toBe(409);
+      expect((await response.json()).message).toBe('This complaint is already closed.');
+    });
+  });
+
+  describe('reopen', () => {
+    it('gives a reopened complaint a fresh SLA target before the next sweep', async () => {
+      await start(complaint({ status: 'Resolved', actualResolutionDate: new Date(Date.now() - 24 * HOUR) }));
+      expect((await act('reopen', 'The noise is back.')).status).toBe(200);
+
+      const reopened = stored();
+      expect(reopened.status).toBe('Open');
+      expect(new Date(reopened.estimatedResolutionDate!).getTime()).toBeGreaterThan(Date.now() + 71 * HOUR);
+
+      expect(store.update(data => escalateBreachedComplaints(data, hub, new Date(Date.now() + HOUR)))).toEqual([]);
+      expect(stored().status).toBe('Open');
+    });
+
+    it('still escalates a reopened complaint that misses its new target', async () => {
+      await start(complaint({ status: 'Closed' }));
+      await act('reopen');
+
+      const escalated = store.update(data => escalateBreachedComplaints(data, hub, new Date(Date.now() + 73 * HOUR)));
+      expect(escalated.length).toBe(1);
+      expect(stored().status).toBe('Escalated');
+    });
+  });
+
+  describe('status updates', () => {
+    function setStatus(status: string, notes?: string): Promise<Response> {
+      return fetch(`${url}/CMP0001/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, notes })
+      });
+    }
+
+    it('adds the staff note to the thread and mirrors it as the support response', async () => {
+      await start(complaint(), STAFF);
+      expect((await setStatus('In Progress', 'We have spoken to the reading room staff.')).status).toBe(200);
+
+      const updated = stored();
+      expect(updated.responses!.map(r => [r.responderId, r.responderType, r.message, r.isInternal])).toEqual([
+        ['MEM0001', 'ADMIN', 'We have spoken to the reading room staff.', undefined]
+      ]);
+      expect(updated.supportResponse).toBe('We have spoken to the reading room staff.');
+    });
+
+    it('leaves the thread alone when no note is sent', async () => {
+      await start(complaint(), STAFF);
+      await setStatus('In Progress');
+      expect(stored().responses).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,601 @@
+import { Response, Router } from 'express';
+import {
+  Complaint,
+  ComplaintAction,
+  ComplaintCategory,
+  ComplaintPriority,
+  ComplaintQueue,
+  ComplaintQueuePage,
+  ComplaintResponse,
+  ComplaintResponseEntry,
+  ComplaintStatistics,
+  ComplaintStatus,
+  ComplaintTemplate,
+  ContactPreference
+} from '../../app/models/complaint.model';
+import { assertMemberAccess, authClaims, isAdmin, memberScope, requireRole } from '../auth';
+import { escalateBreachedComplaints, escalateComplaint, reopenComplaint, slaDeadline, slaFigures } from '../complaint-sla';
+import { COMPLAINT_QUEUES, complaintAssignees, isInQueue, queueCounts, sortByUrgency, withoutInternalNotes } from '../complaint-triage';
+import { ApiContext } from '../context';
+import { HttpError, isWithinRange, matchesText, notFound, pageFromQuery, queryString, requireField } from '../http';
+import { LibraryData, nextId } from '../store';
+import { findMember } from '../circulation';
+
+const COMPLAINT_CATEGORIES: ComplaintCategory[] = [
+  'Library Service',
+  'Borrowing Process',
+  'Payment Issues',
+  'Book Condition',
+  'Staff Behavior',
+  'System Technical',
+  'Facility Issues',
+  'Other'
+];
+
+const CONTACT_PREFERENCES: ContactPreference[] = ['Email', 'Phone', 'SMS'];
+const COMPLAINT_STATUSES: ComplaintStatus[] = ['Open', 'In Progress', 'Resolved', 'Closed', 'Escalated'];
+
+// Mirrors ComplaintService.determinePriority on the client
+function priorityForCategory(category: ComplaintCategory): ComplaintPriority {
+  switch (category) {
+    case 'Payment Issues':
+    case 'System Technical':
+      return 'High';
+    case 'Staff Behavior':
+    case 'Facility Issues':
+    case 'Book Condition':
+    case 'Library Service':
+      return 'Medium';
+    default:
+      return 'Low';
+  }
+}
+
+function readComplaintForm(body: any): Pick<Complaint, 'category' | 'title' | 'description' | 'contactPreference'> {
+  const category = body?.category as ComplaintCategory;
+  const contactPreference = body?.contactPreference as ContactPreference;
+  if (!COMPLAINT_CATEGORIES.includes(category)) {
+    throw new HttpError(400, 'Please choose a valid complaint category.');
+  }
+  if (!CONTACT_PREFERENCES.includes(contactPreference)) {
+    throw new HttpError(400, 'Please choose a valid contact preference.');
+  }
+
+  const title = requireField(body, 'title', 'Title');
+  const description = requireField(body, 'description', 'Description');
+  if (description.length < 10) {
+    throw new HttpError(400, 'Description must be at least 10 characters long.');
+  }
+
+  return { category, title, description, contactPreference };
+}
+
+function readComplaintTemplate(body: any, current?: ComplaintTemplate): Pick<ComplaintTemplate, 'title' | 'category' | 'description' | 'isActive'> {
+  const title = body?.title !== undefined || !current ? requireField(body, 'title', 'Template title') : current.title;
+  const description = body?.description !== undefined || !current ? requireField(body, 'description', 'Reply text') : current.description;
+  const category = (body?.category ?? current?.category) as ComplaintCategory;
+  if (!COMPLAINT_CATEGORIES.includes(category)) {
+    throw new HttpError(400, 'Please choose a valid complaint category.');
+  }
+  const isActive = body?.isActive ?? current?.isActive ?? true;
+  if (typeof isActive !== 'boolean') {
+    throw new HttpError(400, 'Active must be true or false.');
+  }
+
+  return { title, category, description, isActive };
+}
+
+// Staff see the whole thread; members never get internal notes
+function complaintFor(res: Response, complaint: Complaint): Complaint {
+  return isAdmin(res) ? complaint : withoutInternalNotes(complaint);
+}
+
+// Replies from the other side that the reader has not opened yet; staff read member replies and vice versa
+function unreadResponses(complaint: Complaint, readByStaff: boolean): ComplaintResponseEntry[] {
+  return (complaint.responses || []).filter(r =>
+    !r.readAt && !r.isInternal && (r.responderType === 'MEMBER') === readByStaff
+  );
+}
+
+function isReopenable(complaint: Complaint): boolean {
+  return complaint.status === 'Resolved' || complaint.status === 'Closed';
+}
+
+function findComplaint(data: LibraryData, complaintId: string): Complaint {
+  const complaint = data.complaints.find(c => c.id === complaintId);
+  if (!complaint) {
+    throw notFound('Complaint');
+  }
+  return complaint;
+}
+
+function sortNewestFirst(complaints: Complaint[]): Complaint[] {
+  return [...complaints].sort((a, b) => new Date(b.submissionDate).getTime() - new Date(a.submissionDate).getTime());
+}
+
+function buildStatistics(complaints: Complaint[]): ComplaintStatistics {
+  const countStatus = (status: ComplaintStatus) => complaints.filter(c => c.status === status).length;
+  const resolved = complaints.filter(c => c.actualResolutionDate);
+  const ratings = complaints.filter(c => c.customerSatisfactionRating);
+
+  const complaintsByCategory: ComplaintStatistics['complaintsByCategory'] = {};
+  const complaintsByPriority: ComplaintStatistics['complaintsByPriority'] = {};
+  complaints.forEach(c => {
+    complaintsByCategory[c.category] = (complaintsByCategory[c.category] || 0) + 1;
+    complaintsByPriority[c.priority] = (complaintsByPriority[c.priority] || 0) + 1;
+  });
+
+  const resolutionHours = resolved.reduce((total, c) =>
+    total + (new Date(c.actualResolutionDate!).getTime() - new Date(c.submissionDate).getTime()) / 3600000, 0);
+
+  return {
+    totalComplaints: complaints.length,
+    openComplaints: countStatus('Open'),
+    inProgressComplaints: countStatus('In Progress'),
+    resolvedComplaints: countStatus('Resolved'),
+    closedComplaints: countStatus('Closed'),
+    escalatedComplaints: countStatus('Escalated'),
+    averageResolutionTime: resolved.length ? Math.round(resolutionHours / resolved.length) : 0,
+    averageCustomerSatisfaction: ratings.length
+      ? Math.round(ratings.reduce((total, c) => total + c.customerSatisfactionRating!, 0) / ratings.length * 10) / 10
+      : undefined,
+    complaintsByCategory,
+    complaintsByPriority,
+    resolutionRate: complaints.length
+      ? Math.round((countStatus('Resolved') + countStatus('Closed')) / complaints.length * 100)
+      : 0,
+    ...slaFigures(complaints)
+  };
+}
+
+/**
+ * /api/complaints - member complaints, their lifecycle and support responses.
+ */
+export function complaintsRouter({ store, hub }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+
+  router.post('/', (req, res) => {
+    const form = readComplaintForm(req.body);
+    const memberId = requireField(req.body, 'memberId', 'Member ID');
+    assertMemberAccess(res, memberId);
+
+    const response = store.update((data): ComplaintResponse => {
+      const member = findMember(data, memberId);
+      const now = new Date();
+      const priority = priorityForCategory(form.category);
+      const complaint: Complaint = {
+        id: nextId(data, 'CMP'),
+        memberId: member.id,
+        memberName: member.memberName,
+        ...form,
+        submissionDate: now,
+        status: 'Open',
+        lastUpdated: now,
+        priority,
+        estimatedResolutionDate: slaDeadline({ submissionDate: now, priority }),
+        responses: []
+      };
+      data.complaints.push(complaint);
+
+      return {
+        success: true,
+        complaintId: complaint.id,
+        message: `Complaint ${complaint.id} submitted. Our team will get back to you soon.`,
+        complaint
+      };
+    });
+
+    res.status(201).json(response);
+  });
+
+  router.get('/user', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    const status = queryString(req, 'status');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+
+    const complaints = store.read(data => sortNewestFirst(data.complaints.filter(c =>
+      c.memberId === memberId && (!status || c.status === status)
+    )));
+    res.json(pageFromQuery(req, complaints.map(c => complaintFor(res, c))));
+  });
+
+  router.get('/search', (req, res) => {
+    const query = queryString(req, 'query');
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+
+    const complaints = store.read(data => sortNewestFirst(data.complaints.filter(c =>
+      (!memberId || c.memberId === memberId) &&
+      (!query || matchesText(c.title, query) || matchesText(c.description, query) || c.id === query) &&
+      (!queryString(req, 'category') || c.category === queryString(req, 'category')) &&
+      (!queryString(req, 'status') || c.status === queryString(req, 'status')) &&
+      (!queryString(req, 'priority') || c.priority === queryString(req, 'priority')) &&
+      isWithinRange(c.submissionDate, queryString(req, 'dateFrom'), queryString(req, 'dateTo'))
+    )));
+    res.json(pageFromQuery(req, complaints.map(c => complaintFor(res, c))));
+  });
+
+  router.get('/statistics', (req, res) => {
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+    res.json(store.read(data => buildStatistics(data.complaints.filter(c => !memberId || c.memberId === memberId))));
+  });
+
+  router.get('/categories', (req, res) => {
+    res.json(COMPLAINT_CATEGORIES);
+  });
+
+  router.get('/escalations', adminOnly, (req, res) => {
+    const complaintId = queryString(req, 'complaintId');
+    const escalations = store.read(data => data.complaintEscalations
+      .filter(e => !complaintId || e.complaintId === complaintId)
+      .reverse());
+    res.json(pageFromQuery(req, escalations, 20));
+  });
+
+  // Run the SLA check now instead of waiting for the background job
+  router.post('/escalations/run', adminOnly, (req, res) => {
+    const escalations = store.update(data => escalateBreachedComplaints(data, hub));
+    res.json({
+      success: true,
+      message: `${escalations.length} complaint(s) escalated for breaching their SLA.`,
+      escalations
+    });
+  });
+
+  // Staff triage console: one queue at a time, most urgent first, with the size of every queue
+  router.get('/queue', adminOnly, (req, res) => {
+    const queue = (queryString(req, 'queue') || 'OPEN') as ComplaintQueue;
+    if (!COMPLAINT_QUEUES.includes(queue)) {
+      throw new HttpError(400, 'Invalid complaint queue.');
+    }
+    const query = queryString(req, 'query');
+    const staffId = authClaims(res).sub;
+    const now = new Date();
+
+    const page = store.read((data): ComplaintQueuePage => {
+      const filtered = data.complaints.filter(c =>
+        (!query || matchesText(c.title, query) || matchesText(c.memberName, query) || c.id === query) &&
+        (!queryString(req, 'category') || c.category === queryString(req, 'category')) &&
+        (!queryString(req, 'priority') || c.priority === queryString(req, 'priority'))
+      );
+      return {
+        ...pageFromQuery(req, sortByUrgency(filtered.filter(c => isInQueue(c, queue, staffId, now))), 20),
+        counts: queueCounts(filtered, staffId, now)
+      };
+    });
+    res.json(page);
+  });
+
+  router.get('/assignees', adminOnly, (req, res) => {
+    res.json(store.read(complaintAssignees));
+  });
+
+  // Canned replies; members never see them
+  router.get('/templates', adminOnly, (req, res) => {
+    const activeOnly = queryString(req, 'active') === 'true';
+    res.json(store.read(data => data.complaintTemplates.filter(t => !activeOnly || t.isActive)));
+  });
+
+  router.post('/templates', adminOnly, (req, res) => {
+    const form = readComplaintTemplate(req.body);
+    const template = store.update(data => {
+      const created: ComplaintTemplate = {
+        id: nextId(data, 'CT'),
+        ...form,
+        createdBy: authClaims(res).sub,
+        createdDate: new Date()
+      };
+      data.complaintTemplates.push(created);
+      return created;
+    });
+    res.status(201).json({ success: true, message: `Template "${template.title}" created.`, template });
+  });
+
+  router.put('/templates/:id', adminOnly, (req, res) => {
+    const template = store.update(data => {
+      const existing = data.complaintTemplates.find(t => t.id === req.params['id']);
+      if (!existing) {
+        throw notFound('Complaint template');
+      }
+      Object.assign(existing, readComplaintTemplate(req.body, existing));
+      return existing;
+    });
+    res.json({ success: true, message: `Template "${template.title}" updated.`, template });
+  });
+
+  router.get('/:id', (req, res) => {
+    const complaint = store.read(data => findComplaint(data, req.params['id']));
+    assertMemberAccess(res, complaint.memberId);
+    res.json(complaintFor(res, complaint));
+  });
+
+  router.put('/:id', (req, res) => {
+    const form = readComplaintForm(req.body);
+
+    const complaint = store.update(data => {
+      const existing = findComplaint(data, req.params['id']);
+      assertMemberAccess(res, existing.memberId);
+      if (existing.status !== 'Open') {
+        throw new HttpError(403, 'You can only edit open complaints.');
+      }
+      const priority = priorityForCategory(form.category);
+      Object.assign(existing, form, {
+        priority,
+        estimatedResolutionDate: slaDeadline({ ...existing, priority }),
+        lastUpdated: new Date()
+      });
+      return existing;
+    });
+
+    res.json({ success: true, complaintId: complaint.id, message: 'Complaint updated successfully.', complaint: complaintFor(res, complaint) });
+  });
+
+  router.delete('/:id', (req, res) => {
+    store.update(data => {
+      const complaint = findComplaint(data, req.params['id']);
+      assertMemberAccess(res, complaint.memberId);
+      if (complaint.status !== 'Open') {
+        throw new HttpError(403, 'You can only delete open complaints.');
+      }
+      data.complaints = data.complaints.filter(c => c.id !== complaint.id);
+    });
+
+    res.json({ success: true, complaintId: req.params['id'], message: 'Complaint deleted successfully.' });
+  });
+
+  router.post('/:id/action', (req, res) => {
+    const action = req.body?.action as ComplaintAction['action'];
+    const notes: string | undefined = req.body?.notes;
+    const rating = Number(req.body?.rating);
+
+    const response = store.update((data): ComplaintResponse => {
+      const complaint = findComplaint(data, req.params['id']);
+      assertMemberAccess(res, complaint.memberId);
+      const now = new Date();
+      let message: string;
+
+      switch (action) {
+        case 'confirm_resolution':
+          if (complaint.status !== 'Resolved') {
+            throw new HttpError(409, 'Only resolved complaints can be confirmed.');
+          }
+          complaint.status = 'Closed';
+          message = 'Thank you for confirming. The complaint is now closed.';
+          break;
+        case 'reopen':
+          if (!isReopenable(complaint)) {
+            throw new HttpError(409, 'Only resolved or closed complaints can be reopened.');
+          }
+          reopenComplaint(complaint, now);
+          complaint.resolutionNotes = notes ? `Reopened: ${notes}` : complaint.resolutionNotes;
+          message = 'Complaint reopened. Our team will look into it again.';
+          break;
+        case 'close':
+          if (complaint.status === 'Closed') {
+            throw new HttpError(409, 'This complaint is already closed.');
+          }
+          complaint.status = 'Closed';
+          message = 'Complaint closed.';
+          break;
+        case 'escalate':
+          if (complaint.status === 'Closed') {
+            throw new HttpError(409, 'Closed complaints cannot be escalated.');
+          }
+          if (complaint.status === 'Escalated') {
+            throw new HttpError(409, 'This complaint has already been escalated.');
+          }
+          escalateComplaint(data, complaint, authClaims(res).sub, notes || 'Escalated by the member.', now);
+          message = 'Complaint escalated.';
+          break;
+        case 'provide_feedback':
+          if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+            throw new HttpError(400, 'Rating must be between 1 and 5.');
+          }
+          complaint.customerSatisfactionRating = rating;
+          message = 'Thank you for your feedback.';
+          break;
+        default:
+          throw new HttpError(400, 'Invalid action.');
+      }
+
+      complaint.lastUpdated = now;
+      return { success: true, complaintId: complaint.id, message, complaint: complaintFor(res, complaint) };
+    });
+
+    res.json(response);
+  });
+
+  router.patch('/:id/status', adminOnly, (req, res) => {
+    const status = req.body?.status as ComplaintStatus;
+    const notes: string | undefined = req.body?.notes;
+    if (!COMPLAINT_STATUSES.includes(status)) {
+      throw new HttpError(400, 'Invalid complaint status.');
+    }
+
+    const complaint = store.update(data => {
+      const existing = findComplaint(data, req.params['id']);
+      const staff = findMember(data, authClaims(res).sub);
+      const now = new Date();
+      if (status === 'Escalated' && existing.status !== 'Escalated') {
+        escalateComplaint(data, existing, staff.id, notes || 'Escalated by staff.', now);
+      }
+      existing.status = status;
+      existing.lastUpdated = now;
+      if (status === 'Resolved') {
+        existing.actualResolutionDate = now;
+        existing.resolutionNotes = notes || existing.resolutionNotes;
+      } else if (notes) {
+        // Older clients still read the single support response
+        existing.supportResponse = notes;
+      }
+      // The note is a reply to the member, so it joins the thread like one sent from /response
+      if (notes) {
+        existing.responses = [
+          ...(existing.responses || []),
+          {
+            id: nextId(data, 'RSP'),
+            responderId: staff.id,
+            responderName: staff.memberName,
+            responderType: 'ADMIN',
+            message: notes,
+            timestamp: now
+          }
+        ];
+      }
+      hub.notify(data, {
+        memberId: existing.memberId,
+        category: 'COMPLAINT',
+        title: `Complaint ${status.toLowerCase()}`,
+        message: `"${existing.title}" is now ${status}.${notes ? ` ${notes}` : ''}`,
+        link: '/complaints'
+      });
+      return existing;
+    });
+
+    res.json({ success: true, complaintId: complaint.id, message: `Complaint status updated to ${status}.`, complaint });
+  });
+
+  // Hand a complaint to a staff member, or back to the pool with null; the handover is kept as an internal note
+  router.patch('/:id/assign', adminOnly, (req, res) => {
+    const assignedTo: string | null = req.body?.assignedTo ?? null;
+    if (assignedTo !== null && typeof assignedTo !== 'string') {
+      throw new HttpError(400, 'Assignee must be a member ID or null.');
+    }
+
+    const complaint = store.update(data => {
+      const existing = findComplaint(data, req.params['id']);
+      const assignee = assignedTo === null ? undefined : data.members.find(m => m.id === assignedTo);
+      if (assignedTo !== null && assignee?.role !== 'ADMIN') {
+        throw new HttpError(400, 'Complaints can only be assigned to staff.');
+      }
+      const staff = findMember(data, authClaims(res).sub);
+      const now = new Date();
+
+      existing.assignedTo = assignee?.id;
+      existing.assignedToName = assignee?.memberName;
+      existing.lastUpdated = now;
+      existing.responses = [
+        ...(existing.responses || []),
+        {
+          id: nextId(data, 'RSP'),
+          responderId: staff.id,
+          responderName: staff.memberName,
+          responderType: 'STAFF',
+          message: assignee ? `Assigned to ${assignee.memberName}.` : 'Unassigned.',
+          timestamp: now,
+          isInternal: true
+        }
+      ];
+      if (assignee && assignee.id !== staff.id) {
+        hub.notify(data, {
+          memberId: assignee.id,
+          category: 'COMPLAINT',
+          title: 'Complaint assigned to you',
+          message: `${staff.memberName} assigned "${existing.title}" (${existing.id}) to you.`,
+          link: '/admin/complaints'
+        });
+      }
+      return existing;
+    });
+
+    res.json({
+      success: true,
+      complaintId: complaint.id,
+      message: complaint.assignedToName ? `Complaint assigned to ${complaint.assignedToName}.` : 'Complaint unassigned.',
+      complaint
+    });
+  });
+
+  // Members add to their own complaints; a response from an admin is recorded as theirs and notifies the member.
+  // Staff can instead leave an internal note, which the member never sees or hears about.
+  // Either side can reopen a resolved or closed complaint along with their reply.
+  router.post('/:id/response', (req, res) => {
+    const message = requireField(req.body, 'response', 'Response');
+    const isInternal = req.body?.isInternal === true;
+    const reopen = req.body?.reopen === true;
+    if (isInternal && !isAdmin(res)) {
+      throw new HttpError(403, 'Only staff can add internal notes.');
+    }
+    if (isInternal && reopen) {
+      throw new HttpError(400, 'Internal notes cannot reopen a complaint.');
+    }
+
+    const complaint = store.update(data => {
+      const existing = findComplaint(data, req.params['id']);
+      assertMemberAccess(res, existing.memberId);
+      if (reopen && !isReopenable(existing)) {
+        throw new HttpError(409, 'Only resolved or closed complaints can be reopened.');
+      }
+      const responder = findMember(data, authClaims(res).sub);
+      const fromStaff = isAdmin(res) && responder.id !== existing.memberId;
+      const now = new Date();
+      existing.responses = [
+        ...(existing.responses || []),
+        {
+          id: nextId(data, 'RSP'),
+          responderId: responder.id,
+          responderName: responder.memberName,
+          responderType: isInternal ? 'STAFF' : fromStaff ? 'ADMIN' : 'MEMBER',
+          message,
+          timestamp: now,
+          ...(isInternal ? { isInternal } : {}),
+          ...(reopen ? { reopened: reopen } : {})
+        }
+      ];
+      existing.lastUpdated = now;
+      if (reopen) {
+        reopenComplaint(existing, now);
+      }
+
+      if (fromStaff && !isInternal) {
+        hub.notify(data, {
+          memberId: existing.memberId,
+          category: 'COMPLAINT',
+          title: reopen ? 'Complaint reopened' : 'New reply to your complaint',
+          message: `${responder.memberName} ${reopen ? 'reopened' : 'replied to'} "${existing.title}".`,
+          link: '/complaints'
+        });
+      } else if (!fromStaff && existing.assignedTo) {
+        hub.notify(data, {
+          memberId: existing.assignedTo,
+          category: 'COMPLAINT',
+          title: reopen ? 'Complaint reopened' : 'Member replied',
+          message: `${responder.memberName} ${reopen ? 'reopened' : 'replied to'} "${existing.title}" (${existing.id}).`,
+          link: '/admin/complaints'
+        });
+      }
+      return existing;
+    });
+
+    res.status(201).json({
+      success: true,
+      complaintId: complaint.id,
+      message: isInternal ? 'Internal note added.' : reopen ? 'Reply sent and complaint reopened.' : 'Response added.',
+      complaint: complaintFor(res, complaint)
+    });
+  });
+
+  // Read receipts: the member opening the thread marks staff replies read, and staff opening it mark the member's
+  router.post('/:id/read', (req, res) => {
+    const readByStaff = (complaint: Complaint) => isAdmin(res) && complaint.memberId !== authClaims(res).sub;
+    const existing = store.read(data => findComplaint(data, req.params['id']));
+    assertMemberAccess(res, existing.memberId);
+
+    // Most opens find nothing new, so only write when there is something to mark
+    const complaint = unreadResponses(existing, readByStaff(existing)).length === 0
+      ? existing
+      : store.update(data => {
+        const current = findComplaint(data, req.params['id']);
+        const now = new Date();
+        unreadResponses(current, readByStaff(current)).forEach(r => r.readAt = now);
+        return current;
+      });
+
+    res.json(complaintFor(res, complaint));
+  });
+
+  return router;
+}
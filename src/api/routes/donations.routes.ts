@@ -0,0 +1,248 @@
+import { Router, Request } from 'express';
+import {
+  Donation,
+  DonationConditionValue,
+  DonationResponse,
+  DonationStatistics,
+  DonationStatus,
+  MonthlyDonationTrend
+} from '../../app/models/donation.model';
+import { isbnKey, normalizeIsbn } from '../../app/utils/isbn';
+import { assertMemberAccess, memberScope, requireRole } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError, isWithinRange, matchesText, notFound, pageFromQuery, queryString, requireField } from '../http';
+import { LibraryData, nextId } from '../store';
+import { findMember } from '../circulation';
+
+const DONATION_CONDITIONS: DonationConditionValue[] = ['New', 'Like New', 'Good', 'Fair', 'Poor'];
+const DONATION_STATUSES: DonationStatus[] = ['Pending', 'Accepted', 'Rejected', 'Under Review'];
+
+// Parse the multipart DonationFormData sent by DonationService
+function readDonationForm(req: Request): Pick<Donation, 'title' | 'author' | 'isbn' | 'condition' | 'quantity' | 'notes'> {
+  const condition = req.body.condition as DonationConditionValue;
+  if (!DONATION_CONDITIONS.includes(condition)) {
+    throw new HttpError(400, 'Please choose a valid book condition.');
+  }
+
+  const quantity = parseInt(req.body.quantity, 10);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > 50) {
+    throw new HttpError(400, 'Quantity must be between 1 and 50.');
+  }
+
+  // ISBN is optional for donations, but must be a real one when given
+  const rawIsbn = typeof req.body.isbn === 'string' ? req.body.isbn.trim() : '';
+  const isbn = rawIsbn ? normalizeIsbn(rawIsbn) : undefined;
+  if (isbn === null) {
+    throw new HttpError(400, 'ISBN is not a valid ISBN-10 or ISBN-13.');
+  }
+
+  return {
+    title: requireField(req.body, 'title', 'Title'),
+    author: requireField(req.body, 'author', 'Author'),
+    isbn,
+    condition,
+    quantity,
+    notes: req.body.notes || undefined
+  };
+}
+
+function findDonation(data: LibraryData, donationId: string): Donation {
+  const donation = data.donations.find(d => d.id === donationId);
+  if (!donation) {
+    throw notFound('Donation');
+  }
+  return donation;
+}
+
+function matchCatalogue(data: LibraryData, isbn: string | undefined): string | undefined {
+  return isbn ? data.books.find(book => isbnKey(book.isbn) === isbn)?.id : undefined;
+}
+
+function sortNewestFirst(donations: Donation[]): Donation[] {
+  return [...donations].sort((a, b) => new Date(b.submissionDate).getTime() - new Date(a.submissionDate).getTime());
+}
+
+function buildStatistics(donations: Donation[]): DonationStatistics {
+  const countStatus = (status: DonationStatus) => donations.filter(d => d.status === status).length;
+
+  const donationsByCondition: DonationStatistics['donationsByCondition'] = {};
+  donations.forEach(d => {
+    donationsByCondition[d.condition] = (donationsByCondition[d.condition] || 0) + 1;
+  });
+
+  const months = new Map<string, MonthlyDonationTrend>();
+  donations.forEach(d => {
+    const date = new Date(d.submissionDate);
+    const key = `${date.getFullYear()}-${date.getMonth().toString().padStart(2, '0')}`;
+    const trend = months.get(key) || {
+      month: date.toLocaleString('en-US', { month: 'short' }),
+      year: date.getFullYear(),
+      totalDonations: 0,
+      acceptedDonations: 0,
+      rejectedDonations: 0
+    };
+    trend.totalDonations++;
+    trend.acceptedDonations += d.status === 'Accepted' ? 1 : 0;
+    trend.rejectedDonations += d.status === 'Rejected' ? 1 : 0;
+    months.set(key, trend);
+  });
+
+  const reviewed = donations.filter(d => d.statusUpdatedDate && d.status !== 'Pending');
+  const processingDays = reviewed.reduce((total, d) =>
+    total + (new Date(d.statusUpdatedDate!).getTime() - new Date(d.submissionDate).getTime()) / 86400000, 0);
+  const decided = countStatus('Accepted') + countStatus('Rejected');
+
+  return {
+    totalDonations: donations.length,
+    pendingDonations: countStatus('Pending'),
+    acceptedDonations: countStatus('Accepted'),
+    rejectedDonations: countStatus('Rejected'),
+    underReviewDonations: countStatus('Under Review'),
+    totalBooksAddedToLibrary: donations.filter(d => d.isAddedToLibrary).reduce((total, d) => total + d.quantity, 0),
+    donationsByCondition,
+    donationsByMonth: Array.from(months.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([, trend]) => trend),
+    averageProcessingTime: reviewed.length ? Math.round(processingDays / reviewed.length) : 0,
+    acceptanceRate: decided ? Math.round(countStatus('Accepted') / decided * 100) : 0
+  };
+}
+
+/**
+ * /api/donations - book donations submitted by members and their review.
+ */
+export function donationsRouter({ store, upload, uploadUrl, hub }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+
+  router.post('/', upload.single('photo'), (req, res) => {
+    const form = readDonationForm(req);
+    const memberId = requireField(req.body, 'memberId', 'Member ID');
+    assertMemberAccess(res, memberId);
+
+    const response = store.update((data): DonationResponse => {
+      const member = findMember(data, memberId);
+      const donation: Donation = {
+        id: nextId(data, 'DON'),
+        memberId: member.id,
+        memberName: member.memberName,
+        ...form,
+        matchedBookId: matchCatalogue(data, form.isbn),
+        photoUrl: req.file ? uploadUrl(req.file) : undefined,
+        submissionDate: new Date(),
+        status: 'Pending'
+      };
+      data.donations.push(donation);
+
+      return {
+        success: true,
+        donationId: donation.id,
+        message: `Thank you! Donation ${donation.id} has been submitted for review.`,
+        donation
+      };
+    });
+
+    res.status(201).json(response);
+  });
+
+  router.get('/user', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    const status = queryString(req, 'status');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+
+    const donations = store.read(data => sortNewestFirst(data.donations.filter(d =>
+      d.memberId === memberId && (!status || d.status === status)
+    )));
+    res.json(pageFromQuery(req, donations));
+  });
+
+  router.get('/search', (req, res) => {
+    const query = queryString(req, 'query');
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+
+    const donations = store.read(data => sortNewestFirst(data.donations.filter(d =>
+      (!memberId || d.memberId === memberId) &&
+      (!query || matchesText(d.title, query) || matchesText(d.author, query)) &&
+      (!queryString(req, 'status') || d.status === queryString(req, 'status')) &&
+      (!queryString(req, 'condition') || d.condition === queryString(req, 'condition')) &&
+      isWithinRange(d.submissionDate, queryString(req, 'dateFrom'), queryString(req, 'dateTo'))
+    )));
+    res.json(pageFromQuery(req, donations));
+  });
+
+  router.get('/statistics', (req, res) => {
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+    res.json(store.read(data => buildStatistics(data.donations.filter(d => !memberId || d.memberId === memberId))));
+  });
+
+  router.get('/all', adminOnly, (req, res) => {
+    const status = queryString(req, 'status');
+    const donations = store.read(data => sortNewestFirst(data.donations.filter(d => !status || d.status === status)));
+    res.json(pageFromQuery(req, donations));
+  });
+
+  router.get('/:id', (req, res) => {
+    const donation = store.read(data => findDonation(data, req.params['id']));
+    assertMemberAccess(res, donation.memberId);
+    res.json(donation);
+  });
+
+  router.put('/:id', upload.single('photo'), (req, res) => {
+    const form = readDonationForm(req);
+
+    const donation = store.update(data => {
+      const existing = findDonation(data, req.params['id']);
+      assertMemberAccess(res, existing.memberId);
+      if (existing.status !== 'Pending') {
+        throw new HttpError(403, 'You can only edit pending donations.');
+      }
+      Object.assign(existing, form, {
+        matchedBookId: matchCatalogue(data, form.isbn),
+        photoUrl: req.file ? uploadUrl(req.file) : existing.photoUrl
+      });
+      return existing;
+    });
+
+    res.json({ success: true, donationId: donation.id, message: 'Donation updated successfully.', donation });
+  });
+
+  router.delete('/:id', (req, res) => {
+    store.update(data => {
+      const donation = findDonation(data, req.params['id']);
+      assertMemberAccess(res, donation.memberId);
+      if (donation.status !== 'Pending') {
+        throw new HttpError(403, 'You can only delete pending donations.');
+      }
+      data.donations = data.donations.filter(d => d.id !== donation.id);
+    });
+
+    res.json({ success: true, donationId: req.params['id'], message: 'Donation deleted successfully.' });
+  });
+
+  router.patch('/:id/status', adminOnly, (req, res) => {
+    const status = req.body?.status as DonationStatus;
+    if (!DONATION_STATUSES.includes(status)) {
+      throw new HttpError(400, 'Invalid donation status.');
+    }
+
+    const donation = store.update(data => {
+      const existing = findDonation(data, req.params['id']);
+      existing.status = status;
+      existing.adminNotes = req.body?.adminNotes || existing.adminNotes;
+      existing.statusUpdatedDate = new Date();
+      hub.notify(data, {
+        memberId: existing.memberId,
+        category: 'DONATION',
+        title: `Donation ${status.toLowerCase()}`,
+        message: `Your donation of "${existing.title}" is now ${status}.${existing.adminNotes ? ` ${existing.adminNotes}` : ''}`,
+        link: '/donate'
+      });
+      return existing;
+    });
+
+    res.json({ success: true, donationId: donation.id, message: `Donation status updated to ${status}.`, donation });
+  });
+
+  return router;
+}
@@ -0,0 +1,74 @@
+import express from 'express';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FineRecord, FineStatistics } from '../../app/models/fine.model';
+import { TokenClaims } from '../auth';
+import { ApiContext } from '../context';
+import { apiErrorHandler } from '../http';
+import { NotificationHub } from '../notification-hub';
+import { LibraryStore, createEmptyData } from '../store';
+import { finesRouter } from './fines.routes';
+
+describe('fine statistics', () => {
+  let dir: string;
+  let server: Server;
+  let url: string;
+
+  function fine(id: string, dueDate: string, totalFine: number): FineRecord {
+    return {
+      id,
+      memberId: 'MEM0002',
+      memberName: 'Test Member',
+      bookId: 'BK0001',
+      bookTitle: 'Test Book',
+      author: 'Test Author',
+      borrowId: `LN${id.slice(2)}`,
+      dueDate: new Date(dueDate),
+      returnDate: new Date(dueDate),
+      daysOverdue: 2,
+      dailyFine: totalFine / 2,
+      totalFine,
+      status: 'PENDING',
+      calculatedDate: new Date(dueDate)
+    };
+  }
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'fines-routes-'));
+    const file = join(dir, 'library.json');
+    const data = createEmptyData();
+    // The second falls due half an hour into March in UTC, which is still February west of Greenwich
+    data.fines.push(fine('FN0001', '2025-02-15T12:00:00.000Z', 10), fine('FN0002', '2025-03-01T00:30:00.000Z', 20));
+    writeFileSync(file, JSON.stringify(data));
+    const store = new LibraryStore(file);
+
+    // Statistics only need these parts of the context
+    const context: Pick<ApiContext, 'store' | 'hub'> = { store, hub: new NotificationHub(store) };
+    const claims = { sub: 'MEM0002', email: 'member@library.com', role: 'MEMBER', typ: 'access' } as TokenClaims;
+    const app = express();
+    app.use((req, res, next) => {
+      res.locals['auth'] = claims;
+      next();
+    });
+    app.use('/api/fines', finesRouter(context as ApiContext));
+    app.use(apiErrorHandler);
+    await new Promise<void>(resolve => server = app.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/fines`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('groups fines by the UTC month they fell due in', async () => {
+    const statistics: FineStatistics = await (await fetch(`${url}/statistics?memberId=MEM0002`)).json();
+    expect(statistics.finesByMonth.map(month => [month.month, month.year, month.totalFines])).toEqual([
+      ['Feb', 2025, 10],
+      ['Mar', 2025, 20]
+    ]);
+  });
+});
@@ -0,0 +1,315 @@
+import { Router } from 'express';
+import {
+  FineCalculationRule,
+  FineRecord,
+  FineStatistics,
+  FineStatus,
+  LibraryClosure,
+  MonthlyFineData,
+  PaymentSummary
+} from '../../app/models/fine.model';
+import { assertMemberAccess, authClaims, isAdmin, memberScope, requireRole } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError, isWithinRange, matchesText, notFound, pageFromQuery, queryNumber, queryString } from '../http';
+import { runFineBatch } from '../fine-batch';
+import { fineReportCsv, generateFineReport, readReportRange } from '../fine-reports';
+import { readClosure, readFineRule } from '../fine-rules';
+import { LibraryData, nextId } from '../store';
+import { refreshOverdue } from '../circulation';
+
+const FINE_STATUSES: FineStatus[] = ['PENDING', 'PAID', 'WAIVED', 'OVERDUE'];
+
+function sortNewestFirst(fines: FineRecord[]): FineRecord[] {
+  return [...fines].sort((a, b) => new Date(b.calculatedDate).getTime() - new Date(a.calculatedDate).getTime());
+}
+
+function buildStatistics(data: LibraryData, memberId: string): FineStatistics {
+  const fines = data.fines.filter(fine => fine.memberId === memberId);
+  const payments = data.payments.filter(payment => payment.memberId === memberId);
+  const outstanding = fines.filter(fine => fine.status === 'PENDING' || fine.status === 'OVERDUE');
+  const sum = (list: FineRecord[]) => list.reduce((total, fine) => total + fine.totalFine, 0);
+
+  // Grouped by UTC month, like every other day and month the API reports, whatever the server's time zone
+  const months = new Map<string, FineRecord[]>();
+  fines.forEach(fine => {
+    const due = new Date(fine.dueDate);
+    const key = `${due.getUTCFullYear()}-${due.getUTCMonth().toString().padStart(2, '0')}`;
+    months.set(key, [...(months.get(key) || []), fine]);
+  });
+
+  const finesByMonth: MonthlyFineData[] = Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, monthFines]) => {
+      const due = new Date(monthFines[0].dueDate);
+      return {
+        month: due.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' }),
+        year: due.getUTCFullYear(),
+        totalFines: sum(monthFines),
+        totalPaid: sum(monthFines.filter(fine => fine.status === 'PAID')),
+        totalWaived: sum(monthFines.filter(fine => fine.status === 'WAIVED')),
+        averageDaysOverdue: Math.round(monthFines.reduce((total, fine) => total + fine.daysOverdue, 0) / monthFines.length)
+      };
+    });
+
+  const finesByCategory: { [key: string]: number } = {};
+  fines.forEach(fine => {
+    const category = data.books.find(book => book.id === fine.bookId)?.category || 'Uncategorized';
+    finesByCategory[category] = (finesByCategory[category] || 0) + fine.totalFine;
+  });
+
+  const paymentHistory: PaymentSummary[] = payments.map(payment => ({
+    date: new Date(payment.paymentDate).toISOString(),
+    amount: payment.amount,
+    method: payment.paymentMethod,
+    status: payment.status,
+    bookCount: payment.fineRecords.length
+  }));
+
+  return {
+    totalOutstandingFines: sum(outstanding),
+    totalOverdueBooks: fines.filter(fine => fine.status === 'OVERDUE').length,
+    totalPaidFines: sum(fines.filter(fine => fine.status === 'PAID')),
+    totalWaivedFines: sum(fines.filter(fine => fine.status === 'WAIVED')),
+    averageDaysOverdue: fines.length ? Math.round(fines.reduce((total, fine) => total + fine.daysOverdue, 0) / fines.length) : 0,
+    averageFineAmount: fines.length ? Math.round(sum(fines) / fines.length) : 0,
+    finesByMonth,
+    paymentHistory,
+    finesByCategory
+  };
+}
+
+/**
+ * /api/fines - overdue fines per member and admin fine management.
+ */
+export function finesRouter({ store, hub }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+
+  router.get('/user', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+
+    const fines = store.update(data => {
+      refreshOverdue(data, new Date(), memberId);
+      return sortNewestFirst(data.fines.filter(fine => fine.memberId === memberId));
+    });
+    res.json(fines);
+  });
+
+  router.get('/statistics', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+
+    res.json(store.update(data => {
+      refreshOverdue(data, new Date(), memberId);
+      return buildStatistics(data, memberId);
+    }));
+  });
+
+  router.get('/search', (req, res) => {
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+    const status = queryString(req, 'status');
+    const bookTitle = queryString(req, 'bookTitle');
+    const minAmount = queryNumber(req, 'minAmount', Number.NEGATIVE_INFINITY);
+    const maxAmount = queryNumber(req, 'maxAmount', Number.POSITIVE_INFINITY);
+
+    const fines = store.read(data => sortNewestFirst(data.fines.filter(fine =>
+      (!memberId || fine.memberId === memberId) &&
+      (!status || fine.status === status) &&
+      matchesText(fine.bookTitle, bookTitle) &&
+      fine.totalFine >= minAmount &&
+      fine.totalFine <= maxAmount &&
+      isWithinRange(fine.dueDate, queryString(req, 'dateFrom'), queryString(req, 'dateTo'))
+    )));
+    res.json(pageFromQuery(req, fines));
+  });
+
+  router.get('/all', adminOnly, (req, res) => {
+    const status = queryString(req, 'status');
+
+    const fines = store.update(data => {
+      refreshOverdue(data);
+      return sortNewestFirst(data.fines.filter(fine => !status || fine.status === status));
+    });
+    res.json(pageFromQuery(req, fines));
+  });
+
+  // Admins without a memberId run the full batch and get its report; members refresh their own fines
+  router.post('/recalculate', (req, res) => {
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+    if (!memberId && isAdmin(res)) {
+      const report = store.update(data => runFineBatch(data, 'MANUAL', authClaims(res).sub));
+      res.json({
+        success: true,
+        message: `Recalculated fines: ${report.changes.length} record(s) updated.`,
+        updatedCount: report.changes.length,
+        report
+      });
+      return;
+    }
+
+    const updatedCount = store.update(data => refreshOverdue(data, new Date(), memberId));
+
+    res.json({
+      success: true,
+      message: `Recalculated fines: ${updatedCount} record(s) updated.`,
+      updatedCount
+    });
+  });
+
+  // Recalculation runs, newest first, without the per-fine changes
+  router.get('/runs', adminOnly, (req, res) => {
+    const runs = store.read(data => [...data.fineRuns].reverse().map(({ changes, ...summary }) => summary));
+    res.json(pageFromQuery(req, runs));
+  });
+
+  router.get('/runs/:id', adminOnly, (req, res) => {
+    const run = store.read(data => data.fineRuns.find(r => r.id === req.params['id']));
+    if (!run) {
+      throw notFound('Fine run');
+    }
+    res.json(run);
+  });
+
+  // Generated reports, newest first, without the per-member breakdown
+  router.get('/reports', adminOnly, (req, res) => {
+    const reports = store.read(data => [...data.fineReports].reverse().map(({ memberStatistics, ...summary }) => summary));
+    res.json(pageFromQuery(req, reports));
+  });
+
+  router.post('/reports', adminOnly, (req, res) => {
+    const range = readReportRange(req.body);
+    const report = store.update(data => {
+      refreshOverdue(data);
+      return generateFineReport(data, range, authClaims(res).sub);
+    });
+    res.status(201).json({ success: true, message: `Report ${report.reportId} generated.`, report });
+  });
+
+  router.get('/reports/:id', adminOnly, (req, res) => {
+    const report = store.read(data => data.fineReports.find(r => r.reportId === req.params['id']));
+    if (!report) {
+      throw notFound('Fine report');
+    }
+    res.json(report);
+  });
+
+  router.get('/reports/:id/export', adminOnly, (req, res) => {
+    const report = store.read(data => data.fineReports.find(r => r.reportId === req.params['id']));
+    if (!report) {
+      throw notFound('Fine report');
+    }
+    res.attachment(`fine-report-${report.reportId}.csv`).type('text/csv').send(fineReportCsv(report));
+  });
+
+  // Calculation rules; changes take effect at the next recalculation
+  router.get('/rules', adminOnly, (req, res) => {
+    res.json(store.read(data => data.fineRules));
+  });
+
+  router.post('/rules', adminOnly, (req, res) => {
+    const rule = store.update(data => {
+      const created: FineCalculationRule = {
+        id: nextId(data, 'FRL'),
+        ...readFineRule(req.body),
+        createdBy: authClaims(res).sub,
+        updatedAt: new Date()
+      };
+      data.fineRules.push(created);
+      return created;
+    });
+    res.status(201).json({ success: true, message: `Fine rule "${rule.name}" created.`, rule });
+  });
+
+  router.put('/rules/:id', adminOnly, (req, res) => {
+    const rule = store.update(data => {
+      const existing = data.fineRules.find(r => r.id === req.params['id']);
+      if (!existing) {
+        throw notFound('Fine rule');
+      }
+      Object.assign(existing, readFineRule(req.body, existing), { updatedAt: new Date() });
+      return existing;
+    });
+    res.json({ success: true, message: `Fine rule "${rule.name}" updated.`, rule });
+  });
+
+  router.delete('/rules/:id', adminOnly, (req, res) => {
+    store.update(data => {
+      if (!data.fineRules.some(r => r.id === req.params['id'])) {
+        throw notFound('Fine rule');
+      }
+      data.fineRules = data.fineRules.filter(r => r.id !== req.params['id']);
+    });
+    res.json({ success: true, message: 'Fine rule deleted.' });
+  });
+
+  // Days the library is closed; anyone signed in can see them
+  router.get('/closures', (req, res) => {
+    res.json(store.read(data => [...data.closures].sort((a, b) => a.startDate.localeCompare(b.startDate))));
+  });
+
+  router.post('/closures', adminOnly, (req, res) => {
+    const closure = store.update(data => {
+      const created: LibraryClosure = {
+        id: nextId(data, 'CL'),
+        ...readClosure(req.body),
+        createdBy: authClaims(res).sub
+      };
+      data.closures.push(created);
+      return created;
+    });
+    res.status(201).json({ success: true, message: 'Closure added.', closure });
+  });
+
+  router.delete('/closures/:id', adminOnly, (req, res) => {
+    store.update(data => {
+      if (!data.closures.some(c => c.id === req.params['id'])) {
+        throw notFound('Closure');
+      }
+      data.closures = data.closures.filter(c => c.id !== req.params['id']);
+    });
+    res.json({ success: true, message: 'Closure removed.' });
+  });
+
+  router.patch('/:id/status', adminOnly, (req, res) => {
+    const status = req.body?.status as FineStatus;
+    const adminNotes: string | undefined = req.body?.adminNotes;
+    if (!FINE_STATUSES.includes(status)) {
+      throw new HttpError(400, 'Invalid fine status.');
+    }
+
+    store.update(data => {
+      const fine = data.fines.find(f => f.id === req.params['id']);
+      if (!fine) {
+        throw notFound('Fine');
+      }
+      if (fine.waiverId) {
+        throw new HttpError(409, `This fine is under review in waiver request ${fine.waiverId}; decide the request instead.`);
+      }
+
+      fine.status = status;
+      fine.adminNotes = adminNotes || fine.adminNotes;
+      fine.isWaived = status === 'WAIVED';
+      fine.waivedBy = status === 'WAIVED' ? authClaims(res).sub : undefined;
+      fine.waivedReason = status === 'WAIVED' ? adminNotes : undefined;
+      fine.paidDate = status === 'PAID' ? new Date() : fine.paidDate;
+      hub.notify(data, {
+        memberId: fine.memberId,
+        category: 'FINE',
+        title: `Fine ${status.toLowerCase()}`,
+        message: `Your ₹${fine.totalFine} fine for "${fine.bookTitle}" is now ${status}.${adminNotes ? ` Note: ${adminNotes}` : ''}`,
+        link: '/fines'
+      });
+    });
+
+    res.json({ success: true, message: `Fine status updated to ${status}.` });
+  });
+
+  return router;
+}
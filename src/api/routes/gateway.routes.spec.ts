@@ -0,0 +1,230 @@
+import express from 'express';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FineRecord, PaymentRecord } from '../../app/models/fine.model';
+import { ApiContext } from '../context';
+import { SimulatorGateway } from '../gateway-simulator';
+import { apiErrorHandler } from '../http';
+import { NotificationHub } from '../notification-hub';
+import { expireStalePayments } from '../payment-settlement';
+import { LibraryStore, createEmptyData } from '../store';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhook } from '../webhook-signature';
+import { gatewayRouter } from './gateway.routes';
+
+describe('gateway webhook', () => {
+  const SECRET = 'test-webhook-secret';
+  const CREATED = new Date('2025-03-01T10:00:00.000Z');
+  let dir: string;
+  let store: LibraryStore;
+  let server: Server;
+  let url: string;
+
+  function fine(id: string, paymentId: string): FineRecord {
+    return {
+      id,
+      memberId: 'MEM0002',
+      memberName: 'Test Member',
+      bookId: 'BK0001',
+      bookTitle: 'Test Book',
+      author: 'Test Author',
+      borrowId: 'BR0001',
+      dueDate: new Date('2025-02-20'),
+      returnDate: new Date('2025-02-24'),
+      daysOverdue: 4,
+      dailyFine: 5,
+      totalFine: 20,
+      status: 'PENDING',
+      calculatedDate: new Date('2025-02-24'),
+      paymentId
+    };
+  }
+
+  function payment(paymentId: string, gatewayTransactionId: string): PaymentRecord {
+    return {
+      id: paymentId,
+      paymentId,
+      transactionId: `TXN-${paymentId}`,
+      memberId: 'MEM0002',
+      memberName: 'Test Member',
+      amount: 20,
+      paymentMethod: 'upi',
+      status: 'PENDING',
+      paymentDate: CREATED,
+      fineRecords: [],
+      gatewayName: 'simulator',
+      gatewayTransactionId,
+      expiresAt: new Date(CREATED.getTime() + 15 * 60 * 1000)
+    };
+  }
+
+  function event(gatewayTransactionId: string, overrides: object = {}): string {
+    return JSON.stringify({
+      eventId: `EVT-${gatewayTransactionId}`,
+      gatewayTransactionId,
+      status: 'COMPLETED',
+      responseCode: '00',
+      responseMessage: 'Approved',
+      processedAt: new Date().toISOString(),
+      ...overrides
+    });
+  }
+
+  function deliver(body: string, signature: string | null = signWebhook(SECRET, body)): Promise<Response> {
+    return fetch(`${url}/simulator/webhook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(signature === null ? {} : { [WEBHOOK_SIGNATURE_HEADER]: signature }) },
+      body
+    });
+  }
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'gateway-webhook-'));
+    const file = join(dir, 'library.json');
+    const data = createEmptyData();
+    data.payments.push(payment('PAY0001', 'SIMTXN1'));
+    data.fines.push(fine('FN0001', 'PAY0001'));
+    writeFileSync(file, JSON.stringify(data));
+    store = new LibraryStore(file);
+
+    // The webhook only needs these parts of the context
+    const context: Pick<ApiContext, 'store' | 'gateway' | 'webhookSecret' | 'hub'> = {
+      store,
+      gateway: new SimulatorGateway(SECRET),
+      webhookSecret: SECRET,
+      hub: new NotificationHub(store)
+    };
+    const app = express();
+    app.use('/api/gateway', gatewayRouter(context as ApiContext));
+    app.use(apiErrorHandler);
+    await new Promise<void>(resolve => server = app.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/gateway`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function storedPayment(paymentId: string): PaymentRecord {
+    return store.read(data => data.payments.find(p => p.paymentId === paymentId)!);
+  }
+
+  function storedFine(id: string): FineRecord {
+    return store.read(data => data.fines.find(f => f.id === id)!);
+  }
+
+  it('applies a correctly signed outcome to the payment and its fines', async () => {
+    const response = await deliver(event('SIMTXN1'));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(jasmine.objectContaining({ duplicate: false, result: 'APPLIED', status: 'COMPLETED' }));
+    expect(storedPayment('PAY0001').status).toBe('COMPLETED');
+    expect(storedFine('FN0001').status).toBe('PAID');
+    expect(store.read(data => data.appNotifications.length)).toBe(1);
+  });
+
+  describe('signatures', () => {
+    async function expectRejected(response: Response, message: string): Promise<void> {
+      expect(response.status).toBe(401);
+      expect((await response.json()).message).toBe(message);
+      expect(storedPayment('PAY0001').status).toBe('PENDING');
+      expect(store.read(data => data.gatewayWebhooks.length)).toBe(0);
+    }
+
+    it('refuses a delivery without a signature', async () => {
+      await expectRejected(await deliver(event('SIMTXN1'), null), 'Missing or malformed webhook signature.');
+    });
+
+    it('refuses a malformed signature header', async () => {
+      const body = event('SIMTXN1');
+      await expectRejected(await deliver(body, 't=soon,v1=abc'), 'Missing or malformed webhook signature.');
+    });
+
+    it('refuses a body signed with another secret', async () => {
+      const body = event('SIMTXN1');
+      await expectRejected(await deliver(body, signWebhook('wrong-secret', body)), 'Webhook signature does not match.');
+    });
+
+    it('refuses a body changed after it was signed', async () => {
+      const signature = signWebhook(SECRET, event('SIMTXN1', { status: 'FAILED' }));
+      await expectRejected(await deliver(event('SIMTXN1'), signature), 'Webhook signature does not match.');
+    });
+
+    it('refuses a replayed delivery signed outside the tolerance window', async () => {
+      const body = event('SIMTXN1');
+      const stale = signWebhook(SECRET, body, new Date(Date.now() - 10 * 60 * 1000));
+      await expectRejected(await deliver(body, stale), 'Webhook signature has expired.');
+    });
+  });
+
+  describe('duplicates', () => {
+    it('acknowledges a redelivered event without applying it again', async () => {
+      const body = event('SIMTXN1');
+      await deliver(body);
+      const paidDate = storedFine('FN0001').paidDate;
+
+      const response = await deliver(body);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(jasmine.objectContaining({ duplicate: true, status: 'COMPLETED' }));
+
+      const webhooks = store.read(data => data.gatewayWebhooks);
+      expect(webhooks.length).toBe(1);
+      expect(webhooks[0].deliveries).toBe(2);
+      expect(storedFine('FN0001').paidDate).toEqual(paidDate);
+      expect(store.read(data => data.appNotifications.length)).toBe(1);
+    });
+
+    it('keeps the first outcome when a later event reports a different one', async () => {
+      await deliver(event('SIMTXN1'));
+      const response = await deliver(event('SIMTXN1', { eventId: 'EVT-RETRY', status: 'FAILED', responseCode: '05' }));
+
+      expect(await response.json()).toEqual(jasmine.objectContaining({ duplicate: true, status: 'COMPLETED' }));
+      expect(storedFine('FN0001').status).toBe('PAID');
+    });
+
+    it('treats a reused event ID as a duplicate', async () => {
+      store.update(data => {
+        data.payments.push(payment('PAY0002', 'SIMTXN2'));
+        data.fines.push(fine('FN0002', 'PAY0002'));
+      });
+      await deliver(event('SIMTXN1', { eventId: 'EVT-1' }));
+
+      const response = await deliver(event('SIMTXN2', { eventId: 'EVT-1' }));
+      expect(await response.json()).toEqual(jasmine.objectContaining({ duplicate: true }));
+      expect(storedPayment('PAY0002').status).toBe('PENDING');
+      expect(storedFine('FN0002').status).toBe('PENDING');
+    });
+  });
+
+  describe('late events', () => {
+    it('ignores a confirmation for a payment that has already expired', async () => {
+      store.update(data => expireStalePayments(data, new Date(CREATED.getTime() + 16 * 60 * 1000)));
+      expect(storedFine('FN0001').paymentId).toBeUndefined();
+
+      const response = await deliver(event('SIMTXN1'));
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(jasmine.objectContaining({ duplicate: false, result: 'IGNORED', status: 'FAILED' }));
+      expect(storedFine('FN0001').status).toBe('PENDING');
+      expect(store.read(data => data.appNotifications.length)).toBe(0);
+    });
+
+    it('ignores an outcome for a payment the member cancelled', async () => {
+      store.update(data => {
+        data.payments[0].status = 'CANCELLED';
+        data.fines[0].paymentId = undefined;
+      });
+
+      const response = await deliver(event('SIMTXN1'));
+      expect(await response.json()).toEqual(jasmine.objectContaining({ result: 'IGNORED', status: 'CANCELLED' }));
+      expect(storedFine('FN0001').status).toBe('PENDING');
+    });
+
+    it('reports an unknown transaction as not found', async () => {
+      const response = await deliver(event('SIMUNKNOWN'));
+      expect(response.status).toBe(404);
+      expect(store.read(data => data.gatewayWebhooks.length)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import express, { Router } from 'express';
+import { ApiContext } from '../context';
+import { HttpError } from '../http';
+import { applyGatewayEvent } from '../payment-settlement';
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from '../webhook-signature';
+
+/**
+ * /api/gateway - called by the payment gateway rather than the app, so it is not behind requireAuth.
+ * Mounted ahead of the API's body parsers: the webhook signature covers the raw bytes.
+ */
+export function gatewayRouter({ store, gateway, webhookSecret, hub }: ApiContext): Router {
+  const router = Router();
+
+  // Gateways retry until they get a 2xx, so repeats are acknowledged without being applied again
+  router.post(`/${gateway.name}/webhook`, express.raw({ type: () => true, limit: '100kb' }), (req, res) => {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    verifyWebhookSignature(webhookSecret, req.get(WEBHOOK_SIGNATURE_HEADER), rawBody);
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody.toString('utf-8'));
+    } catch {
+      throw new HttpError(400, 'Webhook body must be JSON.');
+    }
+    const event = gateway.parseWebhook(req.headers, body);
+    const { payment, webhook, duplicate } = store.update(data => {
+      const outcome = applyGatewayEvent(data, gateway.name, event);
+      if (outcome.webhook.result === 'APPLIED' && !outcome.duplicate) {
+        const paid = outcome.payment.status === 'COMPLETED';
+        hub.notify(data, {
+          memberId: outcome.payment.memberId,
+          category: 'PAYMENT',
+          title: paid ? 'Payment received' : 'Payment failed',
+          message: paid
+            ? `Your payment of ₹${outcome.payment.amount} (${outcome.payment.paymentId}) went through.`
+            : `Your payment ${outcome.payment.paymentId} did not go through: ${event.responseMessage}`,
+          link: '/fines'
+        });
+      }
+      return outcome;
+    });
+
+    res.json({
+      success: true,
+      duplicate,
+      result: webhook.result,
+      paymentId: payment.paymentId,
+      status: payment.status
+    });
+  });
+
+  if (gateway.router) {
+    router.use(`/${gateway.name}`, express.urlencoded({ extended: true }), gateway.router());
+  }
+
+  return router;
+}
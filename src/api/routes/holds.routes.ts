@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import { Hold, HoldResponse } from '../../app/models/hold.model';
+import { assertMemberAccess, requireRole } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError, notFound, queryString, requireField } from '../http';
+import { LibraryData, nextId } from '../store';
+import {
+  HOLD_PICKUP_DAYS,
+  MAX_ACTIVE_HOLDS,
+  closeHold,
+  evaluateBorrow,
+  expireHolds,
+  findBook,
+  findMember,
+  isActiveHold,
+  isActiveLoan,
+  syncCopyCounts,
+  withQueuePosition
+} from '../circulation';
+
+function findHold(data: LibraryData, holdId: string): Hold {
+  const hold = data.holds.find(h => h.id === holdId);
+  if (!hold) {
+    throw notFound('Hold');
+  }
+  return hold;
+}
+
+/**
+ * /api/holds - FIFO hold queues for books with no copies on the shelf.
+ */
+export function holdsRouter({ store }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+
+  router.post('/', (req, res) => {
+    const memberId = requireField(req.body, 'memberId', 'Member ID');
+    const bookId = requireField(req.body, 'bookId', 'Book ID');
+    assertMemberAccess(res, memberId);
+
+    const response = store.update((data): HoldResponse => {
+      const member = findMember(data, memberId);
+      if (member.isActive === false) {
+        throw new HttpError(403, 'Your membership is inactive. Please contact the library.');
+      }
+      expireHolds(data);
+      const book = findBook(data, bookId);
+
+      if (data.holds.some(hold => hold.memberId === member.id && hold.bookId === book.id && isActiveHold(hold))) {
+        throw new HttpError(409, `You already have a hold on "${book.title}".`);
+      }
+      if (data.loans.some(loan => loan.memberId === member.id && loan.bookId === book.id && isActiveLoan(loan))) {
+        throw new HttpError(409, `You already have "${book.title}" on loan.`);
+      }
+      if (book.availableCopies > 0) {
+        throw new HttpError(409, `"${book.title}" has copies on the shelf; borrow it instead.`);
+      }
+      // No point queueing for a book the member's policy will not let them collect
+      const restricted = evaluateBorrow(data, member, [{ book, quantity: 1 }]).find(reason => reason.code === 'CATEGORY_RESTRICTED');
+      if (restricted) {
+        throw new HttpError(403, restricted.message);
+      }
+      if (data.holds.filter(hold => hold.memberId === member.id && isActiveHold(hold)).length >= MAX_ACTIVE_HOLDS) {
+        throw new HttpError(409, `You can have at most ${MAX_ACTIVE_HOLDS} holds at a time.`);
+      }
+
+      const hold: Hold = {
+        id: nextId(data, 'HD'),
+        bookId: book.id,
+        bookTitle: book.title,
+        author: book.author,
+        memberId: member.id,
+        memberName: member.memberName,
+        status: 'WAITING',
+        placedAt: new Date().toISOString()
+      };
+      data.holds.push(hold);
+      // A copy may have come back between the availability check on the client and now
+      syncCopyCounts(data, book);
+
+      const placed = withQueuePosition(data, hold);
+      return {
+        success: true,
+        message: placed.status === 'READY'
+          ? `A copy of "${book.title}" is waiting for you. Collect it within ${HOLD_PICKUP_DAYS} days.`
+          : `Hold placed. You are number ${placed.position} in the queue for "${book.title}".`,
+        hold: placed
+      };
+    });
+
+    res.status(201).json(response);
+  });
+
+  // Active holds by default; ?includeClosed=true adds fulfilled, expired and cancelled ones
+  router.get('/user', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+    const includeClosed = queryString(req, 'includeClosed') === 'true';
+
+    const holds = store.update(data => {
+      expireHolds(data);
+      return data.holds
+        .filter(hold => hold.memberId === memberId && (includeClosed || isActiveHold(hold)))
+        .map(hold => withQueuePosition(data, hold))
+        .reverse();
+    });
+    res.json(holds);
+  });
+
+  // The queue for one book in pickup order: ready holds first, then waiting holds
+  router.get('/book/:bookId', adminOnly, (req, res) => {
+    const holds = store.update(data => {
+      expireHolds(data);
+      const book = findBook(data, req.params['bookId'], true);
+      const active = data.holds.filter(hold => hold.bookId === book.id && isActiveHold(hold));
+      return [
+        ...active.filter(hold => hold.status === 'READY'),
+        ...active.filter(hold => hold.status === 'WAITING')
+      ].map(hold => withQueuePosition(data, hold));
+    });
+    res.json(holds);
+  });
+
+  router.delete('/:id', (req, res) => {
+    const hold = store.update(data => {
+      const existing = findHold(data, req.params['id']);
+      assertMemberAccess(res, existing.memberId);
+      if (!isActiveHold(existing)) {
+        throw new HttpError(409, 'This hold is no longer active.');
+      }
+      closeHold(data, existing, 'CANCELLED');
+      return existing;
+    });
+
+    res.json({ success: true, message: `Hold on "${hold.bookTitle}" cancelled.`, hold });
+  });
+
+  return router;
+}
@@ -0,0 +1,221 @@
+import { Router } from 'express';
+import {
+  CountryCode,
+  MemberRegistrationRequest,
+  MemberRegistrationResponse,
+  UpdateProfileRequest
+} from '../../app/models/member.model';
+import { assertMemberAccess, requireAuth, requireRole } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError, matchesText, pageFromQuery, queryString, requireField } from '../http';
+import { assertPasswordStrength, hashSecret, normalizeSecretAnswer, verifySecret } from '../password';
+import { LibraryData, MemberRecord, nextId } from '../store';
+import { findMember, toPublicMember } from '../circulation';
+import { resetPasswordWithToken } from './auth.routes';
+
+const COUNTRY_CODES: CountryCode[] = [
+  { code: 'IN', name: 'India', dialCode: '+91' },
+  { code: 'US', name: 'United States', dialCode: '+1' },
+  { code: 'GB', name: 'United Kingdom', dialCode: '+44' },
+  { code: 'CA', name: 'Canada', dialCode: '+1' },
+  { code: 'AU', name: 'Australia', dialCode: '+61' },
+  { code: 'DE', name: 'Germany', dialCode: '+49' },
+  { code: 'FR', name: 'France', dialCode: '+33' },
+  { code: 'JP', name: 'Japan', dialCode: '+81' },
+  { code: 'CN', name: 'China', dialCode: '+86' },
+  { code: 'BR', name: 'Brazil', dialCode: '+55' }
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function emailTaken(data: LibraryData, email: string, exceptId?: string): boolean {
+  return data.members.some(m => m.email.toLowerCase() === email.toLowerCase() && m.id !== exceptId);
+}
+
+function mobileTaken(data: LibraryData, countryCode: string, mobileNumber: string, exceptId?: string): boolean {
+  return data.members.some(m => m.countryCode === countryCode && m.mobileNumber === mobileNumber && m.id !== exceptId);
+}
+
+/**
+ * /api/members - registration, member lookup and account administration.
+ */
+export function membersRouter({ store, tokens }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+
+  router.post('/register', (req, res) => {
+    const request = req.body as MemberRegistrationRequest;
+    const email = requireField(request, 'email', 'Email').toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new HttpError(400, 'Please enter a valid email address.');
+    }
+    const mobileNumber = requireField(request, 'mobileNumber', 'Mobile number').replace(/\D/g, '');
+    if (mobileNumber.length < 7 || mobileNumber.length > 15) {
+      throw new HttpError(400, 'Please enter a valid mobile number.');
+    }
+    const password = assertPasswordStrength(request.password);
+    const secretAnswer = requireField(request, 'secretAnswer', 'Secret answer');
+
+    const fields = {
+      memberName: requireField(request, 'memberName', 'Name'),
+      countryCode: requireField(request, 'countryCode', 'Country code'),
+      address: requireField(request, 'address', 'Address'),
+      dateOfBirth: requireField(request, 'dateOfBirth', 'Date of birth'),
+      secretQuestion: requireField(request, 'secretQuestion', 'Secret question')
+    };
+
+    const response = store.update((data): MemberRegistrationResponse => {
+      if (emailTaken(data, email) || mobileTaken(data, fields.countryCode, mobileNumber)) {
+        throw new HttpError(409, 'Email or mobile number already exists.');
+      }
+
+      const now = new Date().toISOString();
+      const member: MemberRecord = {
+        id: nextId(data, 'MEM'),
+        ...fields,
+        email,
+        mobileNumber,
+        isActive: true,
+        membershipDate: now,
+        createdAt: now,
+        updatedAt: now,
+        role: 'MEMBER',
+        membershipType: 'BASIC',
+        passwordHash: hashSecret(password),
+        secretAnswerHash: hashSecret(normalizeSecretAnswer(secretAnswer))
+      };
+      data.members.push(member);
+
+      return {
+        success: true,
+        message: 'Registration successful. You can now log in.',
+        memberId: member.id,
+        memberName: member.memberName,
+        email: member.email,
+        membershipDate: member.membershipDate
+      };
+    });
+
+    res.status(201).json(response);
+  });
+
+  router.get('/check-email', (req, res) => {
+    const email = queryString(req, 'email') || '';
+    res.json({ exists: store.read(data => emailTaken(data, email)) });
+  });
+
+  router.get('/check-mobile', (req, res) => {
+    const countryCode = queryString(req, 'countryCode') || '';
+    const mobileNumber = (queryString(req, 'mobileNumber') || '').replace(/\D/g, '');
+    res.json({ exists: store.read(data => mobileTaken(data, countryCode, mobileNumber)) });
+  });
+
+  router.get('/country-codes', (req, res) => {
+    res.json(COUNTRY_CODES);
+  });
+
+  router.post('/reset-password', (req, res) => {
+    resetPasswordWithToken(store, tokens, req.body);
+    res.json({ success: true, message: 'Password reset successfully.' });
+  });
+
+  // Everything below needs a signed-in member
+  router.use(requireAuth(tokens));
+
+  router.get('/by-email', (req, res) => {
+    const email = queryString(req, 'email');
+    const member = store.read(data => data.members.find(m => m.email.toLowerCase() === email?.toLowerCase()));
+    if (!member) {
+      throw new HttpError(404, 'Member not found.');
+    }
+    assertMemberAccess(res, member.id);
+    res.json(toPublicMember(member));
+  });
+
+  router.get('/statistics', adminOnly, (req, res) => {
+    res.json(store.read(data => {
+      const today = new Date().toDateString();
+      return {
+        totalMembers: data.members.length,
+        activeMembers: data.members.filter(m => m.isActive !== false).length,
+        newMembersToday: data.members.filter(m => m.membershipDate && new Date(m.membershipDate).toDateString() === today).length
+      };
+    }));
+  });
+
+  router.get('/search', adminOnly, (req, res) => {
+    const query = queryString(req, 'query');
+    const members = store.read(data => data.members
+      .filter(m => !query || matchesText(m.memberName, query) || matchesText(m.email, query) || matchesText(m.mobileNumber, query) || m.id === query)
+      .map(toPublicMember));
+    res.json(pageFromQuery(req, members));
+  });
+
+  router.get('/:id', (req, res) => {
+    assertMemberAccess(res, req.params['id']);
+    res.json(store.read(data => toPublicMember(findMember(data, req.params['id']))));
+  });
+
+  router.put('/:id/profile', (req, res) => {
+    const update = req.body as UpdateProfileRequest;
+    assertMemberAccess(res, req.params['id']);
+
+    const member = store.update(data => {
+      const existing = findMember(data, req.params['id']);
+      const countryCode = update.countryCode || existing.countryCode;
+      const mobileNumber = update.mobileNumber ? update.mobileNumber.replace(/\D/g, '') : existing.mobileNumber;
+      if (mobileTaken(data, countryCode, mobileNumber, existing.id)) {
+        throw new HttpError(409, 'Email or mobile number already exists.');
+      }
+
+      Object.assign(existing, {
+        memberName: update.memberName?.trim() || existing.memberName,
+        address: update.address?.trim() || existing.address,
+        dateOfBirth: update.dateOfBirth || existing.dateOfBirth,
+        countryCode,
+        mobileNumber,
+        updatedAt: new Date().toISOString()
+      });
+      return existing;
+    });
+
+    res.json(toPublicMember(member));
+  });
+
+  router.put('/:id/password', (req, res) => {
+    const currentPassword = requireField(req.body, 'currentPassword', 'Current password');
+    const newPassword = assertPasswordStrength(req.body?.newPassword);
+    assertMemberAccess(res, req.params['id']);
+
+    store.update(data => {
+      const member = findMember(data, req.params['id']);
+      if (!verifySecret(currentPassword, member.passwordHash)) {
+        throw new HttpError(400, 'Current password is incorrect.');
+      }
+      member.passwordHash = hashSecret(newPassword);
+      member.updatedAt = new Date().toISOString();
+    });
+
+    res.json({ success: true, message: 'Password updated successfully.' });
+  });
+
+  router.put('/:id/deactivate', adminOnly, (req, res) => {
+    store.update(data => {
+      const member = findMember(data, req.params['id']);
+      member.isActive = false;
+      member.updatedAt = new Date().toISOString();
+    });
+    res.json({ success: true, message: 'Member account deactivated.' });
+  });
+
+  router.put('/:id/activate', adminOnly, (req, res) => {
+    store.update(data => {
+      const member = findMember(data, req.params['id']);
+      member.isActive = true;
+      member.updatedAt = new Date().toISOString();
+    });
+    res.json({ success: true, message: 'Member account activated.' });
+  });
+
+  return router;
+}
@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import { NotificationChannel, NotificationStatus, NotificationType } from '../../app/models/notification.model';
+import { STREAM_TOKEN_TTL, authClaims, memberScope, passwordFingerprint, requireAuth, requireRole } from '../auth';
+import { findMember } from '../circulation';
+import { ApiContext } from '../context';
+import { HttpError, notFound, paginate, pageFromQuery, queryNumber, queryString } from '../http';
+import { runReminders } from '../reminders';
+import { LibraryData } from '../store';
+
+function unreadCount(data: LibraryData, memberId: string): number {
+  return data.appNotifications.filter(n => n.memberId === memberId && !n.readAt).length;
+}
+
+/**
+ * /api/notifications - the member's in-app notifications and their live stream, and the log of
+ * reminders and overdue notices sent by email or SMS.
+ */
+export function notificationsRouter({ store, tokens, transports, hub }: ApiContext): Router {
+  const router = Router();
+
+  // EventSource cannot send an Authorization header, so the stream takes a short-lived token from /stream-token instead
+  router.get('/stream', (req, res) => {
+    const claims = tokens.verify(queryString(req, 'token'), 'stream');
+    const count = store.read(data => {
+      const member = findMember(data, claims.sub);
+      if (claims.pwd !== passwordFingerprint(member)) {
+        throw new HttpError(401, 'Token has been revoked.');
+      }
+      return unreadCount(data, member.id);
+    });
+    hub.open(claims.sub, res, count);
+  });
+
+  router.use(requireAuth(tokens));
+
+  router.post('/stream-token', (req, res) => {
+    const member = store.read(data => findMember(data, authClaims(res).sub));
+    res.json({ token: tokens.sign(member, 'stream', STREAM_TOKEN_TTL), expiresIn: STREAM_TOKEN_TTL });
+  });
+
+  // The signed-in member's bell, newest first, with the unread count
+  router.get('/inbox', (req, res) => {
+    const memberId = authClaims(res).sub;
+    const unreadOnly = queryString(req, 'unreadOnly') === 'true';
+
+    res.json(store.read(data => {
+      const notifications = data.appNotifications
+        .filter(n => n.memberId === memberId && (!unreadOnly || !n.readAt))
+        .reverse();
+      return {
+        ...paginate(notifications, queryNumber(req, 'page', 0), queryNumber(req, 'size', 10)),
+        unreadCount: unreadCount(data, memberId)
+      };
+    }));
+  });
+
+  router.patch('/inbox/read-all', (req, res) => {
+    const memberId = authClaims(res).sub;
+    store.update(data => {
+      const now = new Date();
+      data.appNotifications
+        .filter(n => n.memberId === memberId && !n.readAt)
+        .forEach(n => n.readAt = now);
+    });
+    hub.sendUnreadCount(memberId, 0);
+    res.json({ success: true, message: 'All notifications marked as read.', unreadCount: 0 });
+  });
+
+  router.patch('/inbox/:id/read', (req, res) => {
+    const memberId = authClaims(res).sub;
+    const { notification, count } = store.update(data => {
+      const found = data.appNotifications.find(n => n.id === req.params['id'] && n.memberId === memberId);
+      if (!found) {
+        throw notFound('Notification');
+      }
+      found.readAt = found.readAt || new Date();
+      return { notification: found, count: unreadCount(data, memberId) };
+    });
+    hub.sendUnreadCount(memberId, count);
+    res.json({ success: true, message: 'Notification marked as read.', notification, unreadCount: count });
+  });
+
+  // Email and SMS log: members see their own entries; admins everyone's, or one member's
+  router.get('/', (req, res) => {
+    const memberId = memberScope(res, queryString(req, 'memberId'));
+    const type = queryString(req, 'type') as NotificationType | undefined;
+    const channel = queryString(req, 'channel') as NotificationChannel | undefined;
+    const status = queryString(req, 'status') as NotificationStatus | undefined;
+
+    const notifications = store.read(data => data.notifications
+      .filter(n => (!memberId || n.memberId === memberId)
+        && (!type || n.type === type)
+        && (!channel || n.channel === channel)
+        && (!status || n.status === status))
+      .reverse());
+    res.json(pageFromQuery(req, notifications, 20));
+  });
+
+  // Run the daily scan now; loans already notified today are skipped as usual
+  router.post('/run', requireRole('ADMIN'), (req, res, next) => {
+    runReminders(store, transports, 'MANUAL')
+      .then(report => res.json({
+        success: true,
+        message: `Reminder run: ${report.sent} sent, ${report.failed} failed across ${report.loansChecked} loan(s).`,
+        report
+      }))
+      .catch(next);
+  });
+
+  return router;
+}
@@ -0,0 +1,418 @@
+import { Router } from 'express';
+import { randomBytes } from 'node:crypto';
+import {
+  PaymentMethod,
+  PaymentReceipt,
+  PaymentRecord,
+  PaymentRequest,
+  PaymentResponse,
+  PaymentStatus,
+  RefundFineAction,
+  RefundRecord,
+  RefundRequest,
+  RefundResponse
+} from '../../app/models/fine.model';
+import { assertMemberAccess, authClaims, isAdmin, requireRole } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError, matchesText, notFound, pageFromQuery, queryString } from '../http';
+import { LibraryData, nextId } from '../store';
+import { findMember, refreshOverdue } from '../circulation';
+import { PAYMENT_TIMEOUT_MINUTES, completePayment, expireStalePayments } from '../payment-settlement';
+import { RECEIPT_STATUSES, receiptVerificationCode } from '../receipts';
+import { UPI_QR_TIMEOUT_MINUTES, upiQrCode } from '../upi';
+import { roundAmount } from '../util';
+
+const PAYMENT_METHODS: PaymentMethod[] = ['card', 'upi', 'netbanking', 'wallet', 'cash'];
+const PAYMENT_STATUSES: PaymentStatus[] = ['PENDING', 'COMPLETED', 'FAILED', 'REFUNDED', 'CANCELLED'];
+const REFUND_FINE_ACTIONS: RefundFineAction[] = ['REINSTATE', 'CLOSE'];
+
+function createTransactionId(): string {
+  return `TXN${Date.now()}${randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+// Where the gateway sends the member back to; only paths on this site are allowed
+function readReturnPath(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '/fines';
+  }
+  if (typeof value !== 'string' || !value.startsWith('/') || value.startsWith('//') || value.includes('\\')) {
+    throw new HttpError(400, 'Return URL must be a path on this site.');
+  }
+  return value;
+}
+
+function readAmountTendered(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new HttpError(400, 'Amount tendered must be greater than zero.');
+  }
+  return roundAmount(amount);
+}
+
+function findPayment(data: LibraryData, paymentId: string): PaymentRecord {
+  const payment = data.payments.find(p => p.paymentId === paymentId || p.id === paymentId);
+  if (!payment) {
+    throw notFound('Payment');
+  }
+  return payment;
+}
+
+function newestFirst<T>(items: T[], date: (item: T) => Date): T[] {
+  return items.sort((a, b) => new Date(date(b)).getTime() - new Date(date(a)).getTime());
+}
+
+function readRefundRequest(body: any): RefundRequest {
+  const fineIds = Array.isArray(body?.fineIds) ? Array.from(new Set<string>(body.fineIds.map(String))) : [];
+  if (fineIds.length === 0) {
+    throw new HttpError(400, 'Select at least one fine to refund.');
+  }
+  const reason = typeof body?.reason === 'string' ? body.reason.trim() : '';
+  if (!reason) {
+    throw new HttpError(400, 'A reason for the refund is required.');
+  }
+  if (!REFUND_FINE_ACTIONS.includes(body?.fineAction)) {
+    throw new HttpError(400, 'Choose whether the refunded fines are reinstated or closed.');
+  }
+  const amount = body?.amount === undefined || body?.amount === null || body?.amount === ''
+    ? undefined
+    : Number(body.amount);
+  if (amount !== undefined && (!Number.isFinite(amount) || amount <= 0)) {
+    throw new HttpError(400, 'Refund amount must be greater than zero.');
+  }
+  return { fineIds, reason, fineAction: body.fineAction, amount };
+}
+
+/**
+ * /api/payments - fine payments, payment history, refunds and cancellations.
+ */
+export function paymentsRouter({ store, gateway, publicOrigin, hub }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+
+  router.get('/user', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+
+    const payments = store.update(data => {
+      expireStalePayments(data);
+      return newestFirst(data.payments.filter(payment => payment.memberId === memberId), payment => payment.paymentDate);
+    });
+    res.json(pageFromQuery(req, payments));
+  });
+
+  // All payments for staff; ?q= matches member name, member ID, payment or transaction ID
+  router.get('/', adminOnly, (req, res) => {
+    const status = queryString(req, 'status');
+    const query = queryString(req, 'q');
+    if (status && !PAYMENT_STATUSES.includes(status as PaymentStatus)) {
+      throw new HttpError(400, 'Invalid payment status.');
+    }
+
+    const payments = store.read(data => newestFirst(
+      data.payments.filter(payment =>
+        (!status || payment.status === status) &&
+        (!query || [payment.memberName, payment.memberId, payment.paymentId, payment.transactionId].some(value => matchesText(value, query)))
+      ),
+      payment => payment.paymentDate
+    ));
+    res.json(pageFromQuery(req, payments));
+  });
+
+  router.get('/refunds/user', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+
+    const refunds = store.read(data => newestFirst(
+      data.refunds.filter(refund => refund.memberId === memberId),
+      refund => refund.refundDate
+    ));
+    res.json(refunds);
+  });
+
+  /**
+   * Start paying fines. Card, UPI, net banking and wallet payments are created PENDING and the
+   * member is sent to the gateway's page; the gateway's webhook completes or fails them.
+   * Cash is taken at the desk by staff and completes immediately.
+   */
+  router.post('/process', (req, res) => {
+    const request = req.body as PaymentRequest;
+    if (!request?.memberId || !Array.isArray(request.fineIds) || request.fineIds.length === 0) {
+      throw new HttpError(400, 'Member ID and at least one fine are required.');
+    }
+    assertMemberAccess(res, request.memberId);
+    if (!PAYMENT_METHODS.includes(request.paymentMethod)) {
+      throw new HttpError(400, 'Unsupported payment method.');
+    }
+    if (request.paymentMethod === 'cash' && !isAdmin(res)) {
+      throw new HttpError(403, 'Cash payments are taken at the library desk.');
+    }
+    const amountTendered = request.paymentMethod === 'cash' ? readAmountTendered(request.amountTendered) : undefined;
+    const returnPath = readReturnPath(request.returnUrl);
+    const origin = publicOrigin ?? `${req.protocol}://${req.get('host')}`;
+
+    const response = store.update((data): PaymentResponse => {
+      const member = findMember(data, request.memberId);
+      const now = new Date();
+      refreshOverdue(data, now, member.id);
+      expireStalePayments(data, now);
+
+      const fines = request.fineIds.map(fineId => {
+        const fine = data.fines.find(f => f.id === fineId && f.memberId === member.id);
+        if (!fine) {
+          throw notFound(`Fine ${fineId}`);
+        }
+        if (fine.status === 'PAID' || fine.status === 'WAIVED') {
+          throw new HttpError(409, `Fine ${fineId} has already been settled.`);
+        }
+        // The fine keeps growing until the book is back, so paying it early would stop the clock
+        if (fine.status === 'OVERDUE') {
+          throw new HttpError(409, `Fine ${fineId} is still growing; return the book first.`);
+        }
+        if (fine.waiverId) {
+          throw new HttpError(409, `Fine ${fineId} is under review in waiver request ${fine.waiverId}.`);
+        }
+        if (fine.paymentId) {
+          throw new HttpError(409, `Fine ${fineId} is already being paid in payment ${fine.paymentId}.`);
+        }
+        return fine;
+      });
+
+      const amount = fines.reduce((sum, fine) => sum + fine.totalFine, 0);
+      if (Math.abs(amount - Number(request.totalAmount)) > 0.01) {
+        throw new HttpError(400, `Payment amount does not match the selected fines (₹${amount}).`);
+      }
+      if (amountTendered !== undefined && amountTendered < amount) {
+        throw new HttpError(400, `₹${amountTendered} does not cover the ₹${amount} due.`);
+      }
+
+      const payment: PaymentRecord = {
+        id: nextId(data, 'PAY'),
+        paymentId: '',
+        transactionId: createTransactionId(),
+        memberId: member.id,
+        memberName: member.memberName,
+        amount,
+        paymentMethod: request.paymentMethod,
+        status: 'PENDING',
+        paymentDate: now,
+        fineRecords: fines.map(fine => ({ ...fine })),
+        processingFee: 0
+      };
+      payment.paymentId = payment.id;
+      fines.forEach(fine => fine.paymentId = payment.paymentId);
+      data.payments.push(payment);
+
+      if (request.paymentMethod === 'cash') {
+        const staffId = authClaims(res).sub;
+        payment.collectedBy = staffId;
+        payment.collectedByName = data.members.find(m => m.id === staffId)?.memberName || staffId;
+        payment.amountTendered = amountTendered ?? amount;
+        payment.changeGiven = roundAmount(payment.amountTendered - amount);
+        completePayment(data, payment, now);
+        return {
+          success: true,
+          message: payment.changeGiven > 0
+            ? `Cash payment of ₹${amount} recorded. Give ₹${payment.changeGiven} change.`
+            : `Cash payment of ₹${amount} recorded.`,
+          paymentId: payment.paymentId,
+          transactionId: payment.transactionId,
+          status: payment.status,
+          estimatedProcessingTime: 'Instant'
+        };
+      }
+
+      const checkout = gateway.createCheckout({
+        payment,
+        returnUrl: `${origin}${returnPath}`,
+        webhookUrl: `${origin}/api/gateway/${gateway.name}/webhook`
+      });
+      // A UPI QR is scanned while the member waits on the fines page, so it times out sooner
+      const timeoutMinutes = checkout.upiDeepLink ? UPI_QR_TIMEOUT_MINUTES : PAYMENT_TIMEOUT_MINUTES;
+      payment.gatewayName = gateway.name;
+      payment.gatewayTransactionId = checkout.gatewayTransactionId;
+      payment.expiresAt = new Date(now.getTime() + timeoutMinutes * 60 * 1000);
+
+      return {
+        success: true,
+        message: checkout.upiDeepLink ? `Scan the UPI QR code to pay ₹${amount}.` : `Continue to the payment page to pay ₹${amount}.`,
+        paymentId: payment.paymentId,
+        transactionId: payment.transactionId,
+        status: payment.status,
+        gatewayUrl: checkout.redirectUrl,
+        qrCode: checkout.qrCode || (checkout.upiDeepLink ? upiQrCode(checkout.upiDeepLink) : undefined),
+        upiDeepLink: checkout.upiDeepLink,
+        expiresAt: payment.expiresAt,
+        estimatedProcessingTime: `Within ${timeoutMinutes} minutes`
+      };
+    });
+
+    res.status(201).json(response);
+  });
+
+  router.get('/:paymentId/receipt', (req, res) => {
+    const payment = store.read(data => findPayment(data, req.params['paymentId']));
+    assertMemberAccess(res, payment.memberId);
+    if (!RECEIPT_STATUSES.includes(payment.status)) {
+      throw new HttpError(409, 'Receipts are only issued for completed payments.');
+    }
+
+    const verificationCode = receiptVerificationCode(payment);
+    const receipt: PaymentReceipt = {
+      payment,
+      verificationCode,
+      verificationPath: `/receipts/verify?code=${verificationCode}`,
+      issuedAt: new Date()
+    };
+    res.json(receipt);
+  });
+
+  router.get('/:paymentId', (req, res) => {
+    const payment = store.update(data => {
+      expireStalePayments(data);
+      return findPayment(data, req.params['paymentId']);
+    });
+    assertMemberAccess(res, payment.memberId);
+    res.json(payment);
+  });
+
+  router.get('/:paymentId/refunds', (req, res) => {
+    const { payment, refunds } = store.read(data => {
+      const found = findPayment(data, req.params['paymentId']);
+      return { payment: found, refunds: data.refunds.filter(refund => refund.paymentId === found.paymentId) };
+    });
+    assertMemberAccess(res, payment.memberId);
+    res.json(refunds);
+  });
+
+  /**
+   * Refund some or all of the fines in a completed payment. Reinstated fines are owed again, so
+   * they are refunded in full; closed fines are marked waived and may be refunded in part. The payment becomes REFUNDED once every fine is refunded.
+   */
+  router.post('/:paymentId/refunds', adminOnly, (req, res) => {
+    const request = readRefundRequest(req.body);
+    const staffId = authClaims(res).sub;
+
+    const response = store.update((data): RefundResponse => {
+      const payment = findPayment(data, req.params['paymentId']);
+      if (payment.status !== 'COMPLETED') {
+        throw new HttpError(409, `Only completed payments can be refunded; this one is ${payment.status.toLowerCase()}.`);
+      }
+
+      const alreadyRefunded = new Set(payment.refundedFineIds || []);
+      const paidFines = request.fineIds.map(fineId => {
+        const paid = payment.fineRecords.find(fine => fine.id === fineId);
+        if (!paid) {
+          throw new HttpError(400, `Fine ${fineId} is not part of this payment.`);
+        }
+        if (alreadyRefunded.has(fineId)) {
+          throw new HttpError(409, `The fine for "${paid.bookTitle}" has already been refunded.`);
+        }
+        return paid;
+      });
+
+      const finesTotal = roundAmount(paidFines.reduce((sum, fine) => sum + fine.totalFine, 0));
+      const remaining = roundAmount(payment.amount - (payment.refundAmount || 0));
+      const amount = roundAmount(request.amount ?? finesTotal);
+      if (amount > finesTotal) {
+        throw new HttpError(400, `Refund cannot exceed the ₹${finesTotal} paid for the selected fines.`);
+      }
+      if (amount > remaining) {
+        throw new HttpError(400, `Only ₹${remaining} of this payment is left to refund.`);
+      }
+      // Reinstating makes the whole fine owed again, so the member must get all of it back
+      if (request.fineAction === 'REINSTATE' && amount < finesTotal) {
+        throw new HttpError(400, `Reinstated fines must be refunded in full (₹${finesTotal}); close the fines for a partial refund.`);
+      }
+
+      const refund: RefundRecord = {
+        id: nextId(data, 'RF'),
+        paymentId: payment.paymentId,
+        transactionId: payment.transactionId,
+        memberId: payment.memberId,
+        memberName: payment.memberName,
+        amount,
+        paymentMethod: payment.paymentMethod,
+        reason: request.reason,
+        fineAction: request.fineAction,
+        fines: paidFines.map(fine => ({ fineId: fine.id, bookTitle: fine.bookTitle, amount: fine.totalFine })),
+        processedBy: staffId,
+        processedByName: data.members.find(m => m.id === staffId)?.memberName || staffId,
+        refundDate: new Date()
+      };
+
+      // Only fines still settled by this payment are touched
+      data.fines
+        .filter(fine => request.fineIds.includes(fine.id) && fine.status === 'PAID' && fine.paymentId === payment.paymentId)
+        .forEach(fine => {
+          fine.refundId = refund.id;
+          if (request.fineAction === 'REINSTATE') {
+            fine.status = 'PENDING';
+            fine.paidDate = undefined;
+            fine.paymentId = undefined;
+          } else {
+            fine.status = 'WAIVED';
+            fine.isWaived = true;
+            fine.waivedBy = staffId;
+            fine.waivedReason = `Refunded in ${refund.id}: ${request.reason}`;
+          }
+        });
+
+      payment.refundId = refund.id;
+      payment.refundAmount = roundAmount((payment.refundAmount || 0) + amount);
+      payment.refundDate = refund.refundDate;
+      payment.refundedFineIds = [...alreadyRefunded, ...request.fineIds];
+      if (payment.refundedFineIds.length === payment.fineRecords.length) {
+        payment.status = 'REFUNDED';
+      }
+      data.refunds.push(refund);
+      hub.notify(data, {
+        memberId: payment.memberId,
+        category: 'PAYMENT',
+        title: 'Refund issued',
+        message: `₹${amount} of payment ${payment.paymentId} has been refunded: ${request.reason}`,
+        link: '/fines'
+      });
+
+      return {
+        success: true,
+        message: `Refunded ₹${amount} to ${payment.memberName}.`,
+        refund,
+        payment
+      };
+    });
+
+    res.status(201).json(response);
+  });
+
+  // Cancel a payment that has not gone through yet; fines it covered stay outstanding
+  router.post('/:paymentId/cancel', (req, res) => {
+    const payment = store.update(data => {
+      const found = findPayment(data, req.params['paymentId']);
+      assertMemberAccess(res, found.memberId);
+      if (found.status !== 'PENDING') {
+        throw new HttpError(409, found.status === 'COMPLETED'
+          ? 'Completed payments cannot be cancelled; ask library staff for a refund.'
+          : `This payment is already ${found.status.toLowerCase()}.`);
+      }
+
+      found.status = 'CANCELLED';
+      data.fines
+        .filter(fine => fine.paymentId === found.paymentId && fine.status !== 'PAID')
+        .forEach(fine => fine.paymentId = undefined);
+      return found;
+    });
+
+    res.json({ success: true, message: `Payment ${payment.paymentId} cancelled.`, payment });
+  });
+
+  return router;
+}
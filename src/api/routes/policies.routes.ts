@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { BorrowingPolicy, MembershipType, PolicyResponse } from '../../app/models/policy.model';
+import { authClaims, requireRole } from '../auth';
+import { ApiContext } from '../context';
+import { HttpError } from '../http';
+import { DEFAULT_POLICIES, allPolicies, isMembershipType, policyFor, readPolicy } from '../policy';
+
+function membershipTypeParam(value: string): MembershipType {
+  const type = value.toUpperCase();
+  if (!isMembershipType(type)) {
+    throw new HttpError(404, `No borrowing policy for membership type ${value}.`);
+  }
+  return type;
+}
+
+/**
+ * /api/policies - borrowing rules per membership type. Anyone signed in can read them;
+ * changes apply to loans made afterwards, existing loans keep the terms they were made under.
+ */
+export function policiesRouter({ store }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+
+  router.get('/', (req, res) => {
+    res.json(store.read(data => allPolicies(data)));
+  });
+
+  router.get('/:membershipType', (req, res) => {
+    const type = membershipTypeParam(req.params['membershipType']);
+    res.json(store.read(data => policyFor(data, type)));
+  });
+
+  router.put('/:membershipType', adminOnly, (req, res) => {
+    const type = membershipTypeParam(req.params['membershipType']);
+
+    const policy = store.update(data => {
+      const updated: BorrowingPolicy = {
+        ...readPolicy(req.body, policyFor(data, type)),
+        updatedAt: new Date().toISOString(),
+        updatedBy: authClaims(res).sub
+      };
+      data.policies = data.policies.filter(existing => existing.membershipType !== type).concat(updated);
+      return updated;
+    });
+
+    const response: PolicyResponse = { success: true, message: `${type} borrowing policy updated.`, policy };
+    res.json(response);
+  });
+
+  // Go back to the built-in rules for a membership type
+  router.delete('/:membershipType', adminOnly, (req, res) => {
+    const type = membershipTypeParam(req.params['membershipType']);
+    store.update(data => {
+      data.policies = data.policies.filter(existing => existing.membershipType !== type);
+    });
+
+    const response: PolicyResponse = { success: true, message: `${type} borrowing policy reset to the defaults.`, policy: DEFAULT_POLICIES[type] };
+    res.json(response);
+  });
+
+  return router;
+}
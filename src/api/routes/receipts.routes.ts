@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { ReceiptVerification } from '../../app/models/fine.model';
+import { ApiContext } from '../context';
+import { HttpError, queryString } from '../http';
+import { findPaymentByReceiptCode, maskName, normalizeVerificationCode, receiptVerificationCode } from '../receipts';
+
+/**
+ * /api/receipts - anyone holding a printed receipt can check it, so this is not behind requireAuth.
+ */
+export function receiptsRouter({ store }: ApiContext): Router {
+  const router = Router();
+
+  router.get('/verify', (req, res) => {
+    const code = normalizeVerificationCode(queryString(req, 'code') || '');
+    if (!code) {
+      throw new HttpError(400, 'Enter the 16 character verification code printed on the receipt.');
+    }
+
+    const payment = store.read(data => findPaymentByReceiptCode(data, code));
+    if (!payment) {
+      throw new HttpError(404, 'No receipt matches this verification code.');
+    }
+
+    const processingFee = payment.processingFee || 0;
+    const verification: ReceiptVerification = {
+      valid: true,
+      verificationCode: receiptVerificationCode(payment),
+      paymentId: payment.paymentId,
+      transactionId: payment.transactionId,
+      memberName: maskName(payment.memberName),
+      paymentMethod: payment.paymentMethod,
+      paymentDate: payment.paymentDate,
+      status: payment.status,
+      amount: payment.amount,
+      processingFee,
+      totalPaid: payment.amount + processingFee,
+      refundAmount: payment.refundAmount,
+      fines: payment.fineRecords.map(fine => ({ fineId: fine.id, bookTitle: fine.bookTitle, amount: fine.totalFine }))
+    };
+    res.json(verification);
+  });
+
+  return router;
+}
@@ -0,0 +1,265 @@
+import { Router } from 'express';
+import {
+  GenreStatistic,
+  PasswordChangeRequest,
+  UserBorrowInfo,
+  UserProfile,
+  UserStatistics
+} from '../../app/models/user.model';
+import { assertMemberAccess, authClaims, isAdmin } from '../auth';
+import { withoutInternalNotes } from '../complaint-triage';
+import { ApiContext } from '../context';
+import { toCsv } from '../csv';
+import { HttpError, queryString } from '../http';
+import { assertPasswordStrength, hashSecret, verifySecret } from '../password';
+import { policyFor } from '../policy';
+import { isLoanVisibleTo, preferencesFor, readPreferences, readingStreak, sharesReadingHistory } from '../preferences';
+import { LibraryData, MemberRecord } from '../store';
+import {
+  activeLoansFor,
+  evaluateBorrow,
+  findMember,
+  outstandingFineTotal,
+  refreshOverdue,
+  toHistoryEntry
+} from '../circulation';
+
+// Other people viewing the profile (staff) only see favourite genres if the member shares them
+function toUserProfile(data: LibraryData, member: MemberRecord, viewerId: string = member.id): UserProfile {
+  const stored = preferencesFor(member);
+  const preferences = { ...stored, readingGoals: { ...stored.readingGoals, currentStreak: readingStreak(data, member) } };
+  const hideFavorites = viewerId !== member.id && !preferences.privacySettings.showFavoriteBooks;
+  return {
+    memberId: member.id,
+    memberName: member.memberName,
+    email: member.email,
+    phone: `${member.countryCode} ${member.mobileNumber}`,
+    address: member.address,
+    dateOfBirth: member.dateOfBirth ? new Date(member.dateOfBirth) : undefined,
+    membershipType: member.membershipType,
+    memberSince: new Date(member.membershipDate || member.createdAt || Date.now()),
+    preferences: hideFavorites ? { ...preferences, favoriteGenres: [] } : preferences,
+    isActive: member.isActive !== false,
+    lastLogin: member.lastLoginDate ? new Date(member.lastLoginDate) : undefined
+  };
+}
+
+function buildBorrowInfo(data: LibraryData, member: MemberRecord): UserBorrowInfo {
+  const active = activeLoansFor(data, member.id);
+  const history = data.loans.filter(loan => loan.memberId === member.id);
+  const currentBorrowedCount = active.reduce((sum, loan) => sum + loan.quantity, 0);
+  const overdueBooks = active.filter(loan => loan.status === 'Overdue').length;
+  const fines = outstandingFineTotal(data, member.id);
+  const policy = policyFor(data, member.membershipType);
+  const rejectionReasons = evaluateBorrow(data, member, []);
+  const lastBorrow = history.map(loan => new Date(loan.borrowDate)).sort((a, b) => b.getTime() - a.getTime())[0];
+  const returned = history.filter(loan => loan.returnedDate);
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+
+  return {
+    libraryId: member.id,
+    name: member.memberName,
+    email: member.email,
+    phone: `${member.countryCode} ${member.mobileNumber}`,
+    currentBorrowedCount,
+    maxBooksAllowed: policy.maxBooks,
+    fines,
+    overdueBooks,
+    isEligible: rejectionReasons.length === 0 && currentBorrowedCount < policy.maxBooks,
+    rejectionReasons,
+    membershipType: member.membershipType,
+    policy,
+    memberSince: new Date(member.membershipDate || member.createdAt || Date.now()),
+    lastBorrowDate: lastBorrow,
+    borrowingHistory: {
+      totalBooksBorrowed: history.reduce((sum, loan) => sum + loan.quantity, 0),
+      booksThisMonth: history.filter(loan => new Date(loan.borrowDate) >= monthStart).length,
+      averageBorrowDuration: returned.length
+        ? Math.round(returned.reduce((sum, loan) =>
+            sum + (new Date(loan.returnedDate!).getTime() - new Date(loan.borrowDate).getTime()) / 86400000, 0) / returned.length)
+        : 0
+    }
+  };
+}
+
+function buildStatistics(data: LibraryData, member: MemberRecord, viewerId: string): UserStatistics {
+  const history = data.loans.filter(loan => loan.memberId === member.id).map(loan => toHistoryEntry(data, loan));
+  const returned = history.filter(entry => entry.returnedDate);
+  const now = new Date();
+  const preferences = preferencesFor(member);
+  const showGenres = viewerId === member.id || sharesReadingHistory(member);
+
+  const genreCounts = new Map<string, number>();
+  returned.forEach(entry => genreCounts.set(entry.category || 'Uncategorized', (genreCounts.get(entry.category || 'Uncategorized') || 0) + 1));
+  const favoriteGenres: GenreStatistic[] = Array.from(genreCounts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .map(([genre, booksRead]) => ({
+      genre,
+      booksRead,
+      percentage: Math.round(booksRead / returned.length * 100)
+    }));
+
+  return {
+    totalBooksRead: returned.length,
+    currentlyBorrowed: history.filter(entry => !entry.returnedDate).length,
+    overdueBooks: history.filter(entry => entry.status === 'Overdue').length,
+    totalFines: outstandingFineTotal(data, member.id),
+    averageReadingTime: returned.length
+      ? Math.round(returned.reduce((sum, entry) =>
+          sum + (entry.returnedDate!.getTime() - entry.borrowDate.getTime()) / 86400000, 0) / returned.length)
+      : 0,
+    favoriteGenres: showGenres ? favoriteGenres : [],
+    readingStreak: readingStreak(data, member, now),
+    monthlyReadingGoal: preferences.readingGoals?.monthlyGoal || 0,
+    // UTC months and years, matching the streak
+    booksReadThisMonth: returned.filter(entry =>
+      entry.returnedDate!.getUTCMonth() === now.getUTCMonth() && entry.returnedDate!.getUTCFullYear() === now.getUTCFullYear()).length,
+    yearlyReadingGoal: preferences.readingGoals?.yearlyGoal || 0,
+    booksReadThisYear: returned.filter(entry => entry.returnedDate!.getUTCFullYear() === now.getUTCFullYear()).length,
+    achievementsUnlocked: []
+  };
+}
+
+/**
+ * /api/users - member-facing account data: borrowing limits, profile and statistics.
+ */
+export function usersRouter({ store }: ApiContext): Router {
+  const router = Router();
+
+  router.param('id', (req, res, next, memberId: string) => {
+    assertMemberAccess(res, memberId);
+    next();
+  });
+
+  router.get('/:id/borrow-info', (req, res) => {
+    res.json(store.update(data => {
+      const member = findMember(data, req.params['id']);
+      refreshOverdue(data, new Date(), member.id);
+      return buildBorrowInfo(data, member);
+    }));
+  });
+
+  router.get('/:id/profile', (req, res) => {
+    res.json(store.read(data => toUserProfile(data, findMember(data, req.params['id']), authClaims(res).sub)));
+  });
+
+  router.put('/:id/profile', (req, res) => {
+    const update = req.body as Partial<UserProfile>;
+
+    const profile = store.update(data => {
+      const member = findMember(data, req.params['id']);
+      const preferences = update.preferences ? readPreferences(update.preferences, preferencesFor(member)) : undefined;
+      const email = update.email?.trim().toLowerCase();
+      if (email && data.members.some(m => m.id !== member.id && m.email.toLowerCase() === email)) {
+        throw new HttpError(409, 'Email or phone number already exists.');
+      }
+
+      if (update.phone) {
+        const match = update.phone.trim().match(/^(\+\d{1,3})?\s*(.*)$/);
+        const mobileNumber = (match?.[2] || '').replace(/\D/g, '');
+        if (mobileNumber.length < 7 || mobileNumber.length > 15) {
+          throw new HttpError(400, 'Please enter a valid phone number.');
+        }
+        member.countryCode = match?.[1] || member.countryCode;
+        member.mobileNumber = mobileNumber;
+      }
+
+      member.memberName = update.memberName?.trim() || member.memberName;
+      member.email = email || member.email;
+      member.address = update.address?.trim() || member.address;
+      if (update.dateOfBirth) {
+        member.dateOfBirth = new Date(update.dateOfBirth).toISOString().split('T')[0];
+      }
+      member.preferences = preferences || member.preferences;
+      member.updatedAt = new Date().toISOString();
+      return toUserProfile(data, member, authClaims(res).sub);
+    });
+
+    res.json(profile);
+  });
+
+  router.get('/:id/statistics', (req, res) => {
+    res.json(store.update(data => {
+      const member = findMember(data, req.params['id']);
+      refreshOverdue(data, new Date(), member.id);
+      return buildStatistics(data, member, authClaims(res).sub);
+    }));
+  });
+
+  // Borrow counts are derived from active loans; this reports the current count
+  router.patch('/:id/borrow-count', (req, res) => {
+    const newCount = store.read(data => {
+      const member = findMember(data, req.params['id']);
+      return activeLoansFor(data, member.id).reduce((sum, loan) => sum + loan.quantity, 0);
+    });
+    res.json({ success: true, newCount });
+  });
+
+  router.put('/:id/password', (req, res) => {
+    const request = req.body as PasswordChangeRequest;
+    if (!request?.currentPassword) {
+      throw new HttpError(400, 'Current password is required.');
+    }
+    const newPassword = assertPasswordStrength(request.newPassword);
+    if (request.confirmPassword !== undefined && request.confirmPassword !== newPassword) {
+      throw new HttpError(400, 'New password and confirmation do not match.');
+    }
+
+    store.update(data => {
+      const member = findMember(data, req.params['id']);
+      if (!verifySecret(request.currentPassword, member.passwordHash)) {
+        throw new HttpError(400, 'Current password is incorrect.');
+      }
+      member.passwordHash = hashSecret(newPassword);
+      member.updatedAt = new Date().toISOString();
+    });
+
+    res.json({ success: true, message: 'Password changed successfully.' });
+  });
+
+  router.get('/:id/export', (req, res) => {
+    const format = (queryString(req, 'format') || 'JSON').toUpperCase();
+
+    const exportData = store.read(data => {
+      const member = findMember(data, req.params['id']);
+      const viewerId = authClaims(res).sub;
+      return {
+        profile: toUserProfile(data, member, viewerId),
+        borrowHistory: data.loans
+          .filter(loan => loan.memberId === member.id && isLoanVisibleTo(data, loan, viewerId))
+          .map(loan => toHistoryEntry(data, loan)),
+        fines: data.fines.filter(fine => fine.memberId === member.id),
+        payments: data.payments.filter(payment => payment.memberId === member.id),
+        complaints: data.complaints
+          .filter(complaint => complaint.memberId === member.id)
+          .map(complaint => isAdmin(res) ? complaint : withoutInternalNotes(complaint)),
+        donations: data.donations.filter(donation => donation.memberId === member.id)
+      };
+    });
+
+    if (format === 'JSON') {
+      res.attachment(`member-${req.params['id']}.json`).json(exportData);
+    } else if (format === 'CSV') {
+      const rows = [
+        ['Book ID', 'Title', 'Author', 'Borrow Date', 'Due Date', 'Return Date', 'Fine', 'Status'],
+        ...exportData.borrowHistory.map(entry => [
+          entry.bookId,
+          entry.title,
+          entry.author,
+          entry.borrowDate.toISOString(),
+          entry.dueDate.toISOString(),
+          entry.returnedDate ? entry.returnedDate.toISOString() : '',
+          entry.fineAmount,
+          entry.status
+        ])
+      ];
+      res.attachment(`member-${req.params['id']}.csv`).type('text/csv').send(toCsv(rows));
+    } else {
+      throw new HttpError(400, 'Supported export formats are JSON and CSV.');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,292 @@
+import { Router } from 'express';
+import { rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { FineWaiver, FineWaiverResponse, WaiverDecision, WaiverStatus } from '../../app/models/fine.model';
+import { assertMemberAccess, authClaims, isAdmin, requireRole } from '../auth';
+import { ApiContext, MAX_ATTACHMENTS } from '../context';
+import { HttpError, notFound, pageFromQuery, queryString, requireField } from '../http';
+import { LibraryData, WaiverRecord, nextId } from '../store';
+import { findMember } from '../circulation';
+
+// Waivers above this total need two different staff approvals
+export const SECOND_APPROVAL_ABOVE = 500;
+const OPEN_STATUSES: WaiverStatus[] = ['PENDING', 'PARTIALLY_APPROVED'];
+const WAIVER_STATUSES: WaiverStatus[] = [...OPEN_STATUSES, 'APPROVED', 'REJECTED', 'CANCELLED'];
+
+function isOpen(waiver: WaiverRecord): boolean {
+  return OPEN_STATUSES.includes(waiver.status);
+}
+
+function findWaiver(data: LibraryData, waiverId: string): WaiverRecord {
+  const waiver = data.waivers.find(w => w.id === waiverId);
+  if (!waiver) {
+    throw notFound('Waiver request');
+  }
+  return waiver;
+}
+
+// Stored file names stay on the server
+function toPublicWaiver(waiver: WaiverRecord): FineWaiver {
+  return {
+    ...waiver,
+    attachments: waiver.attachments.map(({ storedName, ...attachment }) => attachment)
+  };
+}
+
+// Multipart bodies carry fineIds as a JSON array or a comma separated list
+function readFineIds(body: any): string[] {
+  const raw = body?.fineIds;
+  let ids: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      ids = raw.trim().startsWith('[') ? JSON.parse(raw) : raw.split(',');
+    } catch {
+      throw new HttpError(400, 'Fine IDs are not valid.');
+    }
+  }
+  if (!Array.isArray(ids) || ids.length === 0) {
+    throw new HttpError(400, 'Select at least one fine.');
+  }
+  return Array.from(new Set(ids.map(id => String(id).trim()).filter(Boolean)));
+}
+
+// Close a waiver and release its fines so they can be paid or requested again
+function closeWaiver(data: LibraryData, waiver: WaiverRecord, status: WaiverStatus): void {
+  waiver.status = status;
+  waiver.closedAt = new Date();
+  data.fines
+    .filter(fine => fine.waiverId === waiver.id)
+    .forEach(fine => fine.waiverId = undefined);
+}
+
+/**
+ * /api/waivers - members ask for fines to be waived; staff approve or reject them.
+ */
+export function waiversRouter({ store, attachments, attachmentDir, hub }: ApiContext): Router {
+  const router = Router();
+  const adminOnly = requireRole('ADMIN');
+
+  router.post('/', attachments.array('documents', MAX_ATTACHMENTS), (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    try {
+      const memberId = requireField(req.body, 'memberId', 'Member ID');
+      assertMemberAccess(res, memberId);
+      const reason = requireField(req.body, 'reason', 'Reason');
+      if (reason.length > 1000) {
+        throw new HttpError(400, 'Reason cannot exceed 1000 characters.');
+      }
+      const fineIds = readFineIds(req.body);
+
+      const waiver = store.update(data => {
+        const member = findMember(data, memberId);
+        const fines = fineIds.map(fineId => {
+          const fine = data.fines.find(f => f.id === fineId && f.memberId === member.id);
+          if (!fine) {
+            throw notFound(`Fine ${fineId}`);
+          }
+          if (fine.status === 'OVERDUE') {
+            throw new HttpError(409, `Return "${fine.bookTitle}" before asking for its fine to be waived.`);
+          }
+          if (fine.status !== 'PENDING') {
+            throw new HttpError(409, `The fine for "${fine.bookTitle}" has already been settled.`);
+          }
+          if (fine.waiverId) {
+            throw new HttpError(409, `The fine for "${fine.bookTitle}" is already part of waiver request ${fine.waiverId}.`);
+          }
+          return fine;
+        });
+
+        const totalAmount = fines.reduce((sum, fine) => sum + fine.totalFine, 0);
+        const created: WaiverRecord = {
+          id: nextId(data, 'WV'),
+          memberId: member.id,
+          memberName: member.memberName,
+          fineIds: fines.map(fine => fine.id),
+          fines: fines.map(fine => ({ fineId: fine.id, bookTitle: fine.bookTitle, amount: fine.totalFine })),
+          totalAmount,
+          reason,
+          attachments: files.map(file => ({
+            fileName: file.originalname,
+            mimeType: file.mimetype,
+            size: file.size,
+            storedName: file.filename
+          })),
+          status: 'PENDING',
+          approvalsRequired: totalAmount > SECOND_APPROVAL_ABOVE ? 2 : 1,
+          decisions: [],
+          requestedBy: authClaims(res).sub,
+          requestedAt: new Date()
+        };
+        fines.forEach(fine => fine.waiverId = created.id);
+        data.waivers.push(created);
+        return created;
+      });
+
+      res.status(201).json({ success: true, message: `Waiver request ${waiver.id} submitted for review.`, waiver: toPublicWaiver(waiver) });
+    } catch (error) {
+      files.forEach(file => rmSync(file.path, { force: true }));
+      throw error;
+    }
+  });
+
+  router.get('/user', (req, res) => {
+    const memberId = queryString(req, 'memberId');
+    if (!memberId) {
+      throw new HttpError(400, 'Member ID is required.');
+    }
+    assertMemberAccess(res, memberId);
+
+    const waivers = store.read(data => data.waivers
+      .filter(waiver => waiver.memberId === memberId)
+      .map(toPublicWaiver)
+      .reverse());
+    res.json(waivers);
+  });
+
+  // Review queue; ?status=OPEN lists everything still waiting for a decision
+  router.get('/', adminOnly, (req, res) => {
+    const status = queryString(req, 'status');
+    if (status && status !== 'OPEN' && !WAIVER_STATUSES.includes(status as WaiverStatus)) {
+      throw new HttpError(400, 'Invalid waiver status.');
+    }
+
+    const waivers = store.read(data => data.waivers
+      .filter(waiver => !status || (status === 'OPEN' ? isOpen(waiver) : waiver.status === status))
+      .map(toPublicWaiver)
+      .reverse());
+    res.json(pageFromQuery(req, waivers));
+  });
+
+  router.get('/:id', (req, res) => {
+    const waiver = store.read(data => findWaiver(data, req.params['id']));
+    assertMemberAccess(res, waiver.memberId);
+    res.json(toPublicWaiver(waiver));
+  });
+
+  router.get('/:id/attachments/:index', (req, res) => {
+    const waiver = store.read(data => findWaiver(data, req.params['id']));
+    assertMemberAccess(res, waiver.memberId);
+    const attachment = waiver.attachments[Number(req.params['index'])];
+    if (!attachment) {
+      throw notFound('Attachment');
+    }
+
+    res.type(attachment.mimeType);
+    res.attachment(attachment.fileName);
+    res.sendFile(join(attachmentDir, attachment.storedName), error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ success: false, message: 'Attachment not found.' });
+      }
+    });
+  });
+
+  router.patch('/:id/decision', adminOnly, (req, res) => {
+    const decision = req.body?.decision as WaiverDecision['decision'];
+    const notes = typeof req.body?.notes === 'string' ? req.body.notes.trim() : '';
+    if (decision !== 'APPROVED' && decision !== 'REJECTED') {
+      throw new HttpError(400, 'Decision must be APPROVED or REJECTED.');
+    }
+    if (decision === 'REJECTED' && !notes) {
+      throw new HttpError(400, 'Please give a reason for rejecting the request.');
+    }
+    const staffId = authClaims(res).sub;
+
+    const response = store.update((data): FineWaiverResponse => {
+      const waiver = findWaiver(data, req.params['id']);
+      if (!isOpen(waiver)) {
+        throw new HttpError(409, `This request has already been ${waiver.status.toLowerCase()}.`);
+      }
+      if (waiver.memberId === staffId || waiver.requestedBy === staffId) {
+        throw new HttpError(403, 'You cannot decide on your own waiver request.');
+      }
+      if (waiver.decisions.some(d => d.decidedBy === staffId)) {
+        throw new HttpError(409, 'You have already approved this request; it needs another member of staff.');
+      }
+
+      const decidedAt = new Date();
+      waiver.decisions.push({
+        decidedBy: staffId,
+        decidedByName: data.members.find(m => m.id === staffId)?.memberName || staffId,
+        decision,
+        notes: notes || undefined,
+        decidedAt
+      });
+
+      if (decision === 'REJECTED') {
+        closeWaiver(data, waiver, 'REJECTED');
+        hub.notify(data, {
+          memberId: waiver.memberId,
+          category: 'FINE',
+          title: 'Waiver request rejected',
+          message: `Waiver request ${waiver.id} was rejected: ${notes}`,
+          link: '/fines'
+        });
+        return { success: true, message: `Waiver request ${waiver.id} rejected.`, waivedFines: [], totalWaivedAmount: 0, waiver: toPublicWaiver(waiver) };
+      }
+
+      const approvals = waiver.decisions.filter(d => d.decision === 'APPROVED');
+      if (approvals.length < waiver.approvalsRequired) {
+        waiver.status = 'PARTIALLY_APPROVED';
+        return {
+          success: true,
+          message: `Approval recorded. Waivers over ₹${SECOND_APPROVAL_ABOVE} need a second approver.`,
+          waivedFines: [],
+          totalWaivedAmount: 0,
+          waiver: toPublicWaiver(waiver)
+        };
+      }
+
+      // Fines paid in the meantime are left alone
+      const approvers = approvals.map(d => d.decidedBy).join(', ');
+      const waived = data.fines.filter(fine => fine.waiverId === waiver.id && fine.status === 'PENDING');
+      waived.forEach(fine => {
+        fine.status = 'WAIVED';
+        fine.isWaived = true;
+        fine.waivedBy = approvers;
+        fine.waivedReason = notes ? `${waiver.reason} (${notes})` : waiver.reason;
+      });
+      closeWaiver(data, waiver, 'APPROVED');
+
+      const totalWaivedAmount = waived.reduce((sum, fine) => sum + fine.totalFine, 0);
+      hub.notify(data, {
+        memberId: waiver.memberId,
+        category: 'FINE',
+        title: 'Waiver request approved',
+        message: `Waiver request ${waiver.id} was approved: ₹${totalWaivedAmount} across ${waived.length} fine(s) waived.`,
+        link: '/fines'
+      });
+      return {
+        success: true,
+        message: `Waived ₹${totalWaivedAmount} across ${waived.length} fine(s).`,
+        waivedFines: waived.map(fine => fine.id),
+        totalWaivedAmount,
+        approvedBy: approvers,
+        approvalDate: decidedAt,
+        waiver: toPublicWaiver(waiver)
+      };
+    });
+
+    res.json(response);
+  });
+
+  // The member withdraws a request that is still under review
+  router.delete('/:id', (req, res) => {
+    const waiver = store.update(data => {
+      const existing = findWaiver(data, req.params['id']);
+      assertMemberAccess(res, existing.memberId);
+      if (!isOpen(existing)) {
+        throw new HttpError(409, 'Only requests under review can be withdrawn.');
+      }
+      if (!isAdmin(res) && existing.decisions.length > 0) {
+        throw new HttpError(409, 'This request has already been approved once and can no longer be withdrawn.');
+      }
+      closeWaiver(data, existing, 'CANCELLED');
+      return existing;
+    });
+
+    res.json({ success: true, message: `Waiver request ${waiver.id} withdrawn.`, waiver: toPublicWaiver(waiver) });
+  });
+
+  return router;
+}
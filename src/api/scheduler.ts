@@ -0,0 +1,53 @@
+/**
+ * Minimal in-process scheduler for the background jobs. Timers are unref'd so they never keep
+ * the process alive on their own (the build imports the server bundle to prerender).
+ */
+
+// Milliseconds from `now` until the next time the local clock reads `hour`:00
+export function msUntilHour(hour: number, now: Date = new Date()): number {
+  const next = new Date(now);
+  next.setHours(hour, 0, 0, 0);
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime() - now.getTime();
+}
+
+/**
+ * Run `job` every day at `hour`:00 local time. Errors are logged and the schedule carries on.
+ * Returns a function that cancels the schedule.
+ */
+export function scheduleDaily(name: string, hour: number, job: () => void): () => void {
+  let timer: ReturnType<typeof setTimeout>;
+
+  const arm = () => {
+    timer = setTimeout(() => {
+      try {
+        job();
+      } catch (error) {
+        console.error(`Scheduled job "${name}" failed:`, error);
+      }
+      arm();
+    }, msUntilHour(hour));
+    timer.unref?.();
+  };
+
+  arm();
+  return () => clearTimeout(timer);
+}
+
+/**
+ * Run `job` every `intervalMs`, starting one interval from now. Errors are logged and the schedule carries on.
+ * Returns a function that cancels the schedule.
+ */
+export function scheduleEvery(name: string, intervalMs: number, job: () => void): () => void {
+  const timer = setInterval(() => {
+    try {
+      job();
+    } catch (error) {
+      console.error(`Scheduled job "${name}" failed:`, error);
+    }
+  }, intervalMs);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,162 @@
+import { Book } from '../app/models/book.model';
+import { ComplaintTemplate } from '../app/models/complaint.model';
+import { SecretQuestions } from '../app/models/member.model';
+import { hashSecret, normalizeSecretAnswer } from './password';
+import { LibraryData, LoanRecord, MemberRecord } from './store';
+import { DAY_MS } from './util';
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * DAY_MS).toISOString();
+}
+
+function seedBook(id: string, title: string, author: string, category: string, isbn: string, publishYear: number, totalCopies: number, imageUrl: string, description: string): Book {
+  return {
+    id,
+    title,
+    author,
+    category,
+    isbn,
+    description,
+    imageUrl,
+    availableCopies: totalCopies,
+    totalCopies,
+    rating: 4.5,
+    publishYear,
+    isAvailable: totalCopies > 0,
+    createdAt: daysFromNow(-90),
+    updatedAt: daysFromNow(-90)
+  };
+}
+
+function seedMember(id: string, memberName: string, email: string, password: string, role: MemberRecord['role'], membershipType: MemberRecord['membershipType']): MemberRecord {
+  return {
+    id,
+    memberName,
+    email,
+    countryCode: '+91',
+    mobileNumber: id === 'MEM0001' ? '9000000001' : '9000000002',
+    address: 'Central Library, Library City',
+    dateOfBirth: '1990-01-01',
+    isActive: true,
+    membershipDate: daysFromNow(-365),
+    createdAt: daysFromNow(-365),
+    updatedAt: daysFromNow(-365),
+    role,
+    membershipType,
+    passwordHash: hashSecret(password),
+    secretQuestion: SecretQuestions.FAVORITE_BOOK,
+    secretAnswerHash: hashSecret(normalizeSecretAnswer('kitaab'))
+  };
+}
+
+/**
+ * Initial data written the first time the API starts without a data file.
+ * Includes the admin and member accounts used by the login page's quick login buttons.
+ */
+function seedTemplate(id: string, title: string, category: ComplaintTemplate['category'], description: string): ComplaintTemplate {
+  return { id, title, category, description, isActive: true, createdBy: 'MEM0001', createdDate: new Date() };
+}
+
+export function createSeedData(): LibraryData {
+  const books: Book[] = [
+    seedBook('BK0001', 'The Alchemist', 'Paulo Coelho', 'Fiction', '9780062315007', 1988, 4,
+      'https://images.unsplash.com/photo-1544947950-fa07a98d237f?w=300&h=400&fit=crop',
+      'A shepherd boy travels from Spain to Egypt in search of a worldly treasure.'),
+    seedBook('BK0002', 'Clean Code', 'Robert C. Martin', 'Technology', '9780132350884', 2008, 3,
+      'https://images.unsplash.com/photo-1515879218367-8466d910aaa4?w=300&h=400&fit=crop',
+      'A handbook of agile software craftsmanship.'),
+    seedBook('BK0003', 'Sapiens', 'Yuval Noah Harari', 'History', '9780062316097', 2011, 2,
+      'https://images.unsplash.com/photo-1589829085413-56de8ae18c73?w=300&h=400&fit=crop',
+      'A brief history of humankind.'),
+    seedBook('BK0004', 'A Brief History of Time', 'Stephen Hawking', 'Science', '9780553380163', 1988, 2,
+      'https://images.unsplash.com/photo-1462331940025-496dfbfc7564?w=300&h=400&fit=crop',
+      'From the Big Bang to black holes.'),
+    seedBook('BK0005', 'The God of Small Things', 'Arundhati Roy', 'Fiction', '9780812979657', 1997, 3,
+      'https://images.unsplash.com/photo-1512820790803-83ca734da794?w=300&h=400&fit=crop',
+      'A story of twins growing up in Kerala.'),
+    seedBook('BK0006', 'Atomic Habits', 'James Clear', 'Self-Help', '9780735211292', 2018, 5,
+      'https://images.unsplash.com/photo-1495446815901-a7297e633e8d?w=300&h=400&fit=crop',
+      'An easy and proven way to build good habits and break bad ones.'),
+    seedBook('BK0007', 'Wings of Fire', 'A. P. J. Abdul Kalam', 'Biography', '9788173711466', 1999, 3,
+      'https://images.unsplash.com/photo-1481627834876-b7833e8f5570?w=300&h=400&fit=crop',
+      'The autobiography of A. P. J. Abdul Kalam.'),
+    seedBook('BK0008', 'Introduction to Algorithms', 'Thomas H. Cormen', 'Technology', '9780262033848', 2009, 1,
+      'https://images.unsplash.com/photo-1532012197267-da84d127e765?w=300&h=400&fit=crop',
+      'A comprehensive introduction to the modern study of algorithms.')
+  ];
+
+  const members: MemberRecord[] = [
+    seedMember('MEM0001', 'Library Admin', 'admin@library.com', 'admin123', 'ADMIN', 'FACULTY'),
+    seedMember('MEM0002', 'Library Member', 'member@library.com', 'member123', 'MEMBER', 'BASIC')
+  ];
+
+  const loans: LoanRecord[] = [
+    {
+      id: 'LN0001',
+      borrowId: 'BR0001',
+      memberId: 'MEM0002',
+      bookId: 'BK0001',
+      quantity: 1,
+      borrowDate: daysFromNow(-10),
+      dueDate: daysFromNow(4),
+      status: 'Borrowed',
+      renewalCount: 0,
+      maxRenewalsAllowed: 2
+    },
+    {
+      id: 'LN0002',
+      borrowId: 'BR0002',
+      memberId: 'MEM0002',
+      bookId: 'BK0003',
+      quantity: 1,
+      borrowDate: daysFromNow(-20),
+      dueDate: daysFromNow(-6),
+      status: 'Borrowed',
+      renewalCount: 0,
+      maxRenewalsAllowed: 2
+    }
+  ];
+
+  for (const loan of loans) {
+    const book = books.find(b => b.id === loan.bookId)!;
+    book.availableCopies -= loan.quantity;
+    book.isAvailable = book.availableCopies > 0;
+  }
+
+  const complaintTemplates: ComplaintTemplate[] = [
+    seedTemplate('CT0001', 'Acknowledge', 'Other',
+      'Hi {{memberName}}, thank you for getting in touch about "{{title}}". We have logged it as {{complaintId}} and will get back to you soon.'),
+    seedTemplate('CT0002', 'Fine or payment under review', 'Payment Issues',
+      'Hi {{memberName}}, we are checking the payment records for {{complaintId}} and will correct anything that is wrong. You will not be charged twice.'),
+    seedTemplate('CT0003', 'Resolved', 'Other',
+      'Hi {{memberName}}, we have resolved {{complaintId}}. If anything is still not right, reopen the complaint and we will take another look.')
+  ];
+
+  // Physical copies are created by the store's upgrade step (backfillCopies) from these counts
+  return {
+    counters: { BK: books.length, MEM: members.length, LN: loans.length, BR: loans.length, CT: complaintTemplates.length },
+    books,
+    copies: [],
+    bookAudit: [],
+    members,
+    loans,
+    holds: [],
+    policies: [],
+    fines: [],
+    fineRules: [],
+    closures: [],
+    fineRuns: [],
+    fineReports: [],
+    waivers: [],
+    payments: [],
+    gatewayWebhooks: [],
+    refunds: [],
+    cashReconciliations: [],
+    notifications: [],
+    appNotifications: [],
+    complaints: [],
+    complaintEscalations: [],
+    complaintTemplates,
+    donations: []
+  };
+}
@@ -0,0 +1,234 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { Book, BookAuditEntry, BookCopy } from '../app/models/book.model';
+import { Complaint, ComplaintEscalation, ComplaintTemplate } from '../app/models/complaint.model';
+import { Donation } from '../app/models/donation.model';
+import {
+  CashReconciliation,
+  FineBatchReport,
+  FineCalculationRule,
+  FineRecord,
+  FineReport,
+  FineWaiver,
+  LibraryClosure,
+  PaymentRecord,
+  RefundRecord,
+  WaiverAttachment
+} from '../app/models/fine.model';
+import { Hold } from '../app/models/hold.model';
+import { Member } from '../app/models/member.model';
+import { AppNotification, NotificationRecord } from '../app/models/notification.model';
+import { BorrowingPolicy, MembershipType } from '../app/models/policy.model';
+import { BorrowStatus, UserPreferences } from '../app/models/user.model';
+import { createSeedData } from './seed';
+
+export type { MembershipType };
+
+export interface MemberRecord extends Member {
+  role: 'MEMBER' | 'ADMIN';
+  membershipType: MembershipType;
+  passwordHash: string;
+  secretQuestion: string;
+  secretAnswerHash: string;
+  preferences?: UserPreferences;
+}
+
+export interface LoanRecord {
+  id: string;
+  borrowId: string;
+  memberId: string;
+  bookId: string;
+  // Physical copies on loan, one per unit of quantity; new loans always cover a single copy
+  copyIds?: string[];
+  quantity: number;
+  borrowDate: string;
+  dueDate: string;
+  returnedDate?: string;
+  status: BorrowStatus;
+  renewalCount: number;
+  maxRenewalsAllowed: number;
+  // Fine terms of the member's policy when the loan was made; older loans use the current policy
+  finePerDay?: number;
+  maxFine?: number;
+  notes?: string;
+}
+
+export interface StoredAttachment extends WaiverAttachment {
+  // File name under the attachments directory
+  storedName: string;
+}
+
+export interface WaiverRecord extends Omit<FineWaiver, 'attachments'> {
+  attachments: StoredAttachment[];
+}
+
+// One gateway transaction whose outcome has been received; retried webhooks only bump the delivery count
+export interface GatewayWebhookRecord {
+  gatewayName: string;
+  gatewayTransactionId: string;
+  eventId?: string;
+  paymentId: string;
+  status: 'COMPLETED' | 'FAILED';
+  // IGNORED when the payment had already been settled another way, e.g. it timed out first
+  result: 'APPLIED' | 'IGNORED';
+  deliveries: number;
+  firstReceivedAt: Date;
+  lastReceivedAt: Date;
+}
+
+export interface LibraryData {
+  counters: { [prefix: string]: number };
+  books: Book[];
+  copies: BookCopy[];
+  bookAudit: BookAuditEntry[];
+  members: MemberRecord[];
+  loans: LoanRecord[];
+  holds: Hold[];
+  // Policies changed by an administrator; other membership types use DEFAULT_POLICIES
+  policies: BorrowingPolicy[];
+  fines: FineRecord[];
+  fineRules: FineCalculationRule[];
+  closures: LibraryClosure[];
+  // Most recent fine recalculation runs, newest last
+  fineRuns: FineBatchReport[];
+  // Most recent admin fine reports, newest last
+  fineReports: FineReport[];
+  waivers: WaiverRecord[];
+  payments: PaymentRecord[];
+  gatewayWebhooks: GatewayWebhookRecord[];
+  refunds: RefundRecord[];
+  cashReconciliations: CashReconciliation[];
+  // Every reminder and overdue notice sent or tried, oldest first
+  notifications: NotificationRecord[];
+  // Navbar bell entries, newest last
+  appNotifications: AppNotification[];
+  complaints: Complaint[];
+  // Every escalation, automatic or by the member, oldest first
+  complaintEscalations: ComplaintEscalation[];
+  // Canned replies for the staff console
+  complaintTemplates: ComplaintTemplate[];
+  donations: Donation[];
+}
+
+/**
+ * JSON file backed data store for the API.
+ * The whole database is kept in memory and written back atomically after every update.
+ */
+export class LibraryStore {
+  private cache: LibraryData | null = null;
+  private afterSaveCallbacks: (() => void)[] = [];
+
+  /**
+   * @param upgrade brings data written by an older version up to date after loading;
+   * returns true when it changed anything so the file is rewritten.
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly upgrade?: (data: LibraryData) => boolean
+  ) {}
+
+  /**
+   * Run a read-only query against the current data.
+   */
+  read<T>(query: (data: LibraryData) => T): T {
+    return query(this.data);
+  }
+
+  /**
+   * Apply a mutation and persist the result.
+   * Validate before mutating: a mutation that throws halfway is not rolled back in memory.
+   */
+  update<T>(mutation: (data: LibraryData) => T): T {
+    let result: T;
+    try {
+      result = mutation(this.data);
+      this.save();
+    } catch (error) {
+      // The change never reached the file, so nothing it queued is run
+      this.afterSaveCallbacks = [];
+      throw error;
+    }
+
+    const callbacks = this.afterSaveCallbacks;
+    this.afterSaveCallbacks = [];
+    callbacks.forEach(callback => callback());
+    return result;
+  }
+
+  /**
+   * Queue work for when the update in progress has been saved, such as telling open clients about it.
+   */
+  afterSave(callback: () => void): void {
+    this.afterSaveCallbacks.push(callback);
+  }
+
+  private get data(): LibraryData {
+    if (!this.cache) {
+      this.cache = this.load();
+    }
+    return this.cache;
+  }
+
+  private load(): LibraryData {
+    if (existsSync(this.filePath)) {
+      const data: LibraryData = { ...createEmptyData(), ...JSON.parse(readFileSync(this.filePath, 'utf-8')) };
+      if (this.upgrade?.(data)) {
+        this.cache = data;
+        this.save();
+      }
+      return data;
+    }
+
+    const seeded = createSeedData();
+    this.upgrade?.(seeded);
+    this.cache = seeded;
+    this.save();
+    console.log(`📦 Seeded library data at ${this.filePath}`);
+    return seeded;
+  }
+
+  private save(): void {
+    if (!this.cache) return;
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.cache, null, 2));
+    renameSync(tempPath, this.filePath);
+  }
+}
+
+// Generate sequential, human readable IDs such as BK0007
+export function nextId(data: LibraryData, prefix: string): string {
+  const next = (data.counters[prefix] || 0) + 1;
+  data.counters[prefix] = next;
+  return `${prefix}${next.toString().padStart(4, '0')}`;
+}
+
+export function createEmptyData(): LibraryData {
+  return {
+    counters: {},
+    books: [],
+    copies: [],
+    bookAudit: [],
+    members: [],
+    loans: [],
+    holds: [],
+    policies: [],
+    fines: [],
+    fineRules: [],
+    closures: [],
+    fineRuns: [],
+    fineReports: [],
+    waivers: [],
+    payments: [],
+    gatewayWebhooks: [],
+    refunds: [],
+    cashReconciliations: [],
+    notifications: [],
+    appNotifications: [],
+    complaints: [],
+    complaintEscalations: [],
+    complaintTemplates: [],
+    donations: []
+  };
+}
@@ -0,0 +1,55 @@
+import QRCode from 'qrcode';
+
+// A UPI QR is only offered for this long; the payment times out with it so the fines are freed again
+export const UPI_QR_TIMEOUT_MINUTES = 5;
+
+export interface UpiPaymentDetails {
+  // Virtual payment address that receives the money, e.g. "citylibrary@okaxis"
+  payeeVpa: string;
+  payeeName: string;
+  amount: number;
+  // Shows up in the payer's bank statement and the gateway's settlement report
+  transactionRef: string;
+  note?: string;
+}
+
+/**
+ * upi://pay intent that any UPI app can open or scan (NPCI linking specification).
+ */
+export function buildUpiUri({ payeeVpa, payeeName, amount, transactionRef, note }: UpiPaymentDetails): string {
+  const params: [string, string][] = [
+    ['pa', payeeVpa],
+    ['pn', payeeName],
+    ['am', amount.toFixed(2)],
+    ['cu', 'INR'],
+    ['tr', transactionRef]
+  ];
+  if (note) {
+    params.push(['tn', note.slice(0, 80)]);
+  }
+  // Some UPI apps do not decode "%40", so the VPA keeps its "@"
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, '@')}`).join('&')}`;
+}
+
+/**
+ * QR code for a UPI intent as an SVG data URL, generated here rather than by a third-party service
+ * so payment details never leave the server.
+ */
+export function upiQrCode(upiUri: string): string {
+  const { modules } = QRCode.create(upiUri, { errorCorrectionLevel: 'M' });
+  const quietZone = 4;
+  const size = modules.size + quietZone * 2;
+
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        path += `M${col + quietZone} ${row + quietZone}h1v1h-1z`;
+      }
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`
+    + `<rect width="${size}" height="${size}" fill="#fff"/><path fill="#000" d="${path}"/></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
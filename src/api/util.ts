@@ -0,0 +1,35 @@
+import { HttpError } from './http';
+
+/**
+ * Small helpers shared across the API: day arithmetic, money rounding and reading numbers and days
+ * from request bodies. Days are UTC calendar days, written YYYY-MM-DD.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Amounts are rupees with paise; rounding after each sum keeps floating-point noise out of totals
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function readDay(value: unknown, label: string = 'Date'): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!DATE_PATTERN.test(text) || Number.isNaN(new Date(text).getTime())) {
+    throw new HttpError(400, `${label} must be a day (YYYY-MM-DD).`);
+  }
+  return text;
+}
+
+// Missing or empty values fall back, so updates can leave a setting out
+export function readWholeNumber(body: any, name: string, label: string, min: number, max: number, fallback: number): number {
+  const raw = body?.[name];
+  if (raw === undefined || raw === null || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new HttpError(400, `${label} must be a whole number between ${min} and ${max}.`);
+  }
+  return value;
+}
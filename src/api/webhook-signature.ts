@@ -0,0 +1,42 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { HttpError } from './http';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+// Signed deliveries older than this are refused, so a captured call cannot be replayed later
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+function digest(secret: string, timestamp: number, rawBody: Buffer | string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+}
+
+/**
+ * Signature header value for a webhook body: "t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">".
+ */
+export function signWebhook(secret: string, rawBody: Buffer | string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${digest(secret, timestamp, rawBody)}`;
+}
+
+/**
+ * Check a webhook's signature header against the exact bytes that were received.
+ * Throws a 401 HttpError when the header is missing, stale or does not match.
+ */
+export function verifyWebhookSignature(secret: string, header: string | undefined, rawBody: Buffer, now: Date = new Date()): void {
+  const parts = new Map((header || '').split(',').map(part => {
+    const [key, ...value] = part.trim().split('=');
+    return [key, value.join('=')] as [string, string];
+  }));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1') || '';
+  if (!Number.isInteger(timestamp) || !/^[0-9a-f]{64}$/.test(signature)) {
+    throw new HttpError(401, 'Missing or malformed webhook signature.');
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new HttpError(401, 'Webhook signature has expired.');
+  }
+
+  const expected = Buffer.from(digest(secret, timestamp, rawBody), 'hex');
+  if (!timingSafeEqual(expected, Buffer.from(signature, 'hex'))) {
+    throw new HttpError(401, 'Webhook signature does not match.');
+  }
+}
@@ -0,0 +1,24 @@
+import { inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { CanActivateFn } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+// Allow routes only for the roles listed in route data, e.g. data: { roles: ['ADMIN'] }
+export const roleGuard: CanActivateFn = (route, state) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+  const roles: string[] = route.data['roles'] || [];
+
+  if (authService.hasRole(...roles)) {
+    return true;
+  }
+
+  if (!authService.isLoggedIn()) {
+    router.navigate(['/login'], { queryParams: { returnUrl: state.url } });
+    return false;
+  }
+
+  // Signed in without the required role
+  router.navigate(['/homepage']);
+  return false;
+};
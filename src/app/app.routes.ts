@@ -8,10 +8,23 @@ import { ProfileComponent } from './components/profile/profile.component';
 import { MyBooksComponent } from './components/my-books/my-books.component';
 import { BooksComponent } from './components/books/books.component';
 import { FinesComponent } from './components/fines/fines.component';
+import { AdminComponent } from './components/admin/admin.component';
+import { AdminDashboardComponent } from './components/admin-dashboard/admin-dashboard.component';
+import { AdminBooksComponent } from './components/admin-books/admin-books.component';
+import { AdminImportComponent } from './components/admin-import/admin-import.component';
+import { AdminPoliciesComponent } from './components/admin-policies/admin-policies.component';
+import { AdminFineRulesComponent } from './components/admin-fine-rules/admin-fine-rules.component';
+import { AdminWaiversComponent } from './components/admin-waivers/admin-waivers.component';
+import { AdminPaymentsComponent } from './components/admin-payments/admin-payments.component';
+import { AdminCashDeskComponent } from './components/admin-cash-desk/admin-cash-desk.component';
+import { AdminFineReportsComponent } from './components/admin-fine-reports/admin-fine-reports.component';
+import { AdminComplaintsComponent } from './components/admin-complaints/admin-complaints.component';
+import { ReceiptVerifyComponent } from './components/receipt-verify/receipt-verify.component';
 
 // ✅ Import your guards
 import { authGuard } from './Guards/auth.guard';
 import { guestGuard } from './Guards/guest.guard';
+import { roleGuard } from './Guards/role.guard';
 
 export const routes: Routes = [
   { 
@@ -74,6 +87,28 @@ export const routes: Routes = [
     redirectTo: '/fines', 
     pathMatch: 'full' 
   },
+  {
+    path: 'receipts/verify',
+    component: ReceiptVerifyComponent // Public: anyone holding a receipt can check it
+  },
+  {
+    path: 'admin',
+    component: AdminComponent,
+    canActivate: [authGuard, roleGuard], // ✅ Only allow admins
+    data: { roles: ['ADMIN'] },
+    children: [
+      { path: '', component: AdminDashboardComponent },
+      { path: 'books', component: AdminBooksComponent },
+      { path: 'import', component: AdminImportComponent },
+      { path: 'policies', component: AdminPoliciesComponent },
+      { path: 'fine-rules', component: AdminFineRulesComponent },
+      { path: 'waivers', component: AdminWaiversComponent },
+      { path: 'payments', component: AdminPaymentsComponent },
+      { path: 'cash-desk', component: AdminCashDeskComponent },
+      { path: 'fine-reports', component: AdminFineReportsComponent },
+      { path: 'complaints', component: AdminComplaintsComponent }
+    ]
+  },
   {
     path: '**',
     redirectTo: '/login' // ✅ Redirect unknown routes to login
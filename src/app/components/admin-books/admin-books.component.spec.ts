@@ -0,0 +1,60 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { AdminBooksComponent } from './admin-books.component';
+
+describe('AdminBooksComponent', () => {
+  let component: AdminBooksComponent;
+  let fixture: ComponentFixture<AdminBooksComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        AdminBooksComponent,
+        RouterTestingModule,
+        HttpClientTestingModule
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AdminBooksComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should require title, author, category and ISBN', () => {
+    component.openCreateForm();
+    expect(component.bookForm.valid).toBeFalsy();
+
+    component.bookForm.patchValue({
+      title: 'Dune',
+      author: 'Frank Herbert',
+      category: 'Science Fiction',
+      isbn: '9780441172719'
+    });
+    expect(component.bookForm.valid).toBeTruthy();
+  });
+
+  it('should reject an ISBN with a bad check digit', () => {
+    component.openCreateForm();
+    component.bookForm.patchValue({ isbn: '978-0-306-40615-8' });
+    expect(component.bookForm.get('isbn')?.hasError('isbn')).toBeTruthy();
+
+    component.bookForm.patchValue({ isbn: '0-306-40615-2' });
+    expect(component.bookForm.get('isbn')?.valid).toBeTruthy();
+  });
+
+  it('should limit how many copies can be added at once', () => {
+    component.copyForm.patchValue({ count: 0 });
+    expect(component.copyForm.valid).toBeFalsy();
+
+    component.copyForm.patchValue({ count: 101 });
+    expect(component.copyForm.valid).toBeFalsy();
+
+    component.copyForm.patchValue({ count: 3 });
+    expect(component.copyForm.valid).toBeTruthy();
+  });
+});
@@ -0,0 +1,546 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { BookService } from '../../services/book.service';
+import { HoldService } from '../../services/hold.service';
+import { Book, BookAuditEntry, BookCategory, BookCopy, BookCopyFormData, BookFormData, CopyCondition, CopyStatus } from '../../models/book.model';
+import { Hold } from '../../models/hold.model';
+import { isbnValidator } from '../../utils/isbn.validator';
+
+@Component({
+  selector: 'app-admin-books',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, FormsModule],
+  templateUrl: './admin-books.component.html',
+  styleUrls: ['./admin-books.component.css']
+})
+export class AdminBooksComponent implements OnInit, OnDestroy {
+  books: Book[] = [];
+  categories: BookCategory[] = [];
+  searchQuery = '';
+  showDeleted = false;
+  currentPage = 0;
+  totalPages = 0;
+  readonly pageSize = 10;
+  isLoading = false;
+
+  // Create / edit form
+  bookForm!: FormGroup;
+  showForm = false;
+  editingBook: Book | null = null;
+  selectedFile: File | null = null;
+  coverPreview: string | null = null;
+  isSaving = false;
+
+  // Physical copies
+  readonly copyConditions: CopyCondition[] = ['NEW', 'GOOD', 'FAIR', 'POOR', 'DAMAGED'];
+  readonly copyStatuses: CopyStatus[] = ['AVAILABLE', 'IN_REPAIR', 'LOST', 'WITHDRAWN'];
+  copiesBook: Book | null = null;
+  copies: BookCopy[] = [];
+  holdQueue: Hold[] = [];
+  copyForm!: FormGroup;
+  isAddingCopies = false;
+
+  // Audit trail
+  auditBook: Book | null = null;
+  auditEntries: BookAuditEntry[] = [];
+  recentChanges: BookAuditEntry[] = [];
+
+  processingId: string | null = null;
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private bookService: BookService,
+    private holdService: HoldService
+  ) {
+    this.initializeForm();
+  }
+
+  ngOnInit(): void {
+    this.loadBooks();
+    this.loadCategories();
+    this.loadRecentChanges();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  private initializeForm(): void {
+    const currentYear = new Date().getFullYear();
+    this.bookForm = this.fb.group({
+      title: ['', [Validators.required, Validators.maxLength(200)]],
+      author: ['', [Validators.required, Validators.maxLength(100)]],
+      category: ['', Validators.required],
+      isbn: ['', [Validators.required, isbnValidator()]],
+      description: ['', Validators.maxLength(1000)],
+      totalCopies: [1, [Validators.required, Validators.min(0), Validators.max(500)]],
+      publishYear: [currentYear, [Validators.min(1000), Validators.max(currentYear + 1)]]
+    });
+    this.copyForm = this.fb.group({
+      count: [1, [Validators.required, Validators.min(1), Validators.max(100)]],
+      barcode: ['', Validators.maxLength(40)],
+      shelfLocation: ['', Validators.maxLength(60)],
+      condition: ['NEW'],
+      acquisitionSource: ['PURCHASE'],
+      notes: ['', Validators.maxLength(200)]
+    });
+  }
+
+  loadBooks(page: number = 0): void {
+    this.isLoading = true;
+
+    this.subscriptions.add(
+      this.bookService.getCatalogue(page, this.pageSize, this.searchQuery.trim() || undefined, this.showDeleted).subscribe({
+        next: (response) => {
+          this.books = response.content;
+          this.currentPage = response.number;
+          this.totalPages = response.totalPages;
+          this.isLoading = false;
+        },
+        error: (error) => {
+          console.error('Error loading catalogue:', error);
+          this.showError(error.error?.message || 'Failed to load books.');
+          this.isLoading = false;
+        }
+      })
+    );
+  }
+
+  private loadCategories(): void {
+    this.subscriptions.add(
+      this.bookService.getBookCategories().subscribe({
+        next: (categories) => this.categories = categories,
+        error: (error) => console.error('Error loading categories:', error)
+      })
+    );
+  }
+
+  private loadRecentChanges(): void {
+    this.subscriptions.add(
+      this.bookService.getCatalogueAudit(0, 10).subscribe({
+        next: (response) => this.recentChanges = response.content,
+        error: (error) => console.error('Error loading catalogue changes:', error)
+      })
+    );
+  }
+
+  onSearch(): void {
+    this.loadBooks(0);
+  }
+
+  // Form handling
+  openCreateForm(): void {
+    this.editingBook = null;
+    this.bookForm.reset({ totalCopies: 1, publishYear: new Date().getFullYear(), description: '' });
+    this.removeCover();
+    this.showForm = true;
+  }
+
+  openEditForm(book: Book): void {
+    this.editingBook = book;
+    this.bookForm.reset({
+      title: book.title,
+      author: book.author,
+      category: book.category,
+      isbn: book.isbn,
+      description: book.description || '',
+      totalCopies: book.totalCopies,
+      publishYear: book.publishYear
+    });
+    this.selectedFile = null;
+    this.coverPreview = book.imageUrl || null;
+    this.showForm = true;
+  }
+
+  closeForm(): void {
+    this.showForm = false;
+    this.editingBook = null;
+    this.removeCover();
+  }
+
+  onCoverSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+
+    if (file) {
+      // Validate file type
+      const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+      if (!allowedTypes.includes(file.type)) {
+        this.showError('Please select a valid image file (JPEG, PNG, GIF or WebP)');
+        return;
+      }
+
+      // Validate file size (max 5MB)
+      const maxSize = 5 * 1024 * 1024;
+      if (file.size > maxSize) {
+        this.showError('Cover image must be less than 5MB');
+        return;
+      }
+
+      this.selectedFile = file;
+
+      const reader = new FileReader();
+      reader.onload = () => {
+        this.coverPreview = reader.result as string;
+      };
+      reader.onerror = () => {
+        this.showError('Error reading file. Please try again.');
+      };
+      reader.readAsDataURL(file);
+    }
+  }
+
+  removeCover(): void {
+    this.selectedFile = null;
+    this.coverPreview = this.editingBook?.imageUrl || null;
+
+    const fileInput = document.getElementById('coverInput') as HTMLInputElement;
+    if (fileInput) {
+      fileInput.value = '';
+    }
+  }
+
+  onSubmit(): void {
+    if (this.bookForm.invalid) {
+      this.bookForm.markAllAsTouched();
+      return;
+    }
+
+    const value = this.bookForm.value;
+    const formData: BookFormData = {
+      title: value.title.trim(),
+      author: value.author.trim(),
+      category: value.category.trim(),
+      isbn: value.isbn.trim(),
+      description: value.description?.trim() || '',
+      totalCopies: Number(value.totalCopies),
+      publishYear: value.publishYear ? Number(value.publishYear) : undefined,
+      imageFile: this.selectedFile || undefined
+    };
+
+    const editing = this.editingBook;
+    const request = editing
+      ? this.bookService.updateBook(editing.id, formData)
+      : this.bookService.addBook(formData);
+
+    this.isSaving = true;
+    this.subscriptions.add(
+      request.subscribe({
+        next: (book) => {
+          this.isSaving = false;
+          this.closeForm();
+          this.showSuccess(editing ? `"${book.title}" updated.` : `"${book.title}" added to the catalogue.`);
+          this.refreshAfterChange(book);
+        },
+        error: (error) => {
+          console.error('Error saving book:', error);
+          this.isSaving = false;
+          this.showError(error.error?.message || 'Failed to save book.');
+        }
+      })
+    );
+  }
+
+  // Add or withdraw copies without opening the edit form
+  adjustCopies(book: Book, delta: number): void {
+    const totalCopies = book.totalCopies + delta;
+    if (totalCopies < book.totalCopies - book.availableCopies) {
+      this.showError('Copies that are on loan cannot be withdrawn.');
+      return;
+    }
+
+    this.processingId = book.id;
+    this.subscriptions.add(
+      this.bookService.updateBook(book.id, this.toFormData(book, totalCopies)).subscribe({
+        next: (updated) => {
+          this.processingId = null;
+          this.refreshAfterChange(updated);
+        },
+        error: (error) => {
+          console.error('Error adjusting copies:', error);
+          this.processingId = null;
+          this.showError(error.error?.message || 'Failed to adjust copies.');
+        }
+      })
+    );
+  }
+
+  deleteBook(book: Book): void {
+    this.processingId = book.id;
+
+    // Check for active borrowers first so the librarian sees who still has the book
+    this.subscriptions.add(
+      this.bookService.getBookBorrowers(book.id).subscribe({
+        next: (borrowers) => {
+          if (borrowers.length > 0) {
+            this.processingId = null;
+            const names = borrowers.map(b => b.memberName).join(', ');
+            this.showError(`"${book.title}" is still on loan to ${borrowers.length} borrower(s): ${names}.`);
+            return;
+          }
+          if (!confirm(`Delete "${book.title}"? It will be hidden from the catalogue and can be restored later.`)) {
+            this.processingId = null;
+            return;
+          }
+          this.confirmDelete(book);
+        },
+        error: (error) => {
+          console.error('Error checking borrowers:', error);
+          this.processingId = null;
+          this.showError(error.error?.message || 'Failed to check borrowers.');
+        }
+      })
+    );
+  }
+
+  private confirmDelete(book: Book): void {
+    this.subscriptions.add(
+      this.bookService.deleteBook(book.id).subscribe({
+        next: () => {
+          this.processingId = null;
+          this.showSuccess(`"${book.title}" deleted.`);
+          this.loadBooks(this.currentPage);
+          this.loadRecentChanges();
+        },
+        error: (error) => {
+          console.error('Error deleting book:', error);
+          this.processingId = null;
+          this.showError(error.error?.message || 'Failed to delete book.');
+        }
+      })
+    );
+  }
+
+  restoreBook(book: Book): void {
+    this.processingId = book.id;
+
+    this.subscriptions.add(
+      this.bookService.restoreBook(book.id).subscribe({
+        next: (restored) => {
+          this.processingId = null;
+          this.showSuccess(`"${restored.title}" restored.`);
+          this.refreshAfterChange(restored);
+        },
+        error: (error) => {
+          console.error('Error restoring book:', error);
+          this.processingId = null;
+          this.showError(error.error?.message || 'Failed to restore book.');
+        }
+      })
+    );
+  }
+
+  // Physical copies
+  showCopies(book: Book): void {
+    if (this.copiesBook?.id === book.id) {
+      this.copiesBook = null;
+      return;
+    }
+
+    this.copiesBook = book;
+    this.copies = [];
+    this.holdQueue = [];
+    this.copyForm.reset({ count: 1, barcode: '', shelfLocation: '', condition: 'NEW', acquisitionSource: 'PURCHASE', notes: '' });
+    this.loadCopies(book);
+  }
+
+  private loadCopies(book: Book): void {
+    this.subscriptions.add(
+      this.bookService.getBookCopies(book.id).subscribe({
+        next: (copies) => this.copies = copies,
+        error: (error) => {
+          console.error('Error loading copies:', error);
+          this.showError(error.error?.message || 'Failed to load copies.');
+        }
+      })
+    );
+    this.subscriptions.add(
+      this.holdService.getBookQueue(book.id).subscribe({
+        next: (holds) => this.holdQueue = holds,
+        error: (error) => console.error('Error loading hold queue:', error)
+      })
+    );
+  }
+
+  addCopies(): void {
+    const book = this.copiesBook;
+    if (!book || this.copyForm.invalid) {
+      this.copyForm.markAllAsTouched();
+      return;
+    }
+
+    const value = this.copyForm.value;
+    const count = Number(value.count);
+    const request: BookCopyFormData = {
+      count,
+      barcode: count === 1 ? value.barcode?.trim() || undefined : undefined,
+      shelfLocation: value.shelfLocation?.trim() || undefined,
+      condition: value.condition,
+      acquisitionSource: value.acquisitionSource,
+      notes: value.notes?.trim() || undefined
+    };
+
+    this.isAddingCopies = true;
+    this.subscriptions.add(
+      this.bookService.addBookCopies(book.id, request).subscribe({
+        next: (added) => {
+          this.isAddingCopies = false;
+          this.copyForm.patchValue({ count: 1, barcode: '', notes: '' });
+          this.showSuccess(`Added ${added.length} cop${added.length === 1 ? 'y' : 'ies'}: ${added.map(copy => copy.barcode).join(', ')}.`);
+          this.reloadBook(book);
+        },
+        error: (error) => {
+          console.error('Error adding copies:', error);
+          this.isAddingCopies = false;
+          this.showError(error.error?.message || 'Failed to add copies.');
+        }
+      })
+    );
+  }
+
+  updateCopy(copy: BookCopy, changes: BookCopyFormData): void {
+    const book = this.copiesBook;
+    if (!book) return;
+
+    this.processingId = copy.id;
+    this.subscriptions.add(
+      this.bookService.updateBookCopy(copy.id, changes).subscribe({
+        next: (updated) => {
+          this.processingId = null;
+          this.copies = this.copies.map(c => c.id === updated.id ? updated : c);
+          this.reloadBook(book);
+        },
+        error: (error) => {
+          console.error('Error updating copy:', error);
+          this.processingId = null;
+          this.showError(error.error?.message || 'Failed to update copy.');
+          this.loadCopies(book);
+        }
+      })
+    );
+  }
+
+  formatCopyValue(value: string): string {
+    return value.replace('_', ' ').toLowerCase();
+  }
+
+  // Audit trail
+  showHistory(book: Book): void {
+    if (this.auditBook?.id === book.id) {
+      this.auditBook = null;
+      return;
+    }
+
+    this.auditBook = book;
+    this.auditEntries = [];
+    this.subscriptions.add(
+      this.bookService.getBookAudit(book.id).subscribe({
+        next: (entries) => this.auditEntries = entries,
+        error: (error) => {
+          console.error('Error loading book history:', error);
+          this.showError(error.error?.message || 'Failed to load history.');
+        }
+      })
+    );
+  }
+
+  formatChange(value: string | number | boolean | null): string {
+    return value === null || value === '' ? '—' : String(value);
+  }
+
+  getFieldError(fieldName: string): string {
+    const field = this.bookForm.get(fieldName);
+    if (field && field.errors && field.touched) {
+      const errors = field.errors;
+      const label = this.getFieldDisplayName(fieldName);
+
+      if (errors['required']) return `${label} is required.`;
+      if (errors['maxlength']) return `${label} cannot exceed ${errors['maxlength'].requiredLength} characters.`;
+      if (errors['min']) return `${label} must be at least ${errors['min'].min}.`;
+      if (errors['max']) return `${label} cannot exceed ${errors['max'].max}.`;
+      if (errors['isbn']) return `${label} is not a valid ISBN-10 or ISBN-13.`;
+    }
+    return '';
+  }
+
+  getCopyFieldError(fieldName: string): string {
+    const field = this.copyForm.get(fieldName);
+    if (field && field.errors && field.touched) {
+      const errors = field.errors;
+      if (errors['required']) return 'Enter how many copies to add.';
+      if (errors['min'] || errors['max']) return 'Add between 1 and 100 copies at a time.';
+      if (errors['maxlength']) return `Cannot exceed ${errors['maxlength'].requiredLength} characters.`;
+    }
+    return '';
+  }
+
+  private getFieldDisplayName(fieldName: string): string {
+    const displayNames: { [key: string]: string } = {
+      title: 'Title',
+      author: 'Author',
+      category: 'Category',
+      isbn: 'ISBN',
+      description: 'Description',
+      totalCopies: 'Total copies',
+      publishYear: 'Publish year'
+    };
+    return displayNames[fieldName] || fieldName;
+  }
+
+  private toFormData(book: Book, totalCopies: number): BookFormData {
+    return {
+      title: book.title,
+      author: book.author,
+      category: book.category,
+      isbn: book.isbn,
+      description: book.description,
+      totalCopies,
+      publishYear: book.publishYear
+    };
+  }
+
+  // Copy changes update the book's counts, so fetch it again
+  private reloadBook(book: Book): void {
+    this.subscriptions.add(
+      this.bookService.getBookById(book.id).subscribe({
+        next: (updated) => this.refreshAfterChange(updated),
+        error: (error) => console.error('Error reloading book:', error)
+      })
+    );
+  }
+
+  private refreshAfterChange(book: Book): void {
+    this.books = this.books.map(b => b.id === book.id ? book : b);
+    if (!this.books.some(b => b.id === book.id)) {
+      this.loadBooks(this.currentPage);
+    }
+    if (this.auditBook?.id === book.id) {
+      this.auditBook = null;
+      this.showHistory(book);
+    }
+    if (this.copiesBook?.id === book.id) {
+      this.copiesBook = book;
+      this.loadCopies(book);
+    }
+    this.loadRecentChanges();
+    this.loadCategories();
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
@@ -0,0 +1,80 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { AdminCashDeskComponent } from './admin-cash-desk.component';
+import { CashStaffTotal, FineRecord } from '../../models/fine.model';
+
+describe('AdminCashDeskComponent', () => {
+  let component: AdminCashDeskComponent;
+  let fixture: ComponentFixture<AdminCashDeskComponent>;
+
+  const fine = (id: string, totalFine: number): FineRecord => ({
+    id,
+    memberId: 'MEM0002',
+    memberName: 'Test Member',
+    bookId: 'BK0001',
+    bookTitle: `Book ${id}`,
+    author: 'Author',
+    borrowId: 'LN0001',
+    dueDate: new Date('2025-05-01'),
+    daysOverdue: 3,
+    dailyFine: 5,
+    totalFine,
+    status: 'PENDING',
+    calculatedDate: new Date('2025-05-04')
+  });
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        AdminCashDeskComponent,
+        RouterTestingModule,
+        HttpClientTestingModule
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AdminCashDeskComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should total the ticked fines and work out change', () => {
+    component.payableFines = [fine('FN0001', 30), fine('FN0002', 45)];
+    component.selectedFineIds = new Set(['FN0001', 'FN0002']);
+    component.toggleFine('FN0002');
+    component.paymentForm.patchValue({ amountTendered: 50 });
+
+    expect(component.selectedTotal).toBe(30);
+    expect(component.changeDue).toBe(20);
+  });
+
+  it('should flag a drawer that changed after it was counted', () => {
+    const total: CashStaffTotal = {
+      staffId: 'MEM0001',
+      staffName: 'Admin',
+      paymentCount: 2,
+      collected: 80,
+      refunded: 0,
+      expected: 80,
+      reconciliation: {
+        id: 'CR0001',
+        date: '2025-05-04',
+        staffId: 'MEM0001',
+        staffName: 'Admin',
+        expectedAmount: 50,
+        countedAmount: 50,
+        variance: 0,
+        reconciledBy: 'MEM0001',
+        reconciledByName: 'Admin',
+        reconciledAt: new Date('2025-05-04T18:00:00Z')
+      }
+    };
+
+    expect(component.needsRecount(total)).toBeTrue();
+    expect(component.needsRecount({ ...total, expected: 50 })).toBeFalse();
+  });
+});
@@ -0,0 +1,270 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, FormsModule, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { FineService } from '../../services/fine.service';
+import { MemberService } from '../../services/member.service';
+import { CashDaySummary, CashReconciliation, CashStaffTotal, FineRecord, PaymentResponse } from '../../models/fine.model';
+import { Member } from '../../models/member.model';
+
+@Component({
+  selector: 'app-admin-cash-desk',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ReactiveFormsModule],
+  templateUrl: './admin-cash-desk.component.html',
+  styleUrls: ['./admin-cash-desk.component.css']
+})
+export class AdminCashDeskComponent implements OnInit, OnDestroy {
+  // Member lookup
+  memberQuery = '';
+  memberResults: Member[] = [];
+  selectedMember: Member | null = null;
+  isSearching = false;
+
+  // Taking cash
+  payableFines: FineRecord[] = [];
+  selectedFineIds = new Set<string>();
+  paymentForm!: FormGroup;
+  isRecording = false;
+  lastPayment: PaymentResponse | null = null;
+
+  // Reconciliation
+  reconcileDate = this.today();
+  summary: CashDaySummary | null = null;
+  countedAmounts: { [staffId: string]: number | null } = {};
+  countNotes: { [staffId: string]: string } = {};
+  reconcilingStaffId: string | null = null;
+  reconciliations: CashReconciliation[] = [];
+
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private fineService: FineService,
+    private memberService: MemberService
+  ) {
+    this.paymentForm = this.fb.group({
+      amountTendered: [null, Validators.min(0.01)]
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadSummary();
+    this.loadReconciliations();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  // Member lookup
+  searchMembers(): void {
+    const query = this.memberQuery.trim();
+    if (!query) {
+      this.memberResults = [];
+      return;
+    }
+
+    this.isSearching = true;
+    this.subscriptions.add(
+      this.memberService.searchMembers(query, 0, 8).subscribe({
+        next: (response) => {
+          this.memberResults = response.content;
+          this.isSearching = false;
+        },
+        error: (error) => {
+          console.error('Error searching members:', error);
+          this.isSearching = false;
+          this.showError('Failed to search members.');
+        }
+      })
+    );
+  }
+
+  selectMember(member: Member): void {
+    this.selectedMember = member;
+    this.memberResults = [];
+    this.lastPayment = null;
+    this.loadMemberFines();
+  }
+
+  clearMember(): void {
+    this.selectedMember = null;
+    this.payableFines = [];
+    this.selectedFineIds.clear();
+    this.lastPayment = null;
+  }
+
+  // Only fines for returned books can be paid; fines under a waiver request or an unfinished online payment cannot be taken in cash
+  loadMemberFines(): void {
+    if (!this.selectedMember) return;
+
+    this.subscriptions.add(
+      this.fineService.getUserFines(this.selectedMember.id).subscribe({
+        next: (fines) => {
+          this.payableFines = fines.filter(fine =>
+            fine.status === 'PENDING' && !fine.waiverId && !fine.paymentId);
+          this.selectedFineIds = new Set(this.payableFines.map(fine => fine.id));
+          this.paymentForm.reset({ amountTendered: null });
+        },
+        error: (error) => {
+          console.error('Error loading member fines:', error);
+          this.showError('Failed to load the member\'s fines.');
+        }
+      })
+    );
+  }
+
+  toggleFine(fineId: string): void {
+    if (this.selectedFineIds.has(fineId)) {
+      this.selectedFineIds.delete(fineId);
+    } else {
+      this.selectedFineIds.add(fineId);
+    }
+  }
+
+  get selectedTotal(): number {
+    return this.payableFines
+      .filter(fine => this.selectedFineIds.has(fine.id))
+      .reduce((sum, fine) => sum + fine.totalFine, 0);
+  }
+
+  get changeDue(): number {
+    const tendered = Number(this.paymentForm.value.amountTendered) || 0;
+    return Math.round((tendered - this.selectedTotal) * 100) / 100;
+  }
+
+  recordPayment(): void {
+    if (!this.selectedMember || this.selectedFineIds.size === 0) {
+      this.showError('Select at least one fine to take payment for.');
+      return;
+    }
+    const tendered = this.paymentForm.value.amountTendered;
+    if (this.paymentForm.invalid || (tendered && this.changeDue < 0)) {
+      this.showError(`Amount tendered must cover ₹${this.selectedTotal}.`);
+      return;
+    }
+
+    this.isRecording = true;
+    this.subscriptions.add(
+      this.fineService.processPayment({
+        memberId: this.selectedMember.id,
+        fineIds: Array.from(this.selectedFineIds),
+        totalAmount: this.selectedTotal,
+        paymentMethod: 'cash',
+        customerInfo: {
+          name: this.selectedMember.memberName,
+          email: this.selectedMember.email
+        },
+        amountTendered: tendered || undefined
+      }).subscribe({
+        next: (response) => {
+          this.isRecording = false;
+          this.lastPayment = response;
+          this.showSuccess(response.message);
+          this.loadMemberFines();
+          this.loadSummary();
+        },
+        error: (error) => {
+          console.error('Error recording cash payment:', error);
+          this.isRecording = false;
+          this.showError(error.message || 'Failed to record the cash payment.');
+        }
+      })
+    );
+  }
+
+  printReceipt(paymentId: string): void {
+    this.subscriptions.add(
+      this.fineService.downloadReceipt(paymentId).subscribe({
+        error: (error) => this.showError(error.error?.message || 'Failed to create the receipt.')
+      })
+    );
+  }
+
+  // Reconciliation
+  onDateChange(event: Event): void {
+    this.reconcileDate = (event.target as HTMLInputElement).value || this.today();
+    this.loadSummary();
+  }
+
+  loadSummary(): void {
+    this.subscriptions.add(
+      this.fineService.getCashSummary(this.reconcileDate).subscribe({
+        next: (summary) => {
+          this.summary = summary;
+          this.countedAmounts = {};
+          this.countNotes = {};
+        },
+        error: (error) => {
+          console.error('Error loading cash summary:', error);
+          this.showError(error.error?.message || 'Failed to load the cash summary.');
+        }
+      })
+    );
+  }
+
+  loadReconciliations(): void {
+    this.subscriptions.add(
+      this.fineService.getCashReconciliations(0, 10).subscribe({
+        next: (page) => this.reconciliations = page.content,
+        error: (error) => console.error('Error loading cash reconciliations:', error)
+      })
+    );
+  }
+
+  // Cash taken or refunded after the last count
+  needsRecount(total: CashStaffTotal): boolean {
+    return !!total.reconciliation && total.reconciliation.expectedAmount !== total.expected;
+  }
+
+  reconcile(total: CashStaffTotal): void {
+    const counted = this.countedAmounts[total.staffId];
+    if (counted === null || counted === undefined || counted < 0) {
+      this.showError(`Enter the cash counted in ${total.staffName}'s drawer.`);
+      return;
+    }
+
+    this.reconcilingStaffId = total.staffId;
+    this.subscriptions.add(
+      this.fineService.reconcileCash({
+        date: this.reconcileDate,
+        staffId: total.staffId,
+        countedAmount: counted,
+        notes: this.countNotes[total.staffId]?.trim() || undefined
+      }).subscribe({
+        next: (response) => {
+          this.reconcilingStaffId = null;
+          this.showSuccess(response.message);
+          this.loadSummary();
+          this.loadReconciliations();
+        },
+        error: (error) => {
+          console.error('Error reconciling cash:', error);
+          this.reconcilingStaffId = null;
+          this.showError(error.error?.message || 'Failed to record the count.');
+        }
+      })
+    );
+  }
+
+  // Same UTC calendar day the server groups cash by
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
@@ -0,0 +1,70 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { AdminComplaintsComponent } from './admin-complaints.component';
+import { Complaint } from '../../models/complaint.model';
+
+describe('AdminComplaintsComponent', () => {
+  let component: AdminComplaintsComponent;
+  let fixture: ComponentFixture<AdminComplaintsComponent>;
+
+  const complaint: Complaint = {
+    id: 'CMP0001',
+    memberId: 'MEM0002',
+    memberName: 'Test Member',
+    category: 'Payment Issues',
+    title: 'Charged twice',
+    description: 'My fine payment went through twice.',
+    contactPreference: 'Email',
+    submissionDate: new Date('2025-05-01'),
+    status: 'Open',
+    lastUpdated: new Date('2025-05-01'),
+    priority: 'High',
+    responses: []
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        AdminComplaintsComponent,
+        RouterTestingModule,
+        HttpClientTestingModule
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AdminComplaintsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should fill template placeholders into the reply', () => {
+    component.templates = [{
+      id: 'CT0001',
+      title: 'Acknowledge',
+      category: 'Other',
+      description: 'Hi {{memberName}}, {{complaintId}} ("{{title}}") is with us.',
+      isActive: true,
+      createdBy: 'MEM0001',
+      createdDate: new Date()
+    }];
+    const select = document.createElement('select');
+    select.innerHTML = '<option value="CT0001">Acknowledge</option>';
+    select.value = 'CT0001';
+
+    component.onTemplateSelect(complaint, { target: select } as unknown as Event);
+
+    expect(component.replyForm.value.message).toBe('Hi Test Member, CMP0001 ("Charged twice") is with us.');
+  });
+
+  it('should select and clear every complaint on the page', () => {
+    component.complaints = [complaint, { ...complaint, id: 'CMP0002' }];
+    component.toggleAll();
+    expect(component.selectedIds.size).toBe(2);
+    component.toggleAll();
+    expect(component.selectedIds.size).toBe(0);
+  });
+});
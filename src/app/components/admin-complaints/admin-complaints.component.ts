@@ -0,0 +1,383 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Subscription, forkJoin } from 'rxjs';
+import { ComplaintService } from '../../services/complaint.service';
+import {
+  Complaint,
+  ComplaintAssignee,
+  ComplaintCategory,
+  ComplaintPriority,
+  ComplaintQueue,
+  ComplaintStatus,
+  ComplaintTemplate
+} from '../../models/complaint.model';
+
+@Component({
+  selector: 'app-admin-complaints',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './admin-complaints.component.html',
+  styleUrls: ['./admin-complaints.component.css']
+})
+export class AdminComplaintsComponent implements OnInit, OnDestroy {
+  readonly queues: { value: ComplaintQueue; label: string }[] = [
+    { value: 'OPEN', label: 'Open' },
+    { value: 'UNASSIGNED', label: 'Unassigned' },
+    { value: 'MINE', label: 'Assigned to me' },
+    { value: 'BREACHED', label: 'Past SLA' },
+    { value: 'ESCALATED', label: 'Escalated' },
+    { value: 'RESOLVED', label: 'Resolved' },
+    { value: 'ALL', label: 'All' }
+  ];
+  readonly statuses: ComplaintStatus[] = ['Open', 'In Progress', 'Resolved', 'Closed', 'Escalated'];
+  readonly priorities: ComplaintPriority[] = ['Critical', 'High', 'Medium', 'Low'];
+  readonly categories: ComplaintCategory[] = [
+    'Library Service',
+    'Borrowing Process',
+    'Payment Issues',
+    'Book Condition',
+    'Staff Behavior',
+    'System Technical',
+    'Facility Issues',
+    'Other'
+  ];
+
+  queue: ComplaintQueue = 'OPEN';
+  counts: { [key in ComplaintQueue]?: number } = {};
+  complaints: Complaint[] = [];
+  currentPage = 0;
+  totalPages = 0;
+  totalElements = 0;
+  isLoading = false;
+
+  searchControl = new FormControl('');
+  priorityFilter = '';
+
+  // Bulk status changes apply to every ticked complaint on the current page
+  selectedIds = new Set<string>();
+  bulkStatus = new FormControl<ComplaintStatus | ''>('');
+  isApplyingBulk = false;
+
+  assignees: ComplaintAssignee[] = [];
+  expandedComplaint: Complaint | null = null;
+  replyForm: FormGroup;
+  isReplying = false;
+
+  templates: ComplaintTemplate[] = [];
+  templateForm: FormGroup;
+  editingTemplate: ComplaintTemplate | null = null;
+  showTemplateForm = false;
+  isSavingTemplate = false;
+
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private complaintService: ComplaintService,
+    private fb: FormBuilder
+  ) {
+    this.replyForm = this.fb.group({
+      message: ['', [Validators.required, Validators.maxLength(2000)]],
+      isInternal: [false]
+    });
+    this.templateForm = this.fb.group({
+      title: ['', [Validators.required, Validators.maxLength(100)]],
+      category: ['Other', Validators.required],
+      description: ['', [Validators.required, Validators.maxLength(2000)]]
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadQueue();
+    this.loadAssignees();
+    this.loadTemplates();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadQueue(page: number = 0): void {
+    this.isLoading = true;
+    this.subscriptions.add(
+      this.complaintService.getTriageQueue(this.queue, page, 20, {
+        query: (this.searchControl.value || '').trim(),
+        priority: this.priorityFilter
+      }).subscribe({
+        next: (response) => {
+          this.complaints = response.content;
+          this.counts = response.counts;
+          this.currentPage = response.number;
+          this.totalPages = response.totalPages;
+          this.totalElements = response.totalElements;
+          this.selectedIds.clear();
+          // Keep the open complaint in sync with the refreshed copy, or close it if it left the queue
+          this.expandedComplaint = this.complaints.find(c => c.id === this.expandedComplaint?.id) || null;
+          this.isLoading = false;
+        },
+        error: (error) => {
+          console.error('Error loading complaint queue:', error);
+          this.isLoading = false;
+          this.showError('Failed to load complaints.');
+        }
+      })
+    );
+  }
+
+  loadAssignees(): void {
+    this.subscriptions.add(
+      this.complaintService.getAssignees().subscribe({
+        next: (assignees) => this.assignees = assignees,
+        error: (error) => console.error('Error loading staff:', error)
+      })
+    );
+  }
+
+  loadTemplates(): void {
+    this.subscriptions.add(
+      this.complaintService.getComplaintTemplates().subscribe({
+        next: (templates) => this.templates = templates,
+        error: (error) => console.error('Error loading reply templates:', error)
+      })
+    );
+  }
+
+  selectQueue(queue: ComplaintQueue): void {
+    this.queue = queue;
+    this.expandedComplaint = null;
+    this.loadQueue();
+  }
+
+  onPriorityFilterChange(event: Event): void {
+    this.priorityFilter = (event.target as HTMLSelectElement).value;
+    this.loadQueue();
+  }
+
+  toggleSelection(complaint: Complaint): void {
+    if (this.selectedIds.has(complaint.id)) {
+      this.selectedIds.delete(complaint.id);
+    } else {
+      this.selectedIds.add(complaint.id);
+    }
+  }
+
+  get allSelected(): boolean {
+    return this.complaints.length > 0 && this.complaints.every(c => this.selectedIds.has(c.id));
+  }
+
+  toggleAll(): void {
+    if (this.allSelected) {
+      this.selectedIds.clear();
+    } else {
+      this.complaints.forEach(c => this.selectedIds.add(c.id));
+    }
+  }
+
+  applyBulkStatus(): void {
+    const status = this.bulkStatus.value;
+    if (!status || this.selectedIds.size === 0) {
+      return;
+    }
+
+    const ids = Array.from(this.selectedIds);
+    this.isApplyingBulk = true;
+    this.subscriptions.add(
+      forkJoin(ids.map(id => this.complaintService.updateComplaintStatus(id, status))).subscribe({
+        next: () => {
+          this.isApplyingBulk = false;
+          this.bulkStatus.reset('');
+          this.loadQueue(this.currentPage);
+          this.loadAssignees();
+          this.showSuccess(`${ids.length} complaint(s) updated to ${status}.`);
+        },
+        error: (error) => {
+          console.error('Error updating complaints:', error);
+          this.isApplyingBulk = false;
+          // Some may have gone through before the failure, so show the queue as it is now
+          this.loadQueue(this.currentPage);
+          this.showError(error.error?.message || 'Failed to update the selected complaints.');
+        }
+      })
+    );
+  }
+
+  toggleComplaint(complaint: Complaint): void {
+    this.expandedComplaint = this.expandedComplaint?.id === complaint.id ? null : complaint;
+    this.replyForm.reset({ message: '', isInternal: false });
+    if (this.expandedComplaint && this.hasUnreadMemberReplies(complaint)) {
+      this.markRead(complaint);
+    }
+  }
+
+  hasUnreadMemberReplies(complaint: Complaint): boolean {
+    return (complaint.responses || []).some(r => r.responderType === 'MEMBER' && !r.readAt);
+  }
+
+  // Opening a complaint counts as staff reading the member's replies
+  private markRead(complaint: Complaint): void {
+    this.subscriptions.add(
+      this.complaintService.markResponsesRead(complaint.id).subscribe({
+        next: (updated) => {
+          this.complaints = this.complaints.map(c => c.id === updated.id ? updated : c);
+          if (this.expandedComplaint?.id === updated.id) {
+            this.expandedComplaint = updated;
+          }
+        },
+        error: (error) => console.error('Error marking replies read:', error)
+      })
+    );
+  }
+
+  onAssign(complaint: Complaint, event: Event): void {
+    const assignedTo = (event.target as HTMLSelectElement).value || null;
+    this.subscriptions.add(
+      this.complaintService.assignComplaint(complaint.id, assignedTo).subscribe({
+        next: (response) => {
+          this.loadQueue(this.currentPage);
+          this.loadAssignees();
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error assigning complaint:', error);
+          this.showError(error.error?.message || 'Failed to assign the complaint.');
+        }
+      })
+    );
+  }
+
+  // Canned replies fill the reply box; staff can still edit the text before sending
+  onTemplateSelect(complaint: Complaint, event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    const template = this.templates.find(t => t.id === select.value);
+    if (template) {
+      this.replyForm.patchValue({ message: ComplaintService.fillTemplate(template, complaint) });
+    }
+    select.value = '';
+  }
+
+  sendReply(complaint: Complaint): void {
+    if (this.replyForm.invalid) {
+      this.replyForm.markAllAsTouched();
+      return;
+    }
+
+    const { message, isInternal } = this.replyForm.value;
+    this.isReplying = true;
+    this.subscriptions.add(
+      this.complaintService.addComplaintResponse(complaint.id, message.trim(), { isInternal }).subscribe({
+        next: (response) => {
+          this.isReplying = false;
+          this.replyForm.reset({ message: '', isInternal: false });
+          if (response.complaint) {
+            this.expandedComplaint = response.complaint;
+            this.complaints = this.complaints.map(c => c.id === complaint.id ? response.complaint! : c);
+          }
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error sending reply:', error);
+          this.isReplying = false;
+          this.showError(error.error?.message || 'Failed to send the reply.');
+        }
+      })
+    );
+  }
+
+  get activeTemplates(): ComplaintTemplate[] {
+    return this.templates.filter(t => t.isActive);
+  }
+
+  openTemplateForm(template?: ComplaintTemplate): void {
+    this.editingTemplate = template || null;
+    this.templateForm.reset({
+      title: template?.title || '',
+      category: template?.category || 'Other',
+      description: template?.description || ''
+    });
+    this.showTemplateForm = true;
+  }
+
+  closeTemplateForm(): void {
+    this.showTemplateForm = false;
+    this.editingTemplate = null;
+  }
+
+  saveTemplate(): void {
+    if (this.templateForm.invalid) {
+      this.templateForm.markAllAsTouched();
+      return;
+    }
+
+    const request = this.editingTemplate
+      ? this.complaintService.updateComplaintTemplate(this.editingTemplate.id, this.templateForm.value)
+      : this.complaintService.createComplaintTemplate({ ...this.templateForm.value, isActive: true });
+
+    this.isSavingTemplate = true;
+    this.subscriptions.add(
+      request.subscribe({
+        next: (response) => {
+          this.isSavingTemplate = false;
+          this.closeTemplateForm();
+          this.loadTemplates();
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error saving reply template:', error);
+          this.isSavingTemplate = false;
+          this.showError(error.error?.message || 'Failed to save the template.');
+        }
+      })
+    );
+  }
+
+  toggleTemplateActive(template: ComplaintTemplate): void {
+    this.subscriptions.add(
+      this.complaintService.updateComplaintTemplate(template.id, { isActive: !template.isActive }).subscribe({
+        next: (response) => {
+          this.templates = this.templates.map(t => t.id === template.id ? response.template : t);
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error updating reply template:', error);
+          this.showError(error.error?.message || 'Failed to update the template.');
+        }
+      })
+    );
+  }
+
+  isPastDue(complaint: Complaint): boolean {
+    const unresolved = complaint.status === 'Open' || complaint.status === 'In Progress' || complaint.status === 'Escalated';
+    return unresolved && !!complaint.estimatedResolutionDate && new Date(complaint.estimatedResolutionDate).getTime() < Date.now();
+  }
+
+  getStatusClass(status: ComplaintStatus): string {
+    switch (status) {
+      case 'Resolved':
+      case 'Closed':
+        return 'active';
+      case 'Escalated':
+        return 'inactive';
+      default:
+        return 'warning';
+    }
+  }
+
+  getPriorityClass(priority: ComplaintPriority): string {
+    return `priority-${priority.toLowerCase()}`;
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
@@ -0,0 +1,172 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { MemberService } from '../../services/member.service';
+import { BookService } from '../../services/book.service';
+import { DonationService } from '../../services/donation.service';
+import { Member } from '../../models/member.model';
+import { Donation, DonationStatus } from '../../models/donation.model';
+
+@Component({
+  selector: 'app-admin-dashboard',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './admin-dashboard.component.html',
+  styleUrls: ['./admin-dashboard.component.css']
+})
+export class AdminDashboardComponent implements OnInit, OnDestroy {
+  memberStats = { totalMembers: 0, activeMembers: 0, newMembersToday: 0 };
+  bookStats = { totalBooks: 0, availableBooks: 0, borrowedBooks: 0, categories: 0 };
+
+  members: Member[] = [];
+  memberQuery = '';
+  memberPage = 0;
+  memberTotalPages = 0;
+  readonly memberPageSize = 10;
+  isLoadingMembers = false;
+
+  pendingDonations: Donation[] = [];
+  donationNotes: { [donationId: string]: string } = {};
+  isLoadingDonations = false;
+
+  processingId: string | null = null;
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private memberService: MemberService,
+    private bookService: BookService,
+    private donationService: DonationService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadStatistics();
+    this.loadMembers();
+    this.loadPendingDonations();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  private loadStatistics(): void {
+    this.subscriptions.add(
+      this.memberService.getMemberStatistics().subscribe({
+        next: (stats) => this.memberStats = stats,
+        error: (error) => console.error('Error loading member statistics:', error)
+      })
+    );
+
+    this.subscriptions.add(
+      this.bookService.getBookStatistics().subscribe({
+        next: (stats) => this.bookStats = stats,
+        error: (error) => console.error('Error loading book statistics:', error)
+      })
+    );
+  }
+
+  loadMembers(page: number = 0): void {
+    this.isLoadingMembers = true;
+
+    this.subscriptions.add(
+      this.memberService.searchMembers(this.memberQuery.trim() || undefined, page, this.memberPageSize).subscribe({
+        next: (response) => {
+          this.members = response.content;
+          this.memberPage = response.number;
+          this.memberTotalPages = response.totalPages;
+          this.isLoadingMembers = false;
+        },
+        error: (error) => {
+          console.error('Error loading members:', error);
+          this.showError(error.error?.message || 'Failed to load members.');
+          this.isLoadingMembers = false;
+        }
+      })
+    );
+  }
+
+  onMemberSearch(): void {
+    this.loadMembers(0);
+  }
+
+  toggleMemberStatus(member: Member): void {
+    const deactivate = member.isActive !== false;
+    if (deactivate && !confirm(`Deactivate ${member.memberName}? They will no longer be able to log in.`)) {
+      return;
+    }
+
+    this.processingId = member.id;
+    const request = deactivate
+      ? this.memberService.deactivateMember(member.id)
+      : this.memberService.activateMember(member.id);
+
+    this.subscriptions.add(
+      request.subscribe({
+        next: (response) => {
+          member.isActive = !deactivate;
+          this.memberStats.activeMembers += deactivate ? -1 : 1;
+          this.processingId = null;
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error updating member status:', error);
+          this.processingId = null;
+          this.showError(error.error?.message || 'Failed to update member status.');
+        }
+      })
+    );
+  }
+
+  loadPendingDonations(): void {
+    this.isLoadingDonations = true;
+
+    this.subscriptions.add(
+      this.donationService.getAllDonations(0, 20, 'Pending').subscribe({
+        next: (response) => {
+          this.pendingDonations = response.content;
+          this.isLoadingDonations = false;
+        },
+        error: (error) => {
+          console.error('Error loading pending donations:', error);
+          this.showError(error.error?.message || 'Failed to load pending donations.');
+          this.isLoadingDonations = false;
+        }
+      })
+    );
+  }
+
+  reviewDonation(donation: Donation, status: DonationStatus): void {
+    this.processingId = donation.id;
+
+    this.subscriptions.add(
+      this.donationService.updateDonationStatus(donation.id, status, this.donationNotes[donation.id]?.trim() || undefined).subscribe({
+        next: (response) => {
+          this.pendingDonations = this.pendingDonations.filter(d => d.id !== donation.id);
+          delete this.donationNotes[donation.id];
+          this.processingId = null;
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error reviewing donation:', error);
+          this.processingId = null;
+          this.showError(error.error?.message || 'Failed to update donation.');
+        }
+      })
+    );
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
@@ -0,0 +1,66 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { AdminFineReportsComponent } from './admin-fine-reports.component';
+import { FineReport, FineReportPeriod } from '../../models/fine.model';
+
+describe('AdminFineReportsComponent', () => {
+  let component: AdminFineReportsComponent;
+  let fixture: ComponentFixture<AdminFineReportsComponent>;
+
+  const period = (label: string, totalCollected: number, totalWaived: number, outstandingAmount: number): FineReportPeriod => ({
+    label,
+    from: new Date('2025-05-01T00:00:00Z'),
+    to: new Date('2025-05-31T23:59:59Z'),
+    totalFines: totalCollected + totalWaived + outstandingAmount,
+    totalCollected,
+    totalWaived,
+    outstandingAmount
+  });
+
+  const report: FineReport = {
+    reportId: 'RPT0001',
+    generatedBy: 'MEM0001',
+    generatedDate: new Date('2025-06-01T09:00:00Z'),
+    reportType: 'YEARLY',
+    dateRange: { from: new Date('2025-01-01T00:00:00Z'), to: new Date('2025-12-31T23:59:59Z') },
+    totalFines: 200,
+    totalCollected: 100,
+    totalWaived: 50,
+    outstandingAmount: 50,
+    periods: [period('May 2025', 100, 20, 40), period('Jun 2025', 0, 30, 10)],
+    memberStatistics: []
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        AdminFineReportsComponent,
+        RouterTestingModule,
+        HttpClientTestingModule
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AdminFineReportsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should scale bars to the busiest period', () => {
+    component.report = report;
+
+    expect(component.barHeight(report.periods[0], 'totalCollected')).toBeCloseTo(62.5);
+    expect(component.barHeight(report.periods[1], 'totalWaived')).toBeCloseTo(18.75);
+  });
+
+  it('should split the total into collected, waived and outstanding shares', () => {
+    component.report = report;
+
+    expect(component.shareOf('totalCollected')).toBe(50);
+    expect(component.shareOf('outstandingAmount')).toBe(25);
+  });
+});
@@ -0,0 +1,196 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { FineService } from '../../services/fine.service';
+import { FineReport, FineReportPeriod, FineReportRequest, FineReportType } from '../../models/fine.model';
+
+type ReportAmount = 'totalCollected' | 'totalWaived' | 'outstandingAmount';
+
+@Component({
+  selector: 'app-admin-fine-reports',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './admin-fine-reports.component.html',
+  styleUrls: ['./admin-fine-reports.component.css']
+})
+export class AdminFineReportsComponent implements OnInit, OnDestroy {
+  reportForm!: FormGroup;
+  isGenerating = false;
+
+  reports: FineReport[] = [];
+  currentPage = 0;
+  totalPages = 0;
+
+  report: FineReport | null = null;
+  isExportingCsv = false;
+
+  successMessage = '';
+  errorMessage = '';
+
+  readonly reportTypes: { value: FineReportType; label: string }[] = [
+    { value: 'MONTHLY', label: 'Monthly' },
+    { value: 'YEARLY', label: 'Yearly' },
+    { value: 'CUSTOM', label: 'Custom range' }
+  ];
+
+  readonly months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+  // Stacked in this order, bottom to top
+  readonly series: { key: ReportAmount; label: string; className: string }[] = [
+    { key: 'totalCollected', label: 'Collected', className: 'collected' },
+    { key: 'totalWaived', label: 'Waived', className: 'waived' },
+    { key: 'outstandingAmount', label: 'Outstanding', className: 'outstanding' }
+  ];
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private fineService: FineService
+  ) {
+    const now = new Date();
+    this.reportForm = this.fb.group({
+      reportType: ['MONTHLY', Validators.required],
+      year: [now.getFullYear(), [Validators.required, Validators.min(2000)]],
+      month: [now.getMonth() + 1, Validators.required],
+      from: [''],
+      to: ['']
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadReports();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  get reportType(): FineReportType {
+    return this.reportForm.value.reportType;
+  }
+
+  loadReports(page: number = 0): void {
+    this.subscriptions.add(
+      this.fineService.getFineReports(page, 10).subscribe({
+        next: (response) => {
+          this.reports = response.content;
+          this.currentPage = response.number;
+          this.totalPages = response.totalPages;
+        },
+        error: (error) => {
+          console.error('Error loading fine reports:', error);
+          this.showError('Failed to load fine reports.');
+        }
+      })
+    );
+  }
+
+  // Only the fields for the chosen report type are sent
+  generateReport(): void {
+    const { reportType, year, month, from, to } = this.reportForm.value;
+    const request: FineReportRequest = { reportType };
+    if (reportType === 'CUSTOM') {
+      if (!from || !to) {
+        this.showError('Choose both ends of the date range.');
+        return;
+      }
+      request.from = from;
+      request.to = to;
+    } else {
+      request.year = Number(year);
+      if (reportType === 'MONTHLY') {
+        request.month = Number(month);
+      }
+    }
+
+    this.isGenerating = true;
+    this.subscriptions.add(
+      this.fineService.generateFineReport(request).subscribe({
+        next: (response) => {
+          this.isGenerating = false;
+          this.report = response.report;
+          this.showSuccess(response.message);
+          this.loadReports();
+        },
+        error: (error) => {
+          console.error('Error generating fine report:', error);
+          this.isGenerating = false;
+          this.showError(error.error?.message || 'Failed to generate the report.');
+        }
+      })
+    );
+  }
+
+  viewReport(reportId: string): void {
+    this.subscriptions.add(
+      this.fineService.getFineReport(reportId).subscribe({
+        next: (report) => this.report = report,
+        error: (error) => {
+          console.error('Error loading fine report:', error);
+          this.showError(error.error?.message || 'Failed to load the report.');
+        }
+      })
+    );
+  }
+
+  closeReport(): void {
+    this.report = null;
+  }
+
+  // Chart helpers: bar heights are a share of the busiest period
+  get largestPeriod(): number {
+    return Math.max(...(this.report?.periods || []).map(period => period.totalFines), 0);
+  }
+
+  barHeight(period: FineReportPeriod, key: ReportAmount): number {
+    const largest = this.largestPeriod;
+    return largest ? (period[key] / largest) * 100 : 0;
+  }
+
+  // Share of the report's total fines, for the overall split bar
+  shareOf(key: ReportAmount): number {
+    if (!this.report?.totalFines) return 0;
+    return Math.round((this.report[key] / this.report.totalFines) * 1000) / 10;
+  }
+
+  // Label every period when there are a dozen or fewer, otherwise thin them out
+  showPeriodLabel(index: number): boolean {
+    const count = this.report?.periods.length || 0;
+    return index % Math.ceil(count / 12) === 0;
+  }
+
+  exportPdf(): void {
+    if (!this.report) return;
+    this.fineService.downloadFineReportPdf(this.report);
+  }
+
+  exportCsv(): void {
+    if (!this.report) return;
+
+    this.isExportingCsv = true;
+    this.subscriptions.add(
+      this.fineService.downloadFineReportCsv(this.report.reportId).subscribe({
+        next: () => this.isExportingCsv = false,
+        error: (error) => {
+          console.error('Error exporting fine report:', error);
+          this.isExportingCsv = false;
+          this.showError('Failed to export the report.');
+        }
+      })
+    );
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
@@ -0,0 +1,300 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { FineService } from '../../services/fine.service';
+import { FineBatchReport, FineCalculationRule, LibraryClosure } from '../../models/fine.model';
+import { MembershipType } from '../../models/policy.model';
+
+@Component({
+  selector: 'app-admin-fine-rules',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './admin-fine-rules.component.html',
+  styleUrls: ['./admin-fine-rules.component.css']
+})
+export class AdminFineRulesComponent implements OnInit, OnDestroy {
+  readonly membershipTypes: MembershipType[] = ['BASIC', 'STUDENT', 'PREMIUM', 'FACULTY'];
+
+  // Rules
+  rules: FineCalculationRule[] = [];
+  ruleForm!: FormGroup;
+  showRuleForm = false;
+  editingRuleId: string | null = null;
+  ruleMembershipTypes = new Set<MembershipType>();
+  isSavingRule = false;
+
+  // Closures
+  closures: LibraryClosure[] = [];
+  closureForm!: FormGroup;
+
+  // Recalculation runs
+  runs: FineBatchReport[] = [];
+  expandedRun: FineBatchReport | null = null;
+  isRunning = false;
+
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(private fb: FormBuilder, private fineService: FineService) {
+    this.ruleForm = this.fb.group({
+      name: ['', [Validators.required, Validators.maxLength(80)]],
+      description: ['', Validators.maxLength(300)],
+      dailyFineAmount: [5, [Validators.required, Validators.min(0), Validators.max(100000)]],
+      gracePeriodDays: [0, [Validators.required, Validators.min(0), Validators.max(90)]],
+      maxFineAmount: [null, [Validators.min(0), Validators.max(100000)]],
+      applicableFrom: ['', Validators.required],
+      applicableTo: [''],
+      isActive: [true]
+    });
+
+    this.closureForm = this.fb.group({
+      startDate: ['', Validators.required],
+      endDate: [''],
+      reason: ['', [Validators.required, Validators.maxLength(120)]]
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadRules();
+    this.loadClosures();
+    this.loadRuns();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadRules(): void {
+    this.subscriptions.add(
+      this.fineService.getFineRules().subscribe({
+        next: (rules) => this.rules = rules,
+        error: (error) => {
+          console.error('Error loading fine rules:', error);
+          this.showError('Failed to load fine rules.');
+        }
+      })
+    );
+  }
+
+  loadClosures(): void {
+    this.subscriptions.add(
+      this.fineService.getClosures().subscribe({
+        next: (closures) => this.closures = closures,
+        error: (error) => console.error('Error loading closures:', error)
+      })
+    );
+  }
+
+  loadRuns(): void {
+    this.subscriptions.add(
+      this.fineService.getFineRuns(0, 10).subscribe({
+        next: (page) => this.runs = page.content,
+        error: (error) => console.error('Error loading fine runs:', error)
+      })
+    );
+  }
+
+  // Rules
+  openRuleForm(rule?: FineCalculationRule): void {
+    this.editingRuleId = rule?.id || null;
+    this.ruleForm.reset({
+      name: rule?.name || '',
+      description: rule?.description || '',
+      dailyFineAmount: rule?.dailyFineAmount ?? 5,
+      gracePeriodDays: rule?.gracePeriodDays ?? 0,
+      maxFineAmount: rule?.maxFineAmount ?? null,
+      applicableFrom: rule ? this.toDateInput(rule.applicableFrom) : this.toDateInput(new Date()),
+      applicableTo: rule?.applicableTo ? this.toDateInput(rule.applicableTo) : '',
+      isActive: rule?.isActive ?? true
+    });
+    this.ruleMembershipTypes = new Set(rule?.membershipTypes || []);
+    this.showRuleForm = true;
+  }
+
+  closeRuleForm(): void {
+    this.showRuleForm = false;
+    this.editingRuleId = null;
+  }
+
+  toggleMembershipType(type: MembershipType): void {
+    if (this.ruleMembershipTypes.has(type)) {
+      this.ruleMembershipTypes.delete(type);
+    } else {
+      this.ruleMembershipTypes.add(type);
+    }
+  }
+
+  saveRule(): void {
+    if (this.ruleForm.invalid) {
+      this.ruleForm.markAllAsTouched();
+      return;
+    }
+
+    const value = this.ruleForm.value;
+    this.isSavingRule = true;
+    this.subscriptions.add(
+      this.fineService.saveFineRule({
+        ...value,
+        maxFineAmount: value.maxFineAmount || 0,
+        applicableTo: value.applicableTo || null,
+        membershipTypes: Array.from(this.ruleMembershipTypes)
+      }, this.editingRuleId || undefined).subscribe({
+        next: (response) => {
+          this.isSavingRule = false;
+          this.closeRuleForm();
+          this.loadRules();
+          this.showSuccess(`${response.message} Run a recalculation to apply it to existing fines.`);
+        },
+        error: (error) => {
+          console.error('Error saving fine rule:', error);
+          this.isSavingRule = false;
+          this.showError(error.error?.message || 'Failed to save the fine rule.');
+        }
+      })
+    );
+  }
+
+  toggleRuleActive(rule: FineCalculationRule): void {
+    this.subscriptions.add(
+      this.fineService.saveFineRule({ isActive: !rule.isActive }, rule.id).subscribe({
+        next: (response) => {
+          this.rules = this.rules.map(existing => existing.id === rule.id ? response.rule : existing);
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error updating fine rule:', error);
+          this.showError(error.error?.message || 'Failed to update the fine rule.');
+        }
+      })
+    );
+  }
+
+  deleteRule(rule: FineCalculationRule): void {
+    if (!confirm(`Delete the fine rule "${rule.name}"? Fines keep their amounts until the next recalculation.`)) {
+      return;
+    }
+
+    this.subscriptions.add(
+      this.fineService.deleteFineRule(rule.id).subscribe({
+        next: (response) => {
+          this.rules = this.rules.filter(existing => existing.id !== rule.id);
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error deleting fine rule:', error);
+          this.showError(error.error?.message || 'Failed to delete the fine rule.');
+        }
+      })
+    );
+  }
+
+  getRuleFieldError(fieldName: string): string {
+    const field = this.ruleForm.get(fieldName);
+    if (field && field.errors && field.touched) {
+      const errors = field.errors;
+      if (errors['required']) return 'Required.';
+      if (errors['maxlength']) return `Cannot exceed ${errors['maxlength'].requiredLength} characters.`;
+      if (errors['min']) return `Must be at least ${errors['min'].min}.`;
+      if (errors['max']) return `Cannot exceed ${errors['max'].max}.`;
+    }
+    return '';
+  }
+
+  formatMembership(rule: FineCalculationRule): string {
+    return rule.membershipTypes?.length ? rule.membershipTypes.join(', ') : 'All members';
+  }
+
+  // Closures
+  addClosure(): void {
+    if (this.closureForm.invalid) {
+      this.closureForm.markAllAsTouched();
+      return;
+    }
+
+    const { startDate, endDate, reason } = this.closureForm.value;
+    this.subscriptions.add(
+      this.fineService.addClosure({ startDate, endDate: endDate || startDate, reason }).subscribe({
+        next: (response) => {
+          this.closureForm.reset({ startDate: '', endDate: '', reason: '' });
+          this.loadClosures();
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error adding closure:', error);
+          this.showError(error.error?.message || 'Failed to add the closure.');
+        }
+      })
+    );
+  }
+
+  deleteClosure(closure: LibraryClosure): void {
+    this.subscriptions.add(
+      this.fineService.deleteClosure(closure.id).subscribe({
+        next: (response) => {
+          this.closures = this.closures.filter(existing => existing.id !== closure.id);
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error removing closure:', error);
+          this.showError(error.error?.message || 'Failed to remove the closure.');
+        }
+      })
+    );
+  }
+
+  // Runs
+  runNow(): void {
+    this.isRunning = true;
+    this.subscriptions.add(
+      this.fineService.recalculateFines().subscribe({
+        next: (response) => {
+          this.isRunning = false;
+          this.expandedRun = response.report || null;
+          this.loadRuns();
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error recalculating fines:', error);
+          this.isRunning = false;
+          this.showError(error.error?.message || 'Failed to recalculate fines.');
+        }
+      })
+    );
+  }
+
+  toggleRun(run: FineBatchReport): void {
+    if (this.expandedRun?.id === run.id) {
+      this.expandedRun = null;
+      return;
+    }
+
+    this.subscriptions.add(
+      this.fineService.getFineRun(run.id).subscribe({
+        next: (report) => this.expandedRun = report,
+        error: (error) => {
+          console.error('Error loading fine run:', error);
+          this.showError('Failed to load the run report.');
+        }
+      })
+    );
+  }
+
+  private toDateInput(value: Date | string): string {
+    return new Date(value).toISOString().slice(0, 10);
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
@@ -0,0 +1,34 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { AdminImportComponent } from './admin-import.component';
+
+describe('AdminImportComponent', () => {
+  let component: AdminImportComponent;
+  let fixture: ComponentFixture<AdminImportComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        AdminImportComponent,
+        RouterTestingModule,
+        HttpClientTestingModule
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AdminImportComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should classify preview rows', () => {
+    const book = { title: 'Dune', author: 'Frank Herbert', category: 'Fiction', isbn: '9780441172719', totalCopies: 1 };
+    expect(component.rowStatus({ rowNumber: 1, book, errors: [] })).toBe('valid');
+    expect(component.rowStatus({ rowNumber: 2, book, errors: [], duplicateRowNumber: 1 })).toBe('duplicate');
+    expect(component.rowStatus({ rowNumber: 3, book, errors: ['Author is required.'] })).toBe('invalid');
+  });
+});
@@ -0,0 +1,182 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { BookService } from '../../services/book.service';
+import { CatalogueFormat, ImportPreview, ImportResult, ImportRow } from '../../models/book.model';
+
+type RowStatus = 'valid' | 'invalid' | 'duplicate';
+
+interface FormatOption {
+  value: CatalogueFormat;
+  label: string;
+}
+
+@Component({
+  selector: 'app-admin-import',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './admin-import.component.html',
+  styleUrls: ['./admin-import.component.css']
+})
+export class AdminImportComponent implements OnDestroy {
+  readonly formats: FormatOption[] = [
+    { value: 'csv', label: 'CSV' },
+    { value: 'marc', label: 'MARC21 (ISO 2709)' },
+    { value: 'marcxml', label: 'MARCXML' }
+  ];
+
+  // Import
+  selectedFile: File | null = null;
+  importFormat: CatalogueFormat | '' = '';
+  preview: ImportPreview | null = null;
+  rowFilter: RowStatus | 'all' = 'all';
+  result: ImportResult | null = null;
+  isPreviewing = false;
+  isImporting = false;
+
+  // Export
+  exportingFormat: CatalogueFormat | null = null;
+
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(private bookService: BookService) {}
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.selectedFile = input.files?.[0] || null;
+    this.preview = null;
+    this.result = null;
+  }
+
+  runPreview(): void {
+    if (!this.selectedFile) {
+      this.showError('Choose a file to import first.');
+      return;
+    }
+
+    this.isPreviewing = true;
+    this.result = null;
+    this.subscriptions.add(
+      this.bookService.previewImport(this.selectedFile, this.importFormat || undefined).subscribe({
+        next: (preview) => {
+          this.preview = preview;
+          this.rowFilter = preview.invalidCount > 0 ? 'invalid' : 'all';
+          this.isPreviewing = false;
+        },
+        error: (error) => {
+          console.error('Error previewing import:', error);
+          this.isPreviewing = false;
+          this.showError(error.error?.message || 'Failed to read the import file.');
+        }
+      })
+    );
+  }
+
+  commitImport(): void {
+    if (!this.preview || this.preview.validCount === 0) {
+      return;
+    }
+
+    const books = this.preview.rows.filter(row => this.rowStatus(row) === 'valid').map(row => row.book);
+    if (!confirm(`Add ${books.length} book(s) to the catalogue?`)) {
+      return;
+    }
+
+    this.isImporting = true;
+    this.subscriptions.add(
+      this.bookService.importBooks(books).subscribe({
+        next: (result) => {
+          this.result = result;
+          this.preview = null;
+          this.selectedFile = null;
+          this.isImporting = false;
+          this.resetFileInput();
+          this.showSuccess(result.message);
+        },
+        error: (error) => {
+          console.error('Error importing books:', error);
+          this.isImporting = false;
+          this.showError(error.error?.message || 'Failed to import books.');
+        }
+      })
+    );
+  }
+
+  cancelPreview(): void {
+    this.preview = null;
+    this.selectedFile = null;
+    this.resetFileInput();
+  }
+
+  get visibleRows(): ImportRow[] {
+    if (!this.preview) return [];
+    return this.rowFilter === 'all'
+      ? this.preview.rows
+      : this.preview.rows.filter(row => this.rowStatus(row) === this.rowFilter);
+  }
+
+  rowStatus(row: ImportRow): RowStatus {
+    if (row.errors.length > 0) return 'invalid';
+    if (row.duplicateBookId || row.duplicateRowNumber) return 'duplicate';
+    return 'valid';
+  }
+
+  duplicateNote(row: ImportRow): string {
+    if (row.duplicateBookId) return `Already in catalogue as ${row.duplicateBookId}`;
+    if (row.duplicateRowNumber) return `Same ISBN as row ${row.duplicateRowNumber}`;
+    return '';
+  }
+
+  exportCatalogue(format: CatalogueFormat): void {
+    this.exportingFormat = format;
+
+    this.subscriptions.add(
+      this.bookService.exportCatalogue(format).subscribe({
+        next: (blob) => {
+          const extension = format === 'csv' ? 'csv' : (format === 'marc' ? 'mrc' : 'xml');
+          const url = window.URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `Catalogue_${new Date().toISOString().split('T')[0]}.${extension}`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          window.URL.revokeObjectURL(url);
+          this.exportingFormat = null;
+        },
+        error: (error) => {
+          console.error('Error exporting catalogue:', error);
+          this.exportingFormat = null;
+          this.showError('Failed to export the catalogue.');
+        }
+      })
+    );
+  }
+
+  private resetFileInput(): void {
+    const fileInput = document.getElementById('importInput') as HTMLInputElement;
+    if (fileInput) {
+      fileInput.value = '';
+    }
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
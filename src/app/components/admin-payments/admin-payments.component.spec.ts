@@ -0,0 +1,71 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { AdminPaymentsComponent } from './admin-payments.component';
+import { FineRecord, PaymentRecord } from '../../models/fine.model';
+
+describe('AdminPaymentsComponent', () => {
+  let component: AdminPaymentsComponent;
+  let fixture: ComponentFixture<AdminPaymentsComponent>;
+
+  const fine = (id: string, totalFine: number): FineRecord => ({
+    id,
+    memberId: 'MEM0002',
+    memberName: 'Test Member',
+    bookId: 'BK0001',
+    bookTitle: `Book ${id}`,
+    author: 'Author',
+    borrowId: 'LN0001',
+    dueDate: new Date('2025-05-01'),
+    daysOverdue: 3,
+    dailyFine: 5,
+    totalFine,
+    status: 'PAID',
+    calculatedDate: new Date('2025-05-04')
+  });
+
+  const payment: PaymentRecord = {
+    id: 'PAY0001',
+    paymentId: 'PAY0001',
+    transactionId: 'TXN1',
+    memberId: 'MEM0002',
+    memberName: 'Test Member',
+    amount: 45,
+    paymentMethod: 'card',
+    status: 'COMPLETED',
+    paymentDate: new Date('2025-05-05'),
+    fineRecords: [fine('FN0001', 15), fine('FN0002', 30)],
+    refundedFineIds: ['FN0001']
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        AdminPaymentsComponent,
+        RouterTestingModule,
+        HttpClientTestingModule
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AdminPaymentsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should total the fines ticked for refund', () => {
+    component.togglePayment(payment);
+    component.toggleRefundFine('FN0002');
+    expect(component.selectedRefundTotal).toBe(30);
+    expect(component.isRefunded(payment, 'FN0001')).toBeTrue();
+  });
+
+  it('should not submit a refund without fines', () => {
+    component.submitRefund(payment);
+    expect(component.isRefunding).toBeFalse();
+    expect(component.errorMessage).toContain('at least one fine');
+  });
+});
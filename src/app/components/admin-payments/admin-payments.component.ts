@@ -0,0 +1,197 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { FineService } from '../../services/fine.service';
+import { PaymentRecord, PaymentStatus, RefundRecord } from '../../models/fine.model';
+
+@Component({
+  selector: 'app-admin-payments',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './admin-payments.component.html',
+  styleUrls: ['./admin-payments.component.css']
+})
+export class AdminPaymentsComponent implements OnInit, OnDestroy {
+  readonly statuses: PaymentStatus[] = ['COMPLETED', 'PENDING', 'REFUNDED', 'CANCELLED', 'FAILED'];
+
+  payments: PaymentRecord[] = [];
+  statusFilter = '';
+  searchQuery = '';
+  currentPage = 0;
+  totalPages = 0;
+  isLoading = false;
+
+  // Expanded payment and its refund form
+  expandedPayment: PaymentRecord | null = null;
+  paymentRefunds: RefundRecord[] = [];
+  refundFineIds = new Set<string>();
+  refundForm!: FormGroup;
+  isRefunding = false;
+
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(private fb: FormBuilder, private fineService: FineService) {
+    this.refundForm = this.fb.group({
+      amount: [null, Validators.min(0.01)],
+      reason: ['', [Validators.required, Validators.maxLength(300)]],
+      fineAction: ['REINSTATE', Validators.required]
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadPayments();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadPayments(page: number = 0): void {
+    this.isLoading = true;
+    this.subscriptions.add(
+      this.fineService.getAllPayments(this.statusFilter || undefined, this.searchQuery.trim() || undefined, page).subscribe({
+        next: (response) => {
+          this.payments = response.content;
+          this.currentPage = response.number;
+          this.totalPages = response.totalPages;
+          this.isLoading = false;
+        },
+        error: (error) => {
+          console.error('Error loading payments:', error);
+          this.isLoading = false;
+          this.showError('Failed to load payments.');
+        }
+      })
+    );
+  }
+
+  onStatusFilterChange(event: Event): void {
+    this.statusFilter = (event.target as HTMLSelectElement).value;
+    this.loadPayments();
+  }
+
+  onSearch(event: Event): void {
+    this.searchQuery = (event.target as HTMLInputElement).value;
+    this.loadPayments();
+  }
+
+  togglePayment(payment: PaymentRecord): void {
+    if (this.expandedPayment?.id === payment.id) {
+      this.expandedPayment = null;
+      return;
+    }
+
+    this.expandedPayment = payment;
+    this.paymentRefunds = [];
+    this.refundFineIds.clear();
+    this.refundForm.reset({ amount: null, reason: '', fineAction: 'REINSTATE' });
+    this.subscriptions.add(
+      this.fineService.getPaymentRefunds(payment.paymentId).subscribe({
+        next: (refunds) => this.paymentRefunds = refunds,
+        error: (error) => console.error('Error loading refunds:', error)
+      })
+    );
+  }
+
+  isRefunded(payment: PaymentRecord, fineId: string): boolean {
+    return !!payment.refundedFineIds?.includes(fineId);
+  }
+
+  toggleRefundFine(fineId: string): void {
+    if (this.refundFineIds.has(fineId)) {
+      this.refundFineIds.delete(fineId);
+    } else {
+      this.refundFineIds.add(fineId);
+    }
+  }
+
+  // Full amount paid for the ticked fines; the form may refund less
+  get selectedRefundTotal(): number {
+    return (this.expandedPayment?.fineRecords || [])
+      .filter(fine => this.refundFineIds.has(fine.id))
+      .reduce((sum, fine) => sum + fine.totalFine, 0);
+  }
+
+  submitRefund(payment: PaymentRecord): void {
+    if (this.refundFineIds.size === 0) {
+      this.showError('Select at least one fine to refund.');
+      return;
+    }
+    if (this.refundForm.invalid) {
+      this.refundForm.markAllAsTouched();
+      return;
+    }
+
+    const { amount, reason, fineAction } = this.refundForm.value;
+    if (fineAction === 'REINSTATE' && amount && amount < this.selectedRefundTotal) {
+      this.showError('Reinstated fines are owed again in full, so refund the full amount or close the fines instead.');
+      return;
+    }
+    this.isRefunding = true;
+    this.subscriptions.add(
+      this.fineService.refundPayment(payment.paymentId, {
+        fineIds: Array.from(this.refundFineIds),
+        amount: amount || undefined,
+        reason: reason.trim(),
+        fineAction
+      }).subscribe({
+        next: (response) => {
+          this.isRefunding = false;
+          this.payments = this.payments.map(existing => existing.id === payment.id ? response.payment : existing);
+          this.expandedPayment = null;
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error refunding payment:', error);
+          this.isRefunding = false;
+          this.showError(error.error?.message || 'Failed to refund the payment.');
+        }
+      })
+    );
+  }
+
+  cancelPayment(payment: PaymentRecord): void {
+    if (!confirm(`Cancel payment ${payment.paymentId}?`)) {
+      return;
+    }
+
+    this.subscriptions.add(
+      this.fineService.cancelPayment(payment.paymentId).subscribe({
+        next: (response) => {
+          this.payments = this.payments.map(existing => existing.id === payment.id ? response.payment : existing);
+          this.showSuccess(response.message);
+        },
+        error: (error) => this.showError(error.error?.message || 'Failed to cancel the payment.')
+      })
+    );
+  }
+
+  downloadRefundReceipt(refund: RefundRecord): void {
+    this.fineService.downloadRefundReceipt(refund);
+  }
+
+  getStatusClass(status: PaymentStatus): string {
+    switch (status) {
+      case 'COMPLETED': return 'active';
+      case 'PENDING': return 'warning';
+      case 'FAILED': return 'inactive';
+      default: return '';
+    }
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
@@ -0,0 +1,195 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { BookService } from '../../services/book.service';
+import { PolicyService } from '../../services/policy.service';
+import { BookCategory } from '../../models/book.model';
+import { BorrowingPolicy, MembershipType } from '../../models/policy.model';
+
+@Component({
+  selector: 'app-admin-policies',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './admin-policies.component.html',
+  styleUrls: ['./admin-policies.component.css']
+})
+export class AdminPoliciesComponent implements OnInit, OnDestroy {
+  policies: BorrowingPolicy[] = [];
+  categories: BookCategory[] = [];
+
+  // Membership type whose row is expanded for editing
+  editingType: MembershipType | null = null;
+  policyForm!: FormGroup;
+  restrictedCategories = new Set<string>();
+
+  isLoading = false;
+  isSaving = false;
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private policyService: PolicyService,
+    private bookService: BookService
+  ) {
+    this.policyForm = this.fb.group({
+      loanPeriodDays: [14, [Validators.required, Validators.min(1), Validators.max(365)]],
+      maxBooks: [5, [Validators.required, Validators.min(0), Validators.max(100)]],
+      maxRenewals: [2, [Validators.required, Validators.min(0), Validators.max(10)]],
+      maxExtensionDays: [14, [Validators.required, Validators.min(1), Validators.max(90)]],
+      finePerDay: [5, [Validators.required, Validators.min(0), Validators.max(1000)]],
+      maxFinePerLoan: [0, [Validators.required, Validators.min(0), Validators.max(100000)]],
+      maxOutstandingFines: [0, [Validators.required, Validators.min(0), Validators.max(100000)]],
+      blockWhenOverdue: [true]
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadPolicies();
+    this.subscriptions.add(
+      this.bookService.getBookCategories().subscribe({
+        next: (categories) => this.categories = categories,
+        error: (error) => console.error('Error loading categories:', error)
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadPolicies(): void {
+    this.isLoading = true;
+    this.subscriptions.add(
+      this.policyService.getPolicies().subscribe({
+        next: (policies) => {
+          this.policies = policies;
+          this.isLoading = false;
+        },
+        error: (error) => {
+          console.error('Error loading policies:', error);
+          this.isLoading = false;
+          this.showError('Failed to load borrowing policies.');
+        }
+      })
+    );
+  }
+
+  toggleEdit(policy: BorrowingPolicy): void {
+    if (this.editingType === policy.membershipType) {
+      this.editingType = null;
+      return;
+    }
+
+    this.editingType = policy.membershipType;
+    this.policyForm.reset({
+      loanPeriodDays: policy.loanPeriodDays,
+      maxBooks: policy.maxBooks,
+      maxRenewals: policy.maxRenewals,
+      maxExtensionDays: policy.maxExtensionDays,
+      finePerDay: policy.finePerDay,
+      maxFinePerLoan: policy.maxFinePerLoan,
+      maxOutstandingFines: policy.maxOutstandingFines,
+      blockWhenOverdue: policy.blockWhenOverdue
+    });
+    this.restrictedCategories = new Set(policy.restrictedCategories);
+  }
+
+  toggleCategory(name: string): void {
+    if (this.restrictedCategories.has(name)) {
+      this.restrictedCategories.delete(name);
+    } else {
+      this.restrictedCategories.add(name);
+    }
+  }
+
+  // Categories to offer: the catalogue's, plus any restricted ones no book uses any more
+  get categoryOptions(): string[] {
+    const names = this.categories.map(category => category.name);
+    return [...names, ...Array.from(this.restrictedCategories).filter(name => !names.includes(name))];
+  }
+
+  savePolicy(): void {
+    if (!this.editingType) return;
+    if (this.policyForm.invalid) {
+      this.policyForm.markAllAsTouched();
+      return;
+    }
+
+    const type = this.editingType;
+    this.isSaving = true;
+    this.subscriptions.add(
+      this.policyService.updatePolicy(type, {
+        ...this.policyForm.value,
+        restrictedCategories: Array.from(this.restrictedCategories)
+      }).subscribe({
+        next: (response) => {
+          this.replacePolicy(response.policy);
+          this.editingType = null;
+          this.isSaving = false;
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error saving policy:', error);
+          this.isSaving = false;
+          this.showError(error.error?.message || 'Failed to save the policy.');
+        }
+      })
+    );
+  }
+
+  resetPolicy(policy: BorrowingPolicy): void {
+    if (!confirm(`Reset the ${policy.membershipType} policy to the default rules?`)) {
+      return;
+    }
+
+    this.subscriptions.add(
+      this.policyService.resetPolicy(policy.membershipType).subscribe({
+        next: (response) => {
+          this.replacePolicy(response.policy);
+          this.editingType = null;
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error resetting policy:', error);
+          this.showError(error.error?.message || 'Failed to reset the policy.');
+        }
+      })
+    );
+  }
+
+  getFieldError(fieldName: string): string {
+    const field = this.policyForm.get(fieldName);
+    if (field && field.errors && field.touched) {
+      const errors = field.errors;
+      if (errors['required']) return 'Required.';
+      if (errors['min']) return `Must be at least ${errors['min'].min}.`;
+      if (errors['max']) return `Cannot exceed ${errors['max'].max}.`;
+    }
+    return '';
+  }
+
+  formatFineLimit(amount: number): string {
+    return amount > 0 ? `₹${amount}` : 'No limit';
+  }
+
+  private replacePolicy(policy?: BorrowingPolicy): void {
+    if (!policy) return;
+    this.policies = this.policies.map(existing => existing.membershipType === policy.membershipType ? policy : existing);
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
@@ -0,0 +1,150 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { FineService } from '../../services/fine.service';
+import { FineWaiver, WaiverDecision, WaiverStatus } from '../../models/fine.model';
+
+@Component({
+  selector: 'app-admin-waivers',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './admin-waivers.component.html',
+  styleUrls: ['./admin-waivers.component.css']
+})
+export class AdminWaiversComponent implements OnInit, OnDestroy {
+  readonly statusFilters: { value: string; label: string }[] = [
+    { value: 'OPEN', label: 'Awaiting decision' },
+    { value: 'APPROVED', label: 'Approved' },
+    { value: 'REJECTED', label: 'Rejected' },
+    { value: 'CANCELLED', label: 'Withdrawn' },
+    { value: '', label: 'All requests' }
+  ];
+
+  waivers: FineWaiver[] = [];
+  statusFilter = 'OPEN';
+  currentPage = 0;
+  totalPages = 0;
+  totalElements = 0;
+  isLoading = false;
+
+  expandedWaiver: FineWaiver | null = null;
+  decisionNotes = new FormControl('', Validators.maxLength(500));
+  isDeciding = false;
+
+  successMessage = '';
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(private fineService: FineService) {}
+
+  ngOnInit(): void {
+    this.loadWaivers();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadWaivers(page: number = 0): void {
+    this.isLoading = true;
+    this.subscriptions.add(
+      this.fineService.getWaivers(this.statusFilter || undefined, page).subscribe({
+        next: (response) => {
+          this.waivers = response.content;
+          this.currentPage = response.number;
+          this.totalPages = response.totalPages;
+          this.totalElements = response.totalElements;
+          this.isLoading = false;
+        },
+        error: (error) => {
+          console.error('Error loading waiver requests:', error);
+          this.isLoading = false;
+          this.showError('Failed to load waiver requests.');
+        }
+      })
+    );
+  }
+
+  onStatusFilterChange(event: Event): void {
+    this.statusFilter = (event.target as HTMLSelectElement).value;
+    this.expandedWaiver = null;
+    this.loadWaivers();
+  }
+
+  toggleWaiver(waiver: FineWaiver): void {
+    this.expandedWaiver = this.expandedWaiver?.id === waiver.id ? null : waiver;
+    this.decisionNotes.reset('');
+  }
+
+  isOpen(waiver: FineWaiver): boolean {
+    return waiver.status === 'PENDING' || waiver.status === 'PARTIALLY_APPROVED';
+  }
+
+  decide(waiver: FineWaiver, decision: WaiverDecision['decision']): void {
+    const notes = (this.decisionNotes.value || '').trim();
+    if (decision === 'REJECTED' && !notes) {
+      this.decisionNotes.markAsTouched();
+      this.showError('Please add a note explaining why the request is rejected.');
+      return;
+    }
+    if (this.decisionNotes.invalid) {
+      return;
+    }
+
+    this.isDeciding = true;
+    this.subscriptions.add(
+      this.fineService.decideWaiver(waiver.id, decision, notes || undefined).subscribe({
+        next: (response) => {
+          this.isDeciding = false;
+          this.expandedWaiver = null;
+          this.loadWaivers(this.currentPage);
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error deciding waiver request:', error);
+          this.isDeciding = false;
+          this.showError(error.error?.message || 'Failed to record the decision.');
+        }
+      })
+    );
+  }
+
+  downloadAttachment(waiver: FineWaiver, index: number): void {
+    this.subscriptions.add(
+      this.fineService.downloadWaiverAttachment(waiver, index).subscribe({
+        error: () => this.showError('Failed to download the attachment.')
+      })
+    );
+  }
+
+  getApprovalCount(waiver: FineWaiver): number {
+    return waiver.decisions.filter(decision => decision.decision === 'APPROVED').length;
+  }
+
+  getStatusClass(status: WaiverStatus): string {
+    switch (status) {
+      case 'APPROVED': return 'active';
+      case 'REJECTED': return 'inactive';
+      case 'CANCELLED': return '';
+      default: return 'warning';
+    }
+  }
+
+  formatSize(bytes: number): string {
+    return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    this.errorMessage = '';
+    setTimeout(() => this.successMessage = '', 4000);
+  }
+
+  private showError(message: string): void {
+    this.errorMessage = message;
+    this.successMessage = '';
+    setTimeout(() => this.errorMessage = '', 5000);
+  }
+}
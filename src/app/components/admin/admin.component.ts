@@ -0,0 +1,34 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { NavbarComponent } from '../navbar/navbar.component';
+
+interface AdminLink {
+  path: string;
+  label: string;
+  icon: string;
+  exact: boolean;
+}
+
+@Component({
+  selector: 'app-admin',
+  standalone: true,
+  imports: [CommonModule, RouterModule, NavbarComponent],
+  templateUrl: './admin.component.html',
+  styleUrls: ['./admin.component.css']
+})
+export class AdminComponent {
+  // Sections of the /admin route tree
+  adminLinks: AdminLink[] = [
+    { path: '/admin', label: 'Dashboard', icon: '📊', exact: true },
+    { path: '/admin/books', label: 'Catalogue', icon: '📚', exact: false },
+    { path: '/admin/import', label: 'Import / Export', icon: '🔄', exact: false },
+    { path: '/admin/policies', label: 'Policies', icon: '📏', exact: false },
+    { path: '/admin/fine-rules', label: 'Fine Rules', icon: '⚖️', exact: false },
+    { path: '/admin/waivers', label: 'Waivers', icon: '🙏', exact: false },
+    { path: '/admin/payments', label: 'Payments', icon: '💳', exact: false },
+    { path: '/admin/cash-desk', label: 'Cash Desk', icon: '💵', exact: false },
+    { path: '/admin/fine-reports', label: 'Fine Reports', icon: '📊', exact: false },
+    { path: '/admin/complaints', label: 'Complaints', icon: '💬', exact: false }
+  ];
+}
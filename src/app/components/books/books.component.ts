@@ -6,8 +6,13 @@ import { Subject, Subscription, debounceTime, distinctUntilChanged } from 'rxjs'
 
 import { BookService } from '../../services/book.service';
 import { AuthService } from '../../services/auth.service';
-import { Book, SearchCriteria, SearchResult, BookCategory, BorrowRequest, BorrowItem, PaginatedResponse } from '../../models/book.model';
+import { HoldService } from '../../services/hold.service';
+import { UserService } from '../../services/user.service';
+import { Book, BookBorrower, SearchCriteria, SearchResult, BookCategory, BorrowRequest, BorrowItem, PaginatedResponse } from '../../models/book.model';
 import { AuthUser } from '../../models/auth.model';
+import { Hold } from '../../models/hold.model';
+import { PolicyRejection } from '../../models/policy.model';
+import { UserBorrowInfo } from '../../models/user.model';
 import { NavbarComponent } from '../navbar/navbar.component';
 
 interface ExtendedSearchCriteria extends SearchCriteria {
@@ -20,6 +25,8 @@ interface AvailabilityInfo {
   status: 'Available' | 'Limited' | 'Unavailable';
   message: string;
   nextAvailableDate?: string;
+  borrowers?: BookBorrower[];
+  book?: Book;
 }
 
 @Component({
@@ -47,7 +54,9 @@ export class BooksComponent implements OnInit, OnDestroy {
   
   // User Data
   currentUser: AuthUser | null = null;
-  userBorrowInfo: any = null; // Will be fetched from backend
+  userBorrowInfo: UserBorrowInfo | null = null;
+  myHolds: Hold[] = [];
+  holdingBookId: string | null = null;
   
   // Modal States
   selectedBook: Book | null = null;
@@ -55,6 +64,8 @@ export class BooksComponent implements OnInit, OnDestroy {
   showAvailabilityModal = false;
   showBorrowConfirmModal = false;
   availabilityInfo: AvailabilityInfo | null = null;
+  // Policy rules the server gave for refusing the last borrow request
+  borrowRejections: PolicyRejection[] = [];
   
   // Component States
   isSearching = false;
@@ -67,11 +78,6 @@ export class BooksComponent implements OnInit, OnDestroy {
   errorMessage = '';
   successMessage = '';
   
-  // Constants
-  readonly MAX_BOOKS_PER_USER = 5;
-  readonly BORROW_PERIOD_DAYS = 14;
-  readonly FINE_PER_DAY = 5;
-  
   // Configuration
   searchTypes = [
     { value: 'all', label: 'All Fields' },
@@ -96,6 +102,8 @@ export class BooksComponent implements OnInit, OnDestroy {
     private fb: FormBuilder,
     private bookService: BookService,
     private authService: AuthService,
+    private holdService: HoldService,
+    private userService: UserService,
     public router: Router,
     private route: ActivatedRoute
   ) {
@@ -104,6 +112,9 @@ export class BooksComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.loadUserData();
+    this.subscriptions.add(
+      this.holdService.holds$.subscribe(holds => this.myHolds = holds)
+    );
     this.loadBooks();
     this.loadCategories();
     this.setupSearch();
@@ -135,6 +146,7 @@ export class BooksComponent implements OnInit, OnDestroy {
           this.currentUser = user;
           if (user) {
             this.loadUserBorrowInfo(user.memberId);
+            this.holdService.refresh(user.memberId);
           }
           this.isLoadingUser = false;
         },
@@ -147,15 +159,17 @@ export class BooksComponent implements OnInit, OnDestroy {
     );
   }
 
-  // Load user borrowing information from backend
+  // Load user borrowing information and the borrowing policy for their membership
   private loadUserBorrowInfo(memberId: string): void {
-    // This would typically call a user service to get borrow info
-    // For now, creating mock data structure
-    this.userBorrowInfo = {
-      currentBorrowedCount: 2,
-      fines: 0,
-      overdueBooks: 0
-    };
+    this.subscriptions.add(
+      this.userService.getUserBorrowInfo(memberId).subscribe({
+        next: (borrowInfo) => this.userBorrowInfo = borrowInfo,
+        error: (error) => {
+          console.error('Error loading borrow info:', error);
+          this.userBorrowInfo = null;
+        }
+      })
+    );
   }
 
   // Load books with pagination
@@ -323,12 +337,11 @@ export class BooksComponent implements OnInit, OnDestroy {
     const totalSelected = this.getTotalSelectedCopies();
     const totalAfterBorrow = this.userBorrowInfo.currentBorrowedCount + totalSelected;
     
-    if (totalAfterBorrow > this.MAX_BOOKS_PER_USER) {
-      this.showError(`You cannot borrow more than ${this.MAX_BOOKS_PER_USER} books in total.`);
-    } else if (this.userBorrowInfo.fines > 0) {
-      this.showError(`You have pending fines of ₹${this.userBorrowInfo.fines}. Please clear them before borrowing.`);
-    } else if (this.userBorrowInfo.overdueBooks > 0) {
-      this.showError(`You have ${this.userBorrowInfo.overdueBooks} overdue book(s). Please return them first.`);
+    // A hint only: the server checks the full policy when the request is sent
+    if (totalAfterBorrow > this.userBorrowInfo.maxBooksAllowed) {
+      this.showError(`You cannot borrow more than ${this.userBorrowInfo.maxBooksAllowed} books in total.`);
+    } else if (this.userBorrowInfo.rejectionReasons?.length) {
+      this.showError(this.userBorrowInfo.rejectionReasons[0].message);
     } else {
       this.clearError();
     }
@@ -340,7 +353,7 @@ export class BooksComponent implements OnInit, OnDestroy {
       return;
     }
 
-    if (!book.isAvailable || book.availableCopies === 0) {
+    if (!this.canBorrow(book)) {
       this.onCheckAvailability(book);
       return;
     }
@@ -348,6 +361,7 @@ export class BooksComponent implements OnInit, OnDestroy {
     // Set quantity to 1 and show confirmation
     this.selectedBooks.clear();
     this.selectedBooks.set(book.id, 1);
+    this.borrowRejections = [];
     this.showBorrowConfirmModal = true;
   }
 
@@ -356,14 +370,16 @@ export class BooksComponent implements OnInit, OnDestroy {
       this.showError('Please select at least one book to borrow.');
       return;
     }
+    this.borrowRejections = [];
     this.showBorrowConfirmModal = true;
   }
 
   // Confirm borrow with backend API call
   confirmBorrow(): void {
-    if (!this.currentUser || !this.userBorrowInfo) return;
+    if (!this.currentUser) return;
 
     this.isBorrowing = true;
+    this.borrowRejections = [];
     
     const borrowItems: BorrowItem[] = Array.from(this.selectedBooks.entries()).map(([bookId, quantity]) => ({
       bookId,
@@ -374,7 +390,6 @@ export class BooksComponent implements OnInit, OnDestroy {
       memberId: this.currentUser.memberId,
       borrowItems,
       borrowDate: new Date(),
-      dueDate: new Date(Date.now() + this.BORROW_PERIOD_DAYS * 24 * 60 * 60 * 1000),
       notes: `Borrowed ${this.getTotalSelectedCopies()} book(s)`
     };
 
@@ -390,8 +405,8 @@ export class BooksComponent implements OnInit, OnDestroy {
               `✅ Successfully borrowed: ${borrowedBooksList}. Due date: ${response.dueDate ? new Date(response.dueDate).toLocaleDateString() : this.calculatedDueDate}`
             );
 
-            // Update user borrow count
-            this.userBorrowInfo.currentBorrowedCount += this.getTotalSelectedCopies();
+            // Reload counts and eligibility
+            this.loadUserBorrowInfo(this.currentUser!.memberId);
             
             // Clear selections and close modal
             this.selectedBooks.clear();
@@ -399,6 +414,7 @@ export class BooksComponent implements OnInit, OnDestroy {
             
             // Refresh search results to show updated availability
             this.performSearch();
+            this.holdService.refresh(this.currentUser!.memberId);
           } else {
             this.showError(response.message || 'Failed to borrow books. Please try again.');
           }
@@ -411,7 +427,11 @@ export class BooksComponent implements OnInit, OnDestroy {
           if (error.status === 400) {
             errorMessage = error.error?.message || 'Invalid borrow request.';
           } else if (error.status === 409) {
-            errorMessage = 'Some books are no longer available.';
+            errorMessage = error.error?.message || 'Some books are no longer available.';
+          } else if (error.status === 422) {
+            // Refused by the borrowing policy: keep the modal open and list every reason
+            this.borrowRejections = error.error?.rejectionReasons || [];
+            errorMessage = error.error?.message || 'This request does not meet your borrowing policy.';
           }
           
           this.showError(errorMessage);
@@ -439,43 +459,109 @@ export class BooksComponent implements OnInit, OnDestroy {
     );
   }
 
+  // Holds
+  getHold(book: Book): Hold | undefined {
+    return this.myHolds.find(hold => hold.bookId === book.id);
+  }
+
+  // A copy set aside for the member's hold can be borrowed even though none are on the shelf
+  canBorrow(book: Book): boolean {
+    return (book.isAvailable && book.availableCopies > 0) || this.getHold(book)?.status === 'READY';
+  }
+
+  canPlaceHold(book: Book): boolean {
+    return !!this.currentUser && !this.canBorrow(book) && !this.getHold(book);
+  }
+
+  onPlaceHold(book: Book): void {
+    if (!this.currentUser) {
+      this.showError('Please log in to place a hold.');
+      return;
+    }
+
+    this.holdingBookId = book.id;
+    this.subscriptions.add(
+      this.holdService.placeHold(this.currentUser.memberId, book.id).subscribe({
+        next: (response) => {
+          this.holdingBookId = null;
+          this.showAvailabilityModal = false;
+          this.showSuccess(response.message);
+          if (response.hold?.status === 'READY') {
+            this.performSearch();
+          }
+        },
+        error: (error) => {
+          console.error('Error placing hold:', error);
+          this.holdingBookId = null;
+          this.showError(error.error?.message || 'Failed to place hold.');
+        }
+      })
+    );
+  }
+
+  onCancelHold(hold: Hold): void {
+    if (!confirm(`Cancel your hold on "${hold.bookTitle}"?`)) {
+      return;
+    }
+
+    this.holdingBookId = hold.bookId;
+    this.subscriptions.add(
+      this.holdService.cancelHold(hold).subscribe({
+        next: (response) => {
+          this.holdingBookId = null;
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          console.error('Error cancelling hold:', error);
+          this.holdingBookId = null;
+          this.showError(error.error?.message || 'Failed to cancel hold.');
+        }
+      })
+    );
+  }
+
   onCheckAvailability(book: Book): void {
     // Get real availability info from backend
     this.subscriptions.add(
       this.bookService.getBookBorrowers(book.id).subscribe({
         next: (borrowers) => {
-          this.availabilityInfo = this.calculateAvailabilityInfo(book, borrowers);
+          this.availabilityInfo = { ...this.calculateAvailabilityInfo(book, borrowers), book };
           this.showAvailabilityModal = true;
         },
         error: (error) => {
           console.error('Error checking availability:', error);
-          this.availabilityInfo = this.getAvailabilityInfo(book);
+          this.availabilityInfo = { ...this.getAvailabilityInfo(book), book };
           this.showAvailabilityModal = true;
         }
       })
     );
   }
 
-  private calculateAvailabilityInfo(book: Book, borrowers: any[]): AvailabilityInfo {
-    if (!book.isAvailable || book.availableCopies === 0) {
-      const earliestReturn = borrowers
-        .filter(b => !b.returnDate)
-        .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())[0];
+  private calculateAvailabilityInfo(book: Book, borrowers: BookBorrower[]): AvailabilityInfo {
+    const onLoan = borrowers
+      .filter(b => !b.returnDate)
+      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
 
+    if (!book.isAvailable || book.availableCopies === 0) {
       return {
         status: 'Unavailable',
-        message: `All ${book.totalCopies} copies are currently borrowed.`,
-        nextAvailableDate: earliestReturn?.dueDate
+        message: onLoan.length > 0
+          ? `All ${book.totalCopies} copies are currently borrowed.`
+          : 'No copies are on the shelf right now.',
+        nextAvailableDate: onLoan[0]?.dueDate,
+        borrowers: onLoan
       };
     } else if (book.availableCopies === 1) {
       return {
         status: 'Limited',
-        message: `Only 1 copy remaining out of ${book.totalCopies} total copies.`
+        message: `Only 1 copy remaining out of ${book.totalCopies} total copies.`,
+        borrowers: onLoan
       };
     } else {
       return {
         status: 'Available',
-        message: `${book.availableCopies} of ${book.totalCopies} copies available.`
+        message: `${book.availableCopies} of ${book.totalCopies} copies available.`,
+        borrowers: onLoan
       };
     }
   }
@@ -506,6 +592,7 @@ export class BooksComponent implements OnInit, OnDestroy {
     this.showBorrowConfirmModal = false;
     this.selectedBook = null;
     this.availabilityInfo = null;
+    this.borrowRejections = [];
   }
 
   clearSearch(): void {
@@ -534,12 +621,21 @@ export class BooksComponent implements OnInit, OnDestroy {
     });
   }
 
+  // Expected due date from the member's policy; the server sets the actual one
   get calculatedDueDate(): string {
+    const loanPeriodDays = this.userBorrowInfo?.policy?.loanPeriodDays;
+    if (!loanPeriodDays) {
+      return 'Set by your membership policy';
+    }
     const dueDate = new Date();
-    dueDate.setDate(dueDate.getDate() + this.BORROW_PERIOD_DAYS);
+    dueDate.setDate(dueDate.getDate() + loanPeriodDays);
     return dueDate.toLocaleDateString();
   }
 
+  get finePerDay(): number | null {
+    return this.userBorrowInfo?.policy?.finePerDay ?? null;
+  }
+
   getAvailabilityClass(book: Book): string {
     if (!book.isAvailable || book.availableCopies === 0) {
       return 'availability-unavailable';
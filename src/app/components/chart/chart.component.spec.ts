@@ -0,0 +1,51 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ChartComponent } from './chart.component';
+
+describe('ChartComponent', () => {
+  let component: ChartComponent;
+  let fixture: ComponentFixture<ChartComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ChartComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ChartComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should stack bars on top of each other', () => {
+    component.labels = ['Jan', 'Feb'];
+    component.series = [
+      { label: 'Paid', values: [10, 20], color: '#27ae60' },
+      { label: 'Waived', values: [10, 0], color: '#f39c12' }
+    ];
+    component.stacked = true;
+    component.ngOnChanges();
+
+    const [paidJan, waivedJan] = component.bars;
+    expect(component.bars.length).toBe(4);
+    expect(paidJan.x).toBe(waivedJan.x);
+    expect(waivedJan.y + waivedJan.height).toBeCloseTo(paidJan.y);
+  });
+
+  it('should split a donut by share of the total', () => {
+    component.type = 'donut';
+    component.slices = [
+      { label: 'Fiction', value: 30, color: '#3498db' },
+      { label: 'History', value: 10, color: '#9b59b6' }
+    ];
+    component.ngOnChanges();
+
+    expect(component.sliceTotal).toBe(40);
+    expect(component.percentOf(30)).toBe(75);
+    expect(component.arcs[1].dashOffset).toBeCloseTo(-component.circumference * 0.75);
+  });
+});
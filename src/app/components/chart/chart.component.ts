@@ -0,0 +1,185 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartSeries, ChartSlice, ChartType } from '../../models/chart.model';
+
+interface PlotBar {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  title: string;
+}
+
+interface PlotLine {
+  color: string;
+  points: string;
+  dots: { x: number; y: number; title: string }[];
+}
+
+interface PlotArc {
+  color: string;
+  dashArray: string;
+  dashOffset: number;
+  title: string;
+}
+
+/**
+ * Small SVG chart for bar (grouped or stacked), line and donut data.
+ * Everything is computed from the inputs, with no DOM or window access, so it renders the same under SSR.
+ */
+@Component({
+  selector: 'app-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './chart.component.html',
+  styleUrls: ['./chart.component.css']
+})
+export class ChartComponent implements OnChanges {
+  @Input() type: ChartType = 'bar';
+  @Input() labels: string[] = [];
+  @Input() series: ChartSeries[] = [];
+  @Input() slices: ChartSlice[] = [];
+  @Input() stacked = false;
+  @Input() valuePrefix = '';
+  @Input() valueSuffix = '';
+  @Input() ariaLabel = '';
+
+  // viewBox size; the SVG scales to its container
+  readonly width = 600;
+  readonly height = 240;
+  readonly plot = { left: 48, right: 590, top: 12, bottom: 212 };
+  readonly radius = 70;
+  readonly circumference = 2 * Math.PI * this.radius;
+
+  ticks: { y: number; label: string }[] = [];
+  xLabels: { x: number; label: string }[] = [];
+  bars: PlotBar[] = [];
+  lines: PlotLine[] = [];
+  arcs: PlotArc[] = [];
+  sliceTotal = 0;
+
+  ngOnChanges(): void {
+    this.bars = [];
+    this.lines = [];
+    this.arcs = [];
+    if (this.type === 'donut') {
+      this.layoutDonut();
+    } else {
+      this.layoutAxes();
+      if (this.type === 'bar') {
+        this.layoutBars();
+      } else {
+        this.layoutLines();
+      }
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.type === 'donut'
+      ? this.sliceTotal === 0
+      : this.labels.length === 0 || this.series.every(s => s.values.every(value => !value));
+  }
+
+  format(value: number): string {
+    return `${this.valuePrefix}${Math.round(value * 100) / 100}${this.valueSuffix}`;
+  }
+
+  percentOf(value: number): number {
+    return this.sliceTotal ? Math.round((value / this.sliceTotal) * 100) : 0;
+  }
+
+  private get slotWidth(): number {
+    return (this.plot.right - this.plot.left) / Math.max(this.labels.length, 1);
+  }
+
+  private get maxValue(): number {
+    const totals = this.labels.map((_, index) => this.stacked && this.type === 'bar'
+      ? this.series.reduce((sum, s) => sum + (s.values[index] || 0), 0)
+      : Math.max(0, ...this.series.map(s => s.values[index] || 0)));
+    return this.niceMax(Math.max(0, ...totals));
+  }
+
+  // Round the axis up to four even steps of 1, 2 or 5 times a power of ten
+  private niceMax(value: number): number {
+    if (value <= 0) return 4;
+    const rough = value / 4;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const step = [1, 2, 5, 10].find(multiple => multiple * magnitude >= rough)! * magnitude;
+    return step * 4;
+  }
+
+  private yFor(value: number, max: number): number {
+    return this.plot.bottom - (value / max) * (this.plot.bottom - this.plot.top);
+  }
+
+  private layoutAxes(): void {
+    const max = this.maxValue;
+    this.ticks = [0, 1, 2, 3, 4].map(step => ({ y: this.yFor((max * step) / 4, max), label: this.format((max * step) / 4) }));
+
+    // Thin the labels out so about a dozen fit along the axis
+    const every = Math.ceil(this.labels.length / 12);
+    this.xLabels = this.labels
+      .map((label, index) => ({ x: this.plot.left + this.slotWidth * (index + 0.5), label }))
+      .filter((_, index) => index % every === 0);
+  }
+
+  private layoutBars(): void {
+    const max = this.maxValue;
+    const slot = this.slotWidth;
+    const groupWidth = slot * 0.7;
+    const barWidth = this.stacked ? groupWidth : groupWidth / Math.max(this.series.length, 1);
+
+    this.labels.forEach((label, index) => {
+      const groupLeft = this.plot.left + slot * index + (slot - groupWidth) / 2;
+      let stackTop = this.plot.bottom;
+      this.series.forEach((s, seriesIndex) => {
+        const value = s.values[index] || 0;
+        const height = this.plot.bottom - this.yFor(value, max);
+        const y = this.stacked ? stackTop - height : this.plot.bottom - height;
+        if (this.stacked) {
+          stackTop -= height;
+        }
+        this.bars.push({
+          x: this.stacked ? groupLeft : groupLeft + barWidth * seriesIndex,
+          y,
+          width: Math.max(barWidth - 1, 1),
+          height,
+          color: s.color,
+          title: `${label} · ${s.label}: ${this.format(value)}`
+        });
+      });
+    });
+  }
+
+  private layoutLines(): void {
+    const max = this.maxValue;
+    this.lines = this.series.map(s => {
+      const dots = this.labels.map((label, index) => ({
+        x: this.plot.left + this.slotWidth * (index + 0.5),
+        y: this.yFor(s.values[index] || 0, max),
+        title: `${label} · ${s.label}: ${this.format(s.values[index] || 0)}`
+      }));
+      return { color: s.color, points: dots.map(dot => `${dot.x},${dot.y}`).join(' '), dots };
+    });
+  }
+
+  // Each slice is a dashed stroke on the same circle, offset by the slices before it
+  private layoutDonut(): void {
+    const slices = this.slices.filter(slice => slice.value > 0);
+    this.sliceTotal = slices.reduce((sum, slice) => sum + slice.value, 0);
+
+    let offset = 0;
+    this.arcs = slices.map(slice => {
+      const length = (slice.value / this.sliceTotal) * this.circumference;
+      const arc = {
+        color: slice.color,
+        dashArray: `${length} ${this.circumference - length}`,
+        dashOffset: -offset,
+        title: `${slice.label}: ${this.format(slice.value)} (${this.percentOf(slice.value)}%)`
+      };
+      offset += length;
+      return arc;
+    });
+  }
+}
@@ -51,7 +51,8 @@ describe('ComplaintsComponent', () => {
       'Open': 0,
       'In Progress': 0,
       'Resolved': 0,
-      'Closed': 0
+      'Closed': 0,
+      'Escalated': 0
     }));
 
     fixture.detectChanges();
@@ -88,4 +89,39 @@ describe('ComplaintsComponent', () => {
     expect(complaintServiceSpy.getUserComplaints).toHaveBeenCalled();
     expect(complaintServiceSpy.getComplaintStats).toHaveBeenCalled();
   });
+
+  it('should count down the SLA and flag breached complaints', () => {
+    const submitted = new Date('2026-01-01T00:00:00Z');
+    const complaint: any = {
+      id: 'CMP0001',
+      status: 'Open',
+      priority: 'High',
+      submissionDate: submitted,
+      estimatedResolutionDate: new Date(submitted.getTime() + 24 * 3600000)
+    };
+
+    component.slaNow = submitted.getTime() + 2 * 3600000;
+    expect(component.getSlaClass(complaint)).toBe('sla-on-track');
+    expect(component.getSlaLabel(complaint)).toContain('22h 0m left');
+
+    component.slaNow = submitted.getTime() + 26 * 3600000;
+    expect(component.getSlaClass(complaint)).toBe('sla-breached');
+    expect(component.getSlaLabel(complaint)).toContain('Overdue by 2h');
+  });
+
+  it('should count unread support replies and show receipts on the member\'s own', () => {
+    const complaint: any = {
+      id: 'CMP0001',
+      status: 'Resolved',
+      responses: [
+        { id: 'RSP0001', responderType: 'MEMBER', message: 'Any update?', timestamp: new Date(), readAt: new Date() },
+        { id: 'RSP0002', responderType: 'ADMIN', message: 'Refunded.', timestamp: new Date() }
+      ]
+    };
+
+    expect(component.getUnreadReplyCount(complaint)).toBe(1);
+    expect(component.getReadReceipt(complaint.responses[0])).toContain('✓✓ Read');
+    expect(component.getReadReceipt(complaint.responses[1])).toBe('');
+    expect(component.canReopenFromReply(complaint)).toBeTrue();
+  });
 });
@@ -1,8 +1,8 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
-import { CommonModule } from '@angular/common';
+import { Component, OnInit, OnDestroy, Inject, PLATFORM_ID } from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { RouterModule, Router } from '@angular/router';
-import { Subscription, debounceTime } from 'rxjs';
+import { Subscription, debounceTime, interval } from 'rxjs';
 
 import { ComplaintService } from '../../services/complaint.service';
 import { AuthService } from '../../services/auth.service';
@@ -13,6 +13,7 @@ import {
   ContactPreference,
   ComplaintStatus,
   ComplaintAction,
+  ComplaintResponseEntry,
   ComplaintStatistics,
   ComplaintSearchRequest
 } from '../../models/complaint.model';
@@ -30,6 +31,7 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
   // Forms
   complaintForm!: FormGroup;
   searchForm!: FormGroup;
+  replyForm!: FormGroup;
   
   // Data
   complaints: Complaint[] = [];
@@ -61,6 +63,7 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
   isLoading = false;
   isLoadingStats = false;
   isUpdating = false;
+  isReplying = false;
   editingComplaintId: string | null = null;
 
   // Messages
@@ -70,7 +73,10 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
   // Configuration
   complaintCategories: ComplaintCategory[] = [];
   contactPreferences: ContactPreference[] = ['Email', 'Phone'];
-  statusOptions: ComplaintStatus[] = ['Open', 'In Progress', 'Resolved', 'Closed'];
+  statusOptions: ComplaintStatus[] = ['Open', 'In Progress', 'Resolved', 'Closed', 'Escalated'];
+
+  // Clock the SLA badges count down against; ticks every minute in the browser
+  slaNow = Date.now();
 
   private subscriptions = new Subscription();
 
@@ -78,7 +84,8 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
     private fb: FormBuilder,
     private complaintService: ComplaintService,
     private authService: AuthService,
-    public router: Router
+    public router: Router,
+    @Inject(PLATFORM_ID) private platformId: Object
   ) {
     this.initializeForms();
   }
@@ -90,6 +97,7 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
     this.loadComplaintStats();
     this.setupRealtimeUpdates();
     this.setupSearch();
+    this.startSlaClock();
   }
 
   ngOnDestroy(): void {
@@ -121,6 +129,12 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
       dateFrom: [''],
       dateTo: ['']
     });
+
+    // Reply in the complaint thread
+    this.replyForm = this.fb.group({
+      message: ['', [Validators.required, Validators.maxLength(2000)]],
+      reopen: [false]
+    });
   }
 
   private loadCurrentUser(): void {
@@ -383,6 +397,10 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
         next: (detailedComplaint) => {
           this.selectedComplaint = detailedComplaint;
           this.showComplaintDetails = true;
+          this.replyForm.reset({ message: '', reopen: false });
+          if (this.getUnreadReplyCount(detailedComplaint) > 0) {
+            this.markRepliesRead(detailedComplaint.id);
+          }
         },
         error: (error) => {
           console.error('Error loading complaint details:', error);
@@ -399,6 +417,61 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
     this.selectedComplaint = null;
   }
 
+  // Opening the thread is what sends read receipts for the support team's replies
+  private markRepliesRead(complaintId: string): void {
+    this.subscriptions.add(
+      this.complaintService.markResponsesRead(complaintId).subscribe({
+        next: (complaint) => this.replaceComplaint(complaint),
+        error: (error) => console.error('Mark replies read error:', error)
+      })
+    );
+  }
+
+  onSendReply(): void {
+    if (!this.selectedComplaint || this.replyForm.invalid) {
+      this.replyForm.markAllAsTouched();
+      return;
+    }
+
+    const { message, reopen } = this.replyForm.value;
+    const trimmed = (message || '').trim();
+    if (!trimmed) {
+      this.showError('Please write a reply before sending.');
+      return;
+    }
+
+    const reopening = reopen && this.canReopenFromReply(this.selectedComplaint);
+    this.isReplying = true;
+    this.subscriptions.add(
+      this.complaintService.addComplaintResponse(this.selectedComplaint.id, trimmed, { reopen: reopening }).subscribe({
+        next: (response) => {
+          if (response.complaint) {
+            this.replaceComplaint(response.complaint);
+          }
+          if (reopening) {
+            this.loadComplaintStats();
+          }
+          this.replyForm.reset({ message: '', reopen: false });
+          this.showSuccess(response.message);
+          this.isReplying = false;
+        },
+        error: (error) => {
+          console.error('Send reply error:', error);
+          this.showError(error.error?.message || 'Unable to send your reply. Please try again later.');
+          this.isReplying = false;
+        }
+      })
+    );
+  }
+
+  private replaceComplaint(complaint: Complaint): void {
+    if (this.selectedComplaint?.id === complaint.id) {
+      this.selectedComplaint = complaint;
+    }
+    this.complaints = this.complaints.map(c => c.id === complaint.id ? complaint : c);
+    this.applyCurrentFilters();
+  }
+
   onConfirmResolution(complaintId: string): void {
     const confirmationMessage = 'Are you sure you want to confirm that this complaint has been resolved to your satisfaction?';
     if (!confirm(confirmationMessage)) return;
@@ -577,6 +650,65 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
     this.loadComplaintStats();
   }
 
+  // An interval would keep server rendering from ever settling, so the clock only runs in the browser
+  private startSlaClock(): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+    this.subscriptions.add(
+      interval(60000).subscribe(() => this.slaNow = Date.now())
+    );
+  }
+
+  // SLA badges: how long is left on an open complaint, or whether a finished one met its target
+  getSlaLabel(complaint: Complaint): string {
+    if (!complaint.estimatedResolutionDate) {
+      return '';
+    }
+    const deadline = new Date(complaint.estimatedResolutionDate).getTime();
+    if (complaint.status === 'Resolved' || complaint.status === 'Closed') {
+      if (!complaint.actualResolutionDate) {
+        return '';
+      }
+      return new Date(complaint.actualResolutionDate).getTime() <= deadline ? '✅ SLA met' : '⚠️ SLA missed';
+    }
+
+    const remaining = deadline - this.slaNow;
+    return remaining < 0
+      ? `🚨 Overdue by ${this.formatDuration(-remaining)}`
+      : `⏱️ ${this.formatDuration(remaining)} left`;
+  }
+
+  getSlaClass(complaint: Complaint): string {
+    if (!complaint.estimatedResolutionDate) {
+      return '';
+    }
+    const deadline = new Date(complaint.estimatedResolutionDate).getTime();
+    if (complaint.status === 'Resolved' || complaint.status === 'Closed') {
+      return complaint.actualResolutionDate && new Date(complaint.actualResolutionDate).getTime() <= deadline
+        ? 'sla-met'
+        : 'sla-breached';
+    }
+
+    const remaining = deadline - this.slaNow;
+    const target = deadline - new Date(complaint.submissionDate).getTime();
+    if (remaining < 0) return 'sla-breached';
+    // Matches the server's at-risk share: the last quarter of the target
+    if (remaining <= target * 0.25) return 'sla-at-risk';
+    return 'sla-on-track';
+  }
+
+  private formatDuration(ms: number): string {
+    const hours = Math.floor(ms / 3600000);
+    if (hours >= 24) {
+      return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+    }
+    if (hours >= 1) {
+      return `${hours}h ${Math.floor(ms % 3600000 / 60000)}m`;
+    }
+    return `${Math.max(1, Math.floor(ms / 60000))}m`;
+  }
+
   // UI Helper Methods
   getStatusClass(status: ComplaintStatus): string {
     switch (status) {
@@ -584,6 +716,7 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
       case 'In Progress': return 'status-in-progress';
       case 'Resolved': return 'status-resolved';
       case 'Closed': return 'status-closed';
+      case 'Escalated': return 'status-escalated';
       default: return '';
     }
   }
@@ -604,6 +737,7 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
       case 'In Progress': return '⏳';
       case 'Resolved': return '✅';
       case 'Closed': return '🔒';
+      case 'Escalated': return '⏫';
       default: return '❓';
     }
   }
@@ -638,6 +772,30 @@ export class ComplaintsComponent implements OnInit, OnDestroy {
     return complaint.status === 'Resolved';
   }
 
+  canReopenFromReply(complaint: Complaint): boolean {
+    return complaint.status === 'Resolved' || complaint.status === 'Closed';
+  }
+
+  // Thread helpers: the member's own messages sit on the right and show whether support has read them
+  isOwnResponse(response: ComplaintResponseEntry): boolean {
+    return response.responderType === 'MEMBER';
+  }
+
+  getUnreadReplyCount(complaint: Complaint): number {
+    return (complaint.responses || []).filter(r => !this.isOwnResponse(r) && !r.readAt).length;
+  }
+
+  getReadReceipt(response: ComplaintResponseEntry): string {
+    if (!this.isOwnResponse(response)) {
+      return '';
+    }
+    return response.readAt ? `✓✓ Read ${this.formatDate(response.readAt)}` : '✓ Sent';
+  }
+
+  trackByResponseId(index: number, response: ComplaintResponseEntry): string {
+    return response.id;
+  }
+
   trackByComplaintId(index: number, complaint: Complaint): string {
     return complaint.id;
   }
@@ -6,6 +6,7 @@ import { Subscription, debounceTime } from 'rxjs';
 
 import { DonationService } from '../../services/donation.service';
 import { AuthService } from '../../services/auth.service';
+import { isbnValidator } from '../../utils/isbn.validator';
 import { 
   Donation, 
   DonationFormData, 
@@ -95,6 +96,7 @@ export class DonateBooksComponent implements OnInit, OnDestroy {
     this.donationForm = this.fb.group({
       title: ['', [Validators.required, Validators.minLength(2), Validators.maxLength(100)]],
       author: ['', [Validators.required, Validators.minLength(2), Validators.maxLength(50)]],
+      isbn: ['', isbnValidator()],
       condition: ['', Validators.required],
       quantity: [1, [Validators.required, Validators.min(1), Validators.max(50)]],
       notes: ['', Validators.maxLength(500)]
@@ -335,6 +337,7 @@ export class DonateBooksComponent implements OnInit, OnDestroy {
       const donationData: DonationFormData = {
         title: formValue.title.trim(),
         author: formValue.author.trim(),
+        isbn: formValue.isbn?.trim() || undefined,
         condition: formValue.condition as DonationConditionValue,
         quantity: formValue.quantity,
         notes: formValue.notes?.trim(),
@@ -414,6 +417,7 @@ export class DonateBooksComponent implements OnInit, OnDestroy {
       if (errors['maxlength']) return `${this.getFieldDisplayName(fieldName)} cannot exceed ${errors['maxlength'].requiredLength} characters.`;
       if (errors['min']) return `${this.getFieldDisplayName(fieldName)} must be at least ${errors['min'].min}.`;
       if (errors['max']) return `${this.getFieldDisplayName(fieldName)} cannot exceed ${errors['max'].max}.`;
+      if (errors['isbn']) return 'Enter a valid ISBN-10 or ISBN-13, or leave it blank.';
     }
     return '';
   }
@@ -422,6 +426,7 @@ export class DonateBooksComponent implements OnInit, OnDestroy {
     const displayNames: { [key: string]: string } = {
       title: 'Book Title',
       author: 'Author',
+      isbn: 'ISBN',
       condition: 'Condition',
       quantity: 'Quantity',
       notes: 'Additional Notes'
@@ -4,6 +4,7 @@ import { RouterTestingModule } from '@angular/router/testing';
 import { FinesComponent } from './fines.component';
 import { FineService } from '../../services/fine.service';
 import { AuthService } from '../../services/auth.service';
+import { FineRecord } from '../../models/fine.model';
 import { of } from 'rxjs';
 
 describe('FinesComponent', () => {
@@ -63,4 +64,58 @@ describe('FinesComponent', () => {
     expect(fineServiceSpy.getUserFines).toHaveBeenCalled();
     expect(fineServiceSpy.getUserPayments).toHaveBeenCalled();
   });
+
+  describe('fine selection', () => {
+    function fine(id: string, overrides: Partial<FineRecord> = {}): FineRecord {
+      return {
+        id,
+        memberId: 'TEST001',
+        memberName: 'Test User',
+        bookId: 'BK0001',
+        bookTitle: 'Test Book',
+        author: 'Test Author',
+        borrowId: 'BR0001',
+        dueDate: new Date('2025-03-01'),
+        daysOverdue: 2,
+        dailyFine: 5,
+        totalFine: 10,
+        status: 'PENDING',
+        calculatedDate: new Date('2025-03-03'),
+        ...overrides
+      };
+    }
+
+    const payable = fine('FN0001');
+    const notPayable = [
+      fine('FN0002', { status: 'OVERDUE' }),
+      fine('FN0003', { status: 'PAID' }),
+      fine('FN0004', { status: 'WAIVED' }),
+      fine('FN0005', { waiverId: 'WV0001' }),
+      fine('FN0006', { paymentId: 'PAY0001' })
+    ];
+
+    beforeEach(() => {
+      component.fines = [payable, ...notPayable];
+      component.filteredFines = [payable, ...notPayable];
+      component.selectedFines.clear();
+      component.isLoading = false;
+      fixture.detectChanges();
+    });
+
+    it('only lets unpaid fines for returned books with nothing in progress be paid', () => {
+      expect(component.canPay(payable)).toBeTrue();
+      notPayable.forEach(f => expect(component.canPay(f)).withContext(f.id).toBeFalse());
+    });
+
+    it('leaves fines that cannot be paid out of Select All', () => {
+      component.onSelectAllFines();
+      expect(Array.from(component.selectedFines)).toEqual(['FN0001']);
+    });
+
+    it('disables the checkbox of fines that cannot be paid', () => {
+      const checkbox = (id: string) => fixture.nativeElement.querySelector(`#fine-${id}`) as HTMLInputElement;
+      expect(checkbox('FN0001').disabled).toBeFalse();
+      notPayable.forEach(f => expect(checkbox(f.id).disabled).withContext(f.id).toBeTrue());
+    });
+  });
 });
@@ -1,8 +1,8 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
-import { RouterModule, Router } from '@angular/router';
-import { Subscription, debounceTime } from 'rxjs';
+import { RouterModule, Router, ActivatedRoute } from '@angular/router';
+import { Subscription, debounceTime, switchMap, take, takeWhile, timer } from 'rxjs';
 
 import { FineService } from '../../services/fine.service';
 import { AuthService } from '../../services/auth.service';
@@ -11,17 +11,22 @@ import {
   PaymentRecord, 
   PaymentMethodInfo,
   PaymentRequest,
-  DummyPaymentForm,
+  PaymentResponse,
   PaymentMethod,
-  FineStatistics
+  FineStatistics,
+  FineWaiver,
+  WaiverStatus,
+  RefundRecord
 } from '../../models/fine.model';
 import { AuthUser } from '../../models/auth.model';
+import { ChartSeries, ChartSlice } from '../../models/chart.model';
 import { NavbarComponent } from '../navbar/navbar.component';
+import { ChartComponent } from '../chart/chart.component';
 
 @Component({
   selector: 'app-fines',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterModule, NavbarComponent],
+  imports: [CommonModule, ReactiveFormsModule, RouterModule, NavbarComponent, ChartComponent],
   templateUrl: './fines.component.html',
   styleUrls: ['./fines.component.css']
 })
@@ -32,6 +37,8 @@ export class FinesComponent implements OnInit, OnDestroy {
   selectedFines: Set<string> = new Set();
   paymentHistory: PaymentRecord[] = [];
   paymentMethods: PaymentMethodInfo[] = [];
+  waivers: FineWaiver[] = [];
+  refunds: RefundRecord[] = [];
   currentUser: AuthUser | null = null;
 
   // Statistics
@@ -44,6 +51,14 @@ export class FinesComponent implements OnInit, OnDestroy {
     paymentHistory: []
   };
 
+  // Statistics charts, rebuilt whenever the statistics load
+  monthLabels: string[] = [];
+  monthlyFineSeries: ChartSeries[] = [];
+  monthlyOverdueSeries: ChartSeries[] = [];
+  paymentMonthLabels: string[] = [];
+  paymentSeries: ChartSeries[] = [];
+  categorySlices: ChartSlice[] = [];
+
   // Pagination
   currentPage = 0;
   pageSize = 10;
@@ -53,6 +68,7 @@ export class FinesComponent implements OnInit, OnDestroy {
   // Forms
   paymentForm!: FormGroup;
   searchForm!: FormGroup;
+  waiverForm!: FormGroup;
 
   // UI States
   showPaymentModal = false;
@@ -62,7 +78,23 @@ export class FinesComponent implements OnInit, OnDestroy {
   isLoading = false;
   isLoadingStats = false;
   isProcessingPayment = false;
+  isConfirmingPayment = false;
+  showWaiverModal = false;
+  activeHistoryTab: 'payments' | 'refunds' = 'payments';
+  isSubmittingWaiver = false;
+
+  // Waiver supporting documents (server accepts up to 3 PDF or image files of 5 MB each)
+  readonly maxWaiverFiles = 3;
+  readonly maxWaiverFileBytes = 5 * 1024 * 1024;
+  readonly waiverFileTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+  waiverFiles: File[] = [];
   
+  // UPI QR checkout, shown in the payment modal while we wait for the gateway
+  upiCheckout: PaymentResponse | null = null;
+  upiSecondsLeft = 0;
+  upiError = '';
+  private upiWatch = new Subscription();
+
   // Selected data
   selectedPaymentMethod: PaymentMethodInfo | null = null;
   selectedReceipt: PaymentRecord | null = null;
@@ -77,6 +109,7 @@ export class FinesComponent implements OnInit, OnDestroy {
     private fb: FormBuilder,
     private fineService: FineService,
     private authService: AuthService,
+    private route: ActivatedRoute,
     public router: Router
   ) {
     this.initializeForms();
@@ -87,6 +120,7 @@ export class FinesComponent implements OnInit, OnDestroy {
     this.loadPaymentMethods();
     this.setupRealtimeUpdates();
     this.setupSearch();
+    this.checkReturnedPayment();
   }
 
   ngOnDestroy(): void {
@@ -94,22 +128,9 @@ export class FinesComponent implements OnInit, OnDestroy {
   }
 
   private initializeForms(): void {
-    // Payment form
+    // Payment form; payment details themselves are collected by the gateway
     this.paymentForm = this.fb.group({
-      paymentMethod: ['', Validators.required],
-      // Card fields
-      cardNumber: [''],
-      cardName: [''],
-      expiryMonth: [''],
-      expiryYear: [''],
-      cvv: [''],
-      // UPI field
-      upiId: [''],
-      // Net banking
-      bankName: [''],
-      // Wallet
-      walletProvider: [''],
-      walletNumber: ['']
+      paymentMethod: ['', Validators.required]
     });
 
     // Search form
@@ -121,6 +142,11 @@ export class FinesComponent implements OnInit, OnDestroy {
       dateFrom: [''],
       dateTo: ['']
     });
+
+    // Waiver request form
+    this.waiverForm = this.fb.group({
+      reason: ['', [Validators.required, Validators.minLength(10), Validators.maxLength(1000)]]
+    });
   }
 
   private loadCurrentUser(): void {
@@ -200,8 +226,28 @@ export class FinesComponent implements OnInit, OnDestroy {
       })
     );
 
+    // Load refunds
+    this.subscriptions.add(
+      this.fineService.getUserRefunds(memberId).subscribe({
+        next: (refunds) => this.refunds = refunds,
+        error: (error) => console.error('Failed to load refunds:', error)
+      })
+    );
+
     // Load statistics
     this.loadFineStatistics(memberId);
+
+    // Load waiver requests
+    this.loadWaivers(memberId);
+  }
+
+  private loadWaivers(memberId: string): void {
+    this.subscriptions.add(
+      this.fineService.getMemberWaivers(memberId).subscribe({
+        next: (waivers) => this.waivers = waivers,
+        error: (error) => console.error('Failed to load waiver requests:', error)
+      })
+    );
   }
 
   private loadFineStatistics(memberId: string): void {
@@ -210,6 +256,7 @@ export class FinesComponent implements OnInit, OnDestroy {
       this.fineService.getFineStatistics(memberId).subscribe({
         next: (stats) => {
           this.fineStats = stats;
+          this.buildStatisticsCharts(stats);
           this.isLoadingStats = false;
         },
         error: (error) => {
@@ -220,6 +267,35 @@ export class FinesComponent implements OnInit, OnDestroy {
     );
   }
 
+  private buildStatisticsCharts(stats: FineStatistics): void {
+    this.monthLabels = stats.finesByMonth.map(month => `${month.month} ${month.year}`);
+    this.monthlyFineSeries = [
+      { label: 'Fined', values: stats.finesByMonth.map(month => month.totalFines), color: '#3498db' },
+      { label: 'Paid', values: stats.finesByMonth.map(month => month.totalPaid), color: '#27ae60' },
+      { label: 'Waived', values: stats.finesByMonth.map(month => month.totalWaived), color: '#f39c12' }
+    ];
+    this.monthlyOverdueSeries = [
+      { label: 'Average days overdue', values: stats.finesByMonth.map(month => month.averageDaysOverdue), color: '#9b59b6' }
+    ];
+
+    // Money actually taken, per calendar month of the payment
+    const paidByMonth = new Map<string, number>();
+    stats.paymentHistory
+      .filter(payment => payment.status === 'COMPLETED' || payment.status === 'REFUNDED')
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach(payment => {
+        const label = new Date(payment.date).toLocaleString('en-US', { month: 'short', year: 'numeric' });
+        paidByMonth.set(label, (paidByMonth.get(label) || 0) + payment.amount);
+      });
+    this.paymentMonthLabels = Array.from(paidByMonth.keys());
+    this.paymentSeries = [{ label: 'Paid', values: Array.from(paidByMonth.values()), color: '#27ae60' }];
+
+    const palette = ['#3498db', '#9b59b6', '#e67e22', '#1abc9c', '#e74c3c', '#34495e', '#f1c40f', '#95a5a6'];
+    this.categorySlices = Object.entries(stats.finesByCategory || {})
+      .sort(([, a], [, b]) => b - a)
+      .map(([label, value], index) => ({ label, value, color: palette[index % palette.length] }));
+  }
+
   // Search and Filter Methods
   performSearch(): void {
     const formValue = this.searchForm.value;
@@ -292,8 +368,13 @@ export class FinesComponent implements OnInit, OnDestroy {
     }
   }
 
+  // Matches what /payments/process accepts: a returned book's fine that is not under review or already being paid
+  canPay(fine: FineRecord): boolean {
+    return fine.status === 'PENDING' && !fine.waiverId && !fine.paymentId;
+  }
+
   onSelectAllFines(): void {
-    this.filteredFines.forEach(fine => this.selectedFines.add(fine.id));
+    this.filteredFines.filter(fine => this.canPay(fine)).forEach(fine => this.selectedFines.add(fine.id));
   }
 
   onDeselectAllFines(): void {
@@ -318,6 +399,7 @@ export class FinesComponent implements OnInit, OnDestroy {
   }
 
   onPaymentMethodSelect(method: PaymentMethodInfo): void {
+    if (!method.isEnabled) return;
     this.selectedPaymentMethod = method;
     this.paymentForm.patchValue({ paymentMethod: method.id });
     this.showPaymentForm = true;
@@ -326,13 +408,6 @@ export class FinesComponent implements OnInit, OnDestroy {
   onSubmitPayment(): void {
     if (!this.currentUser || !this.selectedPaymentMethod) return;
 
-    // Validate form based on payment method
-    const validation = this.fineService.validatePaymentData(this.selectedPaymentMethod.id, this.paymentForm.value);
-    if (!validation.isValid) {
-      this.showError(validation.errors.join(', '));
-      return;
-    }
-
     this.isProcessingPayment = true;
     this.clearMessages();
 
@@ -344,17 +419,24 @@ export class FinesComponent implements OnInit, OnDestroy {
       customerInfo: {
         name: this.currentUser.memberName,
         email: this.currentUser.email
-      }
-    };
-
-    const paymentFormData: DummyPaymentForm = {
-      paymentMethod: this.selectedPaymentMethod.id,
-      ...this.paymentForm.value
+      },
+      // The gateway sends the member back here with ?paymentId=
+      returnUrl: '/fines'
     };
 
     this.subscriptions.add(
-      this.fineService.processPayment(paymentRequest, paymentFormData).subscribe({
+      this.fineService.processPayment(paymentRequest).subscribe({
         next: (response) => {
+          if (response.success && response.qrCode) {
+            this.isProcessingPayment = false;
+            this.startUpiCheckout(response);
+            return;
+          }
+          if (response.success && response.gatewayUrl) {
+            // Card, UPI and bank details are entered on the gateway's own page
+            window.location.href = response.gatewayUrl;
+            return;
+          }
           this.isProcessingPayment = false;
           
           if (response.success) {
@@ -385,8 +467,235 @@ export class FinesComponent implements OnInit, OnDestroy {
     );
   }
 
+  // Count down the QR's lifetime and poll until the gateway confirms or it expires
+  private startUpiCheckout(response: PaymentResponse): void {
+    this.stopUpiCheckout();
+    this.upiCheckout = response;
+    this.upiError = '';
+
+    const paymentId = response.paymentId!;
+    const expiresAt = response.expiresAt ? new Date(response.expiresAt).getTime() : Date.now() + 5 * 60 * 1000;
+    this.upiWatch = new Subscription();
+    this.upiWatch.add(
+      timer(0, 1000).subscribe(() => {
+        this.upiSecondsLeft = Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+        if (this.upiSecondsLeft === 0) {
+          this.upiWatch.unsubscribe();
+        }
+      })
+    );
+    this.upiWatch.add(
+      timer(3000, 3000).pipe(
+        switchMap(() => this.fineService.getPaymentById(paymentId)),
+        takeWhile(payment => payment.status === 'PENDING', true)
+      ).subscribe({
+        next: (payment) => {
+          if (payment.status === 'COMPLETED') {
+            this.closePaymentModal();
+            this.showSuccess(`Payment of ₹${payment.amount} received. Your receipt is in the payment history.`);
+            this.selectedFines.clear();
+            this.refreshFines();
+          } else if (payment.status !== 'PENDING') {
+            this.stopUpiCheckout();
+            this.upiError = payment.gatewayResponse?.responseMessage || `Payment ${payment.status.toLowerCase()}.`;
+            this.refreshFines();
+          }
+        },
+        error: (error) => console.error('Error checking UPI payment status:', error)
+      })
+    );
+    this.subscriptions.add(this.upiWatch);
+  }
+
+  private stopUpiCheckout(): void {
+    this.subscriptions.remove(this.upiWatch);
+    this.upiWatch.unsubscribe();
+  }
+
+  isUpiQrExpired(): boolean {
+    return !!this.upiCheckout && this.upiSecondsLeft === 0;
+  }
+
+  formatCountdown(seconds: number): string {
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  // Frees the fines straight away instead of waiting for the QR to time out
+  onCancelUpiPayment(): void {
+    const paymentId = this.upiCheckout?.paymentId;
+    if (!paymentId) return;
+
+    this.subscriptions.add(
+      this.fineService.cancelPayment(paymentId).subscribe({
+        next: (response) => {
+          this.closePaymentModal();
+          this.showSuccess(response.message);
+        },
+        error: (error) => this.upiError = error.error?.message || 'Failed to cancel the payment.'
+      })
+    );
+  }
+
+  // Waiver requests
+  canRequestWaiver(fine: FineRecord): boolean {
+    return fine.status === 'PENDING' && !fine.waiverId;
+  }
+
+  getWaiverEligibleFines(): FineRecord[] {
+    return this.getSelectedFines().filter(fine => this.canRequestWaiver(fine));
+  }
+
+  onRequestWaiver(): void {
+    if (this.getWaiverEligibleFines().length === 0) {
+      this.showError('Select at least one unpaid fine for a returned book that is not already under review.');
+      return;
+    }
+    this.waiverForm.reset({ reason: '' });
+    this.waiverFiles = [];
+    this.showWaiverModal = true;
+  }
+
+  onWaiverFilesChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files || []);
+
+    if (files.length > this.maxWaiverFiles) {
+      this.showError(`You can attach up to ${this.maxWaiverFiles} documents.`);
+      input.value = '';
+      return;
+    }
+    const invalid = files.find(file => !this.waiverFileTypes.includes(file.type) || file.size > this.maxWaiverFileBytes);
+    if (invalid) {
+      this.showError(`"${invalid.name}" must be a PDF, JPEG, PNG or WebP file under 5 MB.`);
+      input.value = '';
+      return;
+    }
+    this.waiverFiles = files;
+  }
+
+  onSubmitWaiver(): void {
+    if (!this.currentUser) return;
+    if (this.waiverForm.invalid) {
+      this.waiverForm.markAllAsTouched();
+      return;
+    }
+
+    const fineIds = this.getWaiverEligibleFines().map(fine => fine.id);
+    this.isSubmittingWaiver = true;
+    this.subscriptions.add(
+      this.fineService.requestWaiver({
+        fineIds,
+        reason: this.waiverForm.value.reason.trim(),
+        requestedBy: this.currentUser.memberId
+      }, this.waiverFiles).subscribe({
+        next: (response) => {
+          this.isSubmittingWaiver = false;
+          this.closeWaiverModal();
+          this.selectedFines.clear();
+          this.waivers = [response.waiver, ...this.waivers];
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          this.isSubmittingWaiver = false;
+          this.showError(error.error?.message || 'Failed to submit the waiver request.');
+        }
+      })
+    );
+  }
+
+  onCancelWaiver(waiver: FineWaiver): void {
+    if (!confirm(`Withdraw waiver request ${waiver.id}?`)) {
+      return;
+    }
+
+    this.subscriptions.add(
+      this.fineService.cancelWaiver(waiver.id).subscribe({
+        next: (response) => {
+          this.waivers = this.waivers.map(existing => existing.id === waiver.id ? response.waiver : existing);
+          this.showSuccess(response.message);
+        },
+        error: (error) => this.showError(error.error?.message || 'Failed to withdraw the waiver request.')
+      })
+    );
+  }
+
+  onDownloadWaiverAttachment(waiver: FineWaiver, index: number): void {
+    this.subscriptions.add(
+      this.fineService.downloadWaiverAttachment(waiver, index).subscribe({
+        error: () => this.showError('Failed to download the attachment.')
+      })
+    );
+  }
+
+  closeWaiverModal(): void {
+    this.showWaiverModal = false;
+    this.waiverFiles = [];
+  }
+
+  getWaiverStatusLabel(status: WaiverStatus): string {
+    switch (status) {
+      case 'PENDING': return 'Under review';
+      case 'PARTIALLY_APPROVED': return 'Awaiting second approval';
+      case 'APPROVED': return 'Approved';
+      case 'REJECTED': return 'Rejected';
+      case 'CANCELLED': return 'Withdrawn';
+    }
+  }
+
+  getWaiverStatusClass(status: WaiverStatus): string {
+    switch (status) {
+      case 'APPROVED': return 'status-completed';
+      case 'REJECTED': return 'status-failed';
+      case 'CANCELLED': return 'status-cancelled';
+      default: return 'status-pending';
+    }
+  }
+
+  // Back from the gateway's page: wait for its confirmation to reach the server
+  private checkReturnedPayment(): void {
+    const paymentId = this.route.snapshot.queryParamMap.get('paymentId');
+    if (!paymentId) return;
+
+    this.isConfirmingPayment = true;
+    this.subscriptions.add(
+      timer(0, 3000).pipe(
+        switchMap(() => this.fineService.getPaymentById(paymentId)),
+        takeWhile(payment => payment.status === 'PENDING', true),
+        take(20)
+      ).subscribe({
+        next: (payment) => {
+          if (payment.status === 'PENDING') return;
+          this.isConfirmingPayment = false;
+          this.router.navigate([], { queryParams: {}, replaceUrl: true });
+          if (payment.status === 'COMPLETED') {
+            this.showSuccess(`Payment of ₹${payment.amount} received. Your receipt is in the payment history.`);
+            this.selectedFines.clear();
+            this.refreshFines();
+          } else {
+            this.showError(payment.gatewayResponse?.responseMessage || `Payment ${payment.status.toLowerCase()}.`);
+            this.refreshFines();
+          }
+        },
+        error: (error) => {
+          console.error('Error checking payment status:', error);
+          this.isConfirmingPayment = false;
+        },
+        complete: () => {
+          if (this.isConfirmingPayment) {
+            this.isConfirmingPayment = false;
+            this.showSuccess('Your payment is still being confirmed. Check the payment history shortly.');
+            this.refreshFines();
+          }
+        }
+      })
+    );
+  }
+
   // Modal controls
   closePaymentModal(): void {
+    this.stopUpiCheckout();
+    this.upiCheckout = null;
+    this.upiError = '';
     this.showPaymentModal = false;
     this.showPaymentForm = false;
     this.selectedPaymentMethod = null;
@@ -411,8 +720,37 @@ export class FinesComponent implements OnInit, OnDestroy {
     );
   }
 
+  hasReceipt(payment: PaymentRecord): boolean {
+    return payment.status === 'COMPLETED' || payment.status === 'REFUNDED';
+  }
+
   onDownloadReceipt(payment: PaymentRecord): void {
-    this.fineService.downloadReceipt(payment);
+    this.subscriptions.add(
+      this.fineService.downloadReceipt(payment.paymentId).subscribe({
+        error: (error) => this.showError(error.error?.message || 'Failed to download the receipt.')
+      })
+    );
+  }
+
+  isFineRefunded(payment: PaymentRecord, fineId: string): boolean {
+    return !!payment.refundedFineIds?.includes(fineId);
+  }
+
+  onDownloadRefundReceipt(refund: RefundRecord): void {
+    this.fineService.downloadRefundReceipt(refund);
+  }
+
+  onCancelPayment(payment: PaymentRecord): void {
+    if (!confirm(`Cancel payment ${payment.paymentId}? The fines will stay outstanding.`)) {
+      return;
+    }
+
+    this.subscriptions.add(
+      this.fineService.cancelPayment(payment.paymentId).subscribe({
+        next: (response) => this.showSuccess(response.message),
+        error: (error) => this.showError(error.error?.message || 'Failed to cancel the payment.')
+      })
+    );
   }
 
   closeReceiptModal(): void {
@@ -468,6 +806,8 @@ export class FinesComponent implements OnInit, OnDestroy {
       case 'failed': return 'status-failed';
       case 'paid': return 'status-paid';
       case 'waived': return 'status-waived';
+      case 'refunded': return 'status-refunded';
+      case 'cancelled': return 'status-cancelled';
       case 'overdue': return 'status-overdue';
       default: return '';
     }
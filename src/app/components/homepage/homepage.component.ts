@@ -21,6 +21,7 @@ import { Book, PaginatedResponse } from '../../models/book.model';
 export class HomepageComponent implements OnInit, OnDestroy {
   currentUser: AuthUser | null = null;
   popularBooks: Book[] = [];
+  recommendedBooks: Book[] = [];
   searchQuery: string = '';
   isLoading = true;
   
@@ -43,6 +44,7 @@ export class HomepageComponent implements OnInit, OnDestroy {
     );
 
     this.loadPopularBooks();
+    this.loadRecommendedBooks();
   }
 
   ngOnDestroy(): void {
@@ -70,8 +72,19 @@ export class HomepageComponent implements OnInit, OnDestroy {
   );
 }
 
-
-   
+  // Only personalized picks get their own section; members who opted out just see the popular books
+  private loadRecommendedBooks(): void {
+    this.subscriptions.add(
+      this.bookService.getRecommendedBooks().subscribe({
+        next: (recommendations) => {
+          this.recommendedBooks = recommendations.personalized ? recommendations.books : [];
+        },
+        error: () => {
+          this.recommendedBooks = [];
+        }
+      })
+    );
+  }
 
   // Keep all your existing navigation methods
   // ✅ FIXED SEARCH METHOD
@@ -72,7 +72,7 @@ export class LoginComponent implements OnInit {
         break;
       case 'reset':
         this.forgotForm = this.fb.group({
-          newPassword: ['', [Validators.required, Validators.minLength(6)]]
+          newPassword: ['', [Validators.required, Validators.minLength(8)]]
         });
         break;
     }
@@ -118,7 +118,7 @@ onSubmit(): void {
       error: (error) => {
         this.isLoading = false;
         console.error('❌ Login error:', error);
-        this.showError('An unexpected error occurred. Please try again.');
+        this.showError(error.error?.message || 'An unexpected error occurred. Please try again.');
       }
     });
   } else {
@@ -207,7 +207,7 @@ onSubmit(): void {
           this.isLoading = false;
           if (response.success) {
             this.tempUserEmail = email;
-            this.secretQuestionText = 'What is your favorite book?'; // This should come from API
+            this.secretQuestionText = response.secretQuestion || 'What is your favorite book?';
             this.forgotStage = 'answer';
             this.forgotErrorMessage = '';
             this.initForgotForm();
@@ -234,6 +234,7 @@ onSubmit(): void {
         next: (response) => {
           this.isLoading = false;
           if (response.success) {
+            this.tempResetToken = response.resetToken || '';
             this.forgotStage = 'reset';
             this.forgotErrorMessage = '';
             this.initForgotForm();
@@ -333,7 +334,7 @@ onSubmit(): void {
         return 'Please enter a valid email address.';
       }
       if (fieldName === 'newPassword' && field.errors['minlength']) {
-        return 'Password must be at least 6 characters long.';
+        return 'Password must be at least 8 characters long.';
       }
     }
     return '';
@@ -11,6 +11,7 @@ import autoTable from 'jspdf-autotable';
 import { UserService } from '../../services/user.service';
 import { AuthService } from '../../services/auth.service';
 import { UserDataService } from '../../services/user-data.service';
+import { HoldService } from '../../services/hold.service';
 import { 
   BorrowHistoryEntry, 
   BorrowStatus, 
@@ -19,6 +20,7 @@ import {
   BorrowSearchRequest 
 } from '../../models/user.model';
 import { AuthUser } from '../../models/auth.model';
+import { Hold } from '../../models/hold.model';
 import { NavbarComponent } from '../navbar/navbar.component';
 
 @Component({
@@ -36,6 +38,8 @@ export class MyBooksComponent implements OnInit, OnDestroy {
   currentUser: AuthUser | null = null;
   userBorrowInfo: UserBorrowInfo | null = null;
   userStatistics: UserStatistics | null = null;
+  holds: Hold[] = [];
+  cancellingHoldId: string | null = null;
 
   // Pagination
   currentPage = 0;
@@ -65,6 +69,7 @@ export class MyBooksComponent implements OnInit, OnDestroy {
     private userService: UserService,
     private authService: AuthService,
     private userDataService: UserDataService,
+    private holdService: HoldService,
     private router: Router
   ) {
     this.initializeForms();
@@ -72,6 +77,9 @@ export class MyBooksComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.loadUserData();
+    this.subscriptions.add(
+      this.holdService.holds$.subscribe(holds => this.holds = holds)
+    );
     this.setupSearchAndFilters();
     this.setupEventListeners();
   }
@@ -142,6 +150,9 @@ export class MyBooksComponent implements OnInit, OnDestroy {
       this.userDataService.userData$.subscribe(userData => {
         console.log('👤 Received user data:', userData);
         
+        if (userData.user && userData.user.memberId !== this.currentUser?.memberId) {
+          this.holdService.refresh(userData.user.memberId);
+        }
         this.currentUser = userData.user;
         this.userBorrowInfo = userData.borrowInfo;
         this.userStatistics = userData.statistics;
@@ -380,9 +391,31 @@ export class MyBooksComponent implements OnInit, OnDestroy {
     );
   }
 
+  // Holds
+  cancelHold(hold: Hold): void {
+    if (!confirm(`Cancel your hold on "${hold.bookTitle}"?`)) return;
+
+    this.cancellingHoldId = hold.id;
+    this.subscriptions.add(
+      this.holdService.cancelHold(hold).subscribe({
+        next: (response) => {
+          this.cancellingHoldId = null;
+          this.showSuccess(response.message);
+        },
+        error: (error) => {
+          this.cancellingHoldId = null;
+          this.showError(error.error?.message || 'Failed to cancel hold.');
+        }
+      })
+    );
+  }
+
   // Data refresh
   refreshData(): void {
     this.userDataService.refreshUserData();
+    if (this.currentUser) {
+      this.holdService.refresh(this.currentUser.memberId);
+    }
   }
 
   // Utility methods
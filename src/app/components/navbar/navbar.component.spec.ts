@@ -1,4 +1,5 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
 
 import { NavbarComponent } from './navbar.component';
 
@@ -8,7 +9,7 @@ describe('NavbarComponent', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [NavbarComponent]
+      imports: [NavbarComponent, HttpClientTestingModule]
     })
     .compileComponents();
 
@@ -20,4 +21,13 @@ describe('NavbarComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should close the notifications when the profile menu opens', () => {
+    component.toggleNotifications();
+    expect(component.showNotifications).toBeTrue();
+
+    component.toggleProfileDropdown();
+    expect(component.showNotifications).toBeFalse();
+    expect(component.showProfileDropdown).toBeTrue();
+  });
 });
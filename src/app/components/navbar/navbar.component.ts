@@ -4,7 +4,9 @@ import { RouterModule, Router } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { Subscription } from 'rxjs';
 import { AuthService } from '../../services/auth.service';
+import { NotificationService } from '../../services/notification.service';
 import { AuthUser } from '../../models/auth.model';
+import { AppNotification } from '../../models/notification.model';
 
 @Component({
   selector: 'app-navbar',
@@ -17,10 +19,14 @@ export class NavbarComponent implements OnInit, OnDestroy {
   currentUser: AuthUser | null = null;
   showProfileDropdown = false;
   showMobileMenu = false;
+  showNotifications = false;
+  notifications: AppNotification[] = [];
+  unreadCount = 0;
   private userSubscription: Subscription = new Subscription();
 
   constructor(
     private authService: AuthService,
+    private notificationService: NotificationService,
     private router: Router
   ) {}
 
@@ -29,16 +35,29 @@ export class NavbarComponent implements OnInit, OnDestroy {
     this.userSubscription = this.authService.currentUser$.subscribe(user => {
       this.currentUser = user;
       console.log('🔄 Navbar updated with new user data:', user?.memberName); // Debug log
+      if (user) {
+        this.notificationService.connect(user.memberId);
+      } else {
+        this.notificationService.disconnect();
+      }
     });
 
-    
-
+    this.userSubscription.add(
+      this.notificationService.notifications$.subscribe(notifications => this.notifications = notifications)
+    );
+    this.userSubscription.add(
+      this.notificationService.unreadCount$.subscribe(count => this.unreadCount = count)
+    );
   }
 
   ngOnDestroy(): void {
     this.userSubscription.unsubscribe();
   }
 
+  get isAdmin(): boolean {
+    return this.authService.hasRole('ADMIN');
+  }
+
   // Rest of your methods remain the same...
   onSearchClick(): void {
     this.router.navigate(['/view']);
@@ -46,6 +65,26 @@ export class NavbarComponent implements OnInit, OnDestroy {
 
   toggleProfileDropdown(): void {
     this.showProfileDropdown = !this.showProfileDropdown;
+    this.showNotifications = false;
+  }
+
+  toggleNotifications(): void {
+    this.showNotifications = !this.showNotifications;
+    this.showProfileDropdown = false;
+  }
+
+  openNotification(notification: AppNotification): void {
+    this.showNotifications = false;
+    if (!notification.readAt) {
+      this.notificationService.markAsRead(notification.id).subscribe({ error: () => {} });
+    }
+    if (notification.link) {
+      this.router.navigateByUrl(notification.link);
+    }
+  }
+
+  markAllNotificationsRead(): void {
+    this.notificationService.markAllAsRead().subscribe({ error: () => {} });
   }
 
   toggleMobileMenu(): void {
@@ -69,6 +108,7 @@ export class NavbarComponent implements OnInit, OnDestroy {
 
   closeDropdowns(): void {
     this.showProfileDropdown = false;
+    this.showNotifications = false;
     this.showMobileMenu = false;
   }
 }
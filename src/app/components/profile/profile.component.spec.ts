@@ -1,4 +1,5 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
 
 import { ProfileComponent } from './profile.component';
 
@@ -8,7 +9,7 @@ describe('ProfileComponent', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [ProfileComponent]
+      imports: [ProfileComponent, HttpClientTestingModule]
     })
     .compileComponents();
 
@@ -20,4 +21,14 @@ describe('ProfileComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should stop adding favourite genres at the limit', () => {
+    for (let i = 0; i < component.maxFavoriteGenres + 2; i++) {
+      component.toggleGenre(`Genre ${i}`);
+    }
+    expect(component.selectedGenres.length).toBe(component.maxFavoriteGenres);
+
+    component.toggleGenre('Genre 0');
+    expect(component.isGenreSelected('Genre 0')).toBeFalse();
+  });
 });
@@ -6,8 +6,9 @@ import { Subscription } from 'rxjs';
 
 import { AuthService } from '../../services/auth.service';
 import { UserService } from '../../services/user.service';
+import { BookService } from '../../services/book.service';
 import { AuthUser } from '../../models/auth.model';
-import { UserProfile, PasswordChangeRequest } from '../../models/user.model';
+import { UserProfile, UserPreferences, PasswordChangeRequest } from '../../models/user.model';
 
 @Component({
   selector: 'app-profile',
@@ -26,6 +27,12 @@ export class ProfileComponent implements OnInit, OnDestroy {
   passwordChangeSuccess = '';
   passwordChangeError = '';
 
+  preferencesForm!: FormGroup;
+  genreOptions: string[] = [];
+  selectedGenres: string[] = [];
+  isSavingPreferences = false;
+  readonly maxFavoriteGenres = 10;
+
   isLoading = false;
   isEditing = false;
   isSaving = false;
@@ -57,14 +64,17 @@ export class ProfileComponent implements OnInit, OnDestroy {
     private fb: FormBuilder,
     private authService: AuthService,
     private userService: UserService,
+    private bookService: BookService,
     public router: Router
   ) {
     this.initializeForm();
     this.initializePasswordForm();
+    this.initializePreferencesForm();
   }
 
   ngOnInit(): void {
     this.loadCurrentUser();
+    this.loadGenreOptions();
   }
 
   ngOnDestroy(): void {
@@ -114,6 +124,7 @@ export class ProfileComponent implements OnInit, OnDestroy {
         next: (profile) => {
           this.userProfile = profile;
           this.populateForm(profile);
+          this.populatePreferences(profile.preferences);
           this.isLoading = false;
           console.log('✅ User profile loaded from backend:', profile);
         },
@@ -178,6 +189,8 @@ export class ProfileComponent implements OnInit, OnDestroy {
           this.authService.updateUserProfile({
             memberName: updatedProfile.memberName,
             email: updatedProfile.email
+          }).subscribe({
+            error: (error) => console.error('❌ Error syncing session profile:', error)
           });
 
           this.isEditing = false;
@@ -313,6 +326,120 @@ export class ProfileComponent implements OnInit, OnDestroy {
     this.authService.logout();
   }
 
+  // Preferences: notifications, privacy, favourite genres and reading goals
+  private initializePreferencesForm(): void {
+    this.preferencesForm = this.fb.group({
+      emailNotifications: [true],
+      smsNotifications: [false],
+      reminderDaysBeforeDue: [2, [Validators.required, Validators.min(0), Validators.max(14)]],
+      overdueNotifications: [true],
+      showReadingHistory: [true],
+      showFavoriteBooks: [true],
+      allowRecommendations: [true],
+      monthlyGoal: [2, [Validators.required, Validators.min(0), Validators.max(100)]],
+      yearlyGoal: [24, [Validators.required, Validators.min(0), Validators.max(1000)]]
+    });
+  }
+
+  private loadGenreOptions(): void {
+    this.subscriptions.add(
+      this.bookService.getBookCategories().subscribe({
+        next: (categories) => {
+          this.genreOptions = categories.map(category => category.name);
+        },
+        error: (error) => console.error('❌ Error loading genres:', error)
+      })
+    );
+  }
+
+  private populatePreferences(preferences?: UserPreferences): void {
+    if (!preferences) {
+      return;
+    }
+    this.selectedGenres = [...preferences.favoriteGenres];
+    this.preferencesForm.reset({
+      ...preferences.notificationSettings,
+      ...preferences.privacySettings,
+      monthlyGoal: preferences.readingGoals?.monthlyGoal ?? 0,
+      yearlyGoal: preferences.readingGoals?.yearlyGoal ?? 0
+    });
+  }
+
+  // Genres saved earlier stay listed even if the catalogue no longer has them
+  get allGenreOptions(): string[] {
+    return Array.from(new Set([...this.genreOptions, ...this.selectedGenres])).sort();
+  }
+
+  isGenreSelected(genre: string): boolean {
+    return this.selectedGenres.includes(genre);
+  }
+
+  toggleGenre(genre: string): void {
+    if (this.isGenreSelected(genre)) {
+      this.selectedGenres = this.selectedGenres.filter(selected => selected !== genre);
+    } else if (this.selectedGenres.length < this.maxFavoriteGenres) {
+      this.selectedGenres = [...this.selectedGenres, genre];
+    }
+    this.preferencesForm.markAsDirty();
+  }
+
+  onSavePreferences(): void {
+    if (this.preferencesForm.invalid) {
+      this.preferencesForm.markAllAsTouched();
+      this.showError('Please check your reminder days and reading goals.');
+      return;
+    }
+
+    if (!this.currentUser) {
+      this.showError('User profile not found.');
+      return;
+    }
+
+    const value = this.preferencesForm.value;
+    if (value.yearlyGoal > 0 && value.monthlyGoal > value.yearlyGoal) {
+      this.showError('Monthly reading goal cannot be more than the yearly goal.');
+      return;
+    }
+
+    const preferences: UserPreferences = {
+      favoriteGenres: this.selectedGenres,
+      notificationSettings: {
+        emailNotifications: value.emailNotifications,
+        smsNotifications: value.smsNotifications,
+        reminderDaysBeforeDue: Number(value.reminderDaysBeforeDue),
+        overdueNotifications: value.overdueNotifications
+      },
+      privacySettings: {
+        showReadingHistory: value.showReadingHistory,
+        showFavoriteBooks: value.showFavoriteBooks,
+        allowRecommendations: value.allowRecommendations
+      },
+      readingGoals: {
+        monthlyGoal: Number(value.monthlyGoal),
+        yearlyGoal: Number(value.yearlyGoal)
+      }
+    };
+
+    this.isSavingPreferences = true;
+    this.clearMessages();
+
+    this.subscriptions.add(
+      this.userService.updateUserProfile(this.currentUser.memberId, { preferences }).subscribe({
+        next: (updatedProfile) => {
+          this.userProfile = updatedProfile;
+          this.populatePreferences(updatedProfile.preferences);
+          this.isSavingPreferences = false;
+          this.showSuccess('Your preferences have been saved.');
+        },
+        error: (error) => {
+          console.error('❌ Error saving preferences:', error);
+          this.showError(error.message || 'Failed to save preferences. Please try again.');
+          this.isSavingPreferences = false;
+        }
+      })
+    );
+  }
+
   // Password change functionality with backend integration
   private initializePasswordForm(): void {
     this.passwordForm = this.fb.group({
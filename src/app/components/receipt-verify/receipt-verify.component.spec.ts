@@ -0,0 +1,48 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { ReceiptVerifyComponent } from './receipt-verify.component';
+
+describe('ReceiptVerifyComponent', () => {
+  let component: ReceiptVerifyComponent;
+  let fixture: ComponentFixture<ReceiptVerifyComponent>;
+  let httpMock: HttpTestingController;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [
+        ReceiptVerifyComponent,
+        RouterTestingModule,
+        HttpClientTestingModule
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ReceiptVerifyComponent);
+    component = fixture.componentInstance;
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should not call the server for a malformed code', () => {
+    component.verifyForm.patchValue({ code: '1234' });
+    component.verify();
+    expect(component.errorMessage).toContain('16 character code');
+    httpMock.expectNone(request => request.url === '/api/receipts/verify');
+  });
+
+  it('should show the server message for an unknown code', () => {
+    component.verifyForm.patchValue({ code: '1a2b-3c4d-5e6f-7a8b' });
+    component.verify();
+
+    const request = httpMock.expectOne(req => req.url === '/api/receipts/verify');
+    expect(request.request.params.get('code')).toBe('1A2B-3C4D-5E6F-7A8B');
+    request.flush({ success: false, message: 'No receipt matches this verification code.' }, { status: 404, statusText: 'Not Found' });
+
+    expect(component.result).toBeNull();
+    expect(component.errorMessage).toBe('No receipt matches this verification code.');
+  });
+});
@@ -0,0 +1,76 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { FineService } from '../../services/fine.service';
+import { ReceiptVerification } from '../../models/fine.model';
+
+/**
+ * Public page for checking a printed fine receipt; its QR code links here with ?code=.
+ */
+@Component({
+  selector: 'app-receipt-verify',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterModule],
+  templateUrl: './receipt-verify.component.html',
+  styleUrls: ['./receipt-verify.component.css']
+})
+export class ReceiptVerifyComponent implements OnInit, OnDestroy {
+  verifyForm!: FormGroup;
+  result: ReceiptVerification | null = null;
+  isVerifying = false;
+  errorMessage = '';
+
+  private subscriptions = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private fineService: FineService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {
+    this.verifyForm = this.fb.group({
+      code: ['', [Validators.required, Validators.pattern(/^\s*[0-9a-fA-F]{4}(-?[0-9a-fA-F]{4}){3}\s*$/)]]
+    });
+  }
+
+  ngOnInit(): void {
+    const code = this.route.snapshot.queryParamMap.get('code');
+    if (code) {
+      this.verifyForm.patchValue({ code });
+      this.verify();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  verify(): void {
+    if (this.verifyForm.invalid) {
+      this.verifyForm.markAllAsTouched();
+      this.errorMessage = 'Enter the 16 character code printed under the QR code, e.g. 1A2B-3C4D-5E6F-7A8B.';
+      return;
+    }
+
+    const code = this.verifyForm.value.code.trim().toUpperCase();
+    this.isVerifying = true;
+    this.errorMessage = '';
+    this.result = null;
+    this.subscriptions.add(
+      this.fineService.verifyReceipt(code).subscribe({
+        next: (result) => {
+          this.isVerifying = false;
+          this.result = result;
+          this.router.navigate([], { queryParams: { code: result.verificationCode }, replaceUrl: true });
+        },
+        error: (error) => {
+          console.error('Error verifying receipt:', error);
+          this.isVerifying = false;
+          this.errorMessage = error.error?.message || 'Failed to check the receipt. Please try again.';
+        }
+      })
+    );
+  }
+}
@@ -1,3 +1,5 @@
+import { PolicyRejection } from './policy.model';
+
 export interface Book {
   id: string;
   title: string;
@@ -16,6 +18,8 @@ export interface Book {
   borrowedBy?: string[];
   returnDate?: string;
   dueDate?: string;
+  isDeleted?: boolean;
+  deletedAt?: string;
 }
 
 export interface BookFormData {
@@ -29,16 +33,110 @@ export interface BookFormData {
   imageFile?: File;
 }
 
+export type CopyStatus = 'AVAILABLE' | 'ON_LOAN' | 'ON_HOLD' | 'IN_REPAIR' | 'LOST' | 'WITHDRAWN';
+
+export type CopyCondition = 'NEW' | 'GOOD' | 'FAIR' | 'POOR' | 'DAMAGED';
+
+export type AcquisitionSource = 'PURCHASE' | 'DONATION' | 'IMPORT' | 'MIGRATED';
+
+// One physical item on the shelf; Book.availableCopies/totalCopies are counted from these
+export interface BookCopy {
+  id: string;
+  bookId: string;
+  barcode: string;
+  shelfLocation: string;
+  condition: CopyCondition;
+  acquisitionSource: AcquisitionSource;
+  acquiredAt: string;
+  status: CopyStatus;
+  notes?: string;
+  updatedAt: string;
+}
+
+export interface BookCopyFormData {
+  count?: number;
+  barcode?: string;
+  shelfLocation?: string;
+  condition?: CopyCondition;
+  acquisitionSource?: AcquisitionSource;
+  status?: CopyStatus;
+  notes?: string;
+}
+
+// A scanned barcode resolved at the circulation desk
+export interface CopyLookup {
+  copy: BookCopy;
+  book: Book;
+  borrowId?: string;
+  memberId?: string;
+  dueDate?: string;
+}
+
+export type CatalogueFormat = 'csv' | 'marc' | 'marcxml';
+
+// A catalogue record read from an import file; covers are added later from the catalogue screen
+export type ImportedBook = Omit<BookFormData, 'imageFile'>;
+
+export interface ImportRow {
+  rowNumber: number;
+  book: ImportedBook;
+  errors: string[];
+  duplicateBookId?: string;
+  duplicateRowNumber?: number;
+}
+
+export interface ImportPreview {
+  format: CatalogueFormat;
+  fileName: string;
+  rows: ImportRow[];
+  validCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+}
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  imported: Book[];
+  skipped: ImportRow[];
+}
+
+export type BookAuditAction = 'CREATED' | 'IMPORTED' | 'UPDATED' | 'COPIES_ADJUSTED' | 'COPY_UPDATED' | 'DELETED' | 'RESTORED';
+
+export interface BookFieldChange {
+  field: string;
+  from: string | number | boolean | null;
+  to: string | number | boolean | null;
+}
+
+export interface BookAuditEntry {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  action: BookAuditAction;
+  changes: BookFieldChange[];
+  changedBy: string;
+  changedByName: string;
+  changedAt: string;
+}
+
 export interface PopularBook extends Book {
   borrowCount: number;
   averageRating: number;
 }
 
+// Books picked for the signed-in member; not personalized when they have turned recommendations off
+export interface BookRecommendations {
+  personalized: boolean;
+  books: Book[];
+}
+
 export interface SearchCriteria {
   author?: string;
   title?: string;
   category?: string;
   bookId?: string;
+  isbn?: string;
   availability?: 'all' | 'available' | 'unavailable';
   minRating?: number;
   publishYear?: number;
@@ -62,6 +160,8 @@ export interface BookCategory {
 export interface BorrowItem {
   bookId: string;
   quantity: number;
+  // Specific copies to lend; when omitted the desk picks any copy on the shelf
+  copyBarcodes?: string[];
   book?: Book;
 }
 
@@ -69,7 +169,8 @@ export interface BorrowRequest {
   memberId: string;
   borrowItems: BorrowItem[];
   borrowDate: Date;
-  dueDate: Date;
+  // Optional earlier due date; the server caps it at the member's loan period
+  dueDate?: Date;
   notes?: string;
 }
 
@@ -80,6 +181,8 @@ export interface BorrowResponse {
   dueDate?: string;
   borrowedBooks?: BorrowItem[];
   fineAmount?: number;
+  // Borrowing policy rules the request broke, when it was refused
+  rejectionReasons?: PolicyRejection[];
 }
 
 export interface BookBorrower {
@@ -89,6 +192,7 @@ export interface BookBorrower {
   dueDate: string;
   returnDate?: string;
   quantity: number;
+  copyBarcodes?: string[];
   isOverdue?: boolean;
   fineAmount?: number;
 }
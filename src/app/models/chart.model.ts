@@ -0,0 +1,15 @@
+export type ChartType = 'bar' | 'line' | 'donut';
+
+// One named run of values, aligned with the chart's labels
+export interface ChartSeries {
+  label: string;
+  values: number[];
+  color: string;
+}
+
+// One part of a donut chart
+export interface ChartSlice {
+  label: string;
+  value: number;
+  color: string;
+}
@@ -11,11 +11,15 @@ export interface Complaint {
   supportResponse?: string;
   resolutionNotes?: string;
   lastUpdated: Date;
+  // Member ID and name of the staff member handling it
   assignedTo?: string;
+  assignedToName?: string;
   priority: ComplaintPriority;
   responses?: ComplaintResponseEntry[];
   estimatedResolutionDate?: Date;
   actualResolutionDate?: Date;
+  // Last time the complaint was reopened; the SLA clock restarts from here
+  reopenedDate?: Date;
   customerSatisfactionRating?: number;
   isEscalated?: boolean;
   escalationReason?: string;
@@ -29,7 +33,12 @@ export interface ComplaintResponseEntry {
   responderType: 'MEMBER' | 'STAFF' | 'ADMIN';
   message: string;
   timestamp: Date;
+  // Staff-only notes; never sent to the member
   isInternal?: boolean;
+  // When the other side (the member, or any staff for member replies) first opened the thread after it
+  readAt?: Date;
+  // The reply reopened a resolved or closed complaint
+  reopened?: boolean;
 }
 
 export interface ComplaintAttachment {
@@ -124,8 +133,19 @@ export interface ComplaintStatistics {
   complaintsByPriority: { [key in ComplaintPriority]?: number };
   resolutionRate?: number; // percentage
   monthlyTrend?: MonthlyComplaintTrend[];
+  // Share of resolved complaints that met their SLA target, as a percentage
+  slaComplianceRate?: number;
+  resolvedWithinSla?: number;
+  resolvedAfterSla?: number;
+  // Unresolved complaints past their target, and those due within the next quarter of it
+  breachedComplaints?: number;
+  atRiskComplaints?: number;
+  slaTargets?: ComplaintSlaTargets;
 }
 
+// Hours allowed from submission to resolution, per priority
+export type ComplaintSlaTargets = { [key in ComplaintPriority]: number };
+
 export interface MonthlyComplaintTrend {
   month: string;
   year: number;
@@ -135,14 +155,17 @@ export interface MonthlyComplaintTrend {
 }
 
 export interface ComplaintEscalation {
+  id: string;
   complaintId: string;
   reason: string;
+  // Member ID, or SYSTEM when the SLA check escalated it
   escalatedBy: string;
   escalatedTo: string;
   escalationDate: Date;
   notes?: string;
 }
 
+// Canned reply for staff; the description is the reply text, with {{memberName}}, {{complaintId}} and {{title}} filled in
 export interface ComplaintTemplate {
   id: string;
   title: string;
@@ -153,6 +176,18 @@ export interface ComplaintTemplate {
   createdDate: Date;
 }
 
+export type ComplaintQueue = 'OPEN' | 'UNASSIGNED' | 'MINE' | 'ESCALATED' | 'BREACHED' | 'RESOLVED' | 'ALL';
+
+export interface ComplaintQueuePage extends PaginatedComplaintResponse {
+  counts: { [key in ComplaintQueue]: number };
+}
+
+export interface ComplaintAssignee {
+  memberId: string;
+  memberName: string;
+  openComplaints: number;
+}
+
 // Enums for better type safety
 export enum ComplaintStatusEnum {
   OPEN = 'Open',
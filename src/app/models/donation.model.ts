@@ -4,6 +4,7 @@ export interface Donation {
   memberName: string;
   title: string;
   author: string;
+  isbn?: string;
   condition: DonationConditionValue;
   quantity: number;
   photoUrl?: string;
@@ -17,6 +18,8 @@ export interface Donation {
   libraryCategory?: string;
   isAddedToLibrary?: boolean;
   libraryBookId?: string;
+  // Catalogue book with the same ISBN when the donation was submitted
+  matchedBookId?: string;
 }
 
 export type DonationStatus = 'Pending' | 'Accepted' | 'Rejected' | 'Under Review';
@@ -32,6 +35,7 @@ export interface DonationCondition {
 export interface DonationFormData {
   title: string;
   author: string;
+  isbn?: string;
   condition: DonationConditionValue;
   quantity: number;
   notes?: string;
@@ -1,3 +1,5 @@
+import { MembershipType } from './policy.model';
+
 export interface FineRecord {
   id: string;
   memberId: string;
@@ -9,9 +11,13 @@ export interface FineRecord {
   dueDate: Date;
   returnDate?: Date;
   daysOverdue: number;
+  // Overdue days actually charged, after grace periods and closed days
+  chargedDays?: number;
   dailyFine: number;
   totalFine: number;
   status: FineStatus;
+  // Calculation rules applied; empty when the member's borrowing policy rate was used
+  ruleIds?: string[];
   calculatedDate: Date;
   paidDate?: Date;
   paymentId?: string;
@@ -19,6 +25,10 @@ export interface FineRecord {
   isWaived?: boolean;
   waivedBy?: string;
   waivedReason?: string;
+  // Open waiver request covering this fine; cleared when it is decided or withdrawn
+  waiverId?: string;
+  // Refund that returned the money paid for this fine
+  refundId?: string;
 }
 
 export type FineStatus = 'PENDING' | 'PAID' | 'WAIVED' | 'OVERDUE';
@@ -34,11 +44,23 @@ export interface PaymentRecord {
   status: PaymentStatus;
   paymentDate: Date;
   fineRecords: FineRecord[];
+  // Set while the gateway handles the payment; gatewayResponse is filled once it reports back
+  gatewayName?: string;
+  gatewayTransactionId?: string;
+  // Pending payments the gateway has not confirmed by then are marked FAILED
+  expiresAt?: Date;
   gatewayResponse?: PaymentGatewayResponse;
   processingFee?: number;
+  // Latest refund; refundAmount is the running total of every refund against the payment
   refundId?: string;
   refundAmount?: number;
   refundDate?: Date;
+  refundedFineIds?: string[];
+  // Cash taken at the circulation desk: who took it, and what the member handed over
+  collectedBy?: string;
+  collectedByName?: string;
+  amountTendered?: number;
+  changeGiven?: number;
 }
 
 export type PaymentStatus = 'PENDING' | 'COMPLETED' | 'FAILED' | 'REFUNDED' | 'CANCELLED';
@@ -67,8 +89,10 @@ export interface PaymentRequest {
     email: string;
     phone?: string;
   };
+  // Page on this site to come back to after the gateway; the gateway's webhook URL is always set by the server
   returnUrl?: string;
-  webhookUrl?: string;
+  // Cash only: notes and coins handed over, when the desk gives change
+  amountTendered?: number;
 }
 
 export interface PaymentResponse {
@@ -76,9 +100,14 @@ export interface PaymentResponse {
   message: string;
   paymentId?: string;
   transactionId?: string;
+  status?: PaymentStatus;
+  // Hosted payment page to send the member to; card and bank details are only entered there
   gatewayUrl?: string;
+  // UPI: an image URL of the QR to scan, and the upi://pay link it encodes for phones with a UPI app
   qrCode?: string;
   upiDeepLink?: string;
+  // The payment times out, and any QR stops being valid, at this time
+  expiresAt?: Date;
   estimatedProcessingTime?: string;
 }
 
@@ -172,6 +201,151 @@ export interface FineCalculationRule {
   isActive: boolean;
   applicableFrom: Date;
   applicableTo?: Date;
+  // Membership types the rule is limited to; empty or missing means every member
+  membershipTypes?: MembershipType[];
+  createdBy?: string;
+  updatedAt?: Date;
+}
+
+// Days the library is shut (holidays, closures); no fine accrues on them
+export interface LibraryClosure {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  createdBy?: string;
+}
+
+export interface FineChange {
+  fineId: string;
+  memberId: string;
+  memberName: string;
+  bookTitle: string;
+  previousAmount: number;
+  newAmount: number;
+  previousStatus?: FineStatus;
+  newStatus: FineStatus;
+  daysOverdue: number;
+  chargedDays: number;
+}
+
+// Result of one fine recalculation run, kept so staff can see what changed overnight
+export interface FineBatchReport {
+  id: string;
+  trigger: 'NIGHTLY' | 'MANUAL';
+  triggeredBy?: string;
+  runAt: Date;
+  loansChecked: number;
+  finesCreated: number;
+  finesUpdated: number;
+  totalChange: number;
+  changes: FineChange[];
+}
+
+// What happens to a refunded fine: owed again (payment reversed) or closed (charged in error)
+export type RefundFineAction = 'REINSTATE' | 'CLOSE';
+
+export interface RefundRequest {
+  fineIds: string[];
+  // Defaults to the full amount paid for the fines; may be less, never more
+  amount?: number;
+  reason: string;
+  fineAction: RefundFineAction;
+}
+
+export interface RefundRecord {
+  id: string;
+  paymentId: string;
+  transactionId: string;
+  memberId: string;
+  memberName: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  reason: string;
+  fineAction: RefundFineAction;
+  fines: { fineId: string; bookTitle: string; amount: number }[];
+  processedBy: string;
+  processedByName: string;
+  refundDate: Date;
+}
+
+export interface RefundResponse {
+  success: boolean;
+  message: string;
+  refund: RefundRecord;
+  payment: PaymentRecord;
+}
+
+// A staff member's count of their cash drawer at the end of a day
+export interface CashReconciliation {
+  id: string;
+  // Calendar day (YYYY-MM-DD, UTC) the cash was taken on
+  date: string;
+  staffId: string;
+  staffName: string;
+  // Cash taken minus cash refunds paid out, when the count was recorded
+  expectedAmount: number;
+  countedAmount: number;
+  // countedAmount - expectedAmount; negative when cash is missing
+  variance: number;
+  notes?: string;
+  reconciledBy: string;
+  reconciledByName: string;
+  reconciledAt: Date;
+}
+
+export interface CashReconciliationRequest {
+  date: string;
+  staffId: string;
+  countedAmount: number;
+  notes?: string;
+}
+
+export interface CashStaffTotal {
+  staffId: string;
+  staffName: string;
+  paymentCount: number;
+  collected: number;
+  refunded: number;
+  expected: number;
+  // Latest count for the day, if any
+  reconciliation?: CashReconciliation;
+}
+
+export interface CashDaySummary {
+  date: string;
+  staff: CashStaffTotal[];
+  totalCollected: number;
+  totalRefunded: number;
+  totalExpected: number;
+  payments: PaymentRecord[];
+}
+
+// What a printed receipt needs beyond the payment itself
+export interface PaymentReceipt {
+  payment: PaymentRecord;
+  // Short hash of the receipt's contents; /receipts/verify looks it up
+  verificationCode: string;
+  verificationPath: string;
+  issuedAt: Date;
+}
+
+// Public answer to a receipt check: only what is needed to compare against the printout
+export interface ReceiptVerification {
+  valid: boolean;
+  verificationCode: string;
+  paymentId: string;
+  transactionId: string;
+  // Initials only, e.g. "L. M."
+  memberName: string;
+  paymentMethod: PaymentMethod;
+  paymentDate: Date;
+  status: PaymentStatus;
+  amount: number;
+  processingFee: number;
+  totalPaid: number;
+  refundAmount?: number;
+  fines: { fineId: string; bookTitle: string; amount: number }[];
 }
 
 export interface FineWaiverRequest {
@@ -188,6 +362,42 @@ export interface FineWaiverResponse {
   totalWaivedAmount: number;
   approvedBy?: string;
   approvalDate?: Date;
+  waiver?: FineWaiver;
+}
+
+export type WaiverStatus = 'PENDING' | 'PARTIALLY_APPROVED' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export interface WaiverAttachment {
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface WaiverDecision {
+  decidedBy: string;
+  decidedByName: string;
+  decision: 'APPROVED' | 'REJECTED';
+  notes?: string;
+  decidedAt: Date;
+}
+
+// A member's request to waive some of their fines, and the staff decisions on it
+export interface FineWaiver {
+  id: string;
+  memberId: string;
+  memberName: string;
+  fineIds: string[];
+  fines: { fineId: string; bookTitle: string; amount: number }[];
+  totalAmount: number;
+  reason: string;
+  attachments: WaiverAttachment[];
+  status: WaiverStatus;
+  // Large waivers need a second, different approver
+  approvalsRequired: number;
+  decisions: WaiverDecision[];
+  requestedBy: string;
+  requestedAt: Date;
+  closedAt?: Date;
 }
 
 // Enums for better type safety
@@ -229,11 +439,15 @@ export interface PaymentValidationResult {
 }
 
 // Admin interfaces
+export type FineReportType = 'MONTHLY' | 'YEARLY' | 'CUSTOM';
+
 export interface FineReport {
   reportId: string;
   generatedBy: string;
+  generatedByName?: string;
   generatedDate: Date;
-  reportType: 'MONTHLY' | 'YEARLY' | 'CUSTOM';
+  reportType: FineReportType;
+  // Covers fines for loans that fell due within the range, both ends inclusive
   dateRange: {
     from: Date;
     to: Date;
@@ -242,9 +456,30 @@ export interface FineReport {
   totalCollected: number;
   totalWaived: number;
   outstandingAmount: number;
+  // Daily for ranges up to a month, monthly otherwise
+  periods: FineReportPeriod[];
   memberStatistics: MemberFineStatistics[];
 }
 
+export interface FineReportPeriod {
+  label: string;
+  from: Date;
+  to: Date;
+  totalFines: number;
+  totalCollected: number;
+  totalWaived: number;
+  outstandingAmount: number;
+}
+
+// MONTHLY needs year and month (1-12), YEARLY needs year, CUSTOM needs from and to (YYYY-MM-DD)
+export interface FineReportRequest {
+  reportType: FineReportType;
+  year?: number;
+  month?: number;
+  from?: string;
+  to?: string;
+}
+
 export interface MemberFineStatistics {
   memberId: string;
   memberName: string;
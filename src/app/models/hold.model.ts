@@ -0,0 +1,27 @@
+export interface Hold {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  author: string;
+  memberId: string;
+  memberName: string;
+  status: HoldStatus;
+  placedAt: string;
+  // Set once a returned copy is set aside for the member
+  copyId?: string;
+  copyBarcode?: string;
+  readyAt?: string;
+  expiresAt?: string;
+  closedAt?: string;
+  // Filled in by the API for waiting holds: 1 is next in line
+  position?: number;
+  queueLength?: number;
+}
+
+export type HoldStatus = 'WAITING' | 'READY' | 'FULFILLED' | 'EXPIRED' | 'CANCELLED';
+
+export interface HoldResponse {
+  success: boolean;
+  message: string;
+  hold?: Hold;
+}
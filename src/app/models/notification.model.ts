@@ -0,0 +1,59 @@
+import { PaginatedResponse } from './book.model';
+
+export type NotificationType = 'DUE_REMINDER' | 'OVERDUE';
+export type NotificationChannel = 'EMAIL' | 'SMS';
+export type NotificationStatus = 'QUEUED' | 'SENT' | 'FAILED';
+
+// One message sent, or tried, to a member about one of their loans
+export interface NotificationRecord {
+  id: string;
+  memberId: string;
+  memberName: string;
+  type: NotificationType;
+  channel: NotificationChannel;
+  // Email address or phone number the message went to
+  recipient: string;
+  subject: string;
+  message: string;
+  loanId: string;
+  bookId: string;
+  bookTitle: string;
+  // Due date of the loan when the message was sent; a renewal starts the reminders over
+  dueDate: string;
+  status: NotificationStatus;
+  // Transport that carried it and the reference it returned, if any
+  transport: string;
+  transportReference?: string;
+  error?: string;
+  createdAt: Date;
+  sentAt?: Date;
+}
+
+// Outcome of one reminder scan
+export interface ReminderRunReport {
+  trigger: 'SCHEDULED' | 'MANUAL';
+  ranAt: Date;
+  loansChecked: number;
+  sent: number;
+  failed: number;
+  notifications: NotificationRecord[];
+}
+
+export type AppNotificationCategory = 'FINE' | 'PAYMENT' | 'COMPLAINT' | 'DONATION';
+
+// Shown in the navbar bell and pushed to open sessions as it happens
+export interface AppNotification {
+  id: string;
+  memberId: string;
+  category: AppNotificationCategory;
+  title: string;
+  message: string;
+  // App route the notification opens
+  link?: string;
+  createdAt: Date;
+  readAt?: Date;
+}
+
+export interface AppNotificationPage extends PaginatedResponse<AppNotification> {
+  unreadCount: number;
+}
@@ -0,0 +1,44 @@
+export type MembershipType = 'BASIC' | 'PREMIUM' | 'STUDENT' | 'FACULTY';
+
+/**
+ * Borrowing rules for one membership type. Enforced by the API when books are borrowed,
+ * extended and fined; the client only uses them for display.
+ */
+export interface BorrowingPolicy {
+  membershipType: MembershipType;
+  loanPeriodDays: number;
+  maxBooks: number;
+  maxRenewals: number;
+  // Longest single extension a member can ask for
+  maxExtensionDays: number;
+  finePerDay: number;
+  // Upper limit on the fine for one overdue copy; 0 means no limit
+  maxFinePerLoan: number;
+  // Borrowing is refused once unpaid fines go above this amount
+  maxOutstandingFines: number;
+  blockWhenOverdue: boolean;
+  // Book categories this membership type cannot borrow
+  restrictedCategories: string[];
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type PolicyRejectionCode =
+  | 'MEMBERSHIP_INACTIVE'
+  | 'LOAN_LIMIT'
+  | 'OUTSTANDING_FINES'
+  | 'OVERDUE_LOANS'
+  | 'CATEGORY_RESTRICTED';
+
+export interface PolicyRejection {
+  code: PolicyRejectionCode;
+  message: string;
+  // Set when the rule applies to one book of the request
+  bookId?: string;
+}
+
+export interface PolicyResponse {
+  success: boolean;
+  message: string;
+  policy?: BorrowingPolicy;
+}
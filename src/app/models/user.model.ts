@@ -1,3 +1,5 @@
+import { BorrowingPolicy, PolicyRejection } from './policy.model';
+
 export interface UserBorrowInfo {
   libraryId: string;
   name: string;
@@ -8,7 +10,10 @@ export interface UserBorrowInfo {
   fines: number;
   overdueBooks: number;
   isEligible: boolean;
+  // Policy rules that would refuse any borrow request right now
+  rejectionReasons?: PolicyRejection[];
   membershipType?: 'BASIC' | 'PREMIUM' | 'STUDENT' | 'FACULTY';
+  policy?: BorrowingPolicy;
   memberSince?: Date;
   lastBorrowDate?: Date;
   borrowingHistory?: {
@@ -25,6 +30,7 @@ export interface BorrowHistoryEntry {
   author: string;
   category: string;
   isbn: string;
+  copyBarcodes?: string[];
   borrowDate: Date;
   dueDate: Date;
   returnedDate?: Date;
@@ -72,7 +78,8 @@ export interface UserPreferences {
   readingGoals?: {
     monthlyGoal: number;
     yearlyGoal: number;
-    currentStreak: number;
+    // Months in a row the monthly goal was met; worked out from loan history, not saved
+    currentStreak?: number;
   };
 }
 
@@ -83,7 +90,7 @@ export interface UserStatistics {
   totalFines: number;
   averageReadingTime: number; // in days
   favoriteGenres: GenreStatistic[];
-  readingStreak: number; // consecutive days/months
+  readingStreak: number; // consecutive months meeting the monthly goal
   monthlyReadingGoal: number;
   booksReadThisMonth: number;
   yearlyReadingGoal?: number;
@@ -10,14 +10,24 @@ import {
   BookCategory,
   BorrowRequest,
   BorrowResponse,
-  BookBorrower
+  BookBorrower,
+  BookAuditEntry,
+  BookCopy,
+  BookCopyFormData,
+  CopyLookup,
+  PaginatedResponse,
+  CatalogueFormat,
+  ImportPreview,
+  ImportResult,
+  ImportedBook,
+  BookRecommendations
 } from '../models/book.model';
 
 @Injectable({
   providedIn: 'root'
 })
 export class BookService {
-  private readonly API_URL = 'http://localhost:8080/api/books';
+  private readonly API_URL = '/api/books';
   
   // BehaviorSubject for real-time updates
   private booksSubject = new BehaviorSubject<Book[]>([]);
@@ -66,6 +76,28 @@ export class BookService {
       );
   }
 
+  // Catalogue for admins; does not touch books$ so soft-deleted books never reach member screens
+  getCatalogue(page: number = 0, size: number = 10, search?: string, includeDeleted: boolean = false): Observable<PaginatedResponse<Book>> {
+    let params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString());
+
+    if (search) {
+      params = params.set('search', search);
+    }
+    if (includeDeleted) {
+      params = params.set('includeDeleted', 'true');
+    }
+
+    return this.http.get<PaginatedResponse<Book>>(`${this.API_URL}`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get catalogue error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
   // Get book by ID
   getBookById(id: string): Observable<Book> {
     return this.http.get<Book>(`${this.API_URL}/${id}`)
@@ -164,6 +196,7 @@ export class BookService {
     if (criteria.author) params = params.set('author', criteria.author);
     if (criteria.category) params = params.set('category', criteria.category);
     if (criteria.bookId) params = params.set('bookId', criteria.bookId);
+    if (criteria.isbn) params = params.set('isbn', criteria.isbn);
     
     return this.http.get<SearchResult>(`${this.API_URL}/search`, { params })
       .pipe(
@@ -231,6 +264,17 @@ export class BookService {
       );
   }
 
+  // Get books picked for the signed-in member
+  getRecommendedBooks(): Observable<BookRecommendations> {
+    return this.http.get<BookRecommendations>(`${this.API_URL}/recommended`)
+      .pipe(
+        catchError(error => {
+          console.error('Get recommended books error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
   // Get books by category
   getBooksByCategory(category: string, page: number = 0, size: number = 10): Observable<any> {
     let params = new HttpParams()
@@ -314,6 +358,136 @@ export class BookService {
       );
   }
   
+  // Restore a soft-deleted book (for admin)
+  restoreBook(id: string): Observable<Book> {
+    return this.http.post<Book>(`${this.API_URL}/${id}/restore`, {})
+      .pipe(
+        tap(() => this.loadBooks()),
+        catchError(error => {
+          console.error('Restore book error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Change history of one book, newest first (for admin)
+  getBookAudit(bookId: string): Observable<BookAuditEntry[]> {
+    return this.http.get<BookAuditEntry[]>(`${this.API_URL}/${bookId}/audit`)
+      .pipe(
+        catchError(error => {
+          console.error('Get book audit error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Recent catalogue changes across all books (for admin)
+  getCatalogueAudit(page: number = 0, size: number = 20): Observable<PaginatedResponse<BookAuditEntry>> {
+    const params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString());
+
+    return this.http.get<PaginatedResponse<BookAuditEntry>>(`${this.API_URL}/audit`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get catalogue audit error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Physical copies of a book with their barcodes and shelf locations
+  getBookCopies(bookId: string): Observable<BookCopy[]> {
+    return this.http.get<BookCopy[]>(`${this.API_URL}/${bookId}/copies`)
+      .pipe(
+        catchError(error => {
+          console.error('Get book copies error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Shelve new copies of a book (for admin)
+  addBookCopies(bookId: string, copyData: BookCopyFormData): Observable<BookCopy[]> {
+    return this.http.post<BookCopy[]>(`${this.API_URL}/${bookId}/copies`, copyData)
+      .pipe(
+        tap(() => this.loadBooks()),
+        catchError(error => {
+          console.error('Add book copies error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Change a copy's location, condition or status (for admin)
+  updateBookCopy(copyId: string, changes: BookCopyFormData): Observable<BookCopy> {
+    return this.http.patch<BookCopy>(`${this.API_URL}/copies/${copyId}`, changes)
+      .pipe(
+        tap(() => this.loadBooks()),
+        catchError(error => {
+          console.error('Update book copy error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Resolve a scanned barcode to its copy, book and current loan (for admin)
+  lookupCopy(barcode: string): Observable<CopyLookup> {
+    return this.http.get<CopyLookup>(`${this.API_URL}/copies/${encodeURIComponent(barcode)}`)
+      .pipe(
+        catchError(error => {
+          console.error('Lookup copy error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Parse an import file on the server and get per-row validation back (for admin)
+  previewImport(file: File, format?: CatalogueFormat): Observable<ImportPreview> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    let params = new HttpParams();
+    if (format) {
+      params = params.set('format', format);
+    }
+
+    return this.http.post<ImportPreview>(`${this.API_URL}/import/preview`, formData, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Preview import error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Add previewed books to the catalogue (for admin)
+  importBooks(books: ImportedBook[]): Observable<ImportResult> {
+    return this.http.post<ImportResult>(`${this.API_URL}/import`, { books })
+      .pipe(
+        tap(() => this.loadBooks()),
+        catchError(error => {
+          console.error('Import books error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Download the catalogue as CSV, MARC21 (ISO 2709) or MARCXML (for admin)
+  exportCatalogue(format: CatalogueFormat): Observable<Blob> {
+    const params = new HttpParams().set('format', format);
+
+    return this.http.get(`${this.API_URL}/export`, {
+      params,
+      responseType: 'blob'
+    }).pipe(
+      catchError(error => {
+        console.error('Export catalogue error:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
   // Get book statistics
   getBookStatistics(): Observable<{
     totalBooks: number;
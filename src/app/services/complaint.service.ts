@@ -8,11 +8,15 @@ import {
   ComplaintResponse, 
   ComplaintListResponse,
   ComplaintAction,
+  ComplaintAssignee,
+  ComplaintQueue,
+  ComplaintQueuePage,
   ComplaintStatus,
   ComplaintCategory,
   ComplaintPriority,
   ComplaintSearchRequest,
   ComplaintStatistics,
+  ComplaintTemplate,
   PaginatedComplaintResponse
 } from '../models/complaint.model';
 import { AuthService } from './auth.service';
@@ -21,7 +25,7 @@ import { AuthService } from './auth.service';
   providedIn: 'root'
 })
 export class ComplaintService {
-  private readonly API_URL = 'http://localhost:8080/api/complaints';
+  private readonly API_URL = '/api/complaints';
   
   // BehaviorSubject for real-time updates
   private complaintsSubject = new BehaviorSubject<Complaint[]>([]);
@@ -294,9 +298,12 @@ export class ComplaintService {
 
 
   // Add response to complaint
-  addComplaintResponse(complaintId: string, response: string): Observable<ComplaintResponse> {
+  // Staff can pass isInternal to leave a note the member never sees; reopen reopens a resolved or closed complaint
+  addComplaintResponse(complaintId: string, response: string, options: { isInternal?: boolean; reopen?: boolean } = {}): Observable<ComplaintResponse> {
     return this.http.post<ComplaintResponse>(`${this.API_URL}/${complaintId}/response`, {
-      response
+      response,
+      isInternal: !!options.isInternal,
+      reopen: !!options.reopen
     }).pipe(
       tap(res => {
         if (res.success) {
@@ -310,6 +317,90 @@ export class ComplaintService {
     );
   }
 
+  // Read receipts: marks the other side's replies as read and returns the updated complaint
+  markResponsesRead(complaintId: string): Observable<Complaint> {
+    return this.http.post<Complaint>(`${this.API_URL}/${complaintId}/read`, {})
+      .pipe(
+        catchError(error => {
+          console.error('Mark complaint replies read error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Staff triage console (admin only)
+  getTriageQueue(queue: ComplaintQueue, page: number = 0, size: number = 20, filters: { query?: string; category?: string; priority?: string } = {}): Observable<ComplaintQueuePage> {
+    let params = new HttpParams()
+      .set('queue', queue)
+      .set('page', page.toString())
+      .set('size', size.toString());
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) {
+        params = params.set(key, value);
+      }
+    });
+
+    return this.http.get<ComplaintQueuePage>(`${this.API_URL}/queue`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get complaint queue error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getAssignees(): Observable<ComplaintAssignee[]> {
+    return this.http.get<ComplaintAssignee[]>(`${this.API_URL}/assignees`)
+      .pipe(
+        catchError(error => {
+          console.error('Get complaint assignees error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Pass null to put the complaint back in the unassigned queue
+  assignComplaint(complaintId: string, assignedTo: string | null): Observable<ComplaintResponse> {
+    return this.http.patch<ComplaintResponse>(`${this.API_URL}/${complaintId}/assign`, { assignedTo })
+      .pipe(
+        catchError(error => {
+          console.error('Assign complaint error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getComplaintTemplates(activeOnly: boolean = false): Observable<ComplaintTemplate[]> {
+    const params = new HttpParams().set('active', activeOnly.toString());
+    return this.http.get<ComplaintTemplate[]>(`${this.API_URL}/templates`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get complaint templates error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  createComplaintTemplate(template: Pick<ComplaintTemplate, 'title' | 'category' | 'description' | 'isActive'>): Observable<{ success: boolean; message: string; template: ComplaintTemplate }> {
+    return this.http.post<{ success: boolean; message: string; template: ComplaintTemplate }>(`${this.API_URL}/templates`, template)
+      .pipe(
+        catchError(error => {
+          console.error('Create complaint template error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  updateComplaintTemplate(templateId: string, changes: Partial<Pick<ComplaintTemplate, 'title' | 'category' | 'description' | 'isActive'>>): Observable<{ success: boolean; message: string; template: ComplaintTemplate }> {
+    return this.http.put<{ success: boolean; message: string; template: ComplaintTemplate }>(`${this.API_URL}/templates/${templateId}`, changes)
+      .pipe(
+        catchError(error => {
+          console.error('Update complaint template error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
   // Get complaint categories (static or from backend)
   getComplaintCategories(): Observable<ComplaintCategory[]> {
   return this.http.get<ComplaintCategory[]>(`${this.API_URL}/categories`)
@@ -390,6 +481,14 @@ export class ComplaintService {
     }
   }
 
+  // Canned reply text for a complaint, with the template placeholders filled in
+  static fillTemplate(template: ComplaintTemplate, complaint: Complaint): string {
+    return template.description
+      .replace(/\{\{memberName\}\}/g, complaint.memberName)
+      .replace(/\{\{complaintId\}\}/g, complaint.id)
+      .replace(/\{\{title\}\}/g, complaint.title);
+  }
+
   // Legacy methods for backward compatibility
   
   /**
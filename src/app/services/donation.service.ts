@@ -19,7 +19,7 @@ import { AuthService } from './auth.service';
   providedIn: 'root'
 })
 export class DonationService {
-  private readonly API_URL = 'http://localhost:8080/api/donations';
+  private readonly API_URL = '/api/donations';
   
   // BehaviorSubject for real-time updates
   private donationsSubject = new BehaviorSubject<Donation[]>([]);
@@ -59,6 +59,9 @@ export class DonationService {
     const donationFormData = new FormData();
     donationFormData.append('title', formData.title);
     donationFormData.append('author', formData.author);
+    if (formData.isbn) {
+      donationFormData.append('isbn', formData.isbn);
+    }
     donationFormData.append('condition', formData.condition);
     donationFormData.append('quantity', formData.quantity.toString());
     donationFormData.append('memberId', currentUser.memberId);
@@ -157,6 +160,9 @@ export class DonationService {
     const donationFormData = new FormData();
     donationFormData.append('title', formData.title);
     donationFormData.append('author', formData.author);
+    if (formData.isbn) {
+      donationFormData.append('isbn', formData.isbn);
+    }
     donationFormData.append('condition', formData.condition);
     donationFormData.append('quantity', formData.quantity.toString());
     
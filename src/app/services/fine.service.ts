@@ -2,17 +2,36 @@ import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable, BehaviorSubject, throwError,of } from 'rxjs';
 import { catchError, tap, map } from 'rxjs/operators';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import QRCode from 'qrcode';
 import { 
+  CashDaySummary,
+  CashReconciliation,
+  CashReconciliationRequest,
   FineRecord, 
   PaymentRecord, 
   PaymentMethodInfo,
   PaymentRequest,
   PaymentResponse,
-  DummyPaymentForm,
+  PaymentReceipt,
   PaymentMethod,
   FineStatistics,
   PaginatedFineResponse,
-  FineSearchRequest
+  FineSearchRequest,
+  FineCalculationRule,
+  FineBatchReport,
+  FineReport,
+  FineReportRequest,
+  LibraryClosure,
+  RefundRecord,
+  RefundRequest,
+  RefundResponse,
+  FineWaiver,
+  FineWaiverRequest,
+  FineWaiverResponse,
+  ReceiptVerification,
+  WaiverDecision
 } from '../models/fine.model';
 import { AuthService } from './auth.service';
 
@@ -20,8 +39,11 @@ import { AuthService } from './auth.service';
   providedIn: 'root'
 })
 export class FineService {
-  private readonly API_URL = 'http://localhost:8080/api/fines';
-  private readonly PAYMENT_URL = 'http://localhost:8080/api/payments';
+  private readonly API_URL = '/api/fines';
+  private readonly PAYMENT_URL = '/api/payments';
+  private readonly WAIVER_URL = '/api/waivers';
+  private readonly RECEIPT_URL = '/api/receipts';
+  private readonly CASH_DESK_URL = '/api/cash-desk';
   
   // BehaviorSubject for real-time updates
   private finesSubject = new BehaviorSubject<FineRecord[]>([]);
@@ -109,24 +131,15 @@ export class FineService {
       );
   }
 
-  // Process payment for selected fines
-  processPayment(paymentRequest: PaymentRequest, paymentForm: DummyPaymentForm): Observable<PaymentResponse> {
-    const requestData = {
-      ...paymentRequest,
-      paymentDetails: {
-        ...paymentForm,
-        // Remove sensitive data - this would be handled securely on backend
-        cardNumber: paymentForm.cardNumber ? '**** **** **** ' + paymentForm.cardNumber.slice(-4) : undefined
-      }
-    };
-
-    return this.http.post<PaymentResponse>(`${this.PAYMENT_URL}/process`, requestData)
+  // Start a payment for selected fines; card and bank details are entered on the gateway's page (response.gatewayUrl)
+  processPayment(paymentRequest: PaymentRequest): Observable<PaymentResponse> {
+    return this.http.post<PaymentResponse>(`${this.PAYMENT_URL}/process`, paymentRequest)
       .pipe(
         tap(response => {
           if (response.success) {
             // Refresh user data to reflect payment
             this.loadUserData();
-            console.log('✅ Payment processed:', response.paymentId);
+            console.log('✅ Payment started:', response.paymentId, response.status);
           }
         }),
         catchError(error => {
@@ -140,7 +153,7 @@ export class FineService {
           } else if (error.status === 402) {
             errorMessage = 'Payment declined. Please check your payment details.';
           } else if (error.status === 409) {
-            errorMessage = 'Some fines have already been paid or are being processed.';
+            errorMessage = error.error?.message || 'Some fines have already been paid or are being processed.';
           } else if (error.status === 0) {
             errorMessage = 'Unable to connect to payment gateway. Please try again.';
           }
@@ -235,57 +248,380 @@ export class FineService {
       );
   }
 
-  // Generate and download receipt
-  downloadReceipt(payment: PaymentRecord): void {
-    const receiptData = this.generateReceiptData(payment);
-    this.downloadFile(receiptData, `receipt-${payment.transactionId}.txt`);
+  // PDF receipt; the verification code comes from the server so it can be checked later
+  downloadReceipt(paymentId: string): Observable<PaymentReceipt> {
+    return this.http.get<PaymentReceipt>(`${this.PAYMENT_URL}/${paymentId}/receipt`)
+      .pipe(
+        tap(receipt => this.buildReceiptPdf(receipt).save(`receipt-${receipt.payment.paymentId}.pdf`)),
+        catchError(error => {
+          console.error('Download receipt error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Cash desk (admin)
+  getCashSummary(date: string): Observable<CashDaySummary> {
+    const params = new HttpParams().set('date', date);
+
+    return this.http.get<CashDaySummary>(`${this.CASH_DESK_URL}/summary`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get cash summary error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getCashReconciliations(page: number = 0, size: number = 10): Observable<PaginatedFineResponse<CashReconciliation>> {
+    const params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString());
+
+    return this.http.get<PaginatedFineResponse<CashReconciliation>>(`${this.CASH_DESK_URL}/reconciliations`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get cash reconciliations error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  reconcileCash(request: CashReconciliationRequest): Observable<{ success: boolean; message: string; reconciliation: CashReconciliation }> {
+    return this.http.post<{ success: boolean; message: string; reconciliation: CashReconciliation }>(`${this.CASH_DESK_URL}/reconciliations`, request)
+      .pipe(
+        catchError(error => {
+          console.error('Reconcile cash error:', error);
+          return throwError(() => error);
+        })
+      );
   }
 
-  private generateReceiptData(payment: PaymentRecord): string {
+  // Public check of a printed receipt's verification code
+  verifyReceipt(code: string): Observable<ReceiptVerification> {
+    const params = new HttpParams().set('code', code);
+
+    return this.http.get<ReceiptVerification>(`${this.RECEIPT_URL}/verify`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Verify receipt error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Refunds
+  getUserRefunds(memberId: string): Observable<RefundRecord[]> {
+    const params = new HttpParams().set('memberId', memberId);
+
+    return this.http.get<RefundRecord[]>(`${this.PAYMENT_URL}/refunds/user`, { params })
+      .pipe(
+        map(refunds => refunds.map(refund => ({ ...refund, refundDate: new Date(refund.refundDate) }))),
+        catchError(error => {
+          console.error('Get user refunds error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getPaymentRefunds(paymentId: string): Observable<RefundRecord[]> {
+    return this.http.get<RefundRecord[]>(`${this.PAYMENT_URL}/${paymentId}/refunds`)
+      .pipe(
+        map(refunds => refunds.map(refund => ({ ...refund, refundDate: new Date(refund.refundDate) }))),
+        catchError(error => {
+          console.error('Get payment refunds error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // All payments (admin function)
+  getAllPayments(status?: string, query?: string, page: number = 0, size: number = 10): Observable<PaginatedFineResponse<PaymentRecord>> {
+    let params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString());
+
+    if (status) {
+      params = params.set('status', status);
+    }
+    if (query) {
+      params = params.set('q', query);
+    }
+
+    return this.http.get<PaginatedFineResponse<PaymentRecord>>(this.PAYMENT_URL, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get all payments error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  refundPayment(paymentId: string, request: RefundRequest): Observable<RefundResponse> {
+    return this.http.post<RefundResponse>(`${this.PAYMENT_URL}/${paymentId}/refunds`, request)
+      .pipe(
+        tap(() => this.loadUserData()),
+        catchError(error => {
+          console.error('Refund payment error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  cancelPayment(paymentId: string): Observable<{ success: boolean; message: string; payment: PaymentRecord }> {
+    return this.http.post<{ success: boolean; message: string; payment: PaymentRecord }>(`${this.PAYMENT_URL}/${paymentId}/cancel`, {})
+      .pipe(
+        tap(() => this.loadUserData()),
+        catchError(error => {
+          console.error('Cancel payment error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  downloadRefundReceipt(refund: RefundRecord): void {
+    this.downloadFile(this.generateRefundReceiptData(refund), `refund-${refund.id}.txt`);
+  }
+
+  private generateRefundReceiptData(refund: RefundRecord): string {
     let receipt = `
-LIBRARY FINE PAYMENT RECEIPT
-============================
+LIBRARY FINE REFUND RECEIPT
+===========================
 
-Transaction ID: ${payment.transactionId}
-Payment ID: ${payment.paymentId}
-Date: ${payment.paymentDate.toLocaleString()}
-Status: ${payment.status.toUpperCase()}
+Refund ID: ${refund.id}
+Original Payment: ${refund.paymentId} (${refund.transactionId})
+Date: ${new Date(refund.refundDate).toLocaleString()}
 
 Member Information:
 ------------------
-Name: ${payment.memberName}
-Member ID: ${payment.memberId}
-
-Payment Details:
----------------
-Method: ${payment.paymentMethod.toUpperCase()}
-Amount: ₹${payment.amount}
-
-Fine Details:
-------------
+Name: ${refund.memberName}
+Member ID: ${refund.memberId}
+
+Refund Details:
+--------------
+Refunded To: ${refund.paymentMethod.toUpperCase()}
+Reason: ${refund.reason}
+Fines: ${refund.fineAction === 'REINSTATE' ? 'Reinstated (payable again)' : 'Closed'}
+Processed By: ${refund.processedByName}
+
+Fines Refunded:
+--------------
 `;
 
-    payment.fineRecords.forEach((fine, index) => {
+    refund.fines.forEach((fine, index) => {
       receipt += `${index + 1}. ${fine.bookTitle}
-   Author: ${fine.author}
-   Days Overdue: ${fine.daysOverdue}
-   Fine Amount: ₹${fine.totalFine}
+   Amount Paid: ₹${fine.amount}
 
 `;
     });
 
     receipt += `
-Total Amount Paid: ₹${payment.amount}
+Total Refunded: ₹${refund.amount}
 
-Thank you for your payment!
 Generated on: ${new Date().toLocaleString()}
 `;
 
     return receipt;
   }
 
-  private downloadFile(data: string, filename: string): void {
-    const blob = new Blob([data], { type: 'text/plain' });
+  // The PDF's built-in fonts have no rupee sign, so amounts are printed as "Rs."
+  private buildReceiptPdf({ payment, verificationCode, verificationPath, issuedAt }: PaymentReceipt): jsPDF {
+    const doc = new jsPDF();
+    const money = (amount: number) => `Rs. ${amount.toFixed(2)}`;
+    const processingFee = payment.processingFee || 0;
+
+    // Branding
+    doc.setFillColor(52, 152, 219);
+    doc.rect(0, 0, 210, 30, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(22);
+    doc.text('Only Books', 20, 15);
+    doc.setFontSize(11);
+    doc.text('Library Fine Payment Receipt', 20, 23);
+    doc.setFontSize(10);
+    doc.text(`Receipt ${payment.paymentId}`, 190, 15, { align: 'right' });
+    doc.text(new Date(payment.paymentDate).toLocaleString(), 190, 23, { align: 'right' });
+
+    // Payment and member details
+    doc.setTextColor(44, 62, 80);
+    doc.setFontSize(10);
+    const details: [string, string][] = [
+      ['Member', `${payment.memberName} (${payment.memberId})`],
+      ['Transaction ID', payment.transactionId],
+      ['Payment Method', payment.paymentMethod.toUpperCase()],
+      ['Status', payment.status],
+      ['Gateway Reference', payment.gatewayResponse?.gatewayTransactionId || '-']
+    ];
+    details.forEach(([label, value], index) => {
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${label}:`, 20, 42 + index * 7);
+      doc.setFont('helvetica', 'normal');
+      doc.text(value, 65, 42 + index * 7);
+    });
+
+    // Itemized fines with the fee and total lines
+    autoTable(doc, {
+      startY: 80,
+      head: [['#', 'Book', 'Author', 'Days Overdue', 'Fine']],
+      body: payment.fineRecords.map((fine, index) => [
+        index + 1,
+        fine.bookTitle,
+        fine.author,
+        fine.daysOverdue,
+        money(fine.totalFine)
+      ]),
+      foot: [
+        ['', '', '', 'Fines subtotal', money(payment.amount)],
+        ['', '', '', 'Processing fee (incl. GST)', money(processingFee)],
+        ['', '', '', 'Total paid', money(payment.amount + processingFee)]
+      ],
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [52, 152, 219], textColor: 255, fontStyle: 'bold' },
+      footStyles: { fillColor: [255, 255, 255], textColor: [44, 62, 80], fontStyle: 'bold' },
+      columnStyles: { 0: { cellWidth: 10 }, 4: { halign: 'right' } },
+      alternateRowStyles: { fillColor: [249, 249, 249] },
+      margin: { left: 20, right: 20 }
+    });
+
+    let y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+    if (payment.refundAmount) {
+      doc.setFontSize(10);
+      doc.setTextColor(192, 57, 43);
+      doc.text(`${money(payment.refundAmount)} of this payment was refunded on ${new Date(payment.refundDate!).toLocaleDateString()}.`, 20, y);
+      y += 10;
+    }
+
+    // Verification QR and code
+    const verificationUrl = `${window.location.origin}${verificationPath}`;
+    const { modules } = QRCode.create(verificationUrl, { errorCorrectionLevel: 'M' });
+    const qrSize = 32;
+    const cell = qrSize / modules.size;
+    doc.setFillColor(0, 0, 0);
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) {
+          doc.rect(20 + col * cell, y + row * cell, cell, cell, 'F');
+        }
+      }
+    }
+
+    doc.setTextColor(44, 62, 80);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Verification code: ${verificationCode}`, 60, y + 8);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text('Scan the code or visit the address below to check this receipt:', 60, y + 15);
+    doc.setTextColor(52, 152, 219);
+    doc.textWithLink(verificationUrl, 60, y + 21, { url: verificationUrl });
+
+    // Footer
+    doc.setTextColor(127, 140, 141);
+    doc.setFontSize(8);
+    doc.text('Thank you for your payment! This is a computer-generated receipt and needs no signature.', 105, 280, { align: 'center' });
+    doc.text(`Issued ${new Date(issuedAt).toLocaleString()}`, 105, 285, { align: 'center' });
+
+    return doc;
+  }
+
+  private buildFineReportPdf(report: FineReport): jsPDF {
+    const doc = new jsPDF();
+    const money = (amount: number) => `Rs. ${amount.toFixed(2)}`;
+    const day = (date: Date) => new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC' });
+    const series: { label: string; color: [number, number, number]; key: 'totalCollected' | 'totalWaived' | 'outstandingAmount' }[] = [
+      { label: 'Collected', color: [39, 174, 96], key: 'totalCollected' },
+      { label: 'Waived', color: [243, 156, 18], key: 'totalWaived' },
+      { label: 'Outstanding', color: [231, 76, 60], key: 'outstandingAmount' }
+    ];
+
+    // Branding
+    doc.setFillColor(52, 152, 219);
+    doc.rect(0, 0, 210, 30, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(22);
+    doc.text('Only Books', 20, 15);
+    doc.setFontSize(11);
+    doc.text(`${report.reportType.charAt(0)}${report.reportType.slice(1).toLowerCase()} Fine Report`, 20, 23);
+    doc.setFontSize(10);
+    doc.text(`Report ${report.reportId}`, 190, 15, { align: 'right' });
+    doc.text(`${day(report.dateRange.from)} - ${day(report.dateRange.to)}`, 190, 23, { align: 'right' });
+
+    // Totals
+    const totals: [string, string][] = [
+      ['Total fines', money(report.totalFines)],
+      ...series.map(({ label, key }): [string, string] => [label, money(report[key])])
+    ];
+    doc.setTextColor(44, 62, 80);
+    doc.setFontSize(10);
+    totals.forEach(([label, value], index) => {
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${label}:`, 20, 42 + index * 7);
+      doc.setFont('helvetica', 'normal');
+      doc.text(value, 65, 42 + index * 7);
+    });
+
+    // Stacked bars per period, scaled to the largest period
+    const chartTop = 80;
+    const chartHeight = 50;
+    const slot = 170 / Math.max(report.periods.length, 1);
+    const largest = Math.max(...report.periods.map(period => period.totalFines), 1);
+    const labelEvery = Math.ceil(report.periods.length / 12);
+    doc.setDrawColor(189, 195, 199);
+    doc.line(20, chartTop + chartHeight, 190, chartTop + chartHeight);
+    doc.setFontSize(7);
+    report.periods.forEach((period, index) => {
+      const x = 20 + index * slot + slot * 0.15;
+      let top = chartTop + chartHeight;
+      series.forEach(({ color, key }) => {
+        const height = (period[key] / largest) * chartHeight;
+        if (height > 0) {
+          top -= height;
+          doc.setFillColor(...color);
+          doc.rect(x, top, slot * 0.7, height, 'F');
+        }
+      });
+      if (index % labelEvery === 0) {
+        doc.setTextColor(127, 140, 141);
+        doc.text(period.label, x + slot * 0.35, chartTop + chartHeight + 5, { align: 'center' });
+      }
+    });
+    series.forEach(({ label, color }, index) => {
+      doc.setFillColor(...color);
+      doc.rect(20 + index * 40, chartTop + chartHeight + 9, 3, 3, 'F');
+      doc.setTextColor(44, 62, 80);
+      doc.text(label, 25 + index * 40, chartTop + chartHeight + 11.5);
+    });
+
+    // Per-member breakdown
+    autoTable(doc, {
+      startY: chartTop + chartHeight + 20,
+      head: [['Member', 'Books', 'Avg Days', 'Total', 'Paid', 'Waived', 'Outstanding']],
+      body: report.memberStatistics.map(member => [
+        `${member.memberName} (${member.memberId})`,
+        member.overdueBooks,
+        member.averageDaysOverdue,
+        money(member.totalFines),
+        money(member.totalPaid),
+        money(member.totalWaived),
+        money(member.outstandingAmount)
+      ]),
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [52, 152, 219], textColor: 255, fontStyle: 'bold' },
+      columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' } },
+      alternateRowStyles: { fillColor: [249, 249, 249] },
+      margin: { left: 20, right: 20 }
+    });
+
+    // Footer
+    doc.setTextColor(127, 140, 141);
+    doc.setFontSize(8);
+    doc.text(`Generated ${new Date(report.generatedDate).toLocaleString()} by ${report.generatedByName || report.generatedBy}`, 105, 285, { align: 'center' });
+
+    return doc;
+  }
+
+  private downloadFile(data: string | Blob, filename: string): void {
+    const blob = data instanceof Blob ? data : new Blob([data], { type: 'text/plain' });
     const url = window.URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -310,7 +646,7 @@ Generated on: ${new Date().toLocaleString()}
       {
         id: 'upi',
         name: 'UPI Payment',
-        description: 'Pay using UPI ID or QR code',
+        description: 'Scan a QR code with any UPI app',
         icon: '📱',
         processingTime: 'Instant',
         isEnabled: true
@@ -330,55 +666,19 @@ Generated on: ${new Date().toLocaleString()}
         icon: '👛',
         processingTime: 'Instant',
         isEnabled: true
+      },
+      {
+        // Taken by staff at the circulation desk, not online
+        id: 'cash',
+        name: 'Cash',
+        description: 'Pay in person at the circulation desk',
+        icon: '💵',
+        processingTime: 'At the library',
+        isEnabled: false
       }
     ];
   }
 
-  // Validate payment method data
-  validatePaymentData(paymentMethod: string, formData: DummyPaymentForm): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    switch (paymentMethod) {
-      case 'card':
-        if (!formData.cardNumber || formData.cardNumber.replace(/\s/g, '').length < 13) {
-          errors.push('Invalid card number');
-        }
-        if (!formData.cardName || formData.cardName.trim().length < 2) {
-          errors.push('Cardholder name is required');
-        }
-        if (!formData.expiryMonth || !formData.expiryYear) {
-          errors.push('Expiry date is required');
-        }
-        if (!formData.cvv || formData.cvv.length < 3) {
-          errors.push('Valid CVV is required');
-        }
-        break;
-
-      case 'upi':
-        if (!formData.upiId || !formData.upiId.includes('@')) {
-          errors.push('Valid UPI ID is required');
-        }
-        break;
-
-      case 'netbanking':
-        if (!formData.bankName) {
-          errors.push('Bank selection is required');
-        }
-        break;
-
-      case 'wallet':
-        if (!formData.walletProvider) {
-          errors.push('Wallet provider selection is required');
-        }
-        break;
-    }
-
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
-  }
-
   // Admin functions
   updateFineStatus(fineId: string, status: 'PAID' | 'WAIVED' | 'PENDING', adminNotes?: string): Observable<{ success: boolean; message: string }> {
     return this.http.patch<{ success: boolean; message: string }>(`${this.API_URL}/${fineId}/status`, {
@@ -427,10 +727,11 @@ Generated on: ${new Date().toLocaleString()}
   }
 
   // Recalculate fines (trigger backend calculation)
-  recalculateFines(memberId?: string): Observable<{ success: boolean; message: string; updatedCount: number }> {
+  // Admins calling without a memberId run the full batch and get its report back
+  recalculateFines(memberId?: string): Observable<{ success: boolean; message: string; updatedCount: number; report?: FineBatchReport }> {
     const params = memberId ? new HttpParams().set('memberId', memberId) : new HttpParams();
     
-    return this.http.post<{ success: boolean; message: string; updatedCount: number }>(`${this.API_URL}/recalculate`, {}, { params })
+    return this.http.post<{ success: boolean; message: string; updatedCount: number; report?: FineBatchReport }>(`${this.API_URL}/recalculate`, {}, { params })
       .pipe(
         tap(response => {
           if (response.success) {
@@ -446,6 +747,228 @@ Generated on: ${new Date().toLocaleString()}
       );
   }
 
+  // Fine calculation rules (admin)
+  getFineRules(): Observable<FineCalculationRule[]> {
+    return this.http.get<FineCalculationRule[]>(`${this.API_URL}/rules`)
+      .pipe(
+        catchError(error => {
+          console.error('Get fine rules error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  saveFineRule(rule: Partial<FineCalculationRule>, ruleId?: string): Observable<{ success: boolean; message: string; rule: FineCalculationRule }> {
+    const request = ruleId
+      ? this.http.put<{ success: boolean; message: string; rule: FineCalculationRule }>(`${this.API_URL}/rules/${ruleId}`, rule)
+      : this.http.post<{ success: boolean; message: string; rule: FineCalculationRule }>(`${this.API_URL}/rules`, rule);
+
+    return request.pipe(
+      catchError(error => {
+        console.error('Save fine rule error:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  deleteFineRule(ruleId: string): Observable<{ success: boolean; message: string }> {
+    return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/rules/${ruleId}`)
+      .pipe(
+        catchError(error => {
+          console.error('Delete fine rule error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Days the library is closed; no fines accrue on them
+  getClosures(): Observable<LibraryClosure[]> {
+    return this.http.get<LibraryClosure[]>(`${this.API_URL}/closures`)
+      .pipe(
+        catchError(error => {
+          console.error('Get closures error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  addClosure(closure: Pick<LibraryClosure, 'startDate' | 'endDate' | 'reason'>): Observable<{ success: boolean; message: string; closure: LibraryClosure }> {
+    return this.http.post<{ success: boolean; message: string; closure: LibraryClosure }>(`${this.API_URL}/closures`, closure)
+      .pipe(
+        catchError(error => {
+          console.error('Add closure error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  deleteClosure(closureId: string): Observable<{ success: boolean; message: string }> {
+    return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/closures/${closureId}`)
+      .pipe(
+        catchError(error => {
+          console.error('Delete closure error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Nightly and manual recalculation runs, newest first; changes are only included by getFineRun
+  getFineRuns(page: number = 0, size: number = 10): Observable<PaginatedFineResponse<FineBatchReport>> {
+    const params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString());
+
+    return this.http.get<PaginatedFineResponse<FineBatchReport>>(`${this.API_URL}/runs`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get fine runs error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getFineRun(runId: string): Observable<FineBatchReport> {
+    return this.http.get<FineBatchReport>(`${this.API_URL}/runs/${runId}`)
+      .pipe(
+        catchError(error => {
+          console.error('Get fine run error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Fine reports (admin); the list leaves out memberStatistics, which getFineReport includes
+  getFineReports(page: number = 0, size: number = 10): Observable<PaginatedFineResponse<FineReport>> {
+    const params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString());
+
+    return this.http.get<PaginatedFineResponse<FineReport>>(`${this.API_URL}/reports`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get fine reports error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getFineReport(reportId: string): Observable<FineReport> {
+    return this.http.get<FineReport>(`${this.API_URL}/reports/${reportId}`)
+      .pipe(
+        catchError(error => {
+          console.error('Get fine report error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  generateFineReport(request: FineReportRequest): Observable<{ success: boolean; message: string; report: FineReport }> {
+    return this.http.post<{ success: boolean; message: string; report: FineReport }>(`${this.API_URL}/reports`, request)
+      .pipe(
+        catchError(error => {
+          console.error('Generate fine report error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  downloadFineReportCsv(reportId: string): Observable<Blob> {
+    return this.http.get(`${this.API_URL}/reports/${reportId}/export`, { responseType: 'blob' })
+      .pipe(
+        tap(blob => this.downloadFile(blob, `fine-report-${reportId}.csv`)),
+        catchError(error => {
+          console.error('Export fine report error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  downloadFineReportPdf(report: FineReport): void {
+    this.buildFineReportPdf(report).save(`fine-report-${report.reportId}.pdf`);
+  }
+
+  // Waiver requests; supporting documents are sent as multipart form data
+  requestWaiver(request: FineWaiverRequest, files: File[] = []): Observable<{ success: boolean; message: string; waiver: FineWaiver }> {
+    const formData = new FormData();
+    formData.append('memberId', request.requestedBy);
+    formData.append('fineIds', JSON.stringify(request.fineIds));
+    formData.append('reason', request.reason);
+    files.forEach(file => formData.append('documents', file));
+
+    return this.http.post<{ success: boolean; message: string; waiver: FineWaiver }>(this.WAIVER_URL, formData)
+      .pipe(
+        tap(() => this.loadUserData()),
+        catchError(error => {
+          console.error('Request waiver error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getMemberWaivers(memberId: string): Observable<FineWaiver[]> {
+    const params = new HttpParams().set('memberId', memberId);
+
+    return this.http.get<FineWaiver[]>(`${this.WAIVER_URL}/user`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get member waivers error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Admin review queue; status 'OPEN' returns requests still waiting for a decision
+  getWaivers(status?: string, page: number = 0, size: number = 10): Observable<PaginatedFineResponse<FineWaiver>> {
+    let params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString());
+
+    if (status) {
+      params = params.set('status', status);
+    }
+
+    return this.http.get<PaginatedFineResponse<FineWaiver>>(this.WAIVER_URL, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Get waivers error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  decideWaiver(waiverId: string, decision: WaiverDecision['decision'], notes?: string): Observable<FineWaiverResponse> {
+    return this.http.patch<FineWaiverResponse>(`${this.WAIVER_URL}/${waiverId}/decision`, { decision, notes })
+      .pipe(
+        catchError(error => {
+          console.error('Decide waiver error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  cancelWaiver(waiverId: string): Observable<{ success: boolean; message: string; waiver: FineWaiver }> {
+    return this.http.delete<{ success: boolean; message: string; waiver: FineWaiver }>(`${this.WAIVER_URL}/${waiverId}`)
+      .pipe(
+        tap(() => this.loadUserData()),
+        catchError(error => {
+          console.error('Cancel waiver error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Attachments need the auth header, so they are fetched as a blob rather than linked
+  downloadWaiverAttachment(waiver: FineWaiver, index: number): Observable<Blob> {
+    return this.http.get(`${this.WAIVER_URL}/${waiver.id}/attachments/${index}`, { responseType: 'blob' })
+      .pipe(
+        tap(blob => this.downloadFile(blob, waiver.attachments[index].fileName)),
+        catchError(error => {
+          console.error('Download waiver attachment error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
   // Refresh data (manual refresh)
   refreshData(): void {
     this.loadUserData();
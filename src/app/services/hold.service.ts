@@ -0,0 +1,84 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, BehaviorSubject, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { Hold, HoldResponse } from '../models/hold.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HoldService {
+  private readonly API_URL = '/api/holds';
+
+  // Active holds of the signed-in member, shared by /borrow and /borrowed-returned
+  private holdsSubject = new BehaviorSubject<Hold[]>([]);
+  public holds$ = this.holdsSubject.asObservable();
+
+  constructor(private http: HttpClient) {}
+
+  // Get a member's active holds with their queue positions
+  getMemberHolds(memberId: string, includeClosed: boolean = false): Observable<Hold[]> {
+    let params = new HttpParams().set('memberId', memberId);
+    if (includeClosed) {
+      params = params.set('includeClosed', 'true');
+    }
+
+    return this.http.get<Hold[]>(`${this.API_URL}/user`, { params })
+      .pipe(
+        tap(holds => {
+          if (!includeClosed) {
+            this.holdsSubject.next(holds);
+          }
+        }),
+        catchError(error => {
+          console.error('Get member holds error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Join the queue for a book with no copies on the shelf
+  placeHold(memberId: string, bookId: string): Observable<HoldResponse> {
+    return this.http.post<HoldResponse>(`${this.API_URL}`, { memberId, bookId })
+      .pipe(
+        tap(() => this.refresh(memberId)),
+        catchError(error => {
+          console.error('Place hold error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  cancelHold(hold: Hold): Observable<HoldResponse> {
+    return this.http.delete<HoldResponse>(`${this.API_URL}/${hold.id}`)
+      .pipe(
+        tap(() => this.refresh(hold.memberId)),
+        catchError(error => {
+          console.error('Cancel hold error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Queue for one book in pickup order (for admin)
+  getBookQueue(bookId: string): Observable<Hold[]> {
+    return this.http.get<Hold[]>(`${this.API_URL}/book/${bookId}`)
+      .pipe(
+        catchError(error => {
+          console.error('Get hold queue error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Find the member's active hold on a book, if any
+  holdFor(bookId: string): Hold | undefined {
+    return this.holdsSubject.value.find(hold => hold.bookId === bookId);
+  }
+
+  refresh(memberId: string): void {
+    this.getMemberHolds(memberId).subscribe({
+      error: (error) => console.error('Error refreshing holds:', error)
+    });
+  }
+}
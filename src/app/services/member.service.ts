@@ -15,7 +15,7 @@ import {
   providedIn: 'root'
 })
 export class MemberService {
-  private readonly API_URL = 'http://localhost:8080/api/members';
+  private readonly API_URL = '/api/members';
   
   constructor(private http: HttpClient) {}
 
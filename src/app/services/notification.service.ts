@@ -0,0 +1,156 @@
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, BehaviorSubject, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { AppNotification, AppNotificationPage } from '../models/notification.model';
+
+// Wait before asking for a new stream token after the stream drops for good
+const RECONNECT_DELAY_MS = 5000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private readonly API_URL = '/api/notifications';
+
+  // Latest notifications of the signed-in member and how many are unread, kept current by the live stream
+  private notificationsSubject = new BehaviorSubject<AppNotification[]>([]);
+  public notifications$ = this.notificationsSubject.asObservable();
+
+  private unreadCountSubject = new BehaviorSubject<number>(0);
+  public unreadCount$ = this.unreadCountSubject.asObservable();
+
+  private eventSource: EventSource | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private memberId: string | null = null;
+  private isBrowser: boolean;
+
+  constructor(
+    private http: HttpClient,
+    @Inject(PLATFORM_ID) private platformId: Object
+  ) {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  /**
+   * Load the member's notifications and keep a live stream open for new ones.
+   * Safe to call on every page: it does nothing if that member is already connected, and nothing during SSR.
+   */
+  connect(memberId: string): void {
+    if (!this.isBrowser || typeof EventSource === 'undefined' || this.memberId === memberId) {
+      return;
+    }
+
+    this.disconnect();
+    this.memberId = memberId;
+    this.getInbox().subscribe({ error: () => {} });
+    this.openStream();
+  }
+
+  disconnect(): void {
+    this.eventSource?.close();
+    this.eventSource = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.memberId = null;
+    this.notificationsSubject.next([]);
+    this.unreadCountSubject.next(0);
+  }
+
+  getInbox(page: number = 0, size: number = 10): Observable<AppNotificationPage> {
+    const params = new HttpParams()
+      .set('page', page.toString())
+      .set('size', size.toString());
+
+    return this.http.get<AppNotificationPage>(`${this.API_URL}/inbox`, { params })
+      .pipe(
+        tap(inbox => {
+          if (page === 0) {
+            this.notificationsSubject.next(inbox.content);
+          }
+          this.unreadCountSubject.next(inbox.unreadCount);
+        }),
+        catchError(error => {
+          console.error('Get notifications error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  markAsRead(notificationId: string): Observable<{ success: boolean; message: string; notification: AppNotification; unreadCount: number }> {
+    return this.http.patch<{ success: boolean; message: string; notification: AppNotification; unreadCount: number }>(`${this.API_URL}/inbox/${notificationId}/read`, {})
+      .pipe(
+        tap(response => {
+          this.notificationsSubject.next(this.notificationsSubject.value.map(n => n.id === notificationId ? response.notification : n));
+          this.unreadCountSubject.next(response.unreadCount);
+        }),
+        catchError(error => {
+          console.error('Mark notification read error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  markAllAsRead(): Observable<{ success: boolean; message: string; unreadCount: number }> {
+    return this.http.patch<{ success: boolean; message: string; unreadCount: number }>(`${this.API_URL}/inbox/read-all`, {})
+      .pipe(
+        tap(() => {
+          const now = new Date();
+          this.notificationsSubject.next(this.notificationsSubject.value.map(n => n.readAt ? n : { ...n, readAt: now }));
+          this.unreadCountSubject.next(0);
+        }),
+        catchError(error => {
+          console.error('Mark all notifications read error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // EventSource cannot send the access token, so each connection starts with a short-lived stream token
+  private openStream(): void {
+    const memberId = this.memberId;
+    this.http.post<{ token: string }>(`${this.API_URL}/stream-token`, {}).subscribe({
+      next: ({ token }) => {
+        if (this.memberId !== memberId) return;
+
+        const source = new EventSource(`${this.API_URL}/stream?token=${encodeURIComponent(token)}`);
+        source.addEventListener('notification', (event) => {
+          const notification: AppNotification = JSON.parse((event as MessageEvent).data);
+          this.notificationsSubject.next([notification, ...this.notificationsSubject.value].slice(0, 10));
+          this.unreadCountSubject.next(this.unreadCountSubject.value + 1);
+        });
+        source.addEventListener('unread', (event) => {
+          this.unreadCountSubject.next(JSON.parse((event as MessageEvent).data).unreadCount);
+        });
+        // The browser retries dropped connections itself; once it gives up the token has expired, so start over
+        source.onerror = () => {
+          if (source.readyState === EventSource.CLOSED) {
+            this.scheduleReconnect();
+          }
+        };
+        this.eventSource = source;
+      },
+      error: (error) => {
+        console.error('Open notification stream error:', error);
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private scheduleReconnect(): void {
+    this.eventSource?.close();
+    this.eventSource = null;
+    if (!this.memberId || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.memberId) return;
+      // Catch up on anything sent while disconnected
+      this.getInbox().subscribe({ error: () => {} });
+      this.openStream();
+    }, RECONNECT_DELAY_MS);
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { BorrowingPolicy, MembershipType, PolicyResponse } from '../models/policy.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PolicyService {
+  private readonly API_URL = '/api/policies';
+
+  constructor(private http: HttpClient) {}
+
+  getPolicies(): Observable<BorrowingPolicy[]> {
+    return this.http.get<BorrowingPolicy[]>(this.API_URL)
+      .pipe(
+        catchError(error => {
+          console.error('Get policies error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getPolicy(membershipType: MembershipType): Observable<BorrowingPolicy> {
+    return this.http.get<BorrowingPolicy>(`${this.API_URL}/${membershipType}`)
+      .pipe(
+        catchError(error => {
+          console.error('Get policy error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Changes apply to loans made from now on (for admin)
+  updatePolicy(membershipType: MembershipType, policy: Partial<BorrowingPolicy>): Observable<PolicyResponse> {
+    return this.http.put<PolicyResponse>(`${this.API_URL}/${membershipType}`, policy)
+      .pipe(
+        catchError(error => {
+          console.error('Update policy error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  resetPolicy(membershipType: MembershipType): Observable<PolicyResponse> {
+    return this.http.delete<PolicyResponse>(`${this.API_URL}/${membershipType}`)
+      .pipe(
+        catchError(error => {
+          console.error('Reset policy error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+}
@@ -19,8 +19,8 @@ import { AuthService } from './auth.service';
   providedIn: 'root',
 })
 export class UserService {
-  private readonly API_URL = 'http://localhost:8080/api/users';
-  private readonly BORROW_URL = 'http://localhost:8080/api/borrows';
+  private readonly API_URL = '/api/users';
+  private readonly BORROW_URL = '/api/borrows';
   
   // BehaviorSubject for real-time updates
   private borrowHistorySubject = new BehaviorSubject<BorrowHistoryEntry[]>([]);
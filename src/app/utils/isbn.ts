@@ -0,0 +1,80 @@
+/**
+ * ISBN helpers shared by the Angular forms and the API.
+ * Books are stored with their ISBN-13 without hyphens, e.g. "0-306-40615-2" becomes "9780306406157".
+ */
+
+// Drop an "ISBN" / "ISBN-13:" prefix, hyphens and spaces; keep a trailing X check digit
+export function cleanIsbn(value: string | null | undefined): string {
+  return (value || '')
+    .trim()
+    .replace(/^ISBN(?:-1[03])?:?/i, '')
+    .replace(/[\s-]/g, '')
+    .toUpperCase();
+}
+
+export function isValidIsbn10(value: string): boolean {
+  const isbn = cleanIsbn(value);
+  if (!/^\d{9}[\dX]$/.test(isbn)) {
+    return false;
+  }
+
+  const sum = isbn.split('').reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+  return sum % 11 === 0;
+}
+
+export function isValidIsbn13(value: string): boolean {
+  const isbn = cleanIsbn(value);
+  if (!/^97[89]\d{10}$/.test(isbn)) {
+    return false;
+  }
+
+  const sum = isbn.split('').reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+  return sum % 10 === 0;
+}
+
+export function isValidIsbn(value: string | null | undefined): boolean {
+  return isValidIsbn10(value || '') || isValidIsbn13(value || '');
+}
+
+// Prefix 978 and recompute the check digit. Expects a valid ISBN-10.
+export function isbn10To13(value: string): string {
+  const body = `978${cleanIsbn(value).slice(0, 9)}`;
+  const sum = body.split('').reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+  return body + ((10 - (sum % 10)) % 10).toString();
+}
+
+// Only 978 ISBN-13s have an ISBN-10 form; returns null for 979 or invalid input
+export function isbn13To10(value: string): string | null {
+  const isbn = cleanIsbn(value);
+  if (!isValidIsbn13(isbn) || !isbn.startsWith('978')) {
+    return null;
+  }
+
+  const body = isbn.slice(3, 12);
+  const sum = body.split('').reduce((total, char, index) => total + Number(char) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return body + (check === 10 ? 'X' : check.toString());
+}
+
+/**
+ * Canonical ISBN-13 for a valid ISBN-10 or ISBN-13, or null when the checksum fails.
+ */
+export function normalizeIsbn(value: string | null | undefined): string | null {
+  const isbn = cleanIsbn(value);
+  if (isValidIsbn13(isbn)) return isbn;
+  if (isValidIsbn10(isbn)) return isbn10To13(isbn);
+  return null;
+}
+
+/**
+ * Comparison key for duplicate detection and lookups. Valid ISBNs compare by their ISBN-13,
+ * so both forms of the same edition match; anything else falls back to the cleaned text.
+ */
+export function isbnKey(value: string | null | undefined): string {
+  return normalizeIsbn(value) || cleanIsbn(value);
+}
+
+export function isSameIsbn(a: string | null | undefined, b: string | null | undefined): boolean {
+  const key = isbnKey(a);
+  return key !== '' && key === isbnKey(b);
+}
@@ -0,0 +1,13 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { isValidIsbn } from './isbn';
+
+// Checksum-aware ISBN-10/ISBN-13 check; empty values are left to Validators.required
+export function isbnValidator(): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const value = (control.value || '').toString().trim();
+    if (!value || isValidIsbn(value)) {
+      return null;
+    }
+    return { isbn: true };
+  };
+}